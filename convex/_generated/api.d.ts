@@ -15,13 +15,20 @@ import type {
 } from "convex/server";
 import type * as advisorMemories from "../advisorMemories.js";
 import type * as advisors from "../advisors.js";
+import type * as audit from "../audit.js";
 import type * as auth from "../auth.js";
 import type * as chat from "../chat.js";
 import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
+import type * as documents from "../documents.js";
+import type * as feedback from "../feedback.js";
+import type * as intake from "../intake.js";
 import type * as messages from "../messages.js";
 import type * as middleware from "../middleware.js";
 import type * as realtime from "../realtime.js";
 import type * as threadSummaries from "../threadSummaries.js";
+import type * as usage from "../usage.js";
+import type * as userProfiles from "../userProfiles.js";
 import type * as users from "../users.js";
 
 /**
@@ -35,13 +42,20 @@ import type * as users from "../users.js";
 declare const fullApi: ApiFromModules<{
   advisorMemories: typeof advisorMemories;
   advisors: typeof advisors;
+  audit: typeof audit;
   auth: typeof auth;
   chat: typeof chat;
   conversations: typeof conversations;
+  crons: typeof crons;
+  documents: typeof documents;
+  feedback: typeof feedback;
+  intake: typeof intake;
   messages: typeof messages;
   middleware: typeof middleware;
   realtime: typeof realtime;
   threadSummaries: typeof threadSummaries;
+  usage: typeof usage;
+  userProfiles: typeof userProfiles;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
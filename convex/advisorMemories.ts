@@ -1,6 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, requireMigrationAccess, validateConversationOwnership } from "./middleware";
 
 /**
  * Advisor Memory Management Functions
@@ -66,8 +66,11 @@ export const create = mutation({
     value: v.any(),
     createdAt: v.number(),
     updatedAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     const memoryId = await ctx.db.insert("advisorMemories", {
       conversationId: args.conversationId,
       advisorId: args.advisorId,
@@ -174,8 +177,10 @@ export const clearAdvisorMemories = mutation({
 
 // List all advisor memories (for migration compatibility)
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { secret: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     return await ctx.db.query("advisorMemories").collect();
   },
 });
@@ -1,7 +1,14 @@
-import { v } from "convex/values";
-import { mutation, query, action } from "./_generated/server";
-import { api } from "./_generated/api";
-import { requireAdmin } from "./middleware";
+import { ConvexError, v } from "convex/values";
+import { internalMutation, mutation, query, action } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { enforceRateLimit, requireMigrationAccess, requirePermission } from "./middleware";
+import { recordAuditEvent } from "./audit";
+import {
+  describeAdvisorErrors,
+  parseAdvisorJSON,
+  validateAdvisorDocument,
+  type AdvisorFieldError,
+} from "../src/server/advisors/schema";
 
 /**
  * Advisor Management Functions
@@ -69,6 +76,7 @@ export const create = mutation({
       role: v.optional(v.string()),
       responsibilities: v.optional(v.array(v.string())),
       constraints: v.optional(v.array(v.string())),
+      tools: v.optional(v.array(v.string())),
     })),
     components: v.array(v.any()),
     metadata: v.optional(v.object({
@@ -84,8 +92,11 @@ export const create = mutation({
     tags: v.array(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const actor = await requireMigrationAccess(ctx, args.secret);
+
     const advisorId = await ctx.db.insert("advisors", {
       firstName: args.firstName,
       lastName: args.lastName,
@@ -103,6 +114,14 @@ export const create = mutation({
       updatedAt: args.updatedAt,
     });
 
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.create",
+      target: { table: "advisors", id: advisorId, label: args.persona.name },
+      after: await ctx.db.get(advisorId),
+      origin: { function: "advisors:create" },
+    });
+
     return advisorId;
   },
 });
@@ -126,6 +145,8 @@ export const createAdvisor = mutation({
     status: v.optional(v.union(v.literal("active"), v.literal("inactive"), v.literal("archived"))),
   },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "advisors:write");
+
     const now = Date.now();
     const resolvedImage = (args.persona as any)?.image || args.imageUrl;
     const resolvedTags = args.tags || (args.metadata?.tags as string[] | undefined) || [];
@@ -146,6 +167,14 @@ export const createAdvisor = mutation({
       updatedAt: now,
     });
 
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.create",
+      target: { table: "advisors", id: advisorId, label: (args.persona as any)?.name },
+      after: await ctx.db.get(advisorId),
+      origin: { function: "advisors:createAdvisor" },
+    });
+
     return advisorId;
   },
 });
@@ -169,6 +198,7 @@ export const updateAdvisor = mutation({
       role: v.optional(v.string()),
       responsibilities: v.optional(v.array(v.string())),
       constraints: v.optional(v.array(v.string())),
+      tools: v.optional(v.array(v.string())),
     })),
     components: v.optional(v.array(v.any())),
     metadata: v.optional(v.object({
@@ -184,6 +214,8 @@ export const updateAdvisor = mutation({
     tags: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "advisors:write");
+
     const { advisorId, ...updates } = args;
 
     // Filter out undefined values
@@ -192,10 +224,21 @@ export const updateAdvisor = mutation({
     );
 
     if (Object.keys(filteredUpdates).length > 0) {
+      const before = await ctx.db.get(advisorId);
       await ctx.db.patch(advisorId, {
         ...filteredUpdates,
         updatedAt: Date.now(),
       });
+
+      const after = await ctx.db.get(advisorId);
+      await recordAuditEvent(ctx, {
+        actor,
+        action: "advisor.update",
+        target: { table: "advisors", id: advisorId, label: after?.persona?.name },
+        before,
+        after,
+        origin: { function: "advisors:updateAdvisor" },
+      });
     }
   },
 });
@@ -204,10 +247,22 @@ export const updateAdvisor = mutation({
 export const archiveAdvisor = mutation({
   args: { advisorId: v.id("advisors") },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "advisors:write");
+
+    const before = await ctx.db.get(args.advisorId);
     await ctx.db.patch(args.advisorId, {
       status: "archived",
       updatedAt: Date.now(),
     });
+
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.archive",
+      target: { table: "advisors", id: args.advisorId, label: before?.persona?.name },
+      before,
+      after: await ctx.db.get(args.advisorId),
+      origin: { function: "advisors:archiveAdvisor" },
+    });
   },
 });
 
@@ -215,9 +270,20 @@ export const archiveAdvisor = mutation({
 export const deleteAdvisor = mutation({
   args: { advisorId: v.id("advisors") },
   handler: async (ctx, args) => {
+    const actor = await requirePermission(ctx, "advisors:delete");
+
     // Note: In a real app, you'd want to handle cascading deletes
     // or prevent deletion if advisor has conversations/messages
+    const before = await ctx.db.get(args.advisorId);
     await ctx.db.delete(args.advisorId);
+
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.delete",
+      target: { table: "advisors", id: args.advisorId, label: before?.persona?.name },
+      before,
+      origin: { function: "advisors:deleteAdvisor" },
+    });
   },
 });
 
@@ -238,10 +304,7 @@ export const backfillAdvisorPersonas = mutation({
   args: { secret: v.optional(v.string()) },
   handler: async (ctx, args) => {
     // Allow one-time execution with secret or require admin
-    const secretOk = args.secret && process.env.MIGRATION_SECRET && args.secret === process.env.MIGRATION_SECRET;
-    if (!secretOk) {
-      await requireAdmin(ctx);
-    }
+    const actor = await requireMigrationAccess(ctx, args.secret);
 
     const advisors = await ctx.db.query("advisors").collect();
     let processed = 0;
@@ -266,6 +329,15 @@ export const backfillAdvisorPersonas = mutation({
     }
 
     console.log("backfillAdvisorPersonas: processed=", processed, "updated=", updated);
+
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.backfill",
+      target: { table: "advisors", id: "*", label: "backfillAdvisorPersonas" },
+      details: { processed, updated },
+      origin: { function: "advisors:backfillAdvisorPersonas" },
+    });
+
     return { processed, updated, skipped: processed - updated };
   },
 });
@@ -281,10 +353,7 @@ const PHOTO_MAP: Record<string, string> = {
 export const backfillAdvisorPhotos = mutation({
   args: { secret: v.optional(v.string()) },
   handler: async (ctx, args) => {
-    const secretOk = args.secret && process.env.MIGRATION_SECRET && args.secret === process.env.MIGRATION_SECRET;
-    if (!secretOk) {
-      await requireAdmin(ctx);
-    }
+    const actor = await requireMigrationAccess(ctx, args.secret);
 
     const advisors = await ctx.db.query("advisors").collect();
     let processed = 0;
@@ -307,16 +376,33 @@ export const backfillAdvisorPhotos = mutation({
     }
 
     console.log("backfillAdvisorPhotos:", { processed, updated, skipped: processed - updated });
+
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.backfill",
+      target: { table: "advisors", id: "*", label: "backfillAdvisorPhotos" },
+      details: { processed, updated },
+      origin: { function: "advisors:backfillAdvisorPhotos" },
+    });
+
     return { processed, updated, skipped: processed - updated };
   },
 });
 
 
-// Create or update advisor from full JSON structure
-export const createAdvisorFromJSON = mutation({
+// Create or update advisor from full JSON structure; each write counts against the advisorUpload rate limit
+export const createAdvisorFromJSON = internalMutation({
   args: { advisor: v.any() },
   handler: async (ctx, { advisor }) => {
-    const a = advisor as any;
+    const actor = await requirePermission(ctx, "advisors:write");
+    await enforceRateLimit(ctx, "advisorUpload", actor);
+
+    const validation = validateAdvisorDocument(advisor);
+    if (!validation.ok) {
+      throw new Error(`Invalid advisor: ${describeAdvisorErrors(validation.errors)}`);
+    }
+
+    const a = validation.advisor as any;
     const persona = a.persona || {};
     const name: string | undefined = persona.name;
     const [firstName, ...rest] = (name || "").split(" ");
@@ -344,12 +430,25 @@ export const createAdvisorFromJSON = mutation({
       updatedAt: now,
     } as const;
 
+    let advisorId;
     if (existing) {
       await ctx.db.patch(existing._id, { ...doc, createdAt: existing.createdAt, updatedAt: now });
-      return existing._id;
+      advisorId = existing._id;
     } else {
-      return await ctx.db.insert("advisors", doc as any);
+      advisorId = await ctx.db.insert("advisors", doc as any);
     }
+
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.upload",
+      target: { table: "advisors", id: advisorId, label: name },
+      before: existing,
+      after: await ctx.db.get(advisorId),
+      details: { replaced: Boolean(existing) },
+      origin: { function: "advisors:createAdvisorFromJSON" },
+    });
+
+    return advisorId;
   },
 });
 
@@ -357,10 +456,7 @@ export const createAdvisorFromJSON = mutation({
 export const backfillAdvisorPersonaFieldsFromJSON = mutation({
   args: { advisors: v.array(v.any()), secret: v.optional(v.string()) },
   handler: async (ctx, { advisors, secret }) => {
-    const secretOk = secret && process.env.MIGRATION_SECRET && secret === process.env.MIGRATION_SECRET;
-    if (!secretOk) {
-      await requireAdmin(ctx);
-    }
+    const actor = await requireMigrationAccess(ctx, secret);
 
     const all = await ctx.db.query("advisors").collect();
     let processed = 0, updated = 0;
@@ -396,6 +492,14 @@ export const backfillAdvisorPersonaFieldsFromJSON = mutation({
       updated++;
     }
 
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "advisor.backfill",
+      target: { table: "advisors", id: "*", label: "backfillAdvisorPersonaFieldsFromJSON" },
+      details: { processed, updated },
+      origin: { function: "advisors:backfillAdvisorPersonaFieldsFromJSON" },
+    });
+
     return { processed, updated, skipped: processed - updated };
   },
 });
@@ -404,23 +508,25 @@ export const backfillAdvisorPersonaFieldsFromJSON = mutation({
 // Public action: upload a single advisor JSON (string or object) and create/upsert
 export const uploadAdvisorJSON = action({
   args: { jsonString: v.optional(v.string()), advisor: v.optional(v.any()) },
-  handler: async (ctx, args): Promise<{ ok: boolean; advisorId?: string; error?: string }> => {
+  handler: async (ctx, args): Promise<{ ok: boolean; advisorId?: string; error?: string; fieldErrors?: AdvisorFieldError[]; retryAfterMs?: number }> => {
     try {
-      let advisor: any | undefined = args.advisor;
-      if (!advisor && args.jsonString) {
-        advisor = JSON.parse(args.jsonString);
-      }
-      if (!advisor || typeof advisor !== "object") {
+      if (!args.advisor && !args.jsonString) {
         return { ok: false, error: "Missing or invalid advisor JSON." } as const;
       }
-      // Minimal validation
-      const persona = advisor.persona;
-      if (!persona || typeof persona.name !== "string" || typeof persona.title !== "string") {
-        return { ok: false, error: "Invalid advisor persona. 'name' and 'title' are required." } as const;
+      // Field-level errors against the advisor schema (see src/server/advisors/schema)
+      const validation = args.advisor ? validateAdvisorDocument(args.advisor) : parseAdvisorJSON(args.jsonString!);
+      if (!validation.ok) {
+        return { ok: false, error: describeAdvisorErrors(validation.errors), fieldErrors: validation.errors } as const;
       }
+      const advisor = validation.advisor;
 
-      return { ok: true, advisorId: await ctx.runMutation(api.advisors.createAdvisorFromJSON, { advisor }) } as const;
+      return { ok: true, advisorId: await ctx.runMutation(internal.advisors.createAdvisorFromJSON, { advisor }) } as const;
     } catch (e: any) {
+      // Refused uploads report when the user may try again
+      if (e instanceof ConvexError) {
+        const data = e.data as { message?: string; retryAfterMs?: number };
+        return { ok: false, error: data.message || "Upload refused", retryAfterMs: data.retryAfterMs } as const;
+      }
       return { ok: false, error: e?.message || "Unknown error" } as const;
     }
   },
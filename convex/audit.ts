@@ -0,0 +1,105 @@
+import { v } from "convex/values";
+import { paginationOptsValidator, type PaginationOptions } from "convex/server";
+import { query, type MutationCtx } from "./_generated/server";
+import type { Doc, Id, TableNames } from "./_generated/dataModel";
+import { authenticatedQuery, requirePermission } from "./middleware";
+import { diffFields, type AuditAction, type AuditCredential } from "../src/server/auth/audit";
+import { resolveRole } from "../src/server/auth/roles";
+
+/**
+ * Audit Log Functions
+ *
+ * Mutations that change plans, roles, advisors or delete conversations call
+ * recordAuditEvent; admins page through the events with getAuditEvents. There
+ * is deliberately no function that updates or deletes an event.
+ */
+
+// Append one event; `before` and `after` are full documents and only the changed fields are kept
+export async function recordAuditEvent(
+  ctx: MutationCtx,
+  event: {
+    actor: Doc<"users"> | null;
+    action: AuditAction;
+    target: { table: TableNames; id: string; label?: string };
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+    details?: Record<string, any>;
+    origin: { function: string; credential?: AuditCredential };
+  }
+) {
+  const diff = diffFields(event.before, event.after);
+  await ctx.db.insert("auditEvents", {
+    actorId: event.actor?._id,
+    actorRole: event.actor ? resolveRole(event.actor) : undefined,
+    action: event.action,
+    targetTable: event.target.table,
+    targetId: event.target.id,
+    targetLabel: event.target.label,
+    before: Object.keys(diff.before).length > 0 ? diff.before : undefined,
+    after: Object.keys(diff.after).length > 0 ? diff.after : undefined,
+    details: event.details,
+    origin: {
+      function: event.origin.function,
+      // No signed-in actor means the migration secret let the call through
+      credential: event.origin.credential ?? (event.actor ? "session" : "migration-secret"),
+    },
+    createdAt: Date.now(),
+  });
+}
+
+// Audit events, newest first, optionally for one action, actor or target (admin function)
+export const getAuditEvents = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    action: v.optional(v.string()),
+    actorId: v.optional(v.id("users")),
+    targetId: v.optional(v.string()),
+  },
+  handler: authenticatedQuery(async (
+    ctx,
+    args: { paginationOpts: PaginationOptions; action?: string; actorId?: Id<"users">; targetId?: string },
+    user
+  ) => {
+    await requirePermission(ctx, "audit:read", user);
+
+    // Use the most selective index; the remaining filters narrow the page
+    let events;
+    if (args.targetId) {
+      const targetId = args.targetId;
+      events = ctx.db.query("auditEvents").withIndex("by_target", (q) => q.eq("targetId", targetId));
+    } else if (args.actorId) {
+      const actorId = args.actorId;
+      events = ctx.db.query("auditEvents").withIndex("by_actor", (q) => q.eq("actorId", actorId));
+    } else if (args.action) {
+      const action = args.action;
+      events = ctx.db.query("auditEvents").withIndex("by_action", (q) => q.eq("action", action));
+    } else {
+      events = ctx.db.query("auditEvents").withIndex("by_created_at");
+    }
+
+    const page = await events
+      .order("desc")
+      .filter((q) => {
+        const conditions = [];
+        if (args.action) conditions.push(q.eq(q.field("action"), args.action));
+        if (args.actorId) conditions.push(q.eq(q.field("actorId"), args.actorId));
+        return q.and(...conditions);
+      })
+      .paginate(args.paginationOpts);
+
+    // Actor names for display; migrations have no actor
+    const actorNames = new Map<string, string | null>();
+    for (const actorId of new Set(page.page.flatMap((event) => (event.actorId ? [event.actorId] : [])))) {
+      const actor = await ctx.db.get(actorId);
+      actorNames.set(actorId, actor?.name || actor?.email || null);
+    }
+
+    return {
+      ...page,
+      page: page.page.map((event) => ({
+        ...event,
+        actorName: event.actorId ? actorNames.get(event.actorId) ?? null : null,
+      })),
+    };
+  }),
+});
@@ -1,6 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { QueryCtx, MutationCtx } from "./_generated/server";
+import { hasPermission, resolveRole } from "../src/server/auth/roles";
+import { recordAuditEvent } from "./audit";
 
 /**
  * Authentication Functions
@@ -268,6 +270,7 @@ export const updateCurrentUserProfile = mutation({
 
 /**
  * Update current user's plan
+ * Plans are billing state, so only users who can manage users may change their own
  */
 export const updateCurrentUserPlan = mutation({
   args: {
@@ -275,11 +278,23 @@ export const updateCurrentUserPlan = mutation({
   },
   handler: async (ctx, args) => {
     const user = await requireUser(ctx);
+    if (!hasPermission(resolveRole(user), "users:manage")) {
+      throw new Error("Access denied: plans are changed through billing");
+    }
     
     await ctx.db.patch(user._id, {
       plan: args.plan,
       updatedAt: Date.now(),
     });
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.plan",
+      target: { table: "users", id: user._id, label: user.name || user.email },
+      before: user,
+      after: await ctx.db.get(user._id),
+      origin: { function: "auth:updateCurrentUserPlan" },
+    });
     
     return user._id;
   },
@@ -296,6 +311,14 @@ export const deleteCurrentUser = mutation({
     // Note: In a real app, you'd want to handle cascading deletes
     // or prevent deletion if user has conversations
     await ctx.db.delete(user._id);
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.delete",
+      target: { table: "users", id: user._id, label: user.name || user.email },
+      before: user,
+      origin: { function: "auth:deleteCurrentUser" },
+    });
     
     return { success: true };
   },
@@ -1,8 +1,82 @@
-import { v } from "convex/values";
-import { action } from "./_generated/server";
-import { api } from "./_generated/api";
+import { ConvexError, v } from "convex/values";
+import { action, query, type ActionCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
 import { requireUser } from "./auth";
-import { validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, validateConversationOwnership } from "./middleware";
+import {
+  fetchWithModelFallback,
+  modelsForPlan,
+  readModelTiers,
+  resolveModel,
+  resolveTemperature,
+} from "../src/server/llm/models";
+import {
+  createChatProvider,
+  parseToolCalls,
+  type ChatCompletionMessage,
+  type ChatProvider,
+} from "../src/server/llm/providers";
+import {
+  buildSummaryPrompt,
+  formatSummaryForContext,
+  planSummaryRange,
+  selectBranchSummary,
+  type SummaryBoundary,
+} from "../src/server/llm/summaries";
+import {
+  buildMemoryExtractionPrompt,
+  parseExtractedMemories,
+  type AdvisorMemoryFact,
+} from "../src/server/llm/memories";
+import { proposeProfileUpdates, type FounderProfile } from "../src/server/llm/profile";
+import {
+  extractCitations,
+  formatPassagesForPrompt,
+  searchDocuments,
+  type DocumentCitation,
+  type DocumentPassage,
+} from "../src/server/llm/documents";
+import { extractMentionIds, formatBoardMeetingContext, planBoardMeeting } from "../src/server/llm/board";
+import {
+  extractComponentOutputs,
+  postProcessResponse,
+  resolveAdvisorComponents,
+} from "../src/server/advisors/components";
+import { parseAdvisorScope, routeByScope, type ScopeRouting } from "../src/server/advisors/scope";
+import { buildAdvisorSystemPrompt, type AdvisorPromptSource } from "../src/server/advisors/systemPrompt";
+import { describeQuotaExceeded } from "../src/server/llm/quotas";
+import {
+  MAX_TOOL_ROUNDS,
+  buildToolResultMessages,
+  executeToolCall,
+  resolveAdvisorTools,
+  toToolDefinitions,
+  type ToolCallRecord,
+  type ToolContext,
+} from "../src/server/advisors/tools";
+
+// Convex functions read their own environment; defaults match src/env.js
+const MODEL_TIERS = readModelTiers(process.env);
+
+// Same LLM_PROVIDER switch as the Next.js routes (set it in the Convex dashboard for offline/local models)
+function getChatProvider() {
+  return createChatProvider({
+    provider: process.env.LLM_PROVIDER,
+    openRouterApiKey: process.env.OPENROUTER_API_KEY,
+    appUrl: process.env.APP_URL,
+    baseURL: process.env.LLM_BASE_URL,
+    apiKey: process.env.LLM_API_KEY,
+  });
+}
+
+// Models the founder can pick when asking an advisor to regenerate a reply
+export const getModelOptions = query({
+  args: {},
+  handler: authenticatedQuery(async (_ctx, _args: Record<string, never>, user) => ({
+    models: modelsForPlan(user.plan, MODEL_TIERS),
+  })),
+});
 
 /**
  * Chat Action for AI Completions
@@ -15,7 +89,16 @@ export const sendChatMessage: any = action({
   args: {
     conversationId: v.id("conversations"),
     message: v.string(),
+    // The advisor picked for this turn; without one (or an @mention) the question goes to the best fit by scope
     advisorId: v.optional(v.id("advisors")),
+    // Board meeting: every mentioned advisor (or the whole board when nobody is mentioned) replies in turn
+    boardMode: v.optional(v.boolean()),
+    // Editing a past user message: the new text forks from it and the reply is regenerated on the new branch
+    branchFromMessageId: v.optional(v.id("messages")),
+    // Asking for another take on an advisor reply: stored as a sibling variant of the same turn
+    regenerateMessageId: v.optional(v.id("messages")),
+    model: v.optional(v.string()),
+    temperature: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     console.log("=== CONVEX CHAT ACTION START ===");
@@ -24,13 +107,64 @@ export const sendChatMessage: any = action({
     // We'll need to pass the user token and validate it
     
     try {
-      // First, save the user message
-      const userMessageId = await ctx.runMutation(api.messages.sendMessage, {
-        conversationId: args.conversationId,
-        sender: "user",
-        content: args.message,
-        mentions: [], // TODO: Extract mentions
-      });
+      // Refuse the turn once today's or this month's usage has reached the plan quota.
+      // ConvexError keeps the details (429-style code, reset time) readable on the client.
+      const quota = await ctx.runQuery(api.usage.getUsage, {});
+      if (quota.exceeded) {
+        throw new ConvexError({
+          code: "QUOTA_EXCEEDED",
+          status: 429,
+          message: describeQuotaExceeded(quota.exceeded, quota.plan),
+          plan: quota.plan,
+          period: quota.exceeded.period,
+          kind: quota.exceeded.kind,
+          limit: quota.exceeded.limit,
+          resetsAt: quota.exceeded.resetsAt,
+        });
+      }
+
+      // The advisor's first reply waits for the guided intake to be completed or skipped
+      const intake = await ctx.runQuery(api.intake.getIntake, { conversationId: args.conversationId });
+      if (intake?.status === "in_progress") {
+        throw new Error("Finish or skip the intake before chatting");
+      }
+
+      // Regenerating answers the turn's user message again, without saving a new one
+      let regeneratedTurn: { _id: Id<"messages">; content: string } | null = null;
+      if (args.regenerateMessageId) {
+        const shown = await ctx.runQuery(api.conversations.getConversationById, { conversationId: args.conversationId });
+        const index = (shown?.messages || []).findIndex((msg: any) => msg._id === args.regenerateMessageId);
+        const reply = index > 0 ? shown.messages[index] : null;
+        const question = index > 0 ? shown.messages[index - 1] : null;
+        if (!reply || reply.sender !== "advisor" || question?.sender !== "user") {
+          throw new Error("Only an advisor's reply to a message can be regenerated");
+        }
+        regeneratedTurn = question;
+        // No new user message is saved, so the rate limit and message usage are applied here
+        await ctx.runMutation(internal.messages.meterRegeneration, { conversationId: args.conversationId });
+      }
+      const userText: string = regeneratedTurn?.content ?? args.message;
+
+      // @mentions pick who answers; a regeneration keeps the advisor being regenerated
+      const activeAdvisors = await ctx.runQuery(api.advisors.getActiveAdvisors, {});
+      const mentions = regeneratedTurn
+        ? []
+        : extractMentionIds(userText, activeAdvisors.map((advisor: any) => ({ id: advisor._id as string, name: advisor.persona?.name ?? "" })));
+
+      // First, save the user message (as a new branch when editing)
+      const userMessageId = regeneratedTurn
+        ? regeneratedTurn._id
+        : args.branchFromMessageId
+        ? await ctx.runMutation(api.messages.forkMessage, {
+          messageId: args.branchFromMessageId,
+          content: args.message,
+        })
+        : await ctx.runMutation(api.messages.sendMessage, {
+          conversationId: args.conversationId,
+          sender: "user",
+          content: args.message,
+          mentions,
+        });
 
       console.log("User message saved:", userMessageId);
 
@@ -43,104 +177,137 @@ export const sendChatMessage: any = action({
         throw new Error("Conversation not found");
       }
 
+      // Classify the question against every active advisor's scope
+      const chosenAdvisorId = (mentions[0] as Id<"advisors"> | undefined) ?? args.advisorId;
+      const routing: ScopeRouting = routeByScope(
+        userText,
+        activeAdvisors.map((advisor: any) => ({
+          id: advisor._id as string,
+          name: advisor.persona?.name as string,
+          scope: parseAdvisorScope(advisor.roleDefinition),
+        })),
+        chosenAdvisorId || conversation.activeAdvisor?._id
+      );
+
       // Get advisor details
       let activeAdvisor;
-      if (args.advisorId) {
-        activeAdvisor = await ctx.runQuery(api.advisors.getAdvisorById, {
-          advisorId: args.advisorId,
-        });
-      } else if (conversation.activeAdvisor) {
-        activeAdvisor = conversation.activeAdvisor;
+      if (chosenAdvisorId) {
+        activeAdvisor = activeAdvisors.find((advisor: any) => advisor._id === chosenAdvisorId)
+          ?? await ctx.runQuery(api.advisors.getAdvisorById, { advisorId: chosenAdvisorId });
+      } else {
+        // Nobody chosen for this turn: auto-route to the best fit, else stay with the conversation's advisor
+        activeAdvisor = activeAdvisors.find((advisor: any) => advisor._id === routing.bestFitId)
+          ?? conversation.activeAdvisor
+          ?? activeAdvisors[0];
       }
 
       if (!activeAdvisor) {
         throw new Error("No advisor available");
       }
 
-      // Prepare messages for AI
-      const systemPrompt = generateSystemPrompt(activeAdvisor);
-      const conversationHistory = conversation.messages || [];
-      
-      const aiMessages = [
-        { role: "system", content: systemPrompt },
-        ...conversationHistory.slice(-10).map((msg: any) => ({
-          role: msg.sender === "user" ? "user" : "assistant",
-          content: msg.content,
-        })),
-        { role: "user", content: args.message },
-      ];
-
-      console.log("Calling OpenRouter API...");
-
-      // Call OpenRouter API
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-          "X-Title": "AI Advisor Chat",
-        },
-        body: JSON.stringify({
-          model: "x-ai/grok-code-fast-1",
-          messages: aiMessages,
-          temperature: 0.7,
-          max_tokens: 2000,
-        }),
-      });
+      // Board meeting: several @mentions, or the board toggle, gets each advisor to reply in turn, the active advisor first
+      const boardIds = regeneratedTurn
+        ? [activeAdvisor._id as string]
+        : planBoardMeeting({
+          leadId: activeAdvisor._id as string,
+          mentions,
+          advisorIds: activeAdvisors.map((advisor: any) => advisor._id as string),
+          boardMode: args.boardMode,
+        });
+      const board: any[] = boardIds
+        .map(id => (id === activeAdvisor._id ? activeAdvisor : activeAdvisors.find((advisor: any) => advisor._id === id)))
+        .filter(Boolean);
+      const isBoardMeeting = board.length > 1;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("OpenRouter API error:", response.status, errorText);
-        
-        // Fallback to mock response
-        const mockResponse = `Hello! I'm ${activeAdvisor.persona.name}, and I'd be happy to help you.
+      // Founder profile shared by every advisor across conversations
+      const profile = await ctx.runQuery(api.userProfiles.getMyProfile, {});
 
-*Note: This is a demo response because the OpenRouter API key needs to be updated. In a production environment, I would provide personalized advice based on my expertise.*
+      // Passages from the founder's uploaded documents that match this message
+      const documents = await ctx.runQuery(api.documents.getConversationChunks, { conversationId: args.conversationId });
+      const passages = searchDocuments(userText, documents);
 
-How can I assist you today?`;
+      // Everything shown before this turn; the user's message goes in last
+      const turnIndex = (conversation.messages || []).findIndex((msg: any) => msg._id === userMessageId);
+      const conversationHistory = turnIndex >= 0 ? conversation.messages.slice(0, turnIndex) : conversation.messages || [];
 
-        // Save mock assistant message
-        const assistantMessageId = await ctx.runMutation(api.messages.sendMessage, {
-          conversationId: args.conversationId,
-          sender: "advisor",
-          advisorId: args.advisorId || (activeAdvisor as any)?._id,
-          content: mockResponse,
-          tokensUsed: 50,
-        });
+      // The newest rolling summary ending on this branch covers everything up to its endMessageId;
+      // only newer messages go in verbatim (a summary of another branch is never mixed in)
+      const summaries = await ctx.runQuery(api.threadSummaries.getConversationSummaries, {
+        conversationId: args.conversationId,
+      });
+      const { summary: latestSummary, endIndex: summaryEndIndex } = selectBranchSummary(
+        summaries,
+        conversationHistory.map((msg: any) => ({ id: msg._id as string }))
+      );
 
-        return {
-          success: true,
-          messageId: assistantMessageId,
-          content: mockResponse,
-          isDemo: true,
-        };
+      const user = await ctx.runQuery(api.auth.getCurrentUserInfo, {});
+      if (args.model && !modelsForPlan(user?.plan, MODEL_TIERS).includes(args.model)) {
+        throw new Error(`${args.model} is not available on your plan`);
       }
 
-      // Parse AI response
-      const responseData = await response.json();
-      const assistantContent = responseData.choices?.[0]?.message?.content;
+      const provider = getChatProvider();
+      const turn: AdvisorTurn = {
+        conversationId: args.conversationId,
+        userMessageId,
+        userText,
+        recentHistory: conversationHistory.slice(summaryEndIndex + 1),
+        latestSummary,
+        passages,
+        profile,
+        plan: user?.plan,
+        // A model picked for a regeneration takes the place of the conversation override for this reply
+        modelOverride: args.model ?? conversation.modelOverride,
+        temperature: resolveTemperature(args.temperature),
+        provider,
+        boardNames: isBoardMeeting ? board.map(advisor => advisor.persona?.name || "Advisor") : [],
+      };
 
-      if (!assistantContent) {
-        throw new Error("No response from AI");
+      // Advisors reply in turn, each one under the previous reply; in a board meeting a failed advisor is skipped
+      const replies: AdvisorReply[] = [];
+      let parentMessageId: Id<"messages"> = userMessageId;
+      for (const [index, advisor] of board.entries()) {
+        try {
+          const reply = await replyAsAdvisor(ctx, turn, advisor, { parentMessageId, position: index + 1, priorReplies: replies });
+          replies.push(reply);
+          parentMessageId = reply.messageId;
+        } catch (error) {
+          if (!isBoardMeeting) throw error;
+          console.error("Board meeting reply failed for advisor", advisor._id, error);
+        }
+      }
+      if (replies.length === 0) {
+        throw new Error("No advisor was able to reply");
       }
 
-      // Save assistant message
-      const assistantMessageId = await ctx.runMutation(api.messages.sendMessage, {
-        conversationId: args.conversationId,
-        sender: "advisor",
-        advisorId: args.advisorId || (activeAdvisor as any)?._id,
-        content: assistantContent,
-        tokensUsed: responseData.usage?.total_tokens,
-      });
+      // The new variant is the one shown, and so the one later turns build on
+      if (regeneratedTurn) {
+        await ctx.runMutation(api.messages.selectBranch, { conversationId: args.conversationId, messageId: replies[0]!.messageId });
+      }
 
-      console.log("Assistant message saved:", assistantMessageId);
+      // Summaries are cheap; use the plan's tier model without advisor or conversation overrides
+      await maybeSummarizeConversation(
+        ctx,
+        args.conversationId,
+        latestSummary ?? null,
+        provider,
+        resolveModel({ plan: user?.plan }, MODEL_TIERS).candidates
+      );
 
+      const [lead] = replies;
       return {
         success: true,
-        messageId: assistantMessageId,
-        content: assistantContent,
-        tokensUsed: responseData.usage?.total_tokens,
+        messageId: lead!.messageId,
+        content: lead!.content,
+        tokensUsed: lead!.tokensUsed,
+        toolCalls: lead!.toolCalls,
+        citations: lead!.citations,
+        ...(lead!.isDemo ? { isDemo: true } : {}),
+        // Every reply from this turn, in speaking order (one entry outside board meetings)
+        replies,
+        autoRouted: !chosenAdvisorId,
+        // Offered to the founder when the question is outside the chosen advisor's scope; auto-routed turns
+        // already went to the best fit and board meetings already hear from everyone
+        handoff: isBoardMeeting || !chosenAdvisorId ? null : routing.handoff,
       };
 
     } catch (error) {
@@ -150,14 +317,350 @@ How can I assist you today?`;
   },
 });
 
-// Helper function to generate system prompt
-function generateSystemPrompt(advisor: any): string {
-  const persona = advisor.persona;
-  return `You are ${persona.name}, ${persona.title}.
+/** What every advisor replying to one user message shares */
+interface AdvisorTurn {
+  conversationId: Id<"conversations">;
+  userMessageId: Id<"messages">;
+  userText: string;
+  /** Messages after the latest summary, before this turn */
+  recentHistory: any[];
+  latestSummary: (SummaryBoundary & { content: string }) | null;
+  passages: DocumentPassage[];
+  profile: FounderProfile | null;
+  plan?: string;
+  modelOverride?: string;
+  temperature: number;
+  provider: ChatProvider;
+  /** Everyone at the table in speaking order; empty outside board meetings */
+  boardNames: string[];
+}
+
+interface AdvisorReply {
+  advisorId: Id<"advisors">;
+  advisorName: string;
+  messageId: Id<"messages">;
+  content: string;
+  tokensUsed?: number;
+  toolCalls: ToolCallRecord[];
+  citations: DocumentCitation[];
+  isDemo?: boolean;
+}
+
+/**
+ * One advisor's reply to the turn: prompt, completion with tool rounds, components,
+ * then the saved message and the memories it yields
+ */
+async function replyAsAdvisor(
+  ctx: ActionCtx,
+  turn: AdvisorTurn,
+  advisor: any,
+  seat: {
+    parentMessageId: Id<"messages">;
+    /** Speaking order in a board meeting, from 1 */
+    position: number;
+    priorReplies: AdvisorReply[];
+  }
+): Promise<AdvisorReply> {
+  const { parentMessageId, position, priorReplies } = seat;
+  const advisorId: Id<"advisors"> = advisor._id;
+  const advisorName: string = advisor.persona?.name || "Advisor";
+
+  // What this advisor already knows about the founder in this conversation
+  const memories: AdvisorMemoryFact[] = await ctx.runQuery(api.advisorMemories.getConversationMemories, {
+    conversationId: turn.conversationId,
+    advisorId,
+  });
+
+  // Prepare messages for AI; in a board meeting each advisor also sees the earlier replies
+  const systemPrompt = generateSystemPrompt(advisor as AdvisorPromptSource, memories, turn.profile);
+  const documentContext = formatPassagesForPrompt(turn.passages);
+  const boardContext = turn.boardNames.length > 1
+    ? formatBoardMeetingContext(turn.boardNames, position, priorReplies)
+    : "";
+  const aiMessages: ChatCompletionMessage[] = [
+    { role: "system", content: systemPrompt },
+    ...(turn.latestSummary ? [{ role: "system" as const, content: formatSummaryForContext(turn.latestSummary) }] : []),
+    ...(documentContext ? [{ role: "system" as const, content: documentContext }] : []),
+    ...(boardContext ? [{ role: "system" as const, content: boardContext }] : []),
+    // Only founder and advisor turns are replayed; system notices are for the thread, not the model
+    ...turn.recentHistory
+      .filter((msg: any) => msg.sender === "user" || msg.sender === "advisor")
+      .slice(-10)
+      .map((msg: any) => ({
+        role: msg.sender === "user" ? "user" as const : "assistant" as const,
+        content: msg.content,
+      })),
+    { role: "user", content: turn.userText },
+  ];
 
-${persona.description || "You are an expert advisor ready to help with any questions."}
+  // Resolve the model from plan, advisor hint and per-conversation override
+  const modelSelection = resolveModel({
+    plan: turn.plan,
+    modelHint: advisor.modelHint,
+    conversationOverride: turn.modelOverride,
+  }, MODEL_TIERS);
+  const provider = turn.provider;
+  console.log(`Calling ${provider.name} API for ${advisorName} with model:`, modelSelection.model);
 
-Your expertise includes: ${persona.expertise?.join(", ") || "general advice"}
+  // Call the provider, walking the fallback chain on 429/5xx; the advisor's tools are offered unless `offerTools` is false
+  const tools = resolveAdvisorTools(advisor.roleDefinition);
+  const requestCompletion = (messages: ChatCompletionMessage[], offerTools: boolean) => fetchWithModelFallback(
+    modelSelection.candidates,
+    (candidate) => provider.createChatCompletion({
+      model: candidate,
+      messages,
+      temperature: turn.temperature,
+      maxTokens: 2000,
+      ...(offerTools && tools.length > 0 ? { tools: toToolDefinitions(tools) } : {}),
+    })
+  );
+  let { response, model, attempts } = await requestCompletion(aiMessages, true);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${provider.name} API error:`, response.status, errorText);
+
+    // Fallback to mock response
+    const mockResponse = `Hello! I'm ${advisorName}, and I'd be happy to help you.
+
+*Note: This is a demo response because the OpenRouter API key needs to be updated. In a production environment, I would provide personalized advice based on my expertise.*
+
+How can I assist you today?`;
+
+    // Save mock assistant message
+    const assistantMessageId = await ctx.runMutation(internal.messages.saveAdvisorReply, {
+      conversationId: turn.conversationId,
+      advisorId,
+      parentMessageId,
+      content: mockResponse,
+      tokensUsed: 50,
+    });
+
+    return {
+      advisorId,
+      advisorName,
+      messageId: assistantMessageId,
+      content: mockResponse,
+      toolCalls: [],
+      citations: [],
+      isDemo: true,
+    };
+  }
+
+  // Parse AI response
+  let responseData = await response.json();
+  let usage = responseData.usage;
+
+  // Tool rounds: run the calls the model asks for, then request the reply again with their results
+  const toolContext: ToolContext = {
+    advisorId,
+    conversationId: turn.conversationId,
+    saveMemory: async (key, value) => {
+      await ctx.runMutation(api.advisorMemories.setMemory, { conversationId: turn.conversationId, advisorId, key, value });
+    },
+  };
+  const toolCalls: ToolCallRecord[] = [];
+  const toolMessages: ChatCompletionMessage[] = [];
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const requested = parseToolCalls(responseData.choices?.[0]?.message);
+    if (requested.length === 0) break;
+
+    console.log("Advisor called tools:", requested.map(call => call.name).join(", "));
+    const records: ToolCallRecord[] = [];
+    for (const call of requested) {
+      records.push(await executeToolCall(tools, call, toolContext));
+    }
+    toolCalls.push(...records);
+    const roundContent = (responseData.choices?.[0]?.message?.content as string | undefined) || "";
+    toolMessages.push(...buildToolResultMessages(roundContent, requested, records));
+
+    ({ response, model, attempts } = await requestCompletion([...aiMessages, ...toolMessages], round + 1 < MAX_TOOL_ROUNDS));
+    if (!response.ok) {
+      throw new Error(`${provider.name} API returned ${response.status} after tool calls`);
+    }
+    responseData = await response.json();
+    usage = {
+      prompt_tokens: (usage?.prompt_tokens ?? 0) + (responseData.usage?.prompt_tokens ?? 0),
+      completion_tokens: (usage?.completion_tokens ?? 0) + (responseData.usage?.completion_tokens ?? 0),
+      total_tokens: (usage?.total_tokens ?? 0) + (responseData.usage?.total_tokens ?? 0),
+    };
+  }
+  const rawContent = responseData.choices?.[0]?.message?.content;
+
+  if (!rawContent) {
+    throw new Error("No response from AI");
+  }
+
+  // Advisor components extract structured output (e.g. the scorecard) from the raw reply, then may rewrite it
+  const { components } = resolveAdvisorComponents(advisor.components);
+  const componentContext = { advisorId, advisorName, userMessage: turn.userText };
+  const componentOutputs = extractComponentOutputs(components, rawContent as string, componentContext);
+  const assistantContent = postProcessResponse(components, rawContent as string, componentContext);
+  const citations = extractCitations(assistantContent, turn.passages);
+
+  // Save assistant message
+  const assistantMessageId = await ctx.runMutation(internal.messages.saveAdvisorReply, {
+    conversationId: turn.conversationId,
+    advisorId,
+    parentMessageId,
+    content: assistantContent,
+    contentJson: {
+      usage,
+      model,
+      requestedModel: modelSelection.model,
+      modelSource: modelSelection.source,
+      modelAttempts: attempts,
+      temperature: turn.temperature,
+      finishReason: responseData.choices?.[0]?.finish_reason,
+      ...(turn.boardNames.length > 1
+        ? { boardMeeting: { position, size: turn.boardNames.length } }
+        : {}),
+      ...(Object.keys(componentOutputs).length > 0 ? { components: componentOutputs } : {}),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+    },
+    tokensUsed: usage?.total_tokens,
+  });
+
+  console.log("Assistant message saved:", assistantMessageId);
+
+  // Memory extraction is cheap; use the plan's tier model without advisor or conversation overrides
+  await maybeExtractMemories(ctx, {
+    conversationId: turn.conversationId,
+    advisorId,
+    advisorName,
+    userMessage: turn.userText,
+    advisorReply: assistantContent,
+    knownFacts: memories,
+  }, turn.profile, provider, resolveModel({ plan: turn.plan }, MODEL_TIERS).candidates);
+
+  return {
+    advisorId,
+    advisorName,
+    messageId: assistantMessageId,
+    content: assistantContent,
+    tokensUsed: usage?.total_tokens,
+    toolCalls,
+    citations,
+  };
+}
+
+// Background completions count toward the token quota like replies do
+async function recordCompletionTokens(ctx: ActionCtx, usage: unknown): Promise<void> {
+  const tokens = (usage as { total_tokens?: number } | undefined)?.total_tokens;
+  if (tokens) {
+    await ctx.runMutation(internal.usage.recordTokenUsage, { tokens });
+  }
+}
+
+/**
+ * Fold older messages into a new rolling thread summary once the unsummarized backlog passes the threshold.
+ * Best effort: failures are logged and never fail the chat turn.
+ */
+async function maybeSummarizeConversation(
+  ctx: ActionCtx,
+  conversationId: Id<"conversations">,
+  latestSummary: SummaryBoundary | null,
+  provider: ChatProvider,
+  candidates: string[]
+): Promise<void> {
+  try {
+    const conversation = await ctx.runQuery(api.conversations.getConversationById, { conversationId });
+    const range = planSummaryRange(
+      (conversation?.messages || []).map((msg: any) => ({
+        id: msg._id,
+        sender: msg.sender,
+        content: msg.content,
+        speaker: msg.advisor?.name,
+      })),
+      latestSummary
+    );
+    if (!range) return;
+
+    const { response } = await fetchWithModelFallback(candidates, (candidate) =>
+      provider.createChatCompletion({
+        model: candidate,
+        messages: buildSummaryPrompt(latestSummary?.content, range.messages),
+        temperature: 0.2,
+        maxTokens: 600,
+      })
+    );
+    if (!response.ok) {
+      console.warn("Summarization skipped: provider returned", response.status);
+      return;
+    }
+
+    const responseData = await response.json();
+    await recordCompletionTokens(ctx, responseData.usage);
+    const content = (responseData.choices?.[0]?.message?.content || "").trim();
+    if (!content) return;
+
+    await ctx.runMutation(api.threadSummaries.createSummary, {
+      conversationId,
+      content,
+      startMessageId: range.startMessageId,
+      endMessageId: range.endMessageId,
+    });
+  } catch (error) {
+    console.warn("Summarization skipped due to error:", error);
+  }
+}
+
+/**
+ * Pull durable facts about the founder out of one exchange and save them with setMemory.
+ * Facts that change the founder profile are queued as proposals for the user to accept.
+ * Best effort: failures are logged and never fail the chat turn.
+ */
+async function maybeExtractMemories(
+  ctx: ActionCtx,
+  turn: {
+    conversationId: Id<"conversations">;
+    advisorId: Id<"advisors">;
+    advisorName: string;
+    userMessage: string;
+    advisorReply: string;
+    knownFacts: AdvisorMemoryFact[];
+  },
+  profile: FounderProfile | null,
+  provider: ChatProvider,
+  candidates: string[]
+): Promise<void> {
+  try {
+    const { response } = await fetchWithModelFallback(candidates, (candidate) =>
+      provider.createChatCompletion({
+        model: candidate,
+        messages: buildMemoryExtractionPrompt(turn.advisorName, turn.knownFacts, turn.userMessage, turn.advisorReply),
+        temperature: 0,
+        maxTokens: 300,
+      })
+    );
+    if (!response.ok) {
+      console.warn("Memory extraction skipped: provider returned", response.status);
+      return;
+    }
+
+    const responseData = await response.json();
+    await recordCompletionTokens(ctx, responseData.usage);
+    const facts = parseExtractedMemories((responseData.choices?.[0]?.message?.content as string | undefined) || "");
+    for (const { key, value } of facts) {
+      await ctx.runMutation(api.advisorMemories.setMemory, {
+        conversationId: turn.conversationId,
+        advisorId: turn.advisorId,
+        key,
+        value,
+      });
+    }
+
+    const proposals = proposeProfileUpdates(profile, facts, turn.advisorId);
+    if (proposals.length > 0) {
+      await ctx.runMutation(api.userProfiles.proposeUpdates, { proposals });
+    }
+  } catch (error) {
+    console.warn("Memory extraction skipped due to error:", error);
+  }
+}
 
-Please provide helpful, accurate, and personalized advice based on your expertise. Be conversational but professional.`;
+// Helper function to generate system prompt (the advisor studio previews the same builder)
+export function generateSystemPrompt(advisor: AdvisorPromptSource, memories: AdvisorMemoryFact[] = [], profile?: FounderProfile | null): string {
+  return buildAdvisorSystemPrompt(advisor, memories, profile);
 }
@@ -1,7 +1,18 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { action, internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { requireUser } from "./auth";
-import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, enforceRateLimit, requireMigrationAccess, validateConversationOwnership } from "./middleware";
+import { loadBranchPath } from "./messages";
+import { recordAuditEvent } from "./audit";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { buildConversationExport, resolveImportedAdvisorId, type ConversationExport } from "../src/server/conversations/export";
+import { parseConversationImport, type ImportSkip, type ImportSource } from "../src/server/conversations/import";
+import { detectDocumentFormat } from "../src/server/llm/documents";
+import { modelsForPlan, readModelTiers } from "../src/server/llm/models";
+import { deleteDocumentWithChunks, insertDocument } from "./documents";
+import { trashPurgeAt, trashPurgeCutoff, trashRetentionDays } from "../src/server/conversations/trash";
 
 /**
  * Conversation Management Functions
@@ -18,6 +29,7 @@ export const getUserConversations = query({
       .query("conversations")
       .withIndex("by_user_updated", (q) => q.eq("userId", user._id))
       .order("desc")
+      .filter((q) => q.eq(q.field("deletedAt"), undefined)) // Trashed conversations are listed by getTrashedConversations
       .take(50); // Limit to recent conversations
 
     // Get additional data for each conversation
@@ -72,12 +84,8 @@ export const getConversationById = query({
   handler: authenticatedQuery(async (ctx, args: { conversationId: any }, user) => {
     const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
 
-    // Get all messages for this conversation
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_conversation_created", (q) => q.eq("conversationId", args.conversationId))
-      .order("asc")
-      .collect();
+    // Messages on the branch being shown
+    const messages = await loadBranchPath(ctx, args.conversationId);
 
     // Get advisor details for messages
     const messagesWithAdvisors = await Promise.all(
@@ -106,7 +114,7 @@ export const getConversationById = query({
     }
 
     return {
-      ...conversation,
+      ...(conversation as Doc<"conversations">),
       messages: messagesWithAdvisors,
       activeAdvisor: activeAdvisor ? {
         _id: activeAdvisor._id,
@@ -114,6 +122,9 @@ export const getConversationById = query({
         title: (activeAdvisor as any).persona.title,
         imageUrl: (activeAdvisor as any).imageUrl,
         persona: (activeAdvisor as any).persona,
+        roleDefinition: (activeAdvisor as any).roleDefinition,
+        components: (activeAdvisor as any).components,
+        modelHint: (activeAdvisor as any).modelHint,
       } : null,
     };
   }),
@@ -127,8 +138,11 @@ export const create = mutation({
     activeAdvisorId: v.optional(v.id("advisors")),
     createdAt: v.number(),
     updatedAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     const conversationId = await ctx.db.insert("conversations", {
       userId: args.userId,
       title: args.title,
@@ -148,6 +162,8 @@ export const createConversation = mutation({
     activeAdvisorId: v.optional(v.id("advisors")),
   },
   handler: authenticatedMutation(async (ctx, args: any, user) => {
+    await enforceRateLimit(ctx, "conversationCreate", user);
+
     // If no advisor specified, get the first active advisor
     let advisorId = args.activeAdvisorId;
     if (!advisorId) {
@@ -176,8 +192,13 @@ export const updateConversation = mutation({
     conversationId: v.id("conversations"),
     title: v.optional(v.string()),
     activeAdvisorId: v.optional(v.id("advisors")),
+    modelOverride: v.optional(v.union(v.string(), v.null())), // null clears the override
   },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (
+    ctx,
+    args: { conversationId: Id<"conversations">; title?: string; activeAdvisorId?: Id<"advisors">; modelOverride?: string | null },
+    user
+  ) => {
     const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
 
     const updates: any = {
@@ -186,58 +207,431 @@ export const updateConversation = mutation({
 
     if (args.title !== undefined) updates.title = args.title;
     if (args.activeAdvisorId !== undefined) updates.activeAdvisorId = args.activeAdvisorId;
+    if (args.modelOverride !== undefined) {
+      // The override is the founder's pick, so it is limited to the tier models of their plan
+      if (args.modelOverride && !modelsForPlan(user.plan, readModelTiers(process.env)).includes(args.modelOverride)) {
+        throw new Error(`${args.modelOverride} is not available on your plan`);
+      }
+      updates.modelOverride = args.modelOverride || undefined;
+    }
 
     await ctx.db.patch(args.conversationId, updates);
   }),
 });
 
-// Delete conversation
+// Days a conversation stays in the trash before the purge job deletes it (TRASH_RETENTION_DAYS env var)
+function retentionDays() {
+  return trashRetentionDays(process.env.TRASH_RETENTION_DAYS);
+}
+
+// Permanently delete a conversation and everything that belongs to it, matching the
+// Prisma schema's onDelete: Cascade relations; returns how many rows each table lost
+export async function purgeConversation(ctx: MutationCtx, conversationId: Id<"conversations">) {
+  // Delete all messages in this conversation
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const message of messages) {
+    await ctx.db.delete(message._id);
+  }
+
+  // Delete advisor memories for this conversation
+  const memories = await ctx.db
+    .query("advisorMemories")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const memory of memories) {
+    await ctx.db.delete(memory._id);
+  }
+
+  // Delete thread summaries for this conversation
+  const summaries = await ctx.db
+    .query("threadSummaries")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const summary of summaries) {
+    await ctx.db.delete(summary._id);
+  }
+
+  // Delete documents attached to this conversation, with their chunks
+  const documents = await ctx.db
+    .query("documents")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const document of documents) {
+    await deleteDocumentWithChunks(ctx, document._id);
+  }
+
+  // Convex-only rows: ratings of the deleted replies and typing indicators
+  const feedback = await ctx.db
+    .query("messageFeedback")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const entry of feedback) {
+    await ctx.db.delete(entry._id);
+  }
+
+  const typingIndicators = await ctx.db
+    .query("typingIndicators")
+    .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+    .collect();
+
+  for (const indicator of typingIndicators) {
+    await ctx.db.delete(indicator._id);
+  }
+
+  // Presence only points at the conversation, so it is cleared rather than deleted
+  const presences = await ctx.db
+    .query("userPresence")
+    .withIndex("by_conversation", (q) => q.eq("currentConversationId", conversationId))
+    .collect();
+
+  for (const presence of presences) {
+    await ctx.db.patch(presence._id, { currentConversationId: undefined });
+  }
+
+  // Finally delete the conversation
+  await ctx.db.delete(conversationId);
+
+  return {
+    messages: messages.length,
+    memories: memories.length,
+    summaries: summaries.length,
+    documents: documents.length,
+    feedback: feedback.length,
+  };
+}
+
+// Delete conversation (moves it to the trash; restoreConversation brings it back)
 export const deleteConversation = mutation({
   args: {
     conversationId: v.id("conversations"),
   },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
     const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const before = conversation as Doc<"conversations">;
+    if (before.deletedAt) {
+      return;
+    }
+
+    await ctx.db.patch(args.conversationId, { deletedAt: Date.now() });
 
-    // Delete all messages in this conversation
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
-      .collect();
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "conversation.trash",
+      target: { table: "conversations", id: args.conversationId, label: before.title },
+      before,
+      after: await ctx.db.get(args.conversationId),
+      origin: { function: "conversations:deleteConversation" },
+    });
+  }),
+});
 
-    for (const message of messages) {
-      await ctx.db.delete(message._id);
+// Restore a conversation from the trash
+export const restoreConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const before = conversation as Doc<"conversations">;
+    if (!before.deletedAt) {
+      return;
     }
 
-    // Delete advisor memories for this conversation
-    const memories = await ctx.db
-      .query("advisorMemories")
-      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
-      .collect();
+    await ctx.db.patch(args.conversationId, { deletedAt: undefined });
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "conversation.restore",
+      target: { table: "conversations", id: args.conversationId, label: before.title },
+      before,
+      after: await ctx.db.get(args.conversationId),
+      origin: { function: "conversations:restoreConversation" },
+    });
+  }),
+});
 
-    for (const memory of memories) {
-      await ctx.db.delete(memory._id);
+// Permanently delete a trashed conversation without waiting for the purge job
+export const deleteConversationForever = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const before = conversation as Doc<"conversations">;
+    if (!before.deletedAt) {
+      throw new Error("Move the conversation to the trash before deleting it forever");
     }
 
-    // Delete thread summaries for this conversation
-    const summaries = await ctx.db
-      .query("threadSummaries")
-      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
-      .collect();
+    const removed = await purgeConversation(ctx, args.conversationId);
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "conversation.delete",
+      target: { table: "conversations", id: args.conversationId, label: before.title },
+      before,
+      details: removed,
+      origin: { function: "conversations:deleteConversationForever" },
+    });
+  }),
+});
+
+// The user's trashed conversations, most recently deleted first, with when each will be purged
+export const getTrashedConversations = query({
+  args: {},
+  handler: authenticatedQuery(async (ctx, _args: Record<string, never>, user) => {
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_user_deleted", (q) => q.eq("userId", user._id).gt("deletedAt", 0))
+      .order("desc")
+      .take(100);
+
+    const days = retentionDays();
+    return conversations.map((conversation) => ({
+      _id: conversation._id,
+      title: conversation.title,
+      activeAdvisorId: conversation.activeAdvisorId,
+      updatedAt: conversation.updatedAt,
+      deletedAt: conversation.deletedAt!,
+      purgeAt: trashPurgeAt(conversation.deletedAt!, days),
+    }));
+  }),
+});
+
+// Conversations purged per run, small enough that their messages and document chunks stay
+// under the per-mutation write limit; the job reschedules itself until none are due
+const PURGE_BATCH_SIZE = 2;
+
+// Permanently delete conversations that have been in the trash longer than the retention period (daily cron)
+export const purgeTrashedConversations = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = trashPurgeCutoff(Date.now(), retentionDays());
+    const due = await ctx.db
+      .query("conversations")
+      .withIndex("by_deleted_at", (q) => q.gt("deletedAt", 0).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH_SIZE);
+
+    for (const conversation of due) {
+      const removed = await purgeConversation(ctx, conversation._id);
+      await recordAuditEvent(ctx, {
+        actor: null,
+        action: "conversation.purge",
+        target: { table: "conversations", id: conversation._id, label: conversation.title },
+        before: conversation,
+        details: removed,
+        origin: { function: "conversations:purgeTrashedConversations", credential: "internal" },
+      });
+    }
 
-    for (const summary of summaries) {
-      await ctx.db.delete(summary._id);
+    if (due.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.conversations.purgeTrashedConversations, {});
     }
 
-    // Finally delete the conversation
-    await ctx.db.delete(args.conversationId);
+    console.log("purgeTrashedConversations: purged", due.length, "conversations");
+    return { purged: due.length };
+  },
+});
+
+// Everything needed to export a conversation; the client renders it as Markdown, HTML or JSON
+export const getConversationExport = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    const conversation = (await validateConversationOwnership(ctx, args.conversationId, user)).conversation as Doc<"conversations">;
+
+    const byConversation = (table: "threadSummaries" | "advisorMemories" | "documents") =>
+      ctx.db.query(table).withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId)).collect();
+    // The export holds the branch being shown
+    const [messages, summaries, memories, documents] = await Promise.all([
+      loadBranchPath(ctx, args.conversationId),
+      byConversation("threadSummaries"),
+      byConversation("advisorMemories"),
+      byConversation("documents"),
+    ]);
+
+    const advisorIds = Array.from(new Set<Id<"advisors">>([
+      ...(conversation.activeAdvisorId ? [conversation.activeAdvisorId] : []),
+      ...messages.flatMap((message: any) => (message.advisorId ? [message.advisorId as Id<"advisors">] : [])),
+      ...memories.map((memory: any) => memory.advisorId as Id<"advisors">),
+    ]));
+    const advisors = (await Promise.all(advisorIds.map((id) => ctx.db.get(id)))).filter((advisor) => advisor !== null);
+
+    return buildConversationExport({
+      conversation: {
+        title: conversation.title,
+        activeAdvisorId: conversation.activeAdvisorId,
+        modelOverride: conversation.modelOverride,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      },
+      advisors: advisors.map((advisor) => ({ id: advisor._id, name: advisor.persona.name, title: advisor.persona.title })),
+      messages: messages.map((message: any) => ({ ...message, id: message._id })),
+      summaries: summaries.map((summary: any) => ({ ...summary, id: summary._id })),
+      memories: memories.map((memory: any) => ({ advisorId: memory.advisorId, key: memory.key, value: memory.value })),
+      documents: documents.map((document: any) => ({
+        name: document.name,
+        mimeType: document.mimeType,
+        kind: document.kind,
+        content: document.content,
+        createdAt: document.createdAt,
+      })),
+    });
+  }),
+});
+
+// Recreate one parsed conversation; exported advisor ids map onto local ones by id, then name
+async function insertImportedConversation(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  data: ConversationExport,
+  localAdvisors: { id: string; name: string }[]
+) {
+  const advisorIdMap = new Map(data.advisors.map((advisor) => [advisor.id, resolveImportedAdvisorId(advisor, localAdvisors)]));
+  const advisorIdFor = (exportedId: string | null) =>
+    (exportedId ? advisorIdMap.get(exportedId) : undefined) as Id<"advisors"> | undefined;
+
+  const conversationId = await ctx.db.insert("conversations", {
+    userId,
+    title: data.conversation.title ?? undefined,
+    activeAdvisorId: advisorIdFor(data.conversation.activeAdvisorId),
+    modelOverride: data.conversation.modelOverride ?? undefined,
+    createdAt: Date.parse(data.conversation.createdAt),
+    updatedAt: Date.now(),
+  });
+
+  // New ids for every message; summaries point at them by id
+  const messageIdMap = new Map<string, string>();
+  for (const message of data.messages) {
+    const messageId = await ctx.db.insert("messages", {
+      conversationId,
+      userId,
+      sender: message.sender,
+      advisorId: advisorIdFor(message.advisorId),
+      content: message.content,
+      contentJson: message.contentJson ?? undefined,
+      mentions: message.mentions,
+      tokensUsed: message.tokensUsed ?? undefined,
+      createdAt: Date.parse(message.createdAt),
+    });
+    messageIdMap.set(message.id, messageId);
+  }
+
+  for (const summary of data.summaries) {
+    await ctx.db.insert("threadSummaries", {
+      conversationId,
+      content: summary.content,
+      startMessageId: summary.startMessageId ? messageIdMap.get(summary.startMessageId) : undefined,
+      endMessageId: summary.endMessageId ? messageIdMap.get(summary.endMessageId) : undefined,
+      createdAt: Date.parse(summary.createdAt),
+    });
+  }
+
+  // Memories of advisors that don't exist here are dropped
+  for (const memory of data.memories) {
+    const advisorId = advisorIdFor(memory.advisorId);
+    if (!advisorId) continue;
+    await ctx.db.insert("advisorMemories", {
+      conversationId,
+      advisorId,
+      key: memory.key,
+      value: memory.value,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  }
+
+  for (const document of data.documents) {
+    await insertDocument(ctx, {
+      userId,
+      conversationId,
+      name: document.name,
+      mimeType: document.mimeType,
+      kind: document.kind,
+      content: document.content,
+      format: detectDocumentFormat(document.name, document.mimeType),
+      createdAt: Date.parse(document.createdAt),
+    });
+  }
+
+  return conversationId;
+}
+
+const importedAdvisor = v.object({ id: v.string(), name: v.string(), title: v.optional(v.string()) });
+
+// Start an import: counts against the user's import rate limit and lists the advisors replies can map onto
+export const beginConversationImport = internalMutation({
+  args: {},
+  handler: authenticatedMutation(async (ctx, _args: Record<string, never>, user) => {
+    await enforceRateLimit(ctx, "conversationImport", user);
+
+    const localAdvisors = (await ctx.db.query("advisors").collect()).map((advisor) => ({
+      id: advisor._id as string,
+      name: advisor.persona.name,
+      title: advisor.persona.title,
+    }));
+    return { userId: user._id, localAdvisors };
   }),
 });
 
+// Save one parsed conversation in its own transaction, so a large file never has to fit in one mutation
+export const importConversation = internalMutation({
+  args: {
+    userId: v.id("users"),
+    data: v.any(),
+    localAdvisors: v.array(importedAdvisor),
+  },
+  handler: async (ctx, args: { userId: Id<"users">; data: ConversationExport; localAdvisors: { id: string; name: string }[] }) => {
+    return await insertImportedConversation(ctx, args.userId, args.data, args.localAdvisors);
+  },
+});
+
+// Import conversations from a ChatGPT or Claude conversations.json, or from a JSON export of this app
+export const importConversations = action({
+  args: {
+    data: v.any(),
+    advisorId: v.optional(v.id("advisors")), // Takes over the assistant's replies from other tools
+  },
+  handler: async (ctx, args): Promise<{ source: ImportSource; conversationIds: Id<"conversations">[]; skipped: ImportSkip[] }> => {
+    const { userId, localAdvisors }: { userId: Id<"users">; localAdvisors: { id: string; name: string; title?: string }[] } =
+      await ctx.runMutation(internal.conversations.beginConversationImport, {});
+    const advisor = args.advisorId ? localAdvisors.find((a) => a.id === args.advisorId) : undefined;
+
+    // Throws ConversationImportError when the file can't be imported at all (too large, unknown format)
+    const { source, conversations, skipped } = parseConversationImport(args.data, { advisor });
+    if (conversations.length === 0) {
+      throw new Error("No conversations in this file could be imported");
+    }
+
+    // One mutation per conversation; one that fails is reported and the rest still import
+    const conversationIds: Id<"conversations">[] = [];
+    for (const data of conversations) {
+      try {
+        conversationIds.push(await ctx.runMutation(internal.conversations.importConversation, { userId, data, localAdvisors }));
+      } catch (error) {
+        console.error("importConversations: failed to import", data.conversation.title, error);
+        skipped.push({ conversation: data.conversation.title ?? "Untitled conversation", reason: "could not be saved" });
+      }
+    }
+
+    return { source, conversationIds, skipped };
+  },
+});
+
 // List all conversations (for migration compatibility)
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { secret: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     return await ctx.db.query("conversations").collect();
   },
 });
@@ -0,0 +1,13 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Permanently delete conversations that have outlived the trash retention period
+crons.daily(
+  "purge trashed conversations",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.conversations.purgeTrashedConversations,
+);
+
+export default crons;
@@ -0,0 +1,182 @@
+import { v } from "convex/values";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import {
+  MAX_DOCUMENTS_PER_CONVERSATION,
+  describeDocumentTruncation,
+  indexDocument,
+  inferDocumentKind,
+  validateDocumentUpload,
+  type DocumentChunk,
+  type DocumentFormat,
+} from "../src/server/llm/documents";
+
+/**
+ * Document Management Functions
+ *
+ * These functions handle the founder documents attached to a conversation
+ * (pitch decks, financial models, business plans). Uploads are chunked when
+ * they are saved, one documentChunks row per chunk; chat.sendChatMessage
+ * retrieves the passages that match each message and passes them to the advisor.
+ */
+
+/**
+ * Save a document and its chunks; the founder is told when the end of a long file was left out
+ */
+export async function insertDocument(
+  ctx: MutationCtx,
+  document: {
+    userId: Id<"users">;
+    conversationId: Id<"conversations">;
+    name: string;
+    mimeType?: string;
+    /** Inferred from the name when missing */
+    kind?: string;
+    content: string;
+    format: DocumentFormat;
+    createdAt?: number;
+  }
+) {
+  const index = indexDocument(document.content, document.format);
+  const documentId = await ctx.db.insert("documents", {
+    userId: document.userId,
+    conversationId: document.conversationId,
+    name: document.name,
+    mimeType: document.mimeType || `text/${document.format === "text" ? "plain" : document.format}`,
+    kind: document.kind ?? inferDocumentKind(document.name, document.format),
+    sizeBytes: new TextEncoder().encode(document.content).length,
+    content: document.content,
+    chunkCount: index.chunks.length,
+    truncated: index.droppedChunks > 0,
+    createdAt: document.createdAt ?? Date.now(),
+  });
+
+  for (const chunk of index.chunks) {
+    await ctx.db.insert("documentChunks", { documentId, conversationId: document.conversationId, ...chunk });
+  }
+
+  return {
+    documentId,
+    chunkCount: index.chunks.length,
+    truncated: index.droppedChunks > 0,
+    warning: describeDocumentTruncation(document.name, index),
+  };
+}
+
+// Delete a document together with its chunks
+export async function deleteDocumentWithChunks(ctx: MutationCtx, documentId: Id<"documents">) {
+  const chunks = await ctx.db
+    .query("documentChunks")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .collect();
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+  await ctx.db.delete(documentId);
+}
+
+// Get the documents attached to a conversation (without their text)
+export const getConversationDocuments = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+
+    const documents = await ctx.db
+      .query("documents")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+
+    // The uploaded text stays server-side
+    return documents.map(({ content: _content, chunks, ...document }) => ({
+      ...document,
+      chunkCount: document.chunkCount ?? chunks?.length ?? 0,
+    }));
+  }),
+});
+
+// Every chunk of the conversation's documents, grouped by document, for retrieval
+export const getConversationChunks = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+
+    const [documents, chunks] = await Promise.all([
+      ctx.db
+        .query("documents")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+        .collect(),
+      ctx.db
+        .query("documentChunks")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+        .collect(),
+    ]);
+
+    return documents.map((document) => ({
+      id: document._id,
+      name: document.name,
+      // Documents uploaded before documentChunks keep their chunks inline
+      chunks: document.chunks ?? chunks
+        .filter((chunk) => chunk.documentId === document._id)
+        .sort((a, b) => a.index - b.index)
+        .map(({ index, section, content }): DocumentChunk => ({ index, section, content })),
+    }));
+  }),
+});
+
+// Attach a text document (Markdown, plain text or CSV) to a conversation
+export const uploadDocument = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    name: v.string(),
+    mimeType: v.optional(v.string()),
+    content: v.string(),
+  },
+  handler: authenticatedMutation(async (
+    ctx,
+    args: { conversationId: Id<"conversations">; name: string; mimeType?: string; content: string },
+    user
+  ) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+
+    const existing = await ctx.db
+      .query("documents")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect();
+    if (existing.length >= MAX_DOCUMENTS_PER_CONVERSATION) {
+      throw new Error(`A conversation can hold at most ${MAX_DOCUMENTS_PER_CONVERSATION} documents`);
+    }
+
+    // Throws DocumentFormatError with a message the founder can act on
+    const format = validateDocumentUpload(args.name, args.content, args.mimeType);
+
+    return await insertDocument(ctx, {
+      userId: user._id,
+      conversationId: args.conversationId,
+      name: args.name,
+      mimeType: args.mimeType,
+      content: args.content,
+      format,
+    });
+  }),
+});
+
+// Remove a document; advisors stop retrieving from it right away
+export const deleteDocument = mutation({
+  args: {
+    documentId: v.id("documents"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { documentId: Id<"documents"> }, user) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) {
+      throw new Error("Document not found");
+    }
+
+    await validateConversationOwnership(ctx, document.conversationId, user);
+    await deleteDocumentWithChunks(ctx, args.documentId);
+  }),
+});
@@ -0,0 +1,201 @@
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { authenticatedQuery, authenticatedMutation, requirePermission, validateConversationOwnership } from "./middleware";
+import { loadConversationTree } from "./messages";
+import { generateSystemPrompt } from "./chat";
+import { selectBranchPath } from "../src/server/conversations/branches";
+import { normalizeFeedbackText, summarizeFeedback, type FeedbackReason } from "../src/server/conversations/feedback";
+
+/**
+ * Message Feedback Functions
+ *
+ * These functions store the founders' thumbs up/down on advisor replies and give
+ * admins the review dashboard: ratings grouped by advisor, model and reason, and
+ * each thumbs down with the reply and the conversation that led to it.
+ */
+
+const feedbackReason = v.union(
+  v.literal("incorrect"),
+  v.literal("verbose"),
+  v.literal("instructions"),
+  v.literal("other")
+);
+
+// Maximum ratings read for the dashboard's breakdowns
+const SUMMARY_SCAN_LIMIT = 2000;
+const SNIPPET_LENGTH = 200;
+
+// Rate an advisor reply; rating the same message again replaces the earlier rating
+export const submitFeedback = mutation({
+  args: {
+    messageId: v.id("messages"),
+    sentiment: v.union(v.literal("up"), v.literal("down")),
+    reason: v.optional(feedbackReason),
+    other: v.optional(v.string()),
+    comments: v.optional(v.string()),
+  },
+  handler: authenticatedMutation(async (
+    ctx,
+    args: { messageId: Id<"messages">; sentiment: "up" | "down"; reason?: FeedbackReason; other?: string; comments?: string },
+    user
+  ) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+    await validateConversationOwnership(ctx, message.conversationId, user);
+    if (message.sender !== "advisor") {
+      throw new Error("Only advisor replies can be rated");
+    }
+
+    const model = message.contentJson?.model;
+    const now = Date.now();
+    // Reasons only explain a thumbs down
+    const fields = {
+      advisorId: message.advisorId,
+      model: typeof model === "string" ? model : undefined,
+      sentiment: args.sentiment,
+      reason: args.sentiment === "down" ? args.reason : undefined,
+      other: args.sentiment === "down" && args.reason === "other" ? normalizeFeedbackText(args.other) : undefined,
+      comments: args.sentiment === "down" ? normalizeFeedbackText(args.comments) : undefined,
+      updatedAt: now,
+    };
+
+    const existing = await ctx.db
+      .query("messageFeedback")
+      .withIndex("by_message_user", (q) => q.eq("messageId", args.messageId).eq("userId", user._id))
+      .first();
+    if (existing) {
+      await ctx.db.patch(existing._id, fields);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("messageFeedback", {
+      messageId: args.messageId,
+      conversationId: message.conversationId,
+      userId: user._id,
+      ...fields,
+      createdAt: now,
+    });
+  }),
+});
+
+// Ratings grouped by advisor, model and reason, plus the latest thumbs down (admin function)
+export const getFeedbackSummary = query({
+  args: {
+    since: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: authenticatedQuery(async (ctx, args: { since?: number; limit?: number }, user) => {
+    await requirePermission(ctx, "feedback:review", user);
+
+    const feedback = await ctx.db
+      .query("messageFeedback")
+      .withIndex("by_updated_at", (q) => q.gte("updatedAt", args.since ?? 0))
+      .order("desc")
+      .take(SUMMARY_SCAN_LIMIT);
+
+    const advisorNames = new Map<string, string>();
+    for (const advisorId of new Set(feedback.flatMap((entry) => (entry.advisorId ? [entry.advisorId] : [])))) {
+      const advisor = await ctx.db.get(advisorId);
+      advisorNames.set(advisorId, advisor?.persona?.name || "Unknown advisor");
+    }
+
+    const summary = summarizeFeedback(feedback.map((entry) => ({
+      sentiment: entry.sentiment,
+      reason: entry.reason,
+      advisorId: entry.advisorId,
+      advisorName: entry.advisorId ? advisorNames.get(entry.advisorId) : null,
+      model: entry.model,
+    })));
+
+    const downvotes = await Promise.all(
+      feedback
+        .filter((entry) => entry.sentiment === "down")
+        .slice(0, args.limit || 50)
+        .map(async (entry) => {
+          const message = await ctx.db.get(entry.messageId);
+          return {
+            _id: entry._id,
+            messageId: entry.messageId,
+            conversationId: entry.conversationId,
+            advisorName: entry.advisorId ? advisorNames.get(entry.advisorId) ?? null : null,
+            model: entry.model ?? null,
+            reason: entry.reason ?? null,
+            other: entry.other ?? null,
+            comments: entry.comments ?? null,
+            snippet: message ? message.content.slice(0, SNIPPET_LENGTH) : null,
+            updatedAt: entry.updatedAt,
+          };
+        })
+    );
+
+    return { summary, downvotes, truncated: feedback.length === SUMMARY_SCAN_LIMIT };
+  }),
+});
+
+// A rated reply with the conversation before it and the advisor's persona prompt (admin function)
+export const getFeedbackContext = query({
+  args: {
+    feedbackId: v.id("messageFeedback"),
+  },
+  handler: authenticatedQuery(async (ctx, args: { feedbackId: Id<"messageFeedback"> }, user) => {
+    await requirePermission(ctx, "feedback:review", user);
+
+    const feedback = await ctx.db.get(args.feedbackId);
+    if (!feedback) {
+      throw new Error("Feedback not found");
+    }
+
+    const message = await ctx.db.get(feedback.messageId);
+    const conversation = await ctx.db.get(feedback.conversationId);
+    const advisor = feedback.advisorId ? await ctx.db.get(feedback.advisorId) : null;
+    if (!message) {
+      // The reply was deleted after it was rated
+      return { feedback, conversationTitle: conversation?.title ?? null, advisorName: advisor?.persona?.name ?? null, message: null, context: [], systemPrompt: null };
+    }
+
+    // The branch the reply is on, up to the reply itself
+    const path = selectBranchPath(await loadConversationTree(ctx, feedback.conversationId), feedback.messageId);
+    const replyIndex = path.findIndex((entry) => entry.id === feedback.messageId);
+
+    const advisorNames = new Map<string, string>();
+    const context = await Promise.all(
+      path.slice(0, Math.max(replyIndex, 0)).map(async (entry) => {
+        if (entry.advisorId && !advisorNames.has(entry.advisorId)) {
+          const entryAdvisor = await ctx.db.get(entry.advisorId);
+          advisorNames.set(entry.advisorId, entryAdvisor?.persona?.name || "Advisor");
+        }
+        return {
+          _id: entry._id,
+          sender: entry.sender,
+          advisorName: entry.advisorId ? advisorNames.get(entry.advisorId) ?? null : null,
+          content: entry.content,
+          createdAt: entry.createdAt,
+        };
+      })
+    );
+
+    const meta = message.contentJson ?? {};
+    return {
+      feedback,
+      conversationTitle: conversation?.title ?? null,
+      advisorName: advisor?.persona?.name ?? null,
+      message: {
+        _id: message._id,
+        content: message.content,
+        createdAt: message.createdAt,
+        model: typeof meta.model === "string" ? meta.model : null,
+        temperature: typeof meta.temperature === "number" ? meta.temperature : null,
+        finishReason: typeof meta.finishReason === "string" ? meta.finishReason : null,
+        totalTokens: typeof meta.usage?.total_tokens === "number" ? meta.usage.total_tokens : null,
+        toolCalls: Array.isArray(meta.toolCalls) ? meta.toolCalls.length : 0,
+        citations: Array.isArray(meta.citations) ? meta.citations.length : 0,
+      },
+      context,
+      // Persona part of the prompt only; the founder's memories and profile are not included
+      systemPrompt: advisor ? generateSystemPrompt(advisor) : null,
+    };
+  }),
+});
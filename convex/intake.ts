@@ -0,0 +1,160 @@
+import { v } from "convex/values";
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import {
+  buildIntakeSteps,
+  formatIntakeKickoff,
+  getIntakeConfig,
+  getMissingIntakeSections,
+  intakeMemoryKey,
+  resolveAdvisorComponents,
+} from "../src/server/advisors/components";
+
+/**
+ * Guided Intake Functions
+ *
+ * These functions run the step-by-step intake of advisors that declare the
+ * intakeQuestionnaire component. Answers are saved as advisor memories and the
+ * advisor's first reply waits until the required sections are answered or the
+ * founder skips (see the gate in chat.sendChatMessage).
+ */
+
+// Create or update one advisor memory
+async function upsertMemory(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  advisorId: Id<"advisors">,
+  key: string,
+  value: string
+) {
+  const existing = await ctx.db
+    .query("advisorMemories")
+    .withIndex("by_conversation_advisor_key", (q) =>
+      q.eq("conversationId", conversationId).eq("advisorId", advisorId).eq("key", key)
+    )
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { value, updatedAt: Date.now() });
+  } else {
+    await ctx.db.insert("advisorMemories", {
+      conversationId,
+      advisorId,
+      key,
+      value,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+type Intake = NonNullable<Doc<"conversations">["intake"]>;
+
+// The conversation's intake, which must still be in progress
+function requireIntakeInProgress(conversation: unknown): Intake {
+  const intake = (conversation as Doc<"conversations">).intake;
+  if (!intake || intake.status !== "in_progress") {
+    throw new Error("No intake in progress");
+  }
+  return intake;
+}
+
+// Get the conversation's intake (null when the advisor has none)
+export const getIntake = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    return (conversation as Doc<"conversations">).intake ?? null;
+  }),
+});
+
+// Start the intake for a new conversation; returns null when the advisor declares no intakeQuestionnaire
+export const startIntake = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    advisorId: v.id("advisors"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations">; advisorId: Id<"advisors"> }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const existing = (conversation as Doc<"conversations">).intake;
+    if (existing) return existing;
+
+    const advisor = await ctx.db.get(args.advisorId);
+    if (!advisor) {
+      throw new Error("Advisor not found");
+    }
+
+    const config = getIntakeConfig(resolveAdvisorComponents(advisor.components).components);
+    if (!config) return null;
+
+    const intake: Intake = {
+      advisorId: advisor._id,
+      status: "in_progress",
+      steps: buildIntakeSteps(config),
+      requiredSections: config.requiredSections,
+      answers: [],
+      timeLimitMinutes: config.timeLimitMinutes,
+      startedAt: Date.now(),
+    };
+    await ctx.db.patch(args.conversationId, { intake, updatedAt: Date.now() });
+    return intake;
+  }),
+});
+
+// Save the answer to one intake step, both on the intake and as an advisor memory
+export const answerIntakeQuestion = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    stepId: v.string(),
+    answer: v.string(),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations">; stepId: string; answer: string }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const intake = requireIntakeInProgress(conversation);
+
+    const step = intake.steps.find(s => s.id === args.stepId);
+    if (!step) {
+      throw new Error("Unknown intake step");
+    }
+
+    const answer = args.answer.trim();
+    const answers = [
+      ...intake.answers.filter(a => a.stepId !== step.id),
+      ...(answer ? [{ stepId: step.id, section: step.section, question: step.question, answer }] : []),
+    ];
+    await ctx.db.patch(args.conversationId, { intake: { ...intake, answers }, updatedAt: Date.now() });
+
+    if (answer) {
+      await upsertMemory(ctx, args.conversationId, intake.advisorId, intakeMemoryKey(step.id), answer);
+    }
+
+    return { answers, missingSections: getMissingIntakeSections(intake, answers) };
+  }),
+});
+
+// Close the intake. Returns the founder message to send for the advisor's first reply (null if nothing was answered)
+export const finishIntake = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    skipped: v.boolean(),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations">; skipped: boolean }, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const intake = requireIntakeInProgress(conversation);
+
+    const missingSections = getMissingIntakeSections(intake, intake.answers);
+    if (!args.skipped && missingSections.length > 0) {
+      throw new Error(`Intake incomplete: answer ${missingSections.join(", ")} or skip`);
+    }
+
+    await ctx.db.patch(args.conversationId, {
+      intake: { ...intake, status: args.skipped ? "skipped" : "completed", finishedAt: Date.now() },
+      updatedAt: Date.now(),
+    });
+
+    return { kickoffMessage: formatIntakeKickoff(intake.answers, args.skipped), advisorId: intake.advisorId };
+  }),
+});
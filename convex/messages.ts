@@ -1,7 +1,25 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { requireUser } from "./auth";
-import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, enforceRateLimit, requireMigrationAccess, validateConversationOwnership } from "./middleware";
+import { recordUsage } from "./usage";
+import {
+  MAX_SEARCH_RESULTS,
+  MIN_SEARCH_QUERY_LENGTH,
+  buildSnippet,
+  highlightSegments,
+  matchesSearchFilters,
+  searchTerms,
+  type SearchFilters,
+} from "../src/server/conversations/search";
+import {
+  branchLeafId,
+  resolveMessageParents,
+  selectBranchPath,
+  toMessageVariant,
+  type MessageVariant,
+} from "../src/server/conversations/branches";
 
 /**
  * Message Management Functions
@@ -10,22 +28,35 @@ import { authenticatedQuery, authenticatedMutation, validateConversationOwnershi
  * replacing the current /api/messages endpoints.
  */
 
+// All messages of a conversation, oldest first, shaped for the branch helpers
+export async function loadConversationTree(ctx: QueryCtx, conversationId: Id<"conversations">) {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_conversation_created", (q) => q.eq("conversationId", conversationId))
+    .order("asc")
+    .collect();
+  return messages.map((message) => ({ ...message, id: message._id as string }));
+}
+
+// The messages on the conversation's shown branch, oldest first, each with its sibling position
+export async function loadBranchPath(ctx: QueryCtx, conversationId: Id<"conversations">) {
+  const conversation = await ctx.db.get(conversationId);
+  return selectBranchPath(await loadConversationTree(ctx, conversationId), conversation?.activeMessageId);
+}
+
 // Get messages for a conversation (with real-time subscription support)
 export const getConversationMessages = query({
   args: {
     conversationId: v.id("conversations"),
     limit: v.optional(v.number()),
   },
-  handler: authenticatedQuery(async (ctx, args: any, user) => {
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations">; limit?: number }, user) => {
     // Validate user owns the conversation
     await validateConversationOwnership(ctx, args.conversationId, user);
     const limit = args.limit || 100;
-    
-    const messages = await ctx.db
-      .query("messages")
-      .withIndex("by_conversation_created", (q) => q.eq("conversationId", args.conversationId))
-      .order("asc")
-      .take(limit);
+
+    // Only the branch being shown; other branches are reached through the sibling positions
+    const messages = (await loadBranchPath(ctx, args.conversationId)).slice(0, limit);
 
     // Get advisor details for each message
     const messagesWithAdvisors = await Promise.all(
@@ -35,8 +66,16 @@ export const getConversationMessages = query({
           advisor = await ctx.db.get(message.advisorId);
         }
 
+        // Regenerated replies carry every variant of the turn for side-by-side comparison
+        const variants: MessageVariant[] | undefined = message.sender === "advisor" && message.branch
+          ? (await Promise.all(message.branch.siblingIds.map((id) => ctx.db.get(id as Id<"messages">))))
+            .filter((variant) => variant !== null)
+            .map((variant) => toMessageVariant({ ...variant, id: variant._id }))
+          : undefined;
+
         return {
           ...message,
+          variants,
           advisor: advisor ? {
             _id: advisor._id,
             name: advisor.persona.name,
@@ -65,7 +104,9 @@ export const getRecentMessages = query({
       .withIndex("by_user", (q) => q.eq("userId", user._id))
       .collect();
 
-    const conversationIds = userConversations.map(conv => conv._id);
+    const conversationIds = userConversations
+      .filter(conv => !conv.deletedAt)
+      .map(conv => conv._id);
 
     // Get recent messages from user's conversations
     const messages = await ctx.db
@@ -120,10 +161,15 @@ export const create = mutation({
     mentions: v.array(v.string()),
     tokensUsed: v.optional(v.number()),
     createdAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
+    const conversation = await ctx.db.get(args.conversationId);
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
+      userId: conversation?.userId,
       sender: args.sender,
       advisorId: args.advisorId,
       content: args.content,
@@ -137,37 +183,185 @@ export const create = mutation({
   },
 });
 
-// Send a new message
+interface NewMessage {
+  conversationId: Id<"conversations">;
+  sender: "user" | "advisor" | "system";
+  advisorId?: Id<"advisors">;
+  content: string;
+  contentJson?: unknown;
+  mentions?: string[];
+  tokensUsed?: number;
+  parentMessageId?: Id<"messages"> | null;
+}
+
+// Add a message to a conversation the user owns (checked by the caller), continuing the branch being shown unless a parent is given
+async function appendMessage(
+  ctx: MutationCtx,
+  user: NonNullable<Awaited<ReturnType<typeof requireUser>>>,
+  conversation: Doc<"conversations">,
+  message: NewMessage
+) {
+  if (conversation.deletedAt) {
+    throw new Error("Conversation is in the trash; restore it to keep chatting");
+  }
+
+  // Without an explicit parent the message continues the branch being shown
+  const parentMessageId = message.parentMessageId !== undefined
+    ? message.parentMessageId
+    : branchLeafId(
+      await loadConversationTree(ctx, message.conversationId),
+      conversation.activeMessageId
+    );
+
+  const messageId = await ctx.db.insert("messages", {
+    conversationId: message.conversationId,
+    userId: user._id,
+    parentMessageId: parentMessageId as Id<"messages"> | null,
+    sender: message.sender,
+    advisorId: message.advisorId,
+    content: message.content,
+    contentJson: message.contentJson,
+    mentions: message.mentions || [],
+    tokensUsed: message.tokensUsed,
+    createdAt: Date.now(),
+  });
+
+  // Update conversation's updatedAt timestamp
+  await ctx.db.patch(message.conversationId, {
+    updatedAt: Date.now(),
+  });
+
+  return messageId;
+}
+
+// Send a founder message; advisor replies and system notices are saved server-side through internal mutations
 export const sendMessage = mutation({
   args: {
     conversationId: v.id("conversations"),
-    sender: v.union(v.literal("user"), v.literal("advisor"), v.literal("system")),
-    advisorId: v.optional(v.id("advisors")),
+    sender: v.literal("user"),
     content: v.string(),
     contentJson: v.optional(v.any()),
     mentions: v.optional(v.array(v.string())),
+    parentMessageId: v.optional(v.union(v.id("messages"), v.null())),
+  },
+  handler: authenticatedMutation(async (ctx, args: Omit<NewMessage, "advisorId" | "tokensUsed">, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    // Founder sends are throttled and count toward the plan quotas
+    await enforceRateLimit(ctx, "chatSend", user);
+
+    const messageId = await appendMessage(ctx, user, conversation as Doc<"conversations">, { ...args, sender: "user" });
+    await recordUsage(ctx, user._id, { messages: 1 });
+
+    return messageId;
+  }),
+});
+
+// Save a system notice (shown in the thread, never replayed to the model) for server code
+export const saveSystemMessage = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    content: v.string(),
+    contentJson: v.optional(v.any()),
+    parentMessageId: v.optional(v.union(v.id("messages"), v.null())),
+  },
+  handler: authenticatedMutation(async (ctx, args: Omit<NewMessage, "sender" | "advisorId" | "tokensUsed">, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    return await appendMessage(ctx, user, conversation as Doc<"conversations">, { ...args, sender: "system" });
+  }),
+});
+
+// Save an advisor reply written by the chat action; its tokens count toward the plan quotas
+export const saveAdvisorReply = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    advisorId: v.id("advisors"),
+    content: v.string(),
+    contentJson: v.optional(v.any()),
     tokensUsed: v.optional(v.number()),
+    parentMessageId: v.optional(v.union(v.id("messages"), v.null())),
   },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
-    // Validate user owns the conversation
+  handler: authenticatedMutation(async (ctx, args: Omit<NewMessage, "sender">, user) => {
+    const { conversation } = await validateConversationOwnership(ctx, args.conversationId, user);
+    const messageId = await appendMessage(ctx, user, conversation as Doc<"conversations">, { ...args, sender: "advisor" });
+
+    if (args.tokensUsed) {
+      await recordUsage(ctx, user._id, { tokens: args.tokensUsed });
+    }
+
+    return messageId;
+  }),
+});
+
+// Regenerating answers a saved user message again: it is throttled and metered like a new send
+export const meterRegeneration = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
     await validateConversationOwnership(ctx, args.conversationId, user);
-    const messageId = await ctx.db.insert("messages", {
-      conversationId: args.conversationId,
-      sender: args.sender,
-      advisorId: args.advisorId,
+    await enforceRateLimit(ctx, "chatSend", user);
+    await recordUsage(ctx, user._id, { messages: 1 });
+  }),
+});
+
+// Edit a user message by forking: the new text becomes a sibling branch and the original stays intact
+export const forkMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  handler: authenticatedMutation(async (ctx, args: { messageId: Id<"messages">; content: string }, user) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+    const { conversation } = await validateConversationOwnership(ctx, message.conversationId, user);
+    if ((conversation as Doc<"conversations">).deletedAt) {
+      throw new Error("Conversation is in the trash; restore it to keep chatting");
+    }
+    if (message.sender !== "user") {
+      throw new Error("Only user messages can be edited");
+    }
+    await enforceRateLimit(ctx, "chatSend", user);
+
+    // Pre-branching messages have no stored parent; resolve it from the thread order
+    const parents = resolveMessageParents(await loadConversationTree(ctx, message.conversationId));
+    const now = Date.now();
+    const forkId = await ctx.db.insert("messages", {
+      conversationId: message.conversationId,
+      userId: user._id,
+      parentMessageId: (parents.get(message._id) ?? null) as Id<"messages"> | null,
+      sender: "user",
       content: args.content,
-      contentJson: args.contentJson,
-      mentions: args.mentions || [],
-      tokensUsed: args.tokensUsed,
-      createdAt: Date.now(),
+      mentions: message.mentions,
+      createdAt: now,
     });
 
-    // Update conversation's updatedAt timestamp
-    await ctx.db.patch(args.conversationId, {
-      updatedAt: Date.now(),
+    await ctx.db.patch(message.conversationId, {
+      activeMessageId: forkId,
+      updatedAt: now,
     });
+    await recordUsage(ctx, user._id, { messages: 1 });
 
-    return messageId;
+    console.log(`Forked message ${args.messageId} into ${forkId}`);
+    return forkId;
+  }),
+});
+
+// Show the branch running through a message (used to switch between sibling branches)
+export const selectBranch = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+  },
+  handler: authenticatedMutation(async (ctx, args: { conversationId: Id<"conversations">; messageId: Id<"messages"> }, user) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.conversationId !== args.conversationId) {
+      throw new Error("Message not found");
+    }
+
+    await ctx.db.patch(args.conversationId, { activeMessageId: args.messageId });
   }),
 });
 
@@ -203,14 +397,29 @@ export const updateMessage = mutation({
 // Delete message
 export const deleteMessage = mutation({
   args: { messageId: v.id("messages") },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (ctx, args: { messageId: Id<"messages"> }, user) => {
     // Get the message and validate ownership through conversation
     const message = await ctx.db.get(args.messageId);
     if (!message) {
       throw new Error("Message not found");
     }
 
-    await validateConversationOwnership(ctx, (message as any).conversationId, user);
+    const { conversation } = await validateConversationOwnership(ctx, message.conversationId, user);
+
+    // Replies move up to the deleted message's parent so later branches stay attached
+    const children = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", message.conversationId))
+      .filter((q) => q.eq(q.field("parentMessageId"), args.messageId))
+      .collect();
+    for (const child of children) {
+      await ctx.db.patch(child._id, { parentMessageId: message.parentMessageId });
+    }
+    if ((conversation as any).activeMessageId === args.messageId) {
+      await ctx.db.patch(message.conversationId, {
+        activeMessageId: children[children.length - 1]?._id ?? message.parentMessageId ?? undefined,
+      });
+    }
 
     await ctx.db.delete(args.messageId);
   }),
@@ -219,10 +428,11 @@ export const deleteMessage = mutation({
 // Get message by ID
 export const getMessageById = query({
   args: { messageId: v.id("messages") },
-  handler: async (ctx, args) => {
+  handler: authenticatedQuery(async (ctx, args: { messageId: Id<"messages"> }, user) => {
     const message = await ctx.db.get(args.messageId);
     
     if (!message) return null;
+    await validateConversationOwnership(ctx, message.conversationId, user);
 
     // Get advisor details if present
     let advisor = null;
@@ -239,60 +449,129 @@ export const getMessageById = query({
         imageUrl: advisor.imageUrl,
       } : null,
     };
-  },
+  }),
 });
 
-// Search messages in a conversation
+// Search all of the user's messages and conversation titles, best matches first
 export const searchMessages = query({
   args: {
-    conversationId: v.id("conversations"),
-    searchTerm: v.string(),
+    query: v.string(),
+    advisorId: v.optional(v.id("advisors")),
+    sender: v.optional(v.union(v.literal("user"), v.literal("advisor"))),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
     limit: v.optional(v.number()),
   },
-  handler: async (ctx, args) => {
-    const limit = args.limit || 20;
-    
-    const messages = await ctx.db
+  handler: authenticatedQuery(async (ctx, args: {
+    query: string;
+    advisorId?: Id<"advisors">;
+    sender?: "user" | "advisor";
+    from?: number;
+    to?: number;
+    limit?: number;
+  }, user) => {
+    const searchText = args.query.trim();
+    if (searchText.length < MIN_SEARCH_QUERY_LENGTH) {
+      return { messages: [], conversations: [] };
+    }
+    const limit = Math.min(args.limit || MAX_SEARCH_RESULTS, MAX_SEARCH_RESULTS);
+    const filters: SearchFilters = { advisorId: args.advisorId, sender: args.sender, from: args.from, to: args.to };
+
+    // Advisor and sender are index filter fields; the date range is applied to the ranked hits
+    const hits = await ctx.db
       .query("messages")
-      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
-      .collect();
+      .withSearchIndex("search_content", (q) => {
+        let search = q.search("content", searchText).eq("userId", user._id);
+        if (args.advisorId) search = search.eq("advisorId", args.advisorId);
+        if (args.sender) search = search.eq("sender", args.sender);
+        return search;
+      })
+      .filter((q) => q.and(
+        args.from !== undefined ? q.gte(q.field("createdAt"), args.from) : true,
+        args.to !== undefined ? q.lte(q.field("createdAt"), args.to) : true,
+      ))
+      .take(limit);
 
-    // Simple text search (in a real app, you might want full-text search)
-    const searchResults = messages
-      .filter(message => 
-        message.content.toLowerCase().includes(args.searchTerm.toLowerCase())
-      )
-      .sort((a, b) => b.createdAt - a.createdAt)
-      .slice(0, limit);
+    // Messages in trashed conversations stay out of search until the conversation is restored
+    const conversationTitles = new Map<string, string | null>();
+    for (const message of hits) {
+      if (!conversationTitles.has(message.conversationId)) {
+        const conversation = await ctx.db.get(message.conversationId);
+        conversationTitles.set(
+          message.conversationId,
+          !conversation || conversation.deletedAt ? null : conversation.title || "Untitled conversation"
+        );
+      }
+    }
 
-    // Get advisor details for search results
-    const resultsWithAdvisors = await Promise.all(
-      searchResults.map(async (message) => {
-        let advisor = null;
-        if (message.advisorId) {
-          advisor = await ctx.db.get(message.advisorId);
+    const advisorNames = new Map<string, string>();
+    const messages = await Promise.all(
+      hits.filter((message) => conversationTitles.get(message.conversationId) !== null).map(async (message) => {
+        if (message.advisorId && !advisorNames.has(message.advisorId)) {
+          const advisor = await ctx.db.get(message.advisorId);
+          advisorNames.set(message.advisorId, advisor?.persona.name ?? "Advisor");
         }
 
         return {
-          ...message,
-          advisor: advisor ? {
-            _id: advisor._id,
-            name: advisor.persona.name,
-            title: advisor.persona.title,
-            imageUrl: advisor.imageUrl,
-          } : null,
+          _id: message._id,
+          conversationId: message.conversationId,
+          conversationTitle: conversationTitles.get(message.conversationId)!,
+          sender: message.sender,
+          advisorId: message.advisorId,
+          advisorName: message.advisorId ? advisorNames.get(message.advisorId)! : null,
+          createdAt: message.createdAt,
+          snippet: buildSnippet(message.content, searchText),
         };
       })
     );
 
-    return resultsWithAdvisors;
+    // Title matches stand for the whole conversation, so a sender filter rules them out
+    const titleHits = args.sender ? [] : await ctx.db
+      .query("conversations")
+      .withSearchIndex("search_title", (q) => q.search("title", searchText).eq("userId", user._id))
+      .take(limit);
+    const conversations = titleHits
+      .filter((conversation) => !conversation.deletedAt && matchesSearchFilters(
+        { sender: "user", advisorId: conversation.activeAdvisorId, createdAt: conversation.updatedAt },
+        filters
+      ))
+      .map((conversation) => ({
+        _id: conversation._id,
+        title: highlightSegments(conversation.title ?? "", searchTerms(searchText)),
+        updatedAt: conversation.updatedAt,
+      }));
+
+    return { messages, conversations };
+  }),
+});
+
+// Copy the owning user onto messages written before search existed. Run until isDone:
+//   npx convex run messages:backfillMessageOwners '{"cursor": null}'
+export const backfillMessageOwners = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db.query("messages").paginate({ cursor: args.cursor, numItems: 200 });
+
+    let updated = 0;
+    for (const message of page.page) {
+      if (message.userId) continue;
+      const conversation = await ctx.db.get(message.conversationId);
+      if (!conversation) continue;
+      await ctx.db.patch(message._id, { userId: conversation.userId });
+      updated++;
+    }
+
+    console.log(`Backfilled owners on ${updated} of ${page.page.length} messages`);
+    return { updated, cursor: page.continueCursor, isDone: page.isDone };
   },
 });
 
 // Get message statistics for a conversation
 export const getMessageStats = query({
   args: { conversationId: v.id("conversations") },
-  handler: async (ctx, args) => {
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+
     const messages = await ctx.db
       .query("messages")
       .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
@@ -309,13 +588,15 @@ export const getMessageStats = query({
     };
 
     return stats;
-  },
+  }),
 });
 
 // List all messages (for migration compatibility)
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { secret: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     return await ctx.db.query("messages").collect();
   },
 });
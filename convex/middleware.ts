@@ -1,5 +1,21 @@
 import type { QueryCtx, MutationCtx, ActionCtx } from "./_generated/server";
+import { ConvexError } from "convex/values";
 import { requireUser, requireUserWithAutoSync, getCurrentUser } from "./auth";
+import {
+  RATE_LIMITS,
+  describeRateLimit,
+  slideWindow,
+  type RateLimitAction,
+  type RateLimitResult,
+} from "../src/server/auth/rate-limit";
+import {
+  AccessDeniedError,
+  PERMISSIONS,
+  hasRole,
+  resolveRole,
+  type Permission,
+  type Role,
+} from "../src/server/auth/roles";
 
 /**
  * Authentication Middleware
@@ -125,40 +141,117 @@ export async function requirePlan(
 }
 
 /**
- * Rate limiting helper (basic implementation)
- * In a real app, you'd want more sophisticated rate limiting
+ * Rate limiting helper (sliding window)
+ * Records the request in the user's bucket for `action` when it is allowed.
+ * Buckets live in the rateLimits table, so this needs a mutation context.
  */
 export async function checkRateLimit(
-  ctx: QueryCtx | MutationCtx,
+  ctx: MutationCtx,
   action: string,
   limit: number,
   windowMs: number,
   user?: NonNullable<Awaited<ReturnType<typeof requireUser>>>
+): Promise<RateLimitResult> {
+  const currentUser = user || await requireUser(ctx);
+  const now = Date.now();
+
+  const bucket = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_user_action", (q) => q.eq("userId", currentUser._id).eq("action", action))
+    .first();
+  const { result, hits } = slideWindow(bucket?.hits ?? [], { limit, windowMs }, now);
+
+  // Refused requests don't count against the window
+  if (result.allowed) {
+    if (bucket) {
+      await ctx.db.patch(bucket._id, { hits, updatedAt: now });
+    } else {
+      await ctx.db.insert("rateLimits", { userId: currentUser._id, action, hits, updatedAt: now });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rate limit enforcement for one of the RATE_LIMITS buckets
+ * Throws a 429-style ConvexError with retry-after details when the request is refused
+ */
+export async function enforceRateLimit(
+  ctx: MutationCtx,
+  action: RateLimitAction,
+  user?: NonNullable<Awaited<ReturnType<typeof requireUser>>>
+): Promise<RateLimitResult> {
+  const rule = RATE_LIMITS[action];
+  const result = await checkRateLimit(ctx, action, rule.limit, rule.windowMs, user);
+  if (!result.allowed) {
+    throw new ConvexError({
+      code: "RATE_LIMITED",
+      status: 429,
+      action,
+      message: describeRateLimit(action, result),
+      retryAfterMs: result.retryAfterMs,
+      resetAt: result.resetAt,
+    });
+  }
+  return result;
+}
+
+/**
+ * Role-based access control
+ * Ensures user's role ranks at or above `minimum` (see src/server/auth/roles)
+ */
+export async function requireRole(
+  ctx: QueryCtx | MutationCtx,
+  minimum: Role,
+  user?: NonNullable<Awaited<ReturnType<typeof requireUser>>>
 ) {
   const currentUser = user || await requireUser(ctx);
-  
-  // For now, just return true - implement actual rate limiting as needed
-  // You could store rate limit data in a separate Convex table
-  return true;
+  const role = resolveRole(currentUser);
+
+  if (!hasRole(role, minimum)) {
+    throw new AccessDeniedError(minimum, role);
+  }
+
+  return currentUser;
+}
+
+/**
+ * Permission check
+ * Ensures user's role holds `permission`
+ */
+export async function requirePermission(
+  ctx: QueryCtx | MutationCtx,
+  permission: Permission,
+  user?: NonNullable<Awaited<ReturnType<typeof requireUser>>>
+) {
+  return await requireRole(ctx, PERMISSIONS[permission], user);
 }
 
 /**
  * Admin access control
- * Ensures user has admin privileges (based on plan or specific flag)
+ * Ensures user has the admin or owner role; the plan plays no part
  */
 export async function requireAdmin(
   ctx: QueryCtx | MutationCtx,
   user?: NonNullable<Awaited<ReturnType<typeof requireUser>>>
 ) {
-  const currentUser = user || await requireUser(ctx);
-  
-  // For now, enterprise users are considered admins
-  // In a real app, you'd have a separate admin flag or role system
-  if (currentUser.plan !== "enterprise") {
-    throw new Error("Access denied: Admin privileges required");
+  return await requireRole(ctx, "admin", user);
+}
+
+/**
+ * Migration access control
+ * Migrations run either from scripts holding MIGRATION_SECRET or by an admin
+ */
+export async function requireMigrationAccess(
+  ctx: QueryCtx | MutationCtx,
+  secret?: string
+) {
+  const expected = process.env.MIGRATION_SECRET;
+  if (expected && secret === expected) {
+    return null;
   }
-  
-  return currentUser;
+  return await requirePermission(ctx, "migrations:run");
 }
 
 /**
@@ -2,7 +2,8 @@ import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { api } from "./_generated/api";
 import { requireUser } from "./auth";
-import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, requireAdmin, requirePermission, validateConversationOwnership } from "./middleware";
+import type { Id } from "./_generated/dataModel";
 
 /**
  * Real-time Features
@@ -135,18 +136,25 @@ export const updateUserPresence = mutation({
 // Get user presence by user ID
 export const getUserPresence = query({
   args: { userId: v.id("users") },
-  handler: async (ctx, args) => {
+  handler: authenticatedQuery(async (ctx, args: { userId: Id<"users"> }, user) => {
+    // Other users' presence is for admins
+    if (args.userId !== user._id) {
+      await requirePermission(ctx, "users:read", user);
+    }
+
     return await ctx.db
       .query("userPresence")
       .withIndex("by_user", (q) => q.eq("userId", args.userId))
       .first();
-  },
+  }),
 });
 
 // Get online users
 export const getOnlineUsers = query({
   args: {},
-  handler: async (ctx) => {
+  handler: authenticatedQuery(async (ctx, _args: Record<string, never>, user) => {
+    await requirePermission(ctx, "users:read", user);
+
     const onlinePresences = await ctx.db
       .query("userPresence")
       .withIndex("by_online", (q) => q.eq("isOnline", true))
@@ -173,13 +181,15 @@ export const getOnlineUsers = query({
     );
 
     return onlineUsers.filter(user => user !== null);
-  },
+  }),
 });
 
 // Get users in a specific conversation
 export const getUsersInConversation = query({
   args: { conversationId: v.id("conversations") },
-  handler: async (ctx, args) => {
+  handler: authenticatedQuery(async (ctx, args: { conversationId: Id<"conversations"> }, user) => {
+    await validateConversationOwnership(ctx, args.conversationId, user);
+
     const presences = await ctx.db
       .query("userPresence")
       .withIndex("by_conversation", (q) => q.eq("currentConversationId", args.conversationId))
@@ -200,7 +210,7 @@ export const getUsersInConversation = query({
     );
 
     return users.filter(user => user !== null);
-  },
+  }),
 });
 
 // ===== CLEANUP FUNCTIONS =====
@@ -208,7 +218,9 @@ export const getUsersInConversation = query({
 // Clean up stale typing indicators and presence records
 export const cleanupStaleRecords = mutation({
   args: {},
-  handler: async (ctx) => {
+  handler: authenticatedMutation(async (ctx, _args: Record<string, never>, user) => {
+    await requireAdmin(ctx, user);
+
     const now = Date.now();
     
     // Clean up typing indicators older than 10 seconds
@@ -239,7 +251,7 @@ export const cleanupStaleRecords = mutation({
       cleanedTypingIndicators: staleTypingIndicators.length,
       cleanedPresences: stalePresences.length,
     };
-  },
+  }),
 });
 
 // ===== ACTIVITY TRACKING =====
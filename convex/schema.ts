@@ -11,6 +11,8 @@ import { v } from "convex/values";
  * - Message → messages
  * - AdvisorMemory → advisorMemories
  * - ThreadSummary → threadSummaries
+ * - UserProfile → userProfiles
+ * - Document → documents
  */
 
 export default defineSchema({
@@ -22,12 +24,20 @@ export default defineSchema({
     name: v.optional(v.string()),
     image: v.optional(v.string()),
     plan: v.string(), // "free", "pro", "enterprise"
+    // Access role, separate from the plan; missing means "member"
+    role: v.optional(v.union(
+      v.literal("owner"),
+      v.literal("admin"),
+      v.literal("advisor-author"),
+      v.literal("member")
+    )),
     createdAt: v.number(), // Unix timestamp
     updatedAt: v.number(), // Unix timestamp
   })
     .index("by_clerk_id", ["clerkId"])
     .index("by_email", ["email"])
-    .index("by_plan", ["plan"]),
+    .index("by_plan", ["plan"])
+    .index("by_role", ["role"]),
 
   // Advisors table - Maps to Prisma Advisor model
   advisors: defineTable({
@@ -95,6 +105,7 @@ export default defineSchema({
         description: v.optional(v.string()),
         unit: v.optional(v.string()),
       }))),
+      tools: v.optional(v.array(v.string())), // Advisor tool names (see src/server/advisors/tools)
     })),
     components: v.array(v.any()), // Flexible array for advisor components
     metadata: v.optional(v.object({
@@ -131,17 +142,39 @@ export default defineSchema({
     userId: v.id("users"), // Reference to users table
     title: v.optional(v.string()),
     activeAdvisorId: v.optional(v.id("advisors")), // Reference to advisors table
+    modelOverride: v.optional(v.string()), // Per-conversation model, takes priority over advisor modelHint
+    activeMessageId: v.optional(v.id("messages")), // Branch anchor: the shown path runs through this message
+    // Guided intake driven by the advisor's intakeQuestionnaire component
+    intake: v.optional(v.object({
+      advisorId: v.id("advisors"),
+      status: v.union(v.literal("in_progress"), v.literal("completed"), v.literal("skipped")),
+      steps: v.array(v.object({ id: v.string(), section: v.string(), question: v.string() })),
+      requiredSections: v.array(v.string()),
+      answers: v.array(v.object({ stepId: v.string(), section: v.string(), question: v.string(), answer: v.string() })),
+      timeLimitMinutes: v.number(),
+      startedAt: v.number(),
+      finishedAt: v.optional(v.number()),
+    })),
+    deletedAt: v.optional(v.number()), // Set while the conversation is in the trash; purged after the retention period
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
     .index("by_advisor", ["activeAdvisorId"])
     .index("by_updated_at", ["updatedAt"])
-    .index("by_user_updated", ["userId", "updatedAt"]),
+    .index("by_user_updated", ["userId", "updatedAt"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted_at", ["deletedAt"])
+    .searchIndex("search_title", {
+      searchField: "title",
+      filterFields: ["userId"],
+    }),
 
   // Messages table - Maps to Prisma Message model
   messages: defineTable({
     conversationId: v.id("conversations"), // Reference to conversations table
+    userId: v.optional(v.id("users")), // Conversation owner, copied here so search can filter by it
+    parentMessageId: v.optional(v.union(v.id("messages"), v.null())), // Message this one follows; null for a root, unset on pre-branching messages
     sender: v.union(v.literal("user"), v.literal("advisor"), v.literal("system")),
     advisorId: v.optional(v.id("advisors")), // Reference to advisors table
     content: v.string(),
@@ -154,7 +187,11 @@ export default defineSchema({
     .index("by_conversation_created", ["conversationId", "createdAt"])
     .index("by_advisor", ["advisorId"])
     .index("by_sender", ["sender"])
-    .index("by_created_at", ["createdAt"]),
+    .index("by_created_at", ["createdAt"])
+    .searchIndex("search_content", {
+      searchField: "content",
+      filterFields: ["userId", "advisorId", "sender"],
+    }),
 
   // Advisor Memories table - Maps to Prisma AdvisorMemory model
   advisorMemories: defineTable({
@@ -181,6 +218,121 @@ export default defineSchema({
     .index("by_conversation", ["conversationId"])
     .index("by_created_at", ["createdAt"]),
 
+  // User Profiles table - Maps to Prisma UserProfile model
+  userProfiles: defineTable({
+    userId: v.id("users"), // Reference to users table
+    companyName: v.optional(v.string()),
+    industry: v.optional(v.string()),
+    stage: v.optional(v.string()),
+    goals: v.optional(v.string()),
+    constraints: v.optional(v.string()),
+    optOutFields: v.array(v.string()), // Fields kept private from advisors
+    proposals: v.array(v.object({ // Advisor-proposed updates awaiting the user
+      field: v.string(),
+      value: v.string(),
+      advisorId: v.string(),
+      proposedAt: v.number(),
+    })),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Documents table - Maps to Prisma Document model
+  documents: defineTable({
+    userId: v.id("users"), // Reference to users table
+    conversationId: v.id("conversations"), // Reference to conversations table
+    name: v.string(),
+    mimeType: v.string(),
+    kind: v.string(), // "pitch_deck", "financial_model", "business_plan", "other"
+    sizeBytes: v.number(),
+    content: v.string(), // Uploaded text
+    chunkCount: v.optional(v.number()), // Rows in documentChunks
+    truncated: v.optional(v.boolean()), // The file was too long and its end was not indexed
+    chunks: v.optional(v.array(v.object({ // Legacy: chunks stored inline before documentChunks
+      index: v.number(),
+      section: v.string(),
+      content: v.string(),
+    }))),
+    createdAt: v.number(),
+  })
+    .index("by_conversation", ["conversationId"]),
+
+  // Section-labelled pieces of a document ranked by retrieval; kept apart so a large upload stays under the document size limit
+  documentChunks: defineTable({
+    documentId: v.id("documents"),
+    conversationId: v.id("conversations"), // Denormalized so a turn loads every chunk of the conversation at once
+    index: v.number(),
+    section: v.string(),
+    content: v.string(),
+  })
+    .index("by_document", ["documentId", "index"])
+    .index("by_conversation", ["conversationId"]),
+
+  // Thumbs up/down on advisor replies, one per founder and message
+  messageFeedback: defineTable({
+    messageId: v.id("messages"),
+    conversationId: v.id("conversations"),
+    userId: v.id("users"),
+    advisorId: v.optional(v.id("advisors")), // Denormalized from the message for the admin breakdowns
+    model: v.optional(v.string()), // Model that wrote the reply (from the message's contentJson)
+    sentiment: v.union(v.literal("up"), v.literal("down")),
+    reason: v.optional(v.union(
+      v.literal("incorrect"),
+      v.literal("verbose"),
+      v.literal("instructions"),
+      v.literal("other")
+    )),
+    other: v.optional(v.string()),
+    comments: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_message_user", ["messageId", "userId"])
+    .index("by_conversation", ["conversationId"])
+    .index("by_updated_at", ["updatedAt"]),
+
+  // Usage ledger for plan quotas: one row per user and UTC day, added to on every chat turn
+  usageLedger: defineTable({
+    userId: v.id("users"),
+    day: v.number(), // Start of the UTC day
+    messages: v.number(), // Founder messages sent
+    tokens: v.number(), // Tokens used by advisor replies
+    updatedAt: v.number(),
+  })
+    .index("by_user_day", ["userId", "day"]),
+
+  // Sliding-window rate limit buckets, one per user and action (see middleware checkRateLimit)
+  rateLimits: defineTable({
+    userId: v.id("users"),
+    action: v.string(), // "chatSend", "conversationCreate", "advisorUpload", ...
+    hits: v.array(v.number()), // Request times inside the window, oldest first
+    updatedAt: v.number(),
+  })
+    .index("by_user_action", ["userId", "action"]),
+
+  // Append-only log of privileged and destructive operations (see convex/audit.ts)
+  auditEvents: defineTable({
+    actorId: v.optional(v.id("users")), // Missing when a migration ran with MIGRATION_SECRET
+    actorRole: v.optional(v.string()),
+    action: v.string(), // "conversation.delete", "user.plan", "advisor.upload", ...
+    targetTable: v.string(),
+    targetId: v.string(),
+    targetLabel: v.optional(v.string()), // Advisor or user name, conversation title
+    before: v.optional(v.any()), // Changed fields before the operation
+    after: v.optional(v.any()), // Changed fields after the operation
+    details: v.optional(v.any()), // E.g. how many messages a conversation delete removed
+    origin: v.object({
+      function: v.string(),
+      credential: v.union(v.literal("session"), v.literal("migration-secret"), v.literal("internal")),
+    }),
+    createdAt: v.number(),
+  })
+    .index("by_created_at", ["createdAt"])
+    .index("by_action", ["action", "createdAt"])
+    .index("by_actor", ["actorId", "createdAt"])
+    .index("by_target", ["targetId", "createdAt"]),
+
   // Typing indicators for real-time chat (new feature)
   typingIndicators: defineTable({
     conversationId: v.id("conversations"),
@@ -1,6 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { authenticatedQuery, authenticatedMutation, validateConversationOwnership } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, requireMigrationAccess, validateConversationOwnership } from "./middleware";
 
 /**
  * Thread Summary Management Functions
@@ -58,8 +58,11 @@ export const create = mutation({
     startMessageId: v.optional(v.string()),
     endMessageId: v.optional(v.string()),
     createdAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     const summaryId = await ctx.db.insert("threadSummaries", {
       conversationId: args.conversationId,
       content: args.content,
@@ -199,8 +202,10 @@ export const getSummaryStats = query({
 
 // List all thread summaries (for migration compatibility)
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { secret: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     return await ctx.db.query("threadSummaries").collect();
   },
 });
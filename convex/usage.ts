@@ -0,0 +1,70 @@
+import { v } from "convex/values";
+import { internalMutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { authenticatedMutation, authenticatedQuery } from "./middleware";
+import { checkQuota, quotaPeriodStarts, sumUsage } from "../src/server/llm/quotas";
+
+/**
+ * Usage Metering Functions
+ *
+ * The usage ledger keeps one row per user and UTC day with the messages sent and
+ * tokens used that day. messages.sendMessage, forkMessage, meterRegeneration and
+ * saveAdvisorReply add to it, as does recordTokenUsage for the chat action's
+ * summaries and memory extraction; chat.sendChatMessage checks the plan's daily
+ * and monthly quotas before each turn.
+ */
+
+// Today's and this month's usage against the user's plan quotas
+export async function loadQuotaStatus(ctx: QueryCtx, user: { _id: Id<"users">; plan: string }) {
+  const now = Date.now();
+  const rows = await ctx.db
+    .query("usageLedger")
+    .withIndex("by_user_day", (q) => q.eq("userId", user._id).gte("day", quotaPeriodStarts(now).monthly))
+    .collect();
+  const usage = sumUsage(rows.map((row) => ({ messages: row.messages, tokens: row.tokens, createdAt: row.day })), now);
+  return checkQuota(user.plan, usage, now);
+}
+
+// Add a turn's messages and tokens to today's ledger row
+export async function recordUsage(ctx: MutationCtx, userId: Id<"users">, usage: { messages?: number; tokens?: number }) {
+  const now = Date.now();
+  const day = quotaPeriodStarts(now).daily;
+  const row = await ctx.db
+    .query("usageLedger")
+    .withIndex("by_user_day", (q) => q.eq("userId", userId).eq("day", day))
+    .first();
+
+  if (row) {
+    await ctx.db.patch(row._id, {
+      messages: row.messages + (usage.messages ?? 0),
+      tokens: row.tokens + (usage.tokens ?? 0),
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("usageLedger", {
+      userId,
+      day,
+      messages: usage.messages ?? 0,
+      tokens: usage.tokens ?? 0,
+      updatedAt: now,
+    });
+  }
+}
+
+// Quota meters for the current user (daily and monthly messages and tokens)
+export const getUsage = query({
+  args: {},
+  handler: authenticatedQuery(async (ctx, _args: Record<string, never>, user) => {
+    return await loadQuotaStatus(ctx, user);
+  }),
+});
+
+// Tokens the chat action spent outside a saved reply (thread summaries, memory extraction)
+export const recordTokenUsage = internalMutation({
+  args: {
+    tokens: v.number(),
+  },
+  handler: authenticatedMutation(async (ctx, args: { tokens: number }, user) => {
+    await recordUsage(ctx, user._id, { tokens: args.tokens });
+  }),
+});
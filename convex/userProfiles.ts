@@ -0,0 +1,129 @@
+import { v } from "convex/values";
+import { query, mutation, type QueryCtx, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { authenticatedQuery, authenticatedMutation } from "./middleware";
+import {
+  PROFILE_FIELDS,
+  mergeProfileProposals,
+  parseProfileProposals,
+  profileUpdateSchema,
+  type ProfileField,
+} from "../src/server/llm/profile";
+
+/**
+ * User Profile Management Functions
+ *
+ * These functions handle the founder profile shared by every advisor across
+ * conversations: user edits, per-field opt-outs and advisor-proposed updates.
+ */
+
+const profileFieldValidator = v.union(...PROFILE_FIELDS.map(field => v.literal(field)));
+
+async function getProfileForUser(ctx: QueryCtx | MutationCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("userProfiles")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+}
+
+// Save changes to the current user's profile, creating it on first edit
+async function saveProfile(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  changes: Record<string, unknown>
+) {
+  const existing = await getProfileForUser(ctx, userId);
+
+  if (existing) {
+    await ctx.db.patch(existing._id, { ...changes, updatedAt: Date.now() });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("userProfiles", {
+    userId,
+    optOutFields: [],
+    proposals: [],
+    ...changes,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  });
+}
+
+// Get the current user's profile (null until it is first edited or proposed to)
+export const getMyProfile = query({
+  args: {},
+  handler: authenticatedQuery(async (ctx, args: any, user) => {
+    return await getProfileForUser(ctx, user._id);
+  }),
+});
+
+// Edit profile fields and opt-outs; null clears a field
+export const updateMyProfile = mutation({
+  args: {
+    companyName: v.optional(v.union(v.string(), v.null())),
+    industry: v.optional(v.union(v.string(), v.null())),
+    stage: v.optional(v.union(v.string(), v.null())),
+    goals: v.optional(v.union(v.string(), v.null())),
+    constraints: v.optional(v.union(v.string(), v.null())),
+    optOutFields: v.optional(v.array(profileFieldValidator)),
+  },
+  handler: authenticatedMutation(async (ctx, args: any, user) => {
+    const updates = profileUpdateSchema.parse(args);
+
+    // Convex removes a field when it is patched to undefined
+    const changes: Record<string, unknown> = {};
+    for (const field of PROFILE_FIELDS) {
+      if (updates[field] !== undefined) changes[field] = updates[field] || undefined;
+    }
+    if (updates.optOutFields) changes.optOutFields = updates.optOutFields;
+
+    return await saveProfile(ctx, user._id, changes);
+  }),
+});
+
+// Accept or dismiss an advisor's proposed update
+export const resolveProposal = mutation({
+  args: {
+    field: profileFieldValidator,
+    accept: v.boolean(),
+  },
+  handler: authenticatedMutation(async (ctx, args: any, user) => {
+    const profile = await getProfileForUser(ctx, user._id);
+    if (!profile) {
+      throw new Error("Profile not found");
+    }
+
+    const field = args.field as ProfileField;
+    const proposal = profile.proposals.find(p => p.field === field);
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+
+    await ctx.db.patch(profile._id, {
+      ...(args.accept ? { [field]: proposal.value } : {}),
+      proposals: profile.proposals.filter(p => p.field !== field),
+      updatedAt: Date.now(),
+    });
+  }),
+});
+
+// Queue advisor-proposed updates (called by the chat action after memory extraction)
+export const proposeUpdates = mutation({
+  args: {
+    proposals: v.array(v.object({
+      field: profileFieldValidator,
+      value: v.string(),
+      advisorId: v.string(),
+      proposedAt: v.number(),
+    })),
+  },
+  handler: authenticatedMutation(async (ctx, args: any, user) => {
+    const profile = await getProfileForUser(ctx, user._id);
+    const proposals = mergeProfileProposals(
+      parseProfileProposals(profile?.proposals),
+      parseProfileProposals(args.proposals)
+    );
+
+    return await saveProfile(ctx, user._id, { proposals });
+  }),
+});
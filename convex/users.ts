@@ -1,7 +1,10 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 import { requireUser, getCurrentUser } from "./auth";
-import { authenticatedQuery, authenticatedMutation, requireAdmin } from "./middleware";
+import { authenticatedQuery, authenticatedMutation, requireMigrationAccess, requirePermission } from "./middleware";
+import { canAssignRole, resolveRole, ROLE_LABELS, type Role } from "../src/server/auth/roles";
+import { recordAuditEvent } from "./audit";
 
 /**
  * User Management Functions
@@ -17,8 +20,12 @@ export const getOrCreateUser = mutation({
     email: v.optional(v.string()),
     name: v.optional(v.string()),
     image: v.optional(v.string()),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    // Creates users for any Clerk ID, so only scripts and admins may call it
+    const actor = await requireMigrationAccess(ctx, args.secret);
+
     // Check if user already exists
     const existingUser = await ctx.db
       .query("users")
@@ -49,6 +56,14 @@ export const getOrCreateUser = mutation({
       updatedAt: Date.now(),
     });
 
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "user.create",
+      target: { table: "users", id: userId, label: args.name || args.email },
+      after: await ctx.db.get(userId),
+      origin: { function: "users:getOrCreateUser" },
+    });
+
     return userId;
   },
 });
@@ -58,7 +73,7 @@ export const getUserByClerkId = query({
   args: { clerkId: v.string() },
   handler: authenticatedQuery(async (ctx, args: any, user) => {
     // Require admin access to look up users by Clerk ID
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:read", user);
 
     return await ctx.db
       .query("users")
@@ -72,7 +87,7 @@ export const getUserById = query({
   args: { userId: v.id("users") },
   handler: authenticatedQuery(async (ctx, args: any, user) => {
     // Require admin access to look up users by ID
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:read", user);
 
     return await ctx.db.get(args.userId);
   }),
@@ -84,14 +99,24 @@ export const updateUserPlan = mutation({
     userId: v.id("users"),
     plan: v.union(v.literal("free"), v.literal("pro"), v.literal("enterprise")),
   },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (ctx, args: { userId: Id<"users">; plan: "free" | "pro" | "enterprise" }, user) => {
     // Require admin access to update user plans
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:manage", user);
 
+    const before = await ctx.db.get(args.userId);
     await ctx.db.patch(args.userId, {
       plan: args.plan,
       updatedAt: Date.now(),
     });
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.plan",
+      target: { table: "users", id: args.userId, label: before?.name || before?.email },
+      before,
+      after: await ctx.db.get(args.userId),
+      origin: { function: "users:updateUserPlan" },
+    });
   }),
 });
 
@@ -102,9 +127,9 @@ export const updateUserProfile = mutation({
     name: v.optional(v.string()),
     image: v.optional(v.string()),
   },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (ctx, args: { userId: Id<"users">; name?: string; image?: string }, user) => {
     // Require admin access to update other users' profiles
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:manage", user);
 
     const updates: any = {
       updatedAt: Date.now(),
@@ -113,7 +138,17 @@ export const updateUserProfile = mutation({
     if (args.name !== undefined) updates.name = args.name;
     if (args.image !== undefined) updates.image = args.image;
 
+    const before = await ctx.db.get(args.userId);
     await ctx.db.patch(args.userId, updates);
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.profile",
+      target: { table: "users", id: args.userId, label: before?.name || before?.email },
+      before,
+      after: await ctx.db.get(args.userId),
+      origin: { function: "users:updateUserProfile" },
+    });
   }),
 });
 
@@ -122,7 +157,7 @@ export const getAllUsers = query({
   args: {},
   handler: authenticatedQuery(async (ctx, args: any, user) => {
     // Require admin access to list all users
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:read", user);
 
     return await ctx.db.query("users").collect();
   }),
@@ -131,13 +166,27 @@ export const getAllUsers = query({
 // Delete user (admin function)
 export const deleteUser = mutation({
   args: { userId: v.id("users") },
-  handler: authenticatedMutation(async (ctx, args: any, user) => {
+  handler: authenticatedMutation(async (ctx, args: { userId: Id<"users"> }, user) => {
     // Require admin access to delete users
-    await requireAdmin(ctx, user);
+    await requirePermission(ctx, "users:manage", user);
+
+    // Admins can't delete users ranked at or above them
+    const target = await ctx.db.get(args.userId);
+    if (target && !canAssignRole(resolveRole(user), resolveRole(target), "member")) {
+      throw new Error("Access denied: you can't delete this user");
+    }
 
     // Note: In a real app, you'd want to handle cascading deletes
     // or prevent deletion if user has conversations
     await ctx.db.delete(args.userId);
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.delete",
+      target: { table: "users", id: args.userId, label: target?.name || target?.email },
+      before: target,
+      origin: { function: "users:deleteUser" },
+    });
   }),
 });
 
@@ -151,8 +200,11 @@ export const create = mutation({
     plan: v.string(),
     createdAt: v.number(),
     updatedAt: v.number(),
+    secret: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    const actor = await requireMigrationAccess(ctx, args.secret);
+
     const userId = await ctx.db.insert("users", {
       clerkId: args.clerkId,
       email: args.email,
@@ -163,14 +215,105 @@ export const create = mutation({
       updatedAt: args.updatedAt,
     });
 
+    await recordAuditEvent(ctx, {
+      actor,
+      action: "user.create",
+      target: { table: "users", id: userId, label: args.name || args.email },
+      after: await ctx.db.get(userId),
+      origin: { function: "users:create" },
+    });
+
     return userId;
   },
 });
 
 // List all users (for migration validation)
 export const list = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { secret: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    await requireMigrationAccess(ctx, args.secret);
+
     return await ctx.db.query("users").collect();
   },
 });
+
+// Change a user's role (admin function; only owners can grant or revoke owner and admin)
+export const setUserRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("admin"), v.literal("advisor-author"), v.literal("member")),
+  },
+  handler: authenticatedMutation(async (ctx, args: { userId: Id<"users">; role: Role }, user) => {
+    await requirePermission(ctx, "roles:assign", user);
+
+    const target = await ctx.db.get(args.userId);
+    if (!target) {
+      throw new Error("User not found");
+    }
+
+    const actorRole = resolveRole(user);
+    if (!canAssignRole(actorRole, resolveRole(target), args.role)) {
+      throw new Error(`Access denied: ${ROLE_LABELS[actorRole]}s can't assign the ${ROLE_LABELS[args.role]} role to this user`);
+    }
+
+    // Keep at least one owner so roles can still be managed
+    if (target.role === "owner" && args.role !== "owner") {
+      const owners = await ctx.db
+        .query("users")
+        .withIndex("by_role", (q) => q.eq("role", "owner"))
+        .take(2);
+      if (owners.length < 2) {
+        throw new Error("Can't remove the last owner");
+      }
+    }
+
+    await ctx.db.patch(args.userId, {
+      role: args.role,
+      updatedAt: Date.now(),
+    });
+
+    await recordAuditEvent(ctx, {
+      actor: user,
+      action: "user.role",
+      target: { table: "users", id: args.userId, label: target.name || target.email },
+      before: target,
+      after: await ctx.db.get(args.userId),
+      origin: { function: "users:setUserRole" },
+    });
+  }),
+});
+
+// Make the first owner; run from the dashboard or `npx convex run users:bootstrapOwner`
+export const bootstrapOwner = internalMutation({
+  args: { clerkId: v.string() },
+  handler: async (ctx, args) => {
+    const owner = await ctx.db
+      .query("users")
+      .withIndex("by_role", (q) => q.eq("role", "owner"))
+      .first();
+    if (owner) {
+      throw new Error("An owner already exists; use setUserRole instead");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_clerk_id", (q) => q.eq("clerkId", args.clerkId))
+      .first();
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    await ctx.db.patch(user._id, { role: "owner", updatedAt: Date.now() });
+    console.log("bootstrapOwner: made", user._id, "the owner");
+
+    await recordAuditEvent(ctx, {
+      actor: null,
+      action: "user.role",
+      target: { table: "users", id: user._id, label: user.name || user.email },
+      before: user,
+      after: await ctx.db.get(user._id),
+      origin: { function: "users:bootstrapOwner", credential: "internal" },
+    });
+    return user._id;
+  },
+});
@@ -0,0 +1,4 @@
+-- Migration: Per-conversation model override
+-- Takes priority over the advisor's modelHint and the user's plan tier model
+
+ALTER TABLE "Conversation" ADD COLUMN IF NOT EXISTS "modelOverride" TEXT;
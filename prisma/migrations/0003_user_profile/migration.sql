@@ -0,0 +1,32 @@
+-- Migration: Founder profile shared across conversations
+-- One row per user; optOutFields hides fields from advisors and proposals holds
+-- advisor-proposed updates waiting for the user to accept or dismiss them
+-- Safe to run multiple times due to IF EXISTS guards
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "UserProfile" (
+  "userId" TEXT NOT NULL,
+  "companyName" TEXT,
+  "industry" TEXT,
+  "stage" TEXT,
+  "goals" TEXT,
+  "constraints" TEXT,
+  "optOutFields" TEXT[] DEFAULT ARRAY[]::TEXT[],
+  "proposals" JSONB,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "UserProfile_pkey" PRIMARY KEY ("userId")
+);
+
+-- UserProfile.userId -> User.id
+ALTER TABLE "UserProfile"
+  DROP CONSTRAINT IF EXISTS "UserProfile_userId_fkey";
+ALTER TABLE "UserProfile"
+  ADD CONSTRAINT "UserProfile_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "User"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+COMMIT;
@@ -0,0 +1,43 @@
+-- Migration: Founder documents attached to a conversation
+-- content keeps the uploaded text; chunks holds the section-labelled pieces
+-- that retrieval ranks against each message
+-- Safe to run multiple times due to IF EXISTS guards
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "Document" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "conversationId" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "mimeType" TEXT NOT NULL,
+  "kind" TEXT NOT NULL,
+  "sizeBytes" INTEGER NOT NULL,
+  "content" TEXT NOT NULL,
+  "chunks" JSONB NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "Document_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "Document_conversationId_idx" ON "Document"("conversationId");
+
+-- Document.userId -> User.id
+ALTER TABLE "Document"
+  DROP CONSTRAINT IF EXISTS "Document_userId_fkey";
+ALTER TABLE "Document"
+  ADD CONSTRAINT "Document_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "User"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+-- Document.conversationId -> Conversation.id
+ALTER TABLE "Document"
+  DROP CONSTRAINT IF EXISTS "Document_conversationId_fkey";
+ALTER TABLE "Document"
+  ADD CONSTRAINT "Document_conversationId_fkey"
+  FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+COMMIT;
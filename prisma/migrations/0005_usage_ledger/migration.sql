@@ -0,0 +1,31 @@
+-- Migration: Usage ledger for plan quotas
+-- One row per founder message (messages = 1) and per advisor reply (tokens used);
+-- the chat route sums today's and this month's rows before each turn
+-- Safe to run multiple times due to IF EXISTS guards
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS "UsageLedger" (
+  "id" TEXT NOT NULL,
+  "userId" TEXT NOT NULL,
+  "conversationId" TEXT,
+  "messages" INTEGER NOT NULL DEFAULT 0,
+  "tokens" INTEGER NOT NULL DEFAULT 0,
+  "model" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "UsageLedger_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "UsageLedger_userId_createdAt_idx" ON "UsageLedger"("userId", "createdAt");
+
+-- UsageLedger.userId -> User.id
+ALTER TABLE "UsageLedger"
+  DROP CONSTRAINT IF EXISTS "UsageLedger_userId_fkey";
+ALTER TABLE "UsageLedger"
+  ADD CONSTRAINT "UsageLedger_userId_fkey"
+  FOREIGN KEY ("userId") REFERENCES "User"("id")
+  ON DELETE CASCADE
+  ON UPDATE CASCADE;
+
+COMMIT;
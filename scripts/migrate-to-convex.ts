@@ -89,6 +89,7 @@ async function migrateUsers() {
         plan: user.plan!,
         createdAt: toUnixTimestamp(user.createdAt),
         updatedAt: toUnixTimestamp(user.updatedAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.userIdMap.set(user.id, convexUserId);
@@ -147,6 +148,7 @@ async function migrateAdvisors() {
         tags: Array.isArray(advisor.tags) ? advisor.tags : [],
         createdAt: toUnixTimestamp(advisor.createdAt),
         updatedAt: toUnixTimestamp(advisor.updatedAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.advisorIdMap.set(advisor.id, convexAdvisorId);
@@ -184,6 +186,7 @@ async function migrateConversations() {
         activeAdvisorId,
         createdAt: toUnixTimestamp(conversation.createdAt),
         updatedAt: toUnixTimestamp(conversation.updatedAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.conversationIdMap.set(conversation.id, convexConversationId);
@@ -226,6 +229,7 @@ async function migrateMessages() {
         mentions: Array.isArray(message.mentions) ? message.mentions : [],
         tokensUsed: message.tokensUsed || undefined,
         createdAt: toUnixTimestamp(message.createdAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.messageIdMap.set(message.id, convexMessageId);
@@ -262,6 +266,7 @@ async function migrateAdvisorMemories() {
         value: memory.value,
         createdAt: toUnixTimestamp(memory.createdAt),
         updatedAt: toUnixTimestamp(memory.updatedAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.migrated.advisorMemories++;
@@ -294,6 +299,7 @@ async function migrateThreadSummaries() {
         startMessageId: summary.startMessageId || undefined,
         endMessageId: summary.endMessageId || undefined,
         createdAt: toUnixTimestamp(summary.createdAt),
+        secret: process.env.MIGRATION_SECRET,
       });
 
       migrationState.migrated.threadSummaries++;
@@ -310,10 +316,10 @@ async function validateMigration() {
 
   try {
     // Validate counts
-    const convexUsers = await convex.query(api.users.list);
+    const convexUsers = await convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET });
     const convexAdvisors = await convex.query(api.advisors.list);
-    const convexConversations = await convex.query(api.conversations.list);
-    const convexMessages = await convex.query(api.messages.list);
+    const convexConversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
+    const convexMessages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
 
     console.log("📊 Migration Results:");
     console.log(`  Users: ${migrationState.migrated.users} migrated, ${convexUsers.length} in Convex`);
@@ -71,7 +71,7 @@ async function testDataAvailability() {
   console.log("\n📊 Testing Data Availability...");
 
   await runTest("Users Data Available", async () => {
-    const users = await convex.query(api.users.list);
+    const users = await convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET });
     if (users.length === 0) throw new Error("No users found in database");
     console.log(`    Found ${users.length} users`);
   });
@@ -83,13 +83,13 @@ async function testDataAvailability() {
   });
 
   await runTest("Conversations Data Available", async () => {
-    const conversations = await convex.query(api.conversations.list);
+    const conversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
     if (conversations.length === 0) throw new Error("No conversations found");
     console.log(`    Found ${conversations.length} conversations`);
   });
 
   await runTest("Messages Data Available", async () => {
-    const messages = await convex.query(api.messages.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     if (messages.length === 0) throw new Error("No messages found");
     console.log(`    Found ${messages.length} messages`);
   });
@@ -100,8 +100,8 @@ async function testDataIntegrity() {
   console.log("\n🔍 Testing Data Integrity...");
 
   await runTest("User-Conversation Relationships", async () => {
-    const conversations = await convex.query(api.conversations.list);
-    const users = await convex.query(api.users.list);
+    const conversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
+    const users = await convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET });
     
     for (const conversation of conversations) {
       const userExists = users.some((u: any) => u._id === conversation.userId);
@@ -113,8 +113,8 @@ async function testDataIntegrity() {
   });
 
   await runTest("Message-Conversation Relationships", async () => {
-    const messages = await convex.query(api.messages.list);
-    const conversations = await convex.query(api.conversations.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
+    const conversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
     
     for (const message of messages) {
       const conversationExists = conversations.some((c: any) => c._id === message.conversationId);
@@ -126,7 +126,7 @@ async function testDataIntegrity() {
   });
 
   await runTest("Advisor-Message Relationships", async () => {
-    const messages = await convex.query(api.messages.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     const advisors = await convex.query(api.advisors.list);
     
     const advisorMessages = messages.filter((m: any) => m.advisorId);
@@ -157,7 +157,7 @@ async function testQueryPerformance() {
 
   await runTest("Conversation List Performance", async () => {
     const startTime = Date.now();
-    const conversations = await convex.query(api.conversations.list);
+    const conversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
     const duration = Date.now() - startTime;
     
     if (duration > 1000) {
@@ -168,7 +168,7 @@ async function testQueryPerformance() {
 
   await runTest("Message List Performance", async () => {
     const startTime = Date.now();
-    const messages = await convex.query(api.messages.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     const duration = Date.now() - startTime;
     
     if (duration > 2000) {
@@ -191,7 +191,7 @@ async function testRealTimeConnectivity() {
   });
 
   await runTest("Real-time Conversation Query", async () => {
-    const conversations = await convex.query(api.conversations.list);
+    const conversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
     if (!Array.isArray(conversations)) {
       throw new Error("Real-time query did not return array");
     }
@@ -199,7 +199,7 @@ async function testRealTimeConnectivity() {
   });
 
   await runTest("Real-time Message Query", async () => {
-    const messages = await convex.query(api.messages.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     if (!Array.isArray(messages)) {
       throw new Error("Real-time query did not return array");
     }
@@ -212,7 +212,7 @@ async function testDataStructures() {
   console.log("\n🏗️  Testing Data Structures...");
 
   await runTest("User Data Structure", async () => {
-    const users = await convex.query(api.users.list);
+    const users = await convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET });
     const user = users[0];
     
     if (!user) throw new Error("No users available for testing");
@@ -248,7 +248,7 @@ async function testDataStructures() {
   });
 
   await runTest("Message Data Structure", async () => {
-    const messages = await convex.query(api.messages.list);
+    const messages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     const message = messages[0];
     
     if (!message) throw new Error("No messages available for testing");
@@ -208,9 +208,9 @@ async function testConvexDeployment() {
     // Test that all major functions are available
     const testFunctions = [
       () => convex.query(api.advisors.getActiveAdvisors),
-      () => convex.query(api.users.list),
-      () => convex.query(api.conversations.list),
-      () => convex.query(api.messages.list)
+      () => convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET }),
+      () => convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET }),
+      () => convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET })
     ];
     
     for (const testFn of testFunctions) {
@@ -249,8 +249,8 @@ async function testConvexDeployment() {
     const startTime = Date.now();
     await Promise.all([
       convex.query(api.advisors.getActiveAdvisors),
-      convex.query(api.conversations.list),
-      convex.query(api.messages.list)
+      convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET }),
+      convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET })
     ]);
     const duration = Date.now() - startTime;
     
@@ -123,8 +123,8 @@ async function testRealTimeSubscriptions() {
   await runTest("Real-time Data Consistency", async () => {
     // Query the same data from multiple clients
     const [conversations1, conversations2] = await Promise.all([
-      client1.query(api.conversations.list),
-      client2.query(api.conversations.list)
+      client1.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET }),
+      client2.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET })
     ]);
     
     if (conversations1.length !== conversations2.length) {
@@ -194,7 +194,7 @@ async function testRealTimeFunctions() {
   });
 
   await runTest("Real-time Message Functions", async () => {
-    const messages = await client1.query(api.messages.list);
+    const messages = await client1.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     
     if (!Array.isArray(messages)) {
       throw new Error("Message query did not return an array");
@@ -42,7 +42,7 @@ async function validateDataIntegrity(): Promise<ValidationResults> {
     // Validate Users
     console.log("👥 Validating Users...");
     const postgresUsers = await prisma.user.findMany();
-    const convexUsers = await convex.query(api.users.list);
+    const convexUsers = await convex.query(api.users.list, { secret: process.env.MIGRATION_SECRET });
     
     results.users.postgres = postgresUsers.length;
     results.users.convex = convexUsers.length;
@@ -110,7 +110,7 @@ async function validateDataIntegrity(): Promise<ValidationResults> {
     // Validate Conversations
     console.log("\n💬 Validating Conversations...");
     const postgresConversations = await prisma.conversation.findMany();
-    const convexConversations = await convex.query(api.conversations.list);
+    const convexConversations = await convex.query(api.conversations.list, { secret: process.env.MIGRATION_SECRET });
     
     results.conversations.postgres = postgresConversations.length;
     results.conversations.convex = convexConversations.length;
@@ -123,7 +123,7 @@ async function validateDataIntegrity(): Promise<ValidationResults> {
     // Validate Messages
     console.log("\n📝 Validating Messages...");
     const postgresMessages = await prisma.message.findMany();
-    const convexMessages = await convex.query(api.messages.list);
+    const convexMessages = await convex.query(api.messages.list, { secret: process.env.MIGRATION_SECRET });
     
     results.messages.postgres = postgresMessages.length;
     results.messages.convex = convexMessages.length;
@@ -0,0 +1,17 @@
+import { AuditLog } from "~/components/admin/AuditLog";
+import { ErrorBoundary } from "~/components/common/ErrorBoundary";
+
+export default function AdminAuditPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ErrorBoundary>
+        <AuditLog />
+      </ErrorBoundary>
+    </div>
+  );
+}
+
+export const metadata = {
+  title: "Audit Log - Admin",
+  description: "Privileged and destructive operations",
+};
@@ -0,0 +1,17 @@
+import { FeedbackDashboard } from "~/components/admin/FeedbackDashboard";
+import { ErrorBoundary } from "~/components/common/ErrorBoundary";
+
+export default function AdminFeedbackPage() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <ErrorBoundary>
+        <FeedbackDashboard />
+      </ErrorBoundary>
+    </div>
+  );
+}
+
+export const metadata = {
+  title: "Advisor Feedback - Admin",
+  description: "Review founder ratings of advisor replies",
+};
@@ -1,8 +1,9 @@
-import { streamText, generateText } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
+import { getChatProvider, getModelForTier } from "~/server/llm/openrouter";
+import { ChatProviderConfigError, type ChatProvider } from "~/server/llm/providers";
+
 export const runtime = "nodejs";
 
 const requestSchema = z.object({
@@ -24,57 +25,40 @@ export async function POST(req: NextRequest) {
     console.log("Step 1 SUCCESS: Request parsed, messages:", messages.length);
 
     console.log("Step 2: Environment check...");
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      console.error("Step 2 FAILED: Missing OPENROUTER_API_KEY");
-      return new Response("Missing API key", { status: 500 });
+    let provider: ChatProvider;
+    try {
+      provider = getChatProvider();
+    } catch (configError) {
+      if (!(configError instanceof ChatProviderConfigError)) throw configError;
+      console.error("Step 2 FAILED:", configError.message);
+      return new Response(configError.message, { status: 500 });
     }
-    console.log("Step 2 SUCCESS: API key present, length:", apiKey.length);
-
-    console.log("Step 3: Creating OpenRouter client...");
-    const openrouterClient = createOpenAI({
-      apiKey: apiKey,
-      baseURL: "https://openrouter.ai/api/v1",
-      headers: {
-        "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-        "X-Title": "AI Advisor Chat Minimal Test",
-      },
-    });
-    console.log("Step 3 SUCCESS: OpenRouter client created");
+    console.log("Step 2 SUCCESS: Chat provider ready:", provider.name);
 
-    console.log("Step 4: Preparing AI messages...");
+    console.log("Step 3: Preparing AI messages...");
     const aiMessages = messages.map(msg => ({
       role: msg.role,
       content: msg.content,
     }));
-    console.log("Step 4 SUCCESS: AI messages prepared:", aiMessages.length);
+    console.log("Step 3 SUCCESS: AI messages prepared:", aiMessages.length);
 
-    console.log("Step 5: Testing direct OpenRouter API call...");
-    const modelName = "x-ai/grok-code-fast-1"; // Using specified model exclusively
-    console.log("Step 5a: Using model:", modelName);
+    console.log("Step 4: Testing direct provider API call...");
+    const modelName = getModelForTier("free");
+    console.log("Step 4a: Using model:", modelName);
 
     // Test direct API call first to verify the API key
     try {
-      const directResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-          "X-Title": "AI Advisor Chat Test",
-        },
-        body: JSON.stringify({
-          model: modelName,
-          messages: aiMessages,
-          temperature: 0.7,
-        }),
+      const directResponse = await provider.createChatCompletion({
+        model: modelName,
+        messages: aiMessages,
+        temperature: 0.7,
       });
 
-      console.log("Step 5b: Direct API response status:", directResponse.status);
-      console.log("Step 5c: Direct API response headers:", Object.fromEntries(directResponse.headers.entries()));
+      console.log("Step 4b: Direct API response status:", directResponse.status);
+      console.log("Step 4c: Direct API response headers:", Object.fromEntries(directResponse.headers.entries()));
 
       const responseText = await directResponse.text();
-      console.log("Step 5d: Direct API response text (first 500 chars):", responseText.substring(0, 500));
+      console.log("Step 4d: Direct API response text (first 500 chars):", responseText.substring(0, 500));
 
       if (!directResponse.ok) {
         return new Response(`Direct API test failed: ${directResponse.status} - ${responseText}`, {
@@ -90,11 +74,11 @@ export async function POST(req: NextRequest) {
       let parsedResponse;
       try {
         parsedResponse = JSON.parse(responseText);
-        console.log("Step 5e: Direct API test SUCCESS - parsed response");
+        console.log("Step 4e: Direct API test SUCCESS - parsed response");
 
         // Extract the AI response text
         const aiResponseText = parsedResponse.choices?.[0]?.message?.content || "No response content";
-        console.log("Step 5f: AI response text:", aiResponseText.substring(0, 200));
+        console.log("Step 4f: AI response text:", aiResponseText.substring(0, 200));
 
         return new Response(aiResponseText as string, {
           status: 200,
@@ -106,12 +90,12 @@ export async function POST(req: NextRequest) {
         });
 
       } catch (parseError: any) {
-        console.error("Step 5e: Failed to parse successful response:", parseError.message);
+        console.error("Step 4e: Failed to parse successful response:", parseError.message);
         return new Response(`Parse error: ${parseError.message}`, { status: 500 });
       }
 
     } catch (directError: any) {
-      console.error("Step 5b FAILED: Direct API test error:", directError.message);
+      console.error("Step 4b FAILED: Direct API test error:", directError.message);
       return new Response(`Direct API test error: ${directError.message}`, {
         status: 500,
         headers: {
@@ -1,17 +1,52 @@
-import { streamText, generateText } from "ai";
 import { NextRequest } from "next/server";
 import { z } from "zod";
+import type { Advisor, UserProfile } from "@prisma/client";
 
-import { createOpenAI } from "@ai-sdk/openai";
 import { requireUser } from "~/server/auth/require-user";
 import { db } from "~/server/db";
-import { getModelForTier } from "~/server/llm/openrouter";
-import { generateSystemPrompt, generateConversationContext, generateUserMessage, extractMentions } from "~/server/llm/prompt";
-import { getActiveAdvisors, getAdvisorById } from "~/server/advisors/persona";
+import { getChatProvider, resolveChatModel } from "~/server/llm/openrouter";
+import { fetchWithModelFallback } from "~/server/llm/models";
+import {
+  ChatProviderConfigError,
+  mergeToolCallDeltas,
+  type ChatCompletionMessage,
+  type ChatProvider,
+  type ChatToolCall,
+} from "~/server/llm/providers";
+import {
+  generateSystemPrompt,
+  generateConversationContext,
+  generateUserMessage,
+  generateBoardMeetingContext,
+  extractMentions,
+  type BoardReply,
+} from "~/server/llm/prompt";
+import { getActiveAdvisors, getAdvisorById, getAdvisorPersona, getAdvisorTools, getScopedAdvisor } from "~/server/advisors/persona";
+import { routeByScope } from "~/server/advisors/scope";
+import { extractComponentOutputs, postProcessResponse, resolveAdvisorComponents } from "~/server/advisors/components";
+import {
+  MAX_TOOL_ROUNDS,
+  buildToolResultMessages,
+  executeToolCall,
+  toToolDefinitions,
+  type ToolCallRecord,
+  type ToolContext,
+} from "~/server/advisors/tools";
+import { buildSummaryPrompt, planSummaryRange } from "~/server/llm/summaries";
+import { buildMemoryExtractionPrompt, parseExtractedMemories, type AdvisorMemoryFact } from "~/server/llm/memories";
+import { mergeProfileProposals, parseProfileProposals, proposeProfileUpdates } from "~/server/llm/profile";
+import { extractCitations, formatPassagesForPrompt, parseDocumentChunks, searchDocuments } from "~/server/llm/documents";
+import { planBoardMeeting } from "~/server/llm/board";
+import { QuotaExceededError, checkQuota, quotaPeriodStarts, type UsageTotals } from "~/server/llm/quotas";
+import { RateLimitError, createRateLimiter } from "~/server/auth/rate-limit";
+import { encodeServerSentEvent, readServerSentEvents } from "~/lib/sse";
 
 // CRITICAL: Force Node.js runtime for Prisma and streaming compatibility
 export const runtime = "nodejs";
 
+// Per-user sliding windows for chat sends and title generation (kept per server instance)
+const rateLimiter = createRateLimiter();
+
 // Request schema validation for AI SDK format
 const chatRequestSchema = z.object({
   messages: z.array(z.object({
@@ -21,6 +56,8 @@ const chatRequestSchema = z.object({
   })),
   conversationId: z.string().optional(),
   advisorId: z.string().optional(),
+  // "board" asks every mentioned advisor (or the whole board when nobody is mentioned) to reply in turn
+  mode: z.enum(["single", "board"]).optional(),
 });
 
 export async function POST(req: NextRequest) {
@@ -53,7 +90,7 @@ export async function POST(req: NextRequest) {
 
     console.log("Step 2: Parsing request body...");
     // Parse and validate request
-    let body, messages, conversationId, advisorId;
+    let body, messages, conversationId, advisorId, mode;
     try {
       body = await req.json();
       console.log("Step 2a: Raw body received:", JSON.stringify(body, null, 2));
@@ -62,11 +99,13 @@ export async function POST(req: NextRequest) {
       messages = parsed.messages;
       conversationId = parsed.conversationId;
       advisorId = parsed.advisorId;
+      mode = parsed.mode;
 
       console.log("Step 2 SUCCESS: Request parsed and validated");
       console.log("- Messages count:", messages.length);
       console.log("- Conversation ID:", conversationId);
       console.log("- Advisor ID:", advisorId);
+      console.log("- Mode:", mode || "single");
     } catch (parseError: any) {
       console.error("Step 2 FAILED: Request parsing error:", parseError.message);
       console.error("Parse error stack:", parseError.stack);
@@ -90,6 +129,11 @@ export async function POST(req: NextRequest) {
 
     const message = latestMessage.content;
 
+    // Refuse the turn once today's or this month's usage has reached the plan quota, or when the user is
+    // sending too fast; the rate limit hit is only recorded for turns the quota allows
+    await enforceQuota(user.id, user.plan);
+    rateLimiter.enforce(user.id, "chatSend");
+
     console.log("Step 3: Getting advisors and processing mentions...");
     // Get available advisors for mention parsing
     let availableAdvisors, mentions;
@@ -110,6 +154,9 @@ export async function POST(req: NextRequest) {
       }, { status: 500 });
     }
 
+    // Classify the question against every active advisor's scope
+    const routing = routeByScope(message, availableAdvisors.map(getScopedAdvisor), mentions[0] ?? advisorId);
+
     // Determine active advisor
     let activeAdvisor;
     if (mentions.length > 0) {
@@ -121,9 +168,9 @@ export async function POST(req: NextRequest) {
       // Use specified advisor
       activeAdvisor = await getAdvisorById(advisorId);
     } else {
-      console.log("Step 3c: Using default advisor");
-      // Default to first available advisor
-      activeAdvisor = availableAdvisors[0];
+      console.log("Step 3c: Auto-routing to best-fit advisor:", routing.bestFitId ?? "none, using default");
+      // Nobody chosen: the advisor whose scope fits best, else the first available one
+      activeAdvisor = availableAdvisors.find(a => a.id === routing.bestFitId) ?? availableAdvisors[0];
     }
 
     if (!activeAdvisor) {
@@ -135,6 +182,30 @@ export async function POST(req: NextRequest) {
     }
     console.log("Step 3 SUCCESS: Active advisor selected:", activeAdvisor.id);
 
+    // Board meeting: several @mentions, or the board toggle, gets each advisor to reply in turn,
+    // the active advisor (the first @mention, if any) first
+    const boardAdvisors = planBoardMeeting({
+      leadId: activeAdvisor.id,
+      mentions,
+      advisorIds: availableAdvisors.map(a => a.id),
+      boardMode: mode === "board",
+    })
+      .map(id => (id === activeAdvisor.id ? activeAdvisor : availableAdvisors.find(a => a.id === id)))
+      .filter((advisor): advisor is NonNullable<typeof advisor> => !!advisor);
+    const isBoardMeeting = boardAdvisors.length > 1;
+    if (isBoardMeeting) {
+      console.log("Step 3d: Board meeting with advisors:", boardAdvisors.map(a => a.id).join(", "));
+    }
+
+    // Offered to the client as a one-click hand-off; board meetings already hear from everyone
+    const scopeRouting = {
+      autoRouted: mentions.length === 0 && !advisorId,
+      handoff: isBoardMeeting ? null : routing.handoff,
+    };
+    if (scopeRouting.handoff) {
+      console.log("Step 3e: Question is out of scope for", activeAdvisor.id, "- suggesting", scopeRouting.handoff.advisorId);
+    }
+
     console.log("Step 4: Getting or creating conversation...");
     // Get or create conversation
     let conversation;
@@ -146,9 +217,14 @@ export async function POST(req: NextRequest) {
           include: {
             messages: {
               include: { advisor: true },
-              orderBy: { createdAt: "asc" },
-              take: 50, // Limit context window
+              orderBy: { createdAt: "desc" },
+              take: 50, // Latest messages only; older turns are covered by the thread summary
+            },
+            summaries: {
+              orderBy: { createdAt: "desc" },
+              take: 1,
             },
+            memories: true,
           },
         });
 
@@ -172,6 +248,8 @@ export async function POST(req: NextRequest) {
           },
           include: {
             messages: { include: { advisor: true } },
+            summaries: true,
+            memories: true,
           },
         });
         console.log("Step 4b SUCCESS: Created new conversation:", conversation.id);
@@ -206,83 +284,128 @@ export async function POST(req: NextRequest) {
         mentions,
       },
     });
+    await db.usageLedger.create({ data: { userId: user.id, conversationId: conversation.id, messages: 1 } });
     console.log("Step 5 SUCCESS: User message saved:", userMessage.id);
 
     console.log("Step 6: Generating prompts and preparing AI messages...");
-    // Generate system prompt and context
-    const systemPrompt = generateSystemPrompt(activeAdvisor);
-    console.log("Step 6a: System prompt generated, length:", systemPrompt.length);
-
-    const conversationContext = generateConversationContext(conversation.messages);
-    console.log("Step 6b: Conversation context generated, length:", conversationContext?.length || 0);
+    // Latest rolling summary (if any) plus the recent tail of the conversation
+    const latestSummary = conversation.summaries[0] ?? null;
+    const conversationContext = generateConversationContext(conversation.messages, 4000, latestSummary);
+    console.log("Step 6a: Conversation context generated, length:", conversationContext?.length || 0, latestSummary ? "(with summary)" : "");
 
     const userMessageWithContext = generateUserMessage(message, mentions);
-    console.log("Step 6c: User message with context generated, length:", userMessageWithContext.length);
+    console.log("Step 6b: User message with context generated, length:", userMessageWithContext.length);
+
+    // Founder profile shared by every advisor across conversations
+    const profile = await db.userProfile.findUnique({ where: { userId: user.id } });
+    console.log("Step 6c: Founder profile", profile ? "loaded" : "not set up yet");
 
-    // Prepare messages for AI
-    const aiMessages = [
-      { role: "system" as const, content: systemPrompt },
+    // Passages from the founder's documents that match this message (new conversations have none yet)
+    const documents = conversationId ? await db.document.findMany({ where: { conversationId: conversation.id } }) : [];
+    const passages = searchDocuments(
+      message,
+      documents.map(document => ({ id: document.id, name: document.name, chunks: parseDocumentChunks(document.chunks) }))
+    );
+    const documentContext = formatPassagesForPrompt(passages);
+    if (documents.length > 0) {
+      console.log("Step 6d: Retrieved", passages.length, "passages from", documents.length, "documents");
+    }
+
+    // Prepare messages for AI; in a board meeting each advisor also sees the earlier replies
+    // Each advisor only sees the facts it extracted itself
+    const memoriesFor = (advisor: typeof activeAdvisor) =>
+      conversation.memories.filter(memory => memory.advisorId === advisor.id);
+    const buildAiMessages = (advisor: typeof activeAdvisor, priorReplies: BoardReply[]) => [
+      { role: "system" as const, content: generateSystemPrompt(advisor, memoriesFor(advisor), profile) },
       ...(conversationContext ? [{ role: "system" as const, content: conversationContext }] : []),
+      ...(documentContext ? [{ role: "system" as const, content: documentContext }] : []),
+      ...(isBoardMeeting
+        ? [{ role: "system" as const, content: generateBoardMeetingContext(advisor, boardAdvisors, priorReplies) }]
+        : []),
       { role: "user" as const, content: userMessageWithContext },
     ];
-    console.log("Step 6d: AI messages prepared, total count:", aiMessages.length);
 
-    // Use the verified working model directly (same as chat-minimal)
-    const model = "x-ai/grok-code-fast-1";
+    // Resolve the model from plan, advisor hint and per-conversation override
+    const selectModel = (advisor: typeof activeAdvisor) => resolveChatModel({
+      plan: user.plan,
+      modelHint: advisor.modelHint,
+      conversationOverride: conversation.modelOverride,
+    });
+    const modelSelection = selectModel(activeAdvisor);
     console.log("Step 6 SUCCESS: Model selection complete");
     console.log("- User plan:", user.plan);
-    console.log("- Selected model:", model, "(using verified working model)");
-    console.log("- Model available in env:", !!model);
+    console.log("- Selected model:", modelSelection.model, `(from ${modelSelection.source})`);
+    console.log("- Fallback chain:", modelSelection.candidates.join(" -> "));
 
     console.log("Step 7: Starting AI generation...");
     console.log("=== AI GENERATION SETUP ===");
-    console.log("Model:", model);
+    console.log("Model:", modelSelection.model);
     console.log("OpenRouter API Key present:", !!process.env.OPENROUTER_API_KEY);
     console.log("OpenRouter API Key length:", process.env.OPENROUTER_API_KEY?.length || 0);
     console.log("APP_URL:", process.env.APP_URL || 'undefined');
     console.log("NODE_ENV:", process.env.NODE_ENV || 'undefined');
 
-    // Critical check: If no API key, fail fast with detailed error
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      console.error("CRITICAL ERROR: OPENROUTER_API_KEY is missing in production environment");
-      console.error("Available env vars:", Object.keys(process.env).filter(k => k.includes('OPENROUTER')));
+    // Critical check: If the provider is misconfigured (e.g. no API key), fail fast with detailed error
+    let provider: ChatProvider;
+    try {
+      provider = getChatProvider();
+    } catch (configError) {
+      if (!(configError instanceof ChatProviderConfigError)) throw configError;
+      console.error("CRITICAL ERROR: Chat provider is not configured:", configError.message);
+      console.error("Available env vars:", Object.keys(process.env).filter(k => k.includes('OPENROUTER') || k.startsWith('LLM_')));
       return Response.json({
         error: "MISSING_API_KEY",
-        message: "OpenRouter API key is not configured",
+        message: configError.message,
         conversationId: conversation.id,
         activeAdvisorId: activeAdvisor.id,
       }, { status: 500 });
     }
+    console.log("Chat provider:", provider.name);
 
-    console.log("AI Messages count:", aiMessages.length);
-    console.log("AI Messages preview:", JSON.stringify(aiMessages.map(m => ({ role: m.role, contentLength: m.content.length })), null, 2));
+    // Request one advisor's streamed reply, walking the fallback chain on 429/5xx
+    // so a rate-limited model doesn't fail the turn. `toolMessages` carries earlier tool rounds;
+    // the advisor's tools are offered unless `offerTools` is false (the last round must answer in text)
+    const requestReply = async (
+      advisor: typeof activeAdvisor,
+      priorReplies: BoardReply[],
+      toolMessages: ChatCompletionMessage[] = [],
+      offerTools = true
+    ) => {
+      const selection = advisor === activeAdvisor ? modelSelection : selectModel(advisor);
+      const aiMessages = [...buildAiMessages(advisor, priorReplies), ...toolMessages];
+      const tools = offerTools ? toToolDefinitions(getAdvisorTools(advisor)) : [];
+      console.log("AI Messages preview:", JSON.stringify(aiMessages.map(m => ({ role: m.role, contentLength: m.content.length })), null, 2));
 
-    try {
-      // Simplified approach: Direct OpenRouter API call with JSON response
-      console.log("Step 7a: Making direct OpenRouter API call...");
-
-      const directResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-          "X-Title": "AI Advisor Chat",
-        },
-        body: JSON.stringify({
-          model: model,
+      const result = await fetchWithModelFallback(
+        selection.candidates,
+        (candidate) => provider.createChatCompletion({
+          model: candidate,
           messages: aiMessages,
           temperature: 0.7,
-          max_tokens: 2000,
-        }),
-      });
+          maxTokens: 2000,
+          stream: true,
+          ...(tools.length > 0 ? { tools } : {}),
+        })
+      );
+      return { ...result, selection };
+    };
 
-      console.log("Step 7b: API response status:", directResponse.status);
+    try {
+      // Provider call, streamed back to the client as Server-Sent Events
+      console.log(`Step 7a: Making streaming ${provider.name} API call...`);
+
+      // The first advisor is requested up front so upstream failures still return a JSON error
+      const firstReply = await requestReply(activeAdvisor, []);
+      const { response: directResponse, model, attempts } = firstReply;
+
+      console.log("Step 7b: API response status:", directResponse.status, "from model:", model);
+      if (attempts.length > 1) {
+        console.log("Step 7b: Fell back after attempts:", JSON.stringify(attempts));
+      }
 
       if (!directResponse.ok) {
         const errorText = await directResponse.text();
-        console.error("Step 7 FAILED: OpenRouter API error:", directResponse.status, errorText);
+        console.error(`Step 7 FAILED: ${provider.name} API error:`, directResponse.status, errorText);
 
         // Check if it's an API key issue (401 "User not found")
         if (directResponse.status === 401 && errorText.includes("User not found")) {
@@ -332,31 +455,13 @@ How can I assist you today?`;
         return Response.json({
           error: "AI_API_ERROR",
           message: "Failed to generate response from AI service",
-          details: `OpenRouter API returned ${directResponse.status}`,
-          conversationId: conversation.id,
-        }, { status: 500 });
-      }
-
-      // Parse the JSON response
-      let responseData;
-      try {
-        responseData = await directResponse.json();
-        console.log("Step 7c: Response parsed successfully");
-        console.log("- Choices count:", responseData.choices?.length);
-        console.log("- Usage:", responseData.usage);
-      } catch (parseError: any) {
-        console.error("Step 7 FAILED: JSON parse error:", parseError.message);
-        return Response.json({
-          error: "RESPONSE_PARSE_ERROR",
-          message: "Failed to parse AI response",
+          details: `${provider.name} API returned ${directResponse.status}`,
           conversationId: conversation.id,
         }, { status: 500 });
       }
 
-      // Extract the response content
-      const assistantMessage = responseData.choices?.[0]?.message?.content;
-      if (!assistantMessage) {
-        console.error("Step 7 FAILED: No assistant message in response");
+      if (!directResponse.body) {
+        console.error(`Step 7 FAILED: ${provider.name} response has no body to stream`);
         return Response.json({
           error: "NO_AI_RESPONSE",
           message: "AI service did not provide a response",
@@ -364,111 +469,248 @@ How can I assist you today?`;
         }, { status: 500 });
       }
 
-      console.log("Step 7 SUCCESS: AI response generated!");
-      console.log("- Response length:", assistantMessage.length);
-      console.log("- Tokens used:", responseData.usage?.total_tokens);
+      console.log("Step 7c: Streaming response to client...");
+      const encoder = new TextEncoder();
 
-      // Save the AI response to database
-      console.log("Step 7d: Saving AI response to database...");
-      let savedMessage;
-      try {
-        savedMessage = await db.message.create({
-          data: {
-            conversationId: conversation.id,
-            sender: "advisor",
-            advisorId: activeAdvisor.id,
-            content: assistantMessage,
-            tokensUsed: responseData.usage?.total_tokens,
-            contentJson: {
-              usage: responseData.usage,
-              model,
-              finishReason: responseData.choices?.[0]?.finish_reason,
-            },
-          },
-        });
-        console.log("Step 7d SUCCESS: AI response saved to database");
-      } catch (dbError: any) {
-        console.error("Step 7d ERROR: Database save error:", dbError.message);
-        return Response.json({
-          error: "DATABASE_SAVE_ERROR",
-          message: "Failed to save AI response to database",
-          conversationId: conversation.id,
-        }, { status: 500 });
-      }
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          // The client may disconnect mid-stream; keep consuming so the reply is still persisted
+          let clientConnected = true;
+          const send = (event: string, data: unknown) => {
+            if (!clientConnected) return;
+            try {
+              controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+            } catch {
+              clientConnected = false;
+            }
+          };
 
-      // Optional: generate/update title when enough context exists (>= 2 user+assistant exchanges)
-      try {
-        const msgCount = await db.message.count({ where: { conversationId: conversation.id } });
-        const shouldTitle = !conversation.title || conversation.title === 'New Conversation' || (conversation.title?.length ?? 0) > 30;
-        if (msgCount >= 4 && shouldTitle) {
-          const history = await db.message.findMany({
-            where: { conversationId: conversation.id },
-            orderBy: { createdAt: 'asc' },
-            take: 10,
+          send("start", {
+            conversation: {
+              id: conversation.id,
+              activeAdvisorId: activeAdvisor.id,
+              title: conversation.title,
+            },
+            userMessageId: userMessage.id,
+            advisorId: activeAdvisor.id,
+            advisorIds: boardAdvisors.map(a => a.id),
+            routing: scopeRouting,
           });
-          const historyText = history.map(m => `${m.sender === 'user' ? 'User' : 'Advisor'}: ${m.content}`).join('\n');
 
-          const titlePrompt = `You are titling a chat. Return ONLY a concise, catchy title of at most 5 words. No punctuation beyond standard letters and digits. Title the conversation based on this transcript:\n\n${historyText}`;
+          const savedMessages: any[] = [];
+          const priorReplies: BoardReply[] = [];
 
-          const titleResp = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-              "Content-Type": "application/json",
-              "HTTP-Referer": process.env.APP_URL || "http://localhost:3000",
-              "X-Title": "AI Advisor Chat",
-            },
-            body: JSON.stringify({
-              model: "x-ai/grok-code-fast-1",
-              messages: [
-                { role: "system", content: "Return ONLY a title, max 5 words." },
-                { role: "user", content: titlePrompt }
-              ],
-              temperature: 0.5,
-              max_tokens: 12,
-            }),
-          });
+          try {
+            // Advisors reply in turn; in a board meeting a failed advisor is skipped and the rest still speak
+            for (const [index, advisor] of boardAdvisors.entries()) {
+              let assistantMessage = "";
+
+              try {
+                let reply = index === 0 ? firstReply : await requestReply(advisor, priorReplies);
+                if (!reply.response.ok || !reply.response.body) {
+                  console.error(`Step 7 FAILED: ${provider.name} API error for advisor`, advisor.id, reply.response.status);
+                  await reply.response.body?.cancel().catch(() => undefined);
+                  send("advisor_error", {
+                    advisorId: advisor.id,
+                    error: "AI_API_ERROR",
+                    message: "Failed to generate response from AI service",
+                  });
+                  continue;
+                }
+
+                if (isBoardMeeting) {
+                  send("advisor_start", { advisorId: advisor.id });
+                }
+
+                // Tool rounds: run the calls the model asks for, then request the reply again with their results
+                const tools = getAdvisorTools(advisor);
+                const toolContext: ToolContext = {
+                  advisorId: advisor.id,
+                  conversationId: conversation.id,
+                  saveMemory: async (key, value) => {
+                    await db.advisorMemory.upsert({
+                      where: { conversationId_advisorId_key: { conversationId: conversation.id, advisorId: advisor.id, key } },
+                      create: { conversationId: conversation.id, advisorId: advisor.id, key, value },
+                      update: { value },
+                    });
+                  },
+                };
+                const toolCalls: ToolCallRecord[] = [];
+                const toolMessages: ChatCompletionMessage[] = [];
+                let usage: any;
+                let finishReason: string | undefined;
+
+                for (let round = 0; ; round++) {
+                  let roundContent = "";
+                  const completion = await readCompletionStream(reply.response.body, (delta) => {
+                    roundContent += delta;
+                    assistantMessage += delta;
+                    send("delta", { content: delta, advisorId: advisor.id });
+                  });
+                  usage = addUsage(usage, completion.usage);
+                  finishReason = completion.finishReason;
+                  if (completion.toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) break;
+
+                  console.log("Step 7b: Advisor", advisor.id, "called tools:", completion.toolCalls.map(call => call.name).join(", "));
+                  const records: ToolCallRecord[] = [];
+                  for (const call of completion.toolCalls) {
+                    const record = await executeToolCall(tools, call, toolContext);
+                    records.push(record);
+                    send("tool_call", { advisorId: advisor.id, toolCall: record });
+                  }
+                  toolCalls.push(...records);
+                  toolMessages.push(...buildToolResultMessages(roundContent, completion.toolCalls, records));
+
+                  reply = await requestReply(advisor, priorReplies, toolMessages, round + 1 < MAX_TOOL_ROUNDS);
+                  if (!reply.response.ok || !reply.response.body) {
+                    await reply.response.body?.cancel().catch(() => undefined);
+                    throw new Error(`${provider.name} API returned ${reply.response.status} after tool calls`);
+                  }
+                }
+
+                if (!assistantMessage) {
+                  console.error("Step 7 FAILED: No assistant message in stream for advisor", advisor.id);
+                  if (isBoardMeeting) {
+                    send("advisor_error", {
+                      advisorId: advisor.id,
+                      error: "NO_AI_RESPONSE",
+                      message: "AI service did not provide a response",
+                    });
+                  }
+                  continue;
+                }
+
+                console.log("Step 7 SUCCESS: AI response streamed for advisor", advisor.id);
+                console.log("- Response length:", assistantMessage.length);
+                console.log("- Tokens used:", usage?.total_tokens);
+
+                // Advisor components extract structured output (e.g. the scorecard) from the raw reply, then may rewrite it
+                const { components } = resolveAdvisorComponents(advisor.components);
+                const componentContext = { advisorId: advisor.id, advisorName: getAdvisorPersona(advisor).name as string, userMessage: message };
+                const componentOutputs = extractComponentOutputs(components, assistantMessage, componentContext);
+                assistantMessage = postProcessResponse(components, assistantMessage, componentContext);
+                // Which document passages the reply relied on
+                const citations = extractCitations(assistantMessage, passages);
+
+                // Save each advisor's reply as its own message once its stream has ended
+                console.log("Step 7d: Saving AI response to database...");
+                const savedMessage = await db.message.create({
+                  data: {
+                    conversationId: conversation.id,
+                    sender: "advisor",
+                    advisorId: advisor.id,
+                    content: assistantMessage,
+                    tokensUsed: usage?.total_tokens,
+                    contentJson: {
+                      usage,
+                      model: reply.model,
+                      requestedModel: reply.selection.model,
+                      modelSource: reply.selection.source,
+                      modelAttempts: reply.attempts,
+                      finishReason,
+                      ...(isBoardMeeting ? { boardMeeting: { position: index + 1, size: boardAdvisors.length } } : {}),
+                      ...(Object.keys(componentOutputs).length > 0 ? { components: componentOutputs } : {}),
+                      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                      ...(citations.length > 0 ? { citations } : {}),
+                    },
+                  },
+                });
+                await db.usageLedger.create({
+                  data: { userId: user.id, conversationId: conversation.id, tokens: usage?.total_tokens ?? 0, model: reply.model },
+                });
+                console.log("Step 7d SUCCESS: AI response saved to database");
 
-          if (titleResp.ok) {
-            const json = await titleResp.json();
-            const raw = json?.choices?.[0]?.message?.content || '';
-            const condensed = (raw || '').replace(/[\n\r]/g, ' ').trim().replace(/[^\p{L}\p{N} \-]/gu, '').split(' ').filter(Boolean).slice(0, 5).join(' ');
-            if (condensed) {
-              await db.conversation.update({ where: { id: conversation.id }, data: { title: condensed } });
-              conversation.title = condensed;
+                const clientMessage = {
+                  id: savedMessage.id,
+                  content: assistantMessage,
+                  sender: "advisor",
+                  advisorId: advisor.id,
+                  createdAt: savedMessage.createdAt,
+                  tokensUsed: usage?.total_tokens,
+                  model: reply.model,
+                  usage,
+                  ...(Object.keys(componentOutputs).length > 0 ? { components: componentOutputs } : {}),
+                  ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                  ...(citations.length > 0 ? { citations } : {}),
+                };
+                savedMessages.push(clientMessage);
+                priorReplies.push({ advisor, content: assistantMessage });
+
+                if (isBoardMeeting) {
+                  send("advisor_done", { message: clientMessage });
+                }
+              } catch (turnError: any) {
+                console.error("Step 7 FAILED: Streaming error for advisor", advisor.id, turnError?.message);
+                const failure = {
+                  error: assistantMessage ? "DATABASE_SAVE_ERROR" : "AI_API_ERROR",
+                  message: assistantMessage
+                    ? "Failed to save AI response to database"
+                    : "Failed to generate response from AI service",
+                  conversationId: conversation.id,
+                };
+                if (!isBoardMeeting) {
+                  send("error", failure);
+                  return;
+                }
+                send("advisor_error", { advisorId: advisor.id, ...failure });
+              }
             }
-          }
-        }
-      } catch (titleErr) {
-        console.warn('Title generation skipped due to error:', titleErr);
-      }
 
-      // Return structured JSON response
-      return Response.json({
-        success: true,
-        message: {
-          id: savedMessage.id,
-          content: assistantMessage,
-          sender: "advisor",
-          advisorId: activeAdvisor.id,
-          createdAt: savedMessage.createdAt,
-          tokensUsed: responseData.usage?.total_tokens,
-        },
-        conversation: {
-          id: conversation.id,
-          activeAdvisorId: activeAdvisor.id,
-          title: conversation.title,
+            if (savedMessages.length === 0) {
+              send("error", {
+                error: "NO_AI_RESPONSE",
+                message: "AI service did not provide a response",
+                conversationId: conversation.id,
+              });
+              return;
+            }
+
+            const title = await maybeGenerateTitle(conversation.id, conversation.title, user.plan, user.id);
+
+            // Best effort and not awaited; a skipped run is picked up after the next turn
+            void maybeSummarizeConversation(conversation.id, user);
+            // Each advisor that replied mines its own exchange for facts about the founder
+            for (const reply of priorReplies) {
+              void maybeExtractMemories(conversation.id, reply.advisor, message, reply.content, memoriesFor(reply.advisor), user, profile);
+            }
+
+            const { usage, ...lastMessage } = savedMessages[savedMessages.length - 1];
+
+            send("done", {
+              message: lastMessage,
+              // Every reply from this turn, in speaking order (one entry outside board meetings)
+              messages: savedMessages.map(({ usage: _usage, ...saved }) => saved),
+              conversation: {
+                id: conversation.id,
+                activeAdvisorId: activeAdvisor.id,
+                title,
+              },
+              usage: isBoardMeeting
+                ? { total_tokens: savedMessages.reduce((sum, saved) => sum + (saved.tokensUsed ?? 0), 0) }
+                : usage,
+              routing: scopeRouting,
+            });
+          } catch (streamError: any) {
+            console.error("Step 7 FAILED: Streaming error:", streamError?.message);
+            send("error", {
+              error: "INTERNAL_ERROR",
+              message: "An unexpected error occurred. Please try again.",
+              conversationId: conversation.id,
+            });
+          } finally {
+            if (clientConnected) controller.close();
+          }
         },
-        usage: responseData.usage,
-      }, {
+      });
+
+      return new Response(stream, {
         status: 200,
         headers: {
-          "Content-Type": "application/json",
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          "Connection": "keep-alive",
         },
       });
-
-
-
     } catch (aiError: any) {
       console.error("=== CRITICAL AI GENERATION ERROR ===");
       console.error("Error during AI generation setup:", aiError);
@@ -498,6 +740,32 @@ How can I assist you today?`;
       }, { status: 400 });
     }
 
+    if (error instanceof QuotaExceededError) {
+      return Response.json({
+        error: "QUOTA_EXCEEDED",
+        message: error.message,
+        plan: error.plan,
+        quota: error.quota,
+        code: 429
+      }, {
+        status: 429,
+        headers: { "Retry-After": String(Math.max(0, Math.ceil((error.quota.resetsAt - Date.now()) / 1000))) },
+      });
+    }
+
+    if (error instanceof RateLimitError) {
+      return Response.json({
+        error: "RATE_LIMITED",
+        message: error.message,
+        action: error.action,
+        retryAfterMs: error.result.retryAfterMs,
+        code: 429
+      }, {
+        status: 429,
+        headers: { "Retry-After": String(Math.ceil(error.result.retryAfterMs / 1000)) },
+      });
+    }
+
     // Check for authentication errors
     if (error?.message?.includes('User not authenticated') ||
         error?.message?.includes('Unauthorized') ||
@@ -517,3 +785,275 @@ How can I assist you today?`;
     }, { status: 500 });
   }
 }
+
+/**
+ * Read an OpenAI-style completion stream, calling `onDelta` for each text chunk.
+ * Returns the usage and finish reason reported at the end of the stream, and any tool calls the model made.
+ */
+async function readCompletionStream(
+  upstream: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void
+): Promise<{ usage: any; finishReason?: string; toolCalls: ChatToolCall[] }> {
+  let usage: any;
+  let finishReason: string | undefined;
+  let toolCalls: ChatToolCall[] = [];
+
+  for await (const { data } of readServerSentEvents(upstream)) {
+    if (data === "[DONE]") break;
+
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      console.warn("Step 7c: Skipping malformed stream chunk");
+      continue;
+    }
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (typeof delta === "string" && delta.length > 0) {
+      onDelta(delta);
+    }
+    toolCalls = mergeToolCallDeltas(toolCalls, chunk.choices?.[0]?.delta?.tool_calls);
+    if (chunk.choices?.[0]?.finish_reason) {
+      finishReason = chunk.choices[0].finish_reason;
+    }
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
+  }
+
+  // Streams index calls from 0; drop gaps and calls that never got a name
+  return { usage, finishReason, toolCalls: toolCalls.filter(call => call?.name) };
+}
+
+/**
+ * Throw QuotaExceededError once the user's ledger for today or this month has reached the plan quota
+ */
+async function enforceQuota(userId: string, plan: string): Promise<void> {
+  const now = Date.now();
+  const starts = quotaPeriodStarts(now);
+  const usageSince = async (since: number): Promise<UsageTotals> => {
+    const { _sum } = await db.usageLedger.aggregate({
+      where: { userId, createdAt: { gte: new Date(since) } },
+      _sum: { messages: true, tokens: true },
+    });
+    return { messages: _sum.messages ?? 0, tokens: _sum.tokens ?? 0 };
+  };
+  const [daily, monthly] = await Promise.all([usageSince(starts.daily), usageSince(starts.monthly)]);
+
+  const status = checkQuota(plan, { daily, monthly }, now);
+  if (status.exceeded) {
+    throw new QuotaExceededError(status.exceeded, status.plan);
+  }
+}
+
+/**
+ * Add up the usage of several completions that make one reply (tool rounds)
+ */
+function addUsage(total: any, usage: any): any {
+  if (!total) return usage;
+  if (!usage) return total;
+  return {
+    prompt_tokens: (total.prompt_tokens ?? 0) + (usage.prompt_tokens ?? 0),
+    completion_tokens: (total.completion_tokens ?? 0) + (usage.completion_tokens ?? 0),
+    total_tokens: (total.total_tokens ?? 0) + (usage.total_tokens ?? 0),
+  };
+}
+
+/**
+ * Background completions (summaries, memory extraction, titles) count toward the token quota like replies do
+ */
+async function recordCompletionTokens(userId: string, conversationId: string, model: string, usage: unknown): Promise<void> {
+  const tokens = (usage as { total_tokens?: number } | undefined)?.total_tokens;
+  if (!tokens) return;
+  await db.usageLedger.create({ data: { userId, conversationId, tokens, model } });
+}
+
+/**
+ * Fold older messages into a new rolling thread summary once the unsummarized backlog passes the threshold.
+ * Failures are logged and leave the existing summaries unchanged.
+ */
+async function maybeSummarizeConversation(conversationId: string, user: { id: string; plan: string }): Promise<void> {
+  try {
+    const latestSummary = await db.threadSummary.findFirst({
+      where: { conversationId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    // Only messages after the latest summary's range are needed
+    const endMessage = latestSummary?.endMessageId
+      ? await db.message.findUnique({ where: { id: latestSummary.endMessageId } })
+      : null;
+    const messages = await db.message.findMany({
+      where: {
+        conversationId,
+        ...(endMessage ? { createdAt: { gte: endMessage.createdAt } } : {}),
+      },
+      include: { advisor: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const range = planSummaryRange(
+      messages.map(m => ({
+        id: m.id,
+        sender: m.sender,
+        content: m.content,
+        speaker: m.advisor ? getAdvisorPersona(m.advisor).name : null,
+      })),
+      latestSummary
+    );
+    if (!range) return;
+
+    console.log("Summarizing conversation", conversationId, "through message", range.endMessageId);
+
+    // Summaries are cheap; use the plan's tier model without advisor or conversation overrides
+    const { candidates } = resolveChatModel({ plan: user.plan });
+    const provider = getChatProvider();
+    const { response, model } = await fetchWithModelFallback(candidates, (candidate) =>
+      provider.createChatCompletion({
+        model: candidate,
+        messages: buildSummaryPrompt(latestSummary?.content, range.messages),
+        temperature: 0.2,
+        maxTokens: 600,
+      })
+    );
+
+    if (!response.ok) {
+      console.warn("Summarization skipped: provider returned", response.status);
+      return;
+    }
+
+    const json = await response.json();
+    await recordCompletionTokens(user.id, conversationId, model, json?.usage);
+    const content = (json?.choices?.[0]?.message?.content || "").trim();
+    if (!content) return;
+
+    await db.threadSummary.create({
+      data: {
+        conversationId,
+        content,
+        startMessageId: range.startMessageId,
+        endMessageId: range.endMessageId,
+      },
+    });
+  } catch (summaryErr) {
+    console.warn("Summarization skipped due to error:", summaryErr);
+  }
+}
+
+/**
+ * Pull durable facts about the founder out of one exchange and upsert them as the advisor's memories.
+ * Facts that change the founder profile are queued as proposals for the user to accept.
+ * Failures are logged and leave existing memories and the profile unchanged.
+ */
+async function maybeExtractMemories(
+  conversationId: string,
+  advisor: Advisor,
+  userMessage: string,
+  advisorReply: string,
+  knownFacts: AdvisorMemoryFact[],
+  user: { id: string; plan: string },
+  profile: UserProfile | null
+): Promise<void> {
+  try {
+    // Extraction is cheap; use the plan's tier model without advisor or conversation overrides
+    const { candidates } = resolveChatModel({ plan: user.plan });
+    const provider = getChatProvider();
+    const advisorName = getAdvisorPersona(advisor).name as string;
+    const { response, model } = await fetchWithModelFallback(candidates, (candidate) =>
+      provider.createChatCompletion({
+        model: candidate,
+        messages: buildMemoryExtractionPrompt(advisorName, knownFacts, userMessage, advisorReply),
+        temperature: 0,
+        maxTokens: 300,
+      })
+    );
+
+    if (!response.ok) {
+      console.warn("Memory extraction skipped: provider returned", response.status);
+      return;
+    }
+
+    const json = await response.json();
+    await recordCompletionTokens(user.id, conversationId, model, json?.usage);
+    const facts = parseExtractedMemories((json?.choices?.[0]?.message?.content as string | undefined) || "");
+    if (facts.length === 0) return;
+
+    console.log("Saving advisor memories:", advisor.id, facts.map(f => f.key).join(", "));
+    await Promise.all(facts.map(({ key, value }) =>
+      db.advisorMemory.upsert({
+        where: { conversationId_advisorId_key: { conversationId, advisorId: advisor.id, key } },
+        create: { conversationId, advisorId: advisor.id, key, value },
+        update: { value },
+      })
+    ));
+
+    const proposals = proposeProfileUpdates(profile, facts, advisor.id);
+    if (proposals.length > 0) {
+      console.log("Proposing founder profile updates:", proposals.map(p => p.field).join(", "));
+      // Re-read so proposals queued by other advisors in the same turn are kept
+      const current = await db.userProfile.findUnique({ where: { userId: user.id } });
+      const pending = mergeProfileProposals(parseProfileProposals(current?.proposals), proposals);
+      await db.userProfile.upsert({
+        where: { userId: user.id },
+        create: { userId: user.id, proposals: pending },
+        update: { proposals: pending },
+      });
+    }
+  } catch (memoryErr) {
+    console.warn("Memory extraction skipped due to error:", memoryErr);
+  }
+}
+
+/**
+ * Generate/update the conversation title once enough context exists (>= 2 user+assistant exchanges).
+ * Returns the resulting title; failures are logged and leave the title unchanged.
+ */
+async function maybeGenerateTitle(conversationId: string, currentTitle: string | null, plan: string, userId: string): Promise<string | null> {
+  try {
+    const msgCount = await db.message.count({ where: { conversationId } });
+    const shouldTitle = !currentTitle || currentTitle === 'New Conversation' || (currentTitle?.length ?? 0) > 30;
+    if (msgCount < 4 || !shouldTitle) return currentTitle;
+    // Throttled users keep the current title; a later turn tries again
+    if (!rateLimiter.check(userId, "titleGeneration").allowed) return currentTitle;
+
+    const history = await db.message.findMany({
+      where: { conversationId },
+      orderBy: { createdAt: 'asc' },
+      take: 10,
+    });
+    const historyText = history.map(m => `${m.sender === 'user' ? 'User' : 'Advisor'}: ${m.content}`).join('\n');
+
+    const titlePrompt = `You are titling a chat. Return ONLY a concise, catchy title of at most 5 words. No punctuation beyond standard letters and digits. Title the conversation based on this transcript:\n\n${historyText}`;
+
+    // Titles are cheap; use the plan's tier model without advisor or conversation overrides
+    const { candidates } = resolveChatModel({ plan });
+    const provider = getChatProvider();
+    const { response: titleResp, model } = await fetchWithModelFallback(candidates, (candidate) =>
+      provider.createChatCompletion({
+        model: candidate,
+        messages: [
+          { role: "system", content: "Return ONLY a title, max 5 words." },
+          { role: "user", content: titlePrompt }
+        ],
+        temperature: 0.5,
+        maxTokens: 12,
+      })
+    );
+
+    if (titleResp.ok) {
+      const json = await titleResp.json();
+      await recordCompletionTokens(userId, conversationId, model, json?.usage);
+      const raw = json?.choices?.[0]?.message?.content || '';
+      const condensed = (raw || '').replace(/[\n\r]/g, ' ').trim().replace(/[^\p{L}\p{N} \-]/gu, '').split(' ').filter(Boolean).slice(0, 5).join(' ');
+      if (condensed) {
+        await db.conversation.update({ where: { id: conversationId }, data: { title: condensed } });
+        return condensed;
+      }
+    }
+  } catch (titleErr) {
+    console.warn('Title generation skipped due to error:', titleErr);
+  }
+
+  return currentTitle;
+}
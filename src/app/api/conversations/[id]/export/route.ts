@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+
+import { requireUser } from "~/server/auth/require-user";
+import { db } from "~/server/db";
+import { getAdvisorPersona } from "~/server/advisors/persona";
+import {
+  EXPORT_FORMATS,
+  buildConversationExport,
+  renderConversationExport,
+  type ExportFormat,
+} from "~/server/conversations/export";
+
+/**
+ * Download a conversation as Markdown, printable HTML or JSON (re-importable)
+ * GET /api/conversations/[id]/export?format=markdown|html|json
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+
+    const format = (req.nextUrl.searchParams.get("format") ?? "markdown") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return Response.json({
+        error: "INVALID_FORMAT",
+        message: `format must be one of ${EXPORT_FORMATS.join(", ")}`,
+      }, { status: 400 });
+    }
+
+    const conversation = await db.conversation.findUnique({
+      where: { id, userId: user.id },
+      include: {
+        messages: { orderBy: { createdAt: "asc" } },
+        summaries: { orderBy: { createdAt: "asc" } },
+        memories: true,
+        documents: true,
+      },
+    });
+    if (!conversation) {
+      return Response.json({ error: "CONVERSATION_NOT_FOUND", message: "The specified conversation could not be found" }, { status: 404 });
+    }
+
+    // Every advisor the export refers to, so names survive even if the advisor is later removed
+    const advisorIds = Array.from(new Set([
+      ...(conversation.activeAdvisorId ? [conversation.activeAdvisorId] : []),
+      ...conversation.messages.flatMap(message => (message.advisorId ? [message.advisorId] : [])),
+      ...conversation.memories.map(memory => memory.advisorId),
+    ]));
+    const advisors = await db.advisor.findMany({ where: { id: { in: advisorIds } } });
+
+    const data = buildConversationExport({
+      conversation,
+      advisors: advisors.map(advisor => {
+        const persona = getAdvisorPersona(advisor);
+        return { id: advisor.id, name: persona.name ?? advisor.id, title: persona.title };
+      }),
+      messages: conversation.messages,
+      summaries: conversation.summaries,
+      memories: conversation.memories,
+      documents: conversation.documents,
+    });
+    const { body, contentType, fileName } = renderConversationExport(data, format);
+    console.log("Exported conversation", id, "as", format, `(${conversation.messages.length} messages)`);
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: any) {
+    console.error("Export conversation error:", error);
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to export conversations" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to export conversation" }, { status: 500 });
+  }
+}
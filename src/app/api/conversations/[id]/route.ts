@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { z } from "zod";
 import { PrismaClient } from "@prisma/client";
 import { auth, currentUser } from "@clerk/nextjs/server";
+import { modelsForPlan, readModelTiers } from "~/server/llm/models";
 
 // REMOVED: import { requireUser } from "~/server/auth/require-user";
 // This import causes environment validation failures in production
@@ -45,6 +46,7 @@ function localFormatAdvisorForClient(advisor: any) {
 const updateConversationSchema = z.object({
   title: z.string().optional(),
   activeAdvisorId: z.string().optional(),
+  modelOverride: z.string().min(1).max(200).nullable().optional(), // null clears the override
 });
 
 export async function GET(
@@ -554,6 +556,14 @@ export async function PATCH(
 
     console.log("Step 4 SUCCESS: Conversation found and owned by user");
 
+    // The override is the founder's pick, so it is limited to the tier models of their plan
+    if (updateData.modelOverride && !modelsForPlan(user.plan, readModelTiers(process.env)).includes(updateData.modelOverride)) {
+      return Response.json({
+        error: "MODEL_NOT_AVAILABLE",
+        message: `${updateData.modelOverride} is not available on your plan`
+      }, { status: 400 });
+    }
+
     // If updating activeAdvisorId, verify the advisor exists
     if (updateData.activeAdvisorId) {
       console.log("Step 5: Verifying advisor exists...");
@@ -596,6 +606,7 @@ export async function PATCH(
         id: updatedConversation.id,
         title: updatedConversation.title,
         activeAdvisorId: updatedConversation.activeAdvisorId,
+        modelOverride: updatedConversation.modelOverride,
         createdAt: updatedConversation.createdAt,
         updatedAt: updatedConversation.updatedAt,
         messageCount: updatedConversation.messages.length,
@@ -0,0 +1,136 @@
+import { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
+
+import { requireUser } from "~/server/auth/require-user";
+import { db } from "~/server/db";
+import { getAdvisorPersona } from "~/server/advisors/persona";
+import { resolveImportedAdvisorId, type ConversationExport } from "~/server/conversations/export";
+import { ConversationImportError, parseConversationImport } from "~/server/conversations/import";
+import { chunkDocument, detectDocumentFormat } from "~/server/llm/documents";
+
+type Transaction = Prisma.TransactionClient;
+
+// Recreate one parsed conversation; exported advisor ids map onto local ones by id, then name
+async function createConversation(
+  tx: Transaction,
+  userId: string,
+  data: ConversationExport,
+  localAdvisors: { id: string; name: string }[]
+) {
+  const advisorIdMap = new Map(data.advisors.map(advisor => [advisor.id, resolveImportedAdvisorId(advisor, localAdvisors)]));
+  const advisorIdFor = (exportedId: string | null) => (exportedId ? advisorIdMap.get(exportedId) ?? null : null);
+
+  const created = await tx.conversation.create({
+    data: {
+      userId,
+      title: data.conversation.title,
+      activeAdvisorId: advisorIdFor(data.conversation.activeAdvisorId),
+      modelOverride: data.conversation.modelOverride,
+      createdAt: new Date(data.conversation.createdAt),
+    },
+  });
+
+  // New ids for every message; summaries point at them by id
+  const messageIdMap = new Map<string, string>();
+  for (const message of data.messages) {
+    const { id } = await tx.message.create({
+      data: {
+        conversationId: created.id,
+        sender: message.sender,
+        advisorId: advisorIdFor(message.advisorId),
+        content: message.content,
+        contentJson: (message.contentJson ?? undefined) as Prisma.InputJsonValue | undefined,
+        mentions: message.mentions,
+        tokensUsed: message.tokensUsed,
+        createdAt: new Date(message.createdAt),
+      },
+    });
+    messageIdMap.set(message.id, id);
+  }
+
+  for (const summary of data.summaries) {
+    await tx.threadSummary.create({
+      data: {
+        conversationId: created.id,
+        content: summary.content,
+        startMessageId: summary.startMessageId ? messageIdMap.get(summary.startMessageId) ?? null : null,
+        endMessageId: summary.endMessageId ? messageIdMap.get(summary.endMessageId) ?? null : null,
+        createdAt: new Date(summary.createdAt),
+      },
+    });
+  }
+
+  // Memories of advisors that don't exist here are dropped
+  for (const memory of data.memories) {
+    const advisorId = advisorIdFor(memory.advisorId);
+    if (!advisorId) continue;
+    await tx.advisorMemory.create({
+      data: { conversationId: created.id, advisorId, key: memory.key, value: memory.value as Prisma.InputJsonValue },
+    });
+  }
+
+  for (const document of data.documents) {
+    await tx.document.create({
+      data: {
+        userId,
+        conversationId: created.id,
+        name: document.name,
+        mimeType: document.mimeType,
+        kind: document.kind,
+        sizeBytes: new TextEncoder().encode(document.content).length,
+        content: document.content,
+        chunks: chunkDocument(document.content, detectDocumentFormat(document.name, document.mimeType)),
+        createdAt: new Date(document.createdAt),
+      },
+    });
+  }
+
+  return { id: created.id, title: created.title, messageCount: data.messages.length };
+}
+
+/**
+ * Import conversations from a ChatGPT or Claude conversations.json, or from this app's JSON export
+ * POST /api/conversations/import?advisorId=...  (body: the file as uploaded)
+ *
+ * `advisorId` picks who takes over the assistant's replies; our own exports don't need it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+
+    const localAdvisors = (await db.advisor.findMany()).map(advisor => ({ id: advisor.id, name: getAdvisorPersona(advisor).name ?? advisor.id }));
+    const advisorId = req.nextUrl.searchParams.get("advisorId");
+    const advisor = advisorId ? localAdvisors.find(a => a.id === advisorId) : undefined;
+    if (advisorId && !advisor) {
+      return Response.json({ error: "ADVISOR_NOT_FOUND", message: "The chosen advisor could not be found" }, { status: 404 });
+    }
+
+    const { source, conversations, skipped } = parseConversationImport(await req.text(), { advisor });
+    if (conversations.length === 0) {
+      return Response.json({ error: "NOTHING_TO_IMPORT", message: "No conversations in this file could be imported", source, skipped }, { status: 400 });
+    }
+
+    const imported = await db.$transaction(async (tx) => {
+      const results = [];
+      for (const data of conversations) {
+        results.push(await createConversation(tx, user.id, data, localAdvisors));
+      }
+      return results;
+    });
+    console.log("Imported", imported.length, "conversations from", source, "with", skipped.length, "skipped entries");
+
+    return Response.json({ success: true, source, conversations: imported, skipped }, { status: 201 });
+  } catch (error: any) {
+    console.error("Import conversation error:", error);
+
+    if (error instanceof ConversationImportError) {
+      return Response.json({ error: "INVALID_IMPORT", message: error.message }, { status: 400 });
+    }
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to import conversations" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to import conversations" }, { status: 500 });
+  }
+}
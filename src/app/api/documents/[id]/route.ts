@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server";
+
+import { requireUser } from "~/server/auth/require-user";
+import { db } from "~/server/db";
+
+/**
+ * Remove a document from its conversation; advisors stop retrieving from it right away
+ * DELETE /api/documents/[id]
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+
+    const { count } = await db.document.deleteMany({ where: { id, userId: user.id } });
+    if (count === 0) {
+      return Response.json({ error: "DOCUMENT_NOT_FOUND", message: "Document not found" }, { status: 404 });
+    }
+
+    return Response.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete document error:", error);
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to delete documents" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to delete document" }, { status: 500 });
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { requireUser } from "~/server/auth/require-user";
+import { db } from "~/server/db";
+import {
+  DocumentFormatError,
+  MAX_DOCUMENTS_PER_CONVERSATION,
+  describeDocumentTruncation,
+  indexDocument,
+  inferDocumentKind,
+  validateDocumentUpload,
+} from "~/server/llm/documents";
+
+// Uploads are read as text on the client (Markdown, plain text or CSV)
+const uploadDocumentSchema = z.object({
+  conversationId: z.string().min(1),
+  name: z.string().min(1).max(200),
+  mimeType: z.string().max(100).optional(),
+  content: z.string(),
+});
+
+type DocumentRow = NonNullable<Awaited<ReturnType<typeof db.document.findFirst>>>;
+
+// The list view doesn't need the text or chunks
+function formatDocument(document: DocumentRow) {
+  return {
+    id: document.id,
+    conversationId: document.conversationId,
+    name: document.name,
+    mimeType: document.mimeType,
+    kind: document.kind,
+    sizeBytes: document.sizeBytes,
+    chunkCount: Array.isArray(document.chunks) ? document.chunks.length : 0,
+    createdAt: document.createdAt,
+  };
+}
+
+/**
+ * List the documents attached to a conversation
+ * GET /api/documents?conversationId=...
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const conversationId = req.nextUrl.searchParams.get("conversationId");
+    if (!conversationId) {
+      return Response.json({ error: "INVALID_REQUEST", message: "conversationId is required" }, { status: 400 });
+    }
+
+    const documents = await db.document.findMany({
+      where: { conversationId, userId: user.id },
+      orderBy: { createdAt: "asc" },
+    });
+    return Response.json({ documents: documents.map(formatDocument) });
+  } catch (error: any) {
+    console.error("List documents error:", error);
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to view documents" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to load documents" }, { status: 500 });
+  }
+}
+
+/**
+ * Attach a document to a conversation and index it for retrieval
+ * POST /api/documents
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await req.json();
+    const { conversationId, name, mimeType, content } = uploadDocumentSchema.parse(body);
+
+    const conversation = await db.conversation.findUnique({
+      where: { id: conversationId, userId: user.id },
+      select: { id: true, _count: { select: { documents: true } } },
+    });
+    if (!conversation) {
+      return Response.json({ error: "CONVERSATION_NOT_FOUND", message: "The specified conversation could not be found" }, { status: 404 });
+    }
+    if (conversation._count.documents >= MAX_DOCUMENTS_PER_CONVERSATION) {
+      return Response.json({
+        error: "TOO_MANY_DOCUMENTS",
+        message: `A conversation can hold at most ${MAX_DOCUMENTS_PER_CONVERSATION} documents`,
+      }, { status: 400 });
+    }
+
+    const format = validateDocumentUpload(name, content, mimeType);
+    const index = indexDocument(content, format);
+    const { chunks } = index;
+    console.log("Indexed document", name, "into", chunks.length, "chunks");
+
+    const document = await db.document.create({
+      data: {
+        userId: user.id,
+        conversationId,
+        name,
+        mimeType: mimeType || `text/${format === "text" ? "plain" : format}`,
+        kind: inferDocumentKind(name, format),
+        sizeBytes: new TextEncoder().encode(content).length,
+        content,
+        chunks,
+      },
+    });
+
+    // Set when the file was too long and its end was left out of the index
+    const warning = describeDocumentTruncation(name, index);
+    return Response.json({ success: true, document: formatDocument(document), ...(warning ? { warning } : {}) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Upload document error:", error);
+
+    if (error instanceof z.ZodError) {
+      return Response.json({
+        error: "VALIDATION_ERROR",
+        message: "Invalid request data",
+        details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(", "),
+      }, { status: 400 });
+    }
+
+    if (error instanceof DocumentFormatError) {
+      return Response.json({ error: "UNSUPPORTED_DOCUMENT", message: error.message }, { status: 400 });
+    }
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to upload documents" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to upload document" }, { status: 500 });
+  }
+}
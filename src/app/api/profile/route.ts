@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+import { requireUser } from "~/server/auth/require-user";
+import { db } from "~/server/db";
+import {
+  PROFILE_FIELDS,
+  parseProfileProposals,
+  profileUpdateSchema,
+  type ProfileField,
+} from "~/server/llm/profile";
+
+// Profile edits plus accepting or dismissing advisor-proposed updates
+const patchProfileSchema = profileUpdateSchema.extend({
+  acceptProposals: z.array(z.enum(PROFILE_FIELDS)).optional(),
+  dismissProposals: z.array(z.enum(PROFILE_FIELDS)).optional(),
+});
+
+function formatProfile(profile: Awaited<ReturnType<typeof db.userProfile.findUnique>>) {
+  return {
+    companyName: profile?.companyName ?? null,
+    industry: profile?.industry ?? null,
+    stage: profile?.stage ?? null,
+    goals: profile?.goals ?? null,
+    constraints: profile?.constraints ?? null,
+    optOutFields: profile?.optOutFields ?? [],
+    proposals: parseProfileProposals(profile?.proposals),
+    updatedAt: profile?.updatedAt ?? null,
+  };
+}
+
+/**
+ * Get the founder profile shared by all advisors
+ * GET /api/profile
+ */
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const profile = await db.userProfile.findUnique({ where: { userId: user.id } });
+    return Response.json({ profile: formatProfile(profile) });
+  } catch (error: any) {
+    console.error("Get profile error:", error);
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to view your profile" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to load profile" }, { status: 500 });
+  }
+}
+
+/**
+ * Edit profile fields and opt-outs, or resolve advisor proposals
+ * PATCH /api/profile
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await req.json();
+    const { acceptProposals = [], dismissProposals = [], ...updates } = patchProfileSchema.parse(body);
+
+    const existing = await db.userProfile.findUnique({ where: { userId: user.id } });
+    const pending = parseProfileProposals(existing?.proposals);
+
+    // Accepted proposals become field values unless the same request sets that field explicitly
+    const accepted: Partial<Record<ProfileField, string>> = {};
+    for (const proposal of pending) {
+      if (acceptProposals.includes(proposal.field) && updates[proposal.field] === undefined) {
+        accepted[proposal.field] = proposal.value;
+      }
+    }
+
+    const resolved = new Set<ProfileField>([...acceptProposals, ...dismissProposals]);
+    const data = {
+      ...updates,
+      ...accepted,
+      proposals: pending.filter(proposal => !resolved.has(proposal.field)),
+    };
+
+    const profile = await db.userProfile.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data,
+    });
+
+    return Response.json({ success: true, profile: formatProfile(profile) });
+  } catch (error: any) {
+    console.error("Update profile error:", error);
+
+    if (error instanceof z.ZodError) {
+      return Response.json({
+        error: "VALIDATION_ERROR",
+        message: "Invalid request data",
+        details: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(", "),
+      }, { status: 400 });
+    }
+
+    if (error?.message?.includes("User not found")) {
+      return Response.json({ error: "AUTH_REQUIRED", message: "Please sign in to update your profile" }, { status: 401 });
+    }
+
+    return Response.json({ error: "INTERNAL_ERROR", message: "Failed to update profile" }, { status: 500 });
+  }
+}
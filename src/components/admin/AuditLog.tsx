@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { formatMessageTime } from "~/lib/chat";
+import { useAuditEvents } from "~/lib/convex-api";
+import { AUDIT_ACTIONS } from "~/server/auth/audit";
+
+function ChangedFields({ before, after }: { before?: Record<string, unknown>; after?: Record<string, unknown> }) {
+  const keys = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  if (keys.length === 0) return null;
+
+  return (
+    <details className="mt-1">
+      <summary className="cursor-pointer text-xs text-gray-500">
+        {keys.length} changed field{keys.length === 1 ? "" : "s"}
+      </summary>
+      <table className="mt-1 w-full text-xs">
+        <tbody className="divide-y divide-gray-100">
+          {keys.map(key => (
+            <tr key={key} className="align-top">
+              <td className="py-1 pr-2 font-medium text-gray-700">{key}</td>
+              <td className="py-1 pr-2 text-red-700 break-all">{before?.[key] === undefined ? "—" : JSON.stringify(before[key])}</td>
+              <td className="py-1 text-green-700 break-all">{after?.[key] === undefined ? "—" : JSON.stringify(after[key])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
+/**
+ * Admin view of the audit log: privileged and destructive operations, newest first
+ */
+export function AuditLog() {
+  const [action, setAction] = useState("");
+  const [targetId, setTargetId] = useState("");
+
+  const { results, status, loadMore } = useAuditEvents({
+    action: action || undefined,
+    targetId: targetId.trim() || undefined,
+  });
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">Audit log</h1>
+          <p className="text-sm text-gray-500">Plan, role and advisor changes, deletions and migrations</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            placeholder="Target ID"
+            className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            aria-label="Target ID"
+          />
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+            aria-label="Action"
+          >
+            <option value="">All actions</option>
+            {AUDIT_ACTIONS.map(entry => (
+              <option key={entry} value={entry}>{entry}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-gray-200 bg-white">
+        {status === "LoadingFirstPage" ? (
+          <p className="px-4 py-6 text-sm text-gray-500">Loading audit log...</p>
+        ) : results.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500">No events match these filters.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {results.map(event => (
+              <li key={event._id} className="px-4 py-3">
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    <span className="font-medium text-gray-900">{event.action}</span>
+                    {" · "}{event.targetTable} {event.targetLabel ?? event.targetId}
+                  </span>
+                  <span>{formatMessageTime(new Date(event.createdAt))}</span>
+                </div>
+                <div className="mt-1 text-xs text-gray-600">
+                  {event.actorId ? `${event.actorName ?? event.actorId} (${event.actorRole ?? "member"})` : "Migration script"}
+                  {" via "}{event.origin.function}
+                  {event.origin.credential !== "session" ? ` · ${event.origin.credential}` : ""}
+                </div>
+                {event.details && (
+                  <div className="mt-1 text-xs text-gray-500">
+                    {Object.entries(event.details as Record<string, unknown>).map(([key, value]) => `${key}: ${String(value)}`).join(" · ")}
+                  </div>
+                )}
+                <ChangedFields before={event.before} after={event.after} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {status === "CanLoadMore" && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={() => loadMore(25)}
+            className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
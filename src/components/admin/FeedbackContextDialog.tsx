@@ -0,0 +1,113 @@
+"use client";
+
+import { Fragment } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+import { formatMessageTime } from "~/lib/chat";
+import { useFeedbackContext } from "~/lib/convex-api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { FEEDBACK_REASON_LABELS } from "~/server/conversations/feedback";
+
+interface FeedbackContextDialogProps {
+  feedbackId: Id<"messageFeedback"> | undefined;
+  onClose: () => void;
+}
+
+/**
+ * A thumbs-down reply with the conversation and persona prompt that produced it
+ */
+export function FeedbackContextDialog({ feedbackId, onClose }: FeedbackContextDialogProps) {
+  const context = useFeedbackContext(feedbackId);
+
+  return (
+    <Transition appear show={!!feedbackId} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-200"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-150"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-start justify-center p-4 pt-12">
+            <Dialog.Panel className="w-full max-w-3xl rounded-xl bg-white shadow-xl">
+              <div className="flex items-center justify-between border-b border-gray-200 px-5 py-3">
+                <Dialog.Title className="text-sm font-semibold text-gray-900">
+                  {context?.advisorName ?? "Advisor"} reply
+                  {context?.conversationTitle ? <span className="font-normal text-gray-500"> · {context.conversationTitle}</span> : null}
+                </Dialog.Title>
+                <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close">
+                  <XMarkIcon className="w-5 h-5 text-gray-500" />
+                </button>
+              </div>
+
+              {context === undefined ? (
+                <div className="p-6 text-sm text-gray-500">Loading...</div>
+              ) : (
+                <div className="max-h-[75vh] overflow-y-auto p-5 space-y-5 text-sm">
+                  <section className="rounded-lg border border-red-200 bg-red-50 p-3">
+                    <div className="font-medium text-red-800">
+                      {context.feedback.reason ? FEEDBACK_REASON_LABELS[context.feedback.reason] : "No reason given"}
+                    </div>
+                    {context.feedback.other && <p className="mt-1 text-red-900">{context.feedback.other}</p>}
+                    {context.feedback.comments && <p className="mt-1 text-red-900">&ldquo;{context.feedback.comments}&rdquo;</p>}
+                  </section>
+
+                  {context.systemPrompt && (
+                    <details className="rounded-lg border border-gray-200">
+                      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-700">Persona prompt</summary>
+                      <pre className="whitespace-pre-wrap border-t border-gray-200 px-3 py-2 text-xs text-gray-700">{context.systemPrompt}</pre>
+                    </details>
+                  )}
+
+                  <section>
+                    <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">Conversation before the reply</h3>
+                    {context.context.length === 0 ? (
+                      <p className="text-gray-500">The reply opened the conversation.</p>
+                    ) : (
+                      <ol className="space-y-2">
+                        {context.context.map((entry) => (
+                          <li key={entry._id} className={`rounded-lg px-3 py-2 ${entry.sender === "user" ? "bg-gray-100" : "bg-blue-50"}`}>
+                            <div className="mb-1 text-xs text-gray-500">
+                              {entry.sender === "user" ? "Founder" : entry.advisorName ?? "Advisor"} · {formatMessageTime(new Date(entry.createdAt))}
+                            </div>
+                            <div className="whitespace-pre-wrap text-gray-800">{entry.content}</div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </section>
+
+                  <section>
+                    <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-gray-500">Rated reply</h3>
+                    {context.message ? (
+                      <div className="rounded-lg border-2 border-red-300 px-3 py-2">
+                        <div className="mb-1 flex flex-wrap gap-x-3 text-xs text-gray-500">
+                          <span>{context.message.model ?? "unknown model"}</span>
+                          {context.message.temperature !== null && <span>t={context.message.temperature}</span>}
+                          {context.message.totalTokens !== null && <span>{context.message.totalTokens} tokens</span>}
+                          {context.message.finishReason && <span>finish: {context.message.finishReason}</span>}
+                          {context.message.toolCalls > 0 && <span>{context.message.toolCalls} tool calls</span>}
+                          {context.message.citations > 0 && <span>{context.message.citations} citations</span>}
+                        </div>
+                        <div className="whitespace-pre-wrap text-gray-800">{context.message.content}</div>
+                      </div>
+                    ) : (
+                      <p className="text-gray-500">This reply has been deleted.</p>
+                    )}
+                  </section>
+                </div>
+              )}
+            </Dialog.Panel>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { HandThumbUpIcon, HandThumbDownIcon } from "@heroicons/react/24/outline";
+import { formatMessageTime } from "~/lib/chat";
+import { useFeedbackSummary } from "~/lib/convex-api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import {
+  FEEDBACK_REASONS,
+  FEEDBACK_REASON_LABELS,
+  type FeedbackGroup,
+} from "~/server/conversations/feedback";
+import { FeedbackContextDialog } from "./FeedbackContextDialog";
+
+const PERIODS = [
+  { id: "7d", label: "Last 7 days", days: 7 },
+  { id: "30d", label: "Last 30 days", days: 30 },
+  { id: "all", label: "All time", days: null },
+] as const;
+
+type PeriodId = (typeof PERIODS)[number]["id"];
+
+function FeedbackTable({ title, groups }: { title: string; groups: FeedbackGroup[] }) {
+  return (
+    <section className="rounded-xl border border-gray-200 bg-white">
+      <h2 className="border-b border-gray-200 px-4 py-3 text-sm font-semibold text-gray-900">{title}</h2>
+      {groups.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-500">No ratings yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-left text-xs text-gray-500">
+            <tr>
+              <th className="px-4 py-2 font-medium">Name</th>
+              <th className="px-2 py-2 font-medium text-right">Up</th>
+              <th className="px-2 py-2 font-medium text-right">Down</th>
+              <th className="px-2 py-2 font-medium text-right">Down rate</th>
+              {FEEDBACK_REASONS.map(reason => (
+                <th key={reason} className="px-2 py-2 font-medium text-right" title={FEEDBACK_REASON_LABELS[reason]}>
+                  {reason}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {groups.map(group => (
+              <tr key={group.key}>
+                <td className="px-4 py-2 text-gray-900 truncate max-w-[16rem]" title={group.label}>{group.label}</td>
+                <td className="px-2 py-2 text-right tabular-nums text-gray-700">{group.up}</td>
+                <td className="px-2 py-2 text-right tabular-nums text-gray-700">{group.down}</td>
+                <td className={`px-2 py-2 text-right tabular-nums ${group.downRate >= 0.5 ? "text-red-600 font-medium" : "text-gray-700"}`}>
+                  {Math.round(group.downRate * 100)}%
+                </td>
+                {FEEDBACK_REASONS.map(reason => (
+                  <td key={reason} className="px-2 py-2 text-right tabular-nums text-gray-500">{group.reasons[reason] || ""}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Admin review of founder ratings: breakdowns by advisor, model and reason, and the latest thumbs down
+ */
+export function FeedbackDashboard() {
+  const [periodId, setPeriodId] = useState<PeriodId>("30d");
+  const [openFeedbackId, setOpenFeedbackId] = useState<Id<"messageFeedback"> | undefined>();
+
+  // Fixed for the chosen period so the query arguments stay stable between renders
+  const since = useMemo(() => {
+    const days = PERIODS.find(period => period.id === periodId)?.days;
+    return days ? Date.now() - days * 24 * 60 * 60 * 1000 : undefined;
+  }, [periodId]);
+
+  const data = useFeedbackSummary(since);
+
+  if (data === undefined) {
+    return <div className="p-8 text-sm text-gray-500">Loading feedback...</div>;
+  }
+
+  const { summary, downvotes, truncated } = data;
+  const maxReasonCount = Math.max(1, ...summary.byReason.map(entry => entry.count));
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-lg font-semibold text-gray-900">Advisor feedback</h1>
+          <p className="text-sm text-gray-500">Founder ratings of advisor replies</p>
+        </div>
+        <select
+          value={periodId}
+          onChange={(e) => setPeriodId(e.target.value as PeriodId)}
+          className="rounded-md border border-gray-300 px-2 py-1.5 text-sm"
+          aria-label="Period"
+        >
+          {PERIODS.map(period => (
+            <option key={period.id} value={period.id}>{period.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {truncated && (
+        <p className="rounded-md bg-yellow-50 px-3 py-2 text-xs text-yellow-800">
+          Only the most recent ratings are counted; choose a shorter period for exact totals.
+        </p>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <div className="text-xs text-gray-500">Ratings</div>
+          <div className="text-2xl font-semibold text-gray-900 tabular-nums">{summary.total}</div>
+        </div>
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <div className="flex items-center text-xs text-gray-500"><HandThumbUpIcon className="w-3.5 h-3.5 mr-1" />Thumbs up</div>
+          <div className="text-2xl font-semibold text-green-700 tabular-nums">{summary.up}</div>
+        </div>
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <div className="flex items-center text-xs text-gray-500"><HandThumbDownIcon className="w-3.5 h-3.5 mr-1" />Thumbs down</div>
+          <div className="text-2xl font-semibold text-red-600 tabular-nums">{summary.down}</div>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-gray-200 bg-white p-4">
+        <h2 className="mb-3 text-sm font-semibold text-gray-900">Thumbs-down reasons</h2>
+        <div className="space-y-2">
+          {summary.byReason.map(entry => (
+            <div key={entry.reason} className="flex items-center text-sm">
+              <span className="w-56 text-gray-700">{entry.label}</span>
+              <div className="mx-3 h-2 flex-1 rounded bg-gray-100">
+                <div className="h-2 rounded bg-red-400" style={{ width: `${(entry.count / maxReasonCount) * 100}%` }} />
+              </div>
+              <span className="w-8 text-right tabular-nums text-gray-600">{entry.count}</span>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <FeedbackTable title="By advisor" groups={summary.byAdvisor} />
+      <FeedbackTable title="By model" groups={summary.byModel} />
+
+      <section className="rounded-xl border border-gray-200 bg-white">
+        <h2 className="border-b border-gray-200 px-4 py-3 text-sm font-semibold text-gray-900">Latest thumbs down</h2>
+        {downvotes.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-gray-500">No thumbs down in this period.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {downvotes.map(entry => (
+              <li key={entry._id}>
+                <button
+                  type="button"
+                  onClick={() => setOpenFeedbackId(entry._id)}
+                  className="w-full px-4 py-3 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>
+                      <span className="font-medium text-gray-700">{entry.advisorName ?? "Unknown advisor"}</span>
+                      {" · "}{entry.model ?? "unknown model"}
+                      {entry.reason ? ` · ${FEEDBACK_REASON_LABELS[entry.reason]}` : ""}
+                    </span>
+                    <span>{formatMessageTime(new Date(entry.updatedAt))}</span>
+                  </div>
+                  {(entry.comments || entry.other) && (
+                    <p className="mt-1 text-sm text-gray-900">&ldquo;{entry.comments || entry.other}&rdquo;</p>
+                  )}
+                  <p className="mt-1 line-clamp-2 text-sm text-gray-600">{entry.snippet ?? "Reply deleted"}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <FeedbackContextDialog feedbackId={openFeedbackId} onClose={() => setOpenFeedbackId(undefined)} />
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { PencilIcon, TrashIcon, CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { getAdvisorInitials, getAdvisorColor, type Advisor } from "~/lib/chat";
+import { useConversationMemories, useSetMemory, useDeleteMemory } from "~/lib/convex-api";
+import { formatMemoryKey, formatMemoryValue } from "~/server/llm/memories";
+import type { Id } from "../../../convex/_generated/dataModel";
+
+interface AdvisorMemoryPanelProps {
+  conversationId: string;
+  advisors: Advisor[];
+  activeAdvisorId?: string;
+}
+
+interface MemoryRow {
+  _id: Id<"advisorMemories">;
+  advisorId: Id<"advisors">;
+  key: string;
+  value: unknown;
+  updatedAt: number;
+}
+
+export function AdvisorMemoryPanel({ conversationId, advisors, activeAdvisorId }: AdvisorMemoryPanelProps) {
+  const memories = useConversationMemories(conversationId as Id<"conversations">) as MemoryRow[] | undefined;
+  const setMemory = useSetMemory();
+  const deleteMemory = useDeleteMemory();
+
+  const [selectedAdvisorId, setSelectedAdvisorId] = useState<string | undefined>(activeAdvisorId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Only advisors that remember something get a tab
+  const advisorIdsWithMemories = Array.from(new Set((memories || []).map(memory => memory.advisorId as string)));
+  const currentAdvisorId = selectedAdvisorId && advisorIdsWithMemories.includes(selectedAdvisorId)
+    ? selectedAdvisorId
+    : advisorIdsWithMemories[0];
+  const visibleMemories = (memories || [])
+    .filter(memory => memory.advisorId === currentAdvisorId)
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const handleStartEdit = (memory: MemoryRow) => {
+    setEditingId(memory._id);
+    setEditValue(formatMemoryValue(memory.value));
+  };
+
+  const handleSave = async (memory: MemoryRow) => {
+    if (!editValue.trim()) return;
+
+    setIsSaving(true);
+    try {
+      // Keep numbers and booleans typed when the edit still parses as one
+      const trimmed = editValue.trim();
+      const value =
+        typeof memory.value === "number" && !Number.isNaN(Number(trimmed)) ? Number(trimmed)
+        : typeof memory.value === "boolean" && (trimmed === "true" || trimmed === "false") ? trimmed === "true"
+        : trimmed;
+
+      await setMemory({
+        conversationId: conversationId as Id<"conversations">,
+        advisorId: memory.advisorId,
+        key: memory.key,
+        value,
+      });
+      setEditingId(null);
+    } catch (error) {
+      console.error("Failed to update memory:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (memory: MemoryRow) => {
+    try {
+      await deleteMemory({ memoryId: memory._id });
+    } catch (error) {
+      console.error("Failed to delete memory:", error);
+    }
+  };
+
+  if (memories === undefined) {
+    return <p className="text-sm text-gray-500">Loading memories...</p>;
+  }
+
+  if (memories.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Your advisors haven&apos;t noted anything about you yet. Facts like your company stage, runway or team size are remembered as you chat.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {/* Advisor tabs */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {advisorIdsWithMemories.map(advisorId => {
+          const advisor = advisors.find(a => a.id === advisorId);
+          const isSelected = advisorId === currentAdvisorId;
+          return (
+            <button
+              type="button"
+              key={advisorId}
+              onClick={() => setSelectedAdvisorId(advisorId)}
+              className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm border transition-colors ${
+                isSelected ? "bg-white border-blue-300 text-blue-800" : "border-transparent text-gray-600 hover:bg-white"
+              }`}
+            >
+              <span className={`w-5 h-5 rounded-full flex items-center justify-center text-white text-[10px] font-medium ${getAdvisorColor(advisorId)}`}>
+                {getAdvisorInitials(advisor?.name || "AI")}
+              </span>
+              <span>{advisor?.name || "Advisor"}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Memories for the selected advisor */}
+      <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-lg">
+        {visibleMemories.map(memory => (
+          <li key={memory._id} className="flex items-center justify-between px-3 py-2 text-sm">
+            <span className="font-medium text-gray-900 w-40 flex-shrink-0">{formatMemoryKey(memory.key)}</span>
+            {editingId === memory._id ? (
+              <div className="flex-1 flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") void handleSave(memory);
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="flex-1 border border-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  autoFocus
+                  disabled={isSaving}
+                  aria-label={`Edit ${formatMemoryKey(memory.key)}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => void handleSave(memory)}
+                  disabled={isSaving || !editValue.trim()}
+                  className="p-1 text-green-600 hover:text-green-700 disabled:opacity-50"
+                  aria-label="Save memory"
+                >
+                  <CheckIcon className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  disabled={isSaving}
+                  className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                  aria-label="Cancel editing memory"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <div className="flex-1 flex items-center justify-between">
+                <span className="text-gray-700">{formatMemoryValue(memory.value)}</span>
+                <div className="flex items-center space-x-1">
+                  <button
+                    type="button"
+                    onClick={() => handleStartEdit(memory)}
+                    className="p-1 text-gray-400 hover:text-gray-600"
+                    aria-label={`Edit ${formatMemoryKey(memory.key)}`}
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(memory)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${formatMemoryKey(memory.key)}`}
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
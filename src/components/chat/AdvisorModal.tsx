@@ -1,8 +1,22 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { XMarkIcon, CheckIcon, ExclamationTriangleIcon, PhotoIcon } from "@heroicons/react/24/outline";
 import { type Advisor } from "~/lib/chat";
+import { useAdvisor } from "~/lib/convex-api";
+import { componentRegistry } from "~/server/advisors/components";
+import { toolRegistry } from "~/server/advisors/tools";
+import {
+  ADVISOR_SCHEMA_VERSION,
+  advisorDraftFromDocument,
+  getAdvisorField,
+  setAdvisorField,
+  validateAdvisorDocument,
+  type AdvisorFieldError,
+} from "~/server/advisors/schema";
+import { buildAdvisorSystemPrompt, type AdvisorPromptSource } from "~/server/advisors/systemPrompt";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { ConfigField, FieldError, ListField, RowsField, SelectField, TextField, type AdvisorStudio } from "./AdvisorStudioFields";
 
 interface AdvisorModalProps {
   isOpen: boolean;
@@ -20,53 +34,112 @@ export interface AdvisorFormData {
   image?: File | string; // File for new upload, string URL for existing
 }
 
+const SECTIONS = [
+  { id: "persona", label: "Persona" },
+  { id: "background", label: "Background" },
+  { id: "delivery", label: "Delivery" },
+  { id: "role", label: "Role" },
+  { id: "components", label: "Components" },
+  { id: "settings", label: "Localization" },
+  { id: "json", label: "JSON" },
+] as const;
+
+type SectionId = (typeof SECTIONS)[number]["id"];
+
+// Which section shows the field an error points at
+function sectionForPath(path: string): SectionId {
+  if (/^persona\.(education|location|bio|detailedBackground|experience|coreBeliefsOrPrinciples|personalInterests|maritalStatus)/.test(path)) return "background";
+  if (/^persona\.(adviceDelivery|communicationStyle)/.test(path)) return "delivery";
+  if (path.startsWith("persona.")) return "persona";
+  if (path.startsWith("roleDefinition")) return "role";
+  if (path.startsWith("components")) return "components";
+  if (/^(localization|metadata|status|modelHint)/.test(path)) return "settings";
+  return "json";
+}
+
+const emptyDraft = (): Record<string, unknown> => ({
+  advisorSchemaVersion: ADVISOR_SCHEMA_VERSION,
+  status: "active",
+  persona: { name: "", title: "" },
+  components: [],
+});
+
 export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: AdvisorModalProps) {
-  const [formData, setFormData] = useState<AdvisorFormData>({
-    firstName: advisor?.name?.split(' ')[0] || "",
-    lastName: advisor?.name?.split(' ').slice(1).join(' ') || "",
-    title: advisor?.title || "",
-    jsonConfiguration: advisor ? JSON.stringify(advisor, null, 2) : "",
-    image: advisor?.image || undefined,
-  });
-
-  const [errors, setErrors] = useState<Record<string, string>>({});
+  // The rail only has the client summary; the studio edits the stored document
+  const storedAdvisor = useAdvisor(isOpen && advisor ? (advisor.id as unknown as Id<"advisors">) : undefined);
+
+  const [draft, setDraft] = useState<Record<string, unknown>>(emptyDraft);
+  const [section, setSection] = useState<SectionId>("persona");
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const [jsonText, setJsonText] = useState("");
   const [jsonError, setJsonError] = useState<string>("");
-  const [imagePreview, setImagePreview] = useState<string | null>(
-    typeof formData.image === "string" ? formData.image : null
-  );
+  const [image, setImage] = useState<File | string | undefined>(advisor?.image || undefined);
+  const [imageError, setImageError] = useState<string>("");
+  const [imagePreview, setImagePreview] = useState<string | null>(advisor?.image ?? null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateJSON = () => {
-    if (!formData.jsonConfiguration.trim()) {
-      setJsonError("JSON configuration is required");
-      return false;
+  const resetForm = () => {
+    setDraft(storedAdvisor ? advisorDraftFromDocument(storedAdvisor) : emptyDraft());
+    setSection("persona");
+    setTouched(new Set());
+    setShowAllErrors(false);
+    setJsonError("");
+    setImage(advisor?.image || undefined);
+    setImagePreview(advisor?.image ?? null);
+    setImageError("");
+  };
+
+  // Load the stored advisor into the editor once it arrives (or start blank for a new one)
+  useEffect(() => {
+    if (!isOpen) return;
+    resetForm();
+  }, [isOpen, storedAdvisor?._id, advisor?.id]);
+
+  const validation = useMemo(() => validateAdvisorDocument(draft), [draft]);
+  const errors: AdvisorFieldError[] = validation.ok ? [] : validation.errors;
+  const visibleErrors = showAllErrors
+    ? errors
+    : errors.filter(error => [...touched].some(path => error.path === path || error.path.startsWith(`${path}.`)));
+
+  const preview = useMemo(
+    () => buildAdvisorSystemPrompt((validation.ok ? validation.advisor : draft) as AdvisorPromptSource),
+    [validation, draft]
+  );
+
+  const studio: AdvisorStudio = {
+    draft,
+    disabled: isLoading,
+    errorFor: (path) => visibleErrors.find(error => error.path === path)?.message,
+    errorsUnder: (path) => visibleErrors.filter(error => error.path === path || error.path.startsWith(`${path}.`)),
+    setField: (path, value) => {
+      setDraft(prev => setAdvisorField(prev, path, value));
+      setTouched(prev => new Set(prev).add(path));
+    },
+  };
+
+  const openSection = (next: SectionId) => {
+    if (next === "json") {
+      setJsonText(JSON.stringify(draft, null, 2));
+      setJsonError("");
     }
+    setSection(next);
+  };
 
+  const handleJsonChange = (text: string) => {
+    setJsonText(text);
     try {
-      JSON.parse(formData.jsonConfiguration);
+      const parsed: unknown = JSON.parse(text);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setJsonError("The advisor must be a JSON object");
+        return;
+      }
       setJsonError("");
-      return true;
+      setDraft(parsed as Record<string, unknown>);
+      setShowAllErrors(true);
     } catch (error) {
       setJsonError(`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
-      return false;
-    }
-  };
-
-  const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-
-    if (!formData.firstName.trim()) {
-      newErrors.firstName = "First name is required";
-    }
-    if (!formData.lastName.trim()) {
-      newErrors.lastName = "Last name is required";
     }
-    if (!formData.title.trim()) {
-      newErrors.title = "Title/Role is required";
-    }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0 && validateJSON();
   };
 
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -74,18 +147,18 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
     if (file) {
       // Validate file type
       if (!file.type.startsWith('image/')) {
-        setErrors(prev => ({ ...prev, image: "Please select a valid image file" }));
+        setImageError("Please select a valid image file");
         return;
       }
 
       // Validate file size (5MB limit)
       if (file.size > 5 * 1024 * 1024) {
-        setErrors(prev => ({ ...prev, image: "Image must be less than 5MB" }));
+        setImageError("Image must be less than 5MB");
         return;
       }
 
-      setFormData(prev => ({ ...prev, image: file }));
-      setErrors(prev => ({ ...prev, image: "" }));
+      setImage(file);
+      setImageError("");
 
       // Create preview
       const reader = new FileReader();
@@ -98,25 +171,24 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!validateForm()) {
+
+    if (!validation.ok) {
+      setShowAllErrors(true);
+      if (section !== "json") openSection(sectionForPath(validation.errors[0]?.path ?? ""));
       return;
     }
 
+    const [firstName = "", ...rest] = validation.advisor.persona.name.split(" ");
     try {
-      await onSave(formData);
-      onClose();
-      // Reset form
-      setFormData({
-        firstName: "",
-        lastName: "",
-        title: "",
-        jsonConfiguration: "",
-        image: undefined,
+      await onSave({
+        firstName,
+        lastName: rest.join(" "),
+        title: validation.advisor.persona.title,
+        jsonConfiguration: JSON.stringify(validation.advisor, null, 2),
+        image,
       });
-      setImagePreview(null);
-      setErrors({});
-      setJsonError("");
+      onClose();
+      resetForm();
     } catch (error) {
       console.error("Failed to save advisor:", error);
       // Could add toast notification here
@@ -126,20 +198,17 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
   const handleCancel = () => {
     onClose();
     // Reset form to original state
-    setFormData({
-      firstName: advisor?.name?.split(' ')[0] || "",
-      lastName: advisor?.name?.split(' ').slice(1).join(' ') || "",
-      title: advisor?.title || "",
-      jsonConfiguration: advisor ? JSON.stringify(advisor, null, 2) : "",
-      image: advisor?.image || undefined,
-    });
-    setImagePreview(typeof advisor?.image === "string" ? advisor.image : null);
-    setErrors({});
-    setJsonError("");
+    resetForm();
   };
 
   if (!isOpen) return null;
 
+  const isLoadingAdvisor = Boolean(advisor) && storedAdvisor === undefined;
+  const errorCount = (id: SectionId) => errors.filter(error => sectionForPath(error.path) === id).length;
+  const registeredComponents = componentRegistry.list();
+  const componentRows = getAdvisorField(draft, "components");
+  const selectedTools = getAdvisorField(draft, "roleDefinition.tools");
+
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
@@ -147,12 +216,15 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
       aria-modal="true"
       aria-labelledby="advisor-modal-title"
     >
-      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] flex flex-col">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 id="advisor-modal-title" className="text-xl font-semibold text-gray-900">
-            {advisor ? "Edit Advisor" : "Add New Advisor"}
-          </h2>
+          <div>
+            <h2 id="advisor-modal-title" className="text-xl font-semibold text-gray-900">
+              {advisor ? "Edit Advisor" : "Add New Advisor"}
+            </h2>
+            <p className="text-xs text-gray-500">Schema {ADVISOR_SCHEMA_VERSION}</p>
+          </div>
           <button
             type="button"
             onClick={handleCancel}
@@ -165,151 +237,312 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
           </button>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Name Fields */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div>
-              <label htmlFor="firstName" className="block text-sm font-medium text-gray-700 mb-1">
-                First Name *
-              </label>
-              <input
-                type="text"
-                id="firstName"
-                value={formData.firstName}
-                onChange={(e) => setFormData(prev => ({ ...prev, firstName: e.target.value }))}
-                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                  errors.firstName ? "border-red-300" : "border-gray-300"
-                }`}
-                disabled={isLoading}
-              />
-              {errors.firstName && (
-                <p className="mt-1 text-sm text-red-600">{errors.firstName}</p>
-              )}
-            </div>
-
-            <div>
-              <label htmlFor="lastName" className="block text-sm font-medium text-gray-700 mb-1">
-                Last Name *
-              </label>
-              <input
-                type="text"
-                id="lastName"
-                value={formData.lastName}
-                onChange={(e) => setFormData(prev => ({ ...prev, lastName: e.target.value }))}
-                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                  errors.lastName ? "border-red-300" : "border-gray-300"
-                }`}
-                disabled={isLoading}
-              />
-              {errors.lastName && (
-                <p className="mt-1 text-sm text-red-600">{errors.lastName}</p>
+        {/* Section Navigation */}
+        <div className="flex border-b border-gray-200 overflow-x-auto" role="tablist" aria-label="Advisor sections">
+          {SECTIONS.map(entry => (
+            <button
+              key={entry.id}
+              type="button"
+              role="tab"
+              aria-selected={section === entry.id}
+              onClick={() => openSection(entry.id)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 whitespace-nowrap transition-colors ${
+                section === entry.id
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {entry.label}
+              {showAllErrors && errorCount(entry.id) > 0 && (
+                <span className="ml-1.5 inline-flex items-center justify-center rounded-full bg-red-100 px-1.5 text-xs text-red-700">
+                  {errorCount(entry.id)}
+                </span>
               )}
-            </div>
-          </div>
+            </button>
+          ))}
+        </div>
 
-          {/* Title Field */}
-          <div>
-            <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-1">
-              Title/Role *
-            </label>
-            <input
-              type="text"
-              id="title"
-              value={formData.title}
-              onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
-              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
-                errors.title ? "border-red-300" : "border-gray-300"
-              }`}
-              placeholder="e.g., Senior Product Manager, Marketing Director"
-              disabled={isLoading}
-            />
-            {errors.title && (
-              <p className="mt-1 text-sm text-red-600">{errors.title}</p>
-            )}
-          </div>
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="flex-1 min-h-0 flex flex-col">
+          <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-2">
+            {/* Editor */}
+            <div className="overflow-y-auto p-6 space-y-4">
+              {isLoadingAdvisor ? (
+                <p className="text-sm text-gray-500">Loading advisor...</p>
+              ) : section === "persona" ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TextField studio={studio} path="persona.name" label="Name *" placeholder="e.g., Alex Reyes" />
+                    <TextField studio={studio} path="persona.title" label="Title/Role *" placeholder="e.g., Venture Partner" />
+                  </div>
+                  <TextField studio={studio} path="persona.oneLiner" label="One-liner" placeholder="How the advisor introduces themselves" />
+                  <TextField studio={studio} path="persona.description" label="Description" multiline />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TextField studio={studio} path="persona.archetype" label="Archetype" />
+                    <TextField studio={studio} path="persona.temperament" label="Temperament" />
+                  </div>
+                  <ListField studio={studio} path="persona.specialties" label="Specialties" />
+                  <ListField studio={studio} path="persona.expertise" label="Expertise" />
+                  <ListField studio={studio} path="persona.personality" label="Personality traits" />
 
-          {/* Image Upload */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Advisor Avatar (Optional)
-            </label>
-            <div className="flex items-center space-x-4">
-              {imagePreview && (
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="w-16 h-16 rounded-full object-cover border border-gray-300"
+                  {/* Image Upload */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Advisor Avatar (Optional)
+                    </label>
+                    <div className="flex items-center space-x-4">
+                      {imagePreview && (
+                        <img
+                          src={imagePreview}
+                          alt="Preview"
+                          className="w-16 h-16 rounded-full object-cover border border-gray-300"
+                        />
+                      )}
+                      <div className="flex-1">
+                        <input
+                          type="file"
+                          ref={fileInputRef}
+                          onChange={handleImageUpload}
+                          accept="image/*"
+                          className="hidden"
+                          disabled={isLoading}
+                          aria-label="Upload advisor avatar image"
+                          title="Select an image file for the advisor avatar"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => fileInputRef.current?.click()}
+                          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                          disabled={isLoading}
+                        >
+                          <PhotoIcon className="w-5 h-5 text-gray-400" />
+                          <span className="text-sm text-gray-700">
+                            {imagePreview ? "Change Image" : "Upload Image"}
+                          </span>
+                        </button>
+                      </div>
+                    </div>
+                    <FieldError message={imageError} />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Supported formats: JPG, PNG, WebP. Max size: 5MB.
+                    </p>
+                  </div>
+                </>
+              ) : section === "background" ? (
+                <>
+                  <TextField studio={studio} path="persona.bio" label="Bio" multiline />
+                  <TextField studio={studio} path="persona.detailedBackground" label="Detailed background" multiline />
+                  <TextField studio={studio} path="persona.experience" label="Experience" multiline />
+                  <ListField studio={studio} path="persona.coreBeliefsOrPrinciples" label="Core beliefs or principles" />
+                  <ListField studio={studio} path="persona.personalInterests" label="Personal interests" />
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-semibold text-gray-900">Education</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TextField studio={studio} path="persona.education.degreeLevel" label="Degree level" placeholder="e.g., master" />
+                      <TextField studio={studio} path="persona.education.degreeName" label="Degree" placeholder="e.g., MBA" />
+                      <TextField studio={studio} path="persona.education.major" label="Major" />
+                      <TextField studio={studio} path="persona.education.institution" label="Institution" />
+                      <TextField studio={studio} path="persona.education.graduationYear" label="Graduation year" type="number" />
+                    </div>
+                  </fieldset>
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-semibold text-gray-900">Location</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TextField studio={studio} path="persona.location.city" label="City" />
+                      <TextField studio={studio} path="persona.location.region" label="Region" />
+                      <TextField studio={studio} path="persona.location.country" label="Country" />
+                      <TextField studio={studio} path="persona.location.countryCode" label="Country code" placeholder="e.g., US" />
+                      <TextField studio={studio} path="persona.location.timezone" label="Timezone" placeholder="e.g., America/Los_Angeles" />
+                    </div>
+                  </fieldset>
+                </>
+              ) : section === "delivery" ? (
+                <>
+                  <TextField studio={studio} path="persona.communicationStyle" label="Communication style" multiline />
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <TextField studio={studio} path="persona.adviceDelivery.mode" label="Mode" placeholder="e.g., business-formal" />
+                    <TextField studio={studio} path="persona.adviceDelivery.formality" label="Formality" placeholder="e.g., formal" />
+                  </div>
+                  <ListField studio={studio} path="persona.adviceDelivery.voiceGuidelines" label="Voice guidelines" />
+                  <TextField studio={studio} path="persona.adviceDelivery.signOff" label="Sign-off" placeholder="e.g., — Alex" />
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={getAdvisorField(draft, "persona.adviceDelivery.useEmojis") === true}
+                      onChange={(e) => studio.setField("persona.adviceDelivery.useEmojis", e.target.checked)}
+                      disabled={isLoading}
+                    />
+                    <span>Uses emojis</span>
+                  </label>
+                </>
+              ) : section === "role" ? (
+                <>
+                  <TextField studio={studio} path="roleDefinition.mission" label="Mission" multiline />
+                  <ListField studio={studio} path="roleDefinition.scope.inScope" label="In scope" />
+                  <ListField studio={studio} path="roleDefinition.scope.outOfScope" label="Out of scope" placeholder="e.g., Detailed technical architecture (Amara's role)" />
+                  <ListField studio={studio} path="roleDefinition.constraints" label="Constraints" />
+                  <RowsField
+                    studio={studio}
+                    path="roleDefinition.keyPerformanceIndicators"
+                    label="Key performance indicators"
+                    addLabel="Add KPI"
+                    newRow={() => ({ metric: "" })}
+                    renderRow={(rowPath) => (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="col-span-2">
+                            <TextField studio={studio} path={`${rowPath}.metric`} label="Metric *" />
+                          </div>
+                          <TextField studio={studio} path={`${rowPath}.unit`} label="Unit" placeholder="e.g., %" />
+                        </div>
+                        <TextField studio={studio} path={`${rowPath}.description`} label="Description" />
+                      </div>
+                    )}
+                  />
+                  <fieldset>
+                    <legend className="block text-sm font-medium text-gray-700 mb-1">Tools</legend>
+                    <div className="grid grid-cols-2 gap-1">
+                      {toolRegistry.list().map(tool => {
+                        const tools = Array.isArray(selectedTools) ? (selectedTools as string[]) : [];
+                        return (
+                          <label key={tool.name} className="flex items-center space-x-2 text-sm text-gray-700" title={tool.description}>
+                            <input
+                              type="checkbox"
+                              checked={tools.includes(tool.name)}
+                              onChange={(e) => studio.setField(
+                                "roleDefinition.tools",
+                                e.target.checked ? [...tools, tool.name] : tools.filter(name => name !== tool.name)
+                              )}
+                              disabled={isLoading}
+                            />
+                            <span>{tool.name}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    {studio.errorsUnder("roleDefinition.tools").map(error => (
+                      <FieldError key={error.path} message={error.message} />
+                    ))}
+                  </fieldset>
+                </>
+              ) : section === "components" ? (
+                <RowsField
+                  studio={studio}
+                  path="components"
+                  label="Components"
+                  addLabel="Add component"
+                  newRow={() => ({ id: registeredComponents[0]?.id ?? "", version: registeredComponents[0]?.version ?? "1.0.0", config: {} })}
+                  renderRow={(rowPath, index) => {
+                    const row = Array.isArray(componentRows) ? (componentRows[index] as { id?: string } | undefined) : undefined;
+                    return (
+                      <div key={`${index}-${row?.id ?? ""}`} className="space-y-2">
+                        <div className="grid grid-cols-3 gap-2">
+                          <div className="col-span-2">
+                            <SelectField
+                              studio={studio}
+                              path={`${rowPath}.id`}
+                              label="Component"
+                              options={[
+                                ...(row?.id && !componentRegistry.has(row.id) ? [{ value: row.id, label: row.id }] : []),
+                                ...registeredComponents.map(handler => ({ value: handler.id, label: handler.id })),
+                              ]}
+                            />
+                          </div>
+                          <TextField studio={studio} path={`${rowPath}.version`} label="Version" />
+                        </div>
+                        <ConfigField studio={studio} path={`${rowPath}.config`} />
+                      </div>
+                    );
+                  }}
                 />
+              ) : section === "settings" ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <SelectField
+                      studio={studio}
+                      path="status"
+                      label="Status"
+                      options={[
+                        { value: "active", label: "Active" },
+                        { value: "inactive", label: "Inactive" },
+                        { value: "archived", label: "Archived" },
+                      ]}
+                    />
+                    <TextField studio={studio} path="modelHint" label="Model hint" placeholder="e.g., openai/gpt-4o-mini" />
+                  </div>
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-semibold text-gray-900">Localization</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TextField studio={studio} path="localization.defaultLanguage" label="Default language" placeholder="e.g., en" />
+                      <TextField studio={studio} path="localization.region" label="Region" placeholder="e.g., US" />
+                    </div>
+                    <ListField studio={studio} path="localization.supportedLanguages" label="Supported languages" />
+                  </fieldset>
+                  <fieldset className="space-y-3">
+                    <legend className="text-sm font-semibold text-gray-900">Metadata</legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <TextField studio={studio} path="metadata.version" label="Version" placeholder="e.g., 1.0.0" />
+                      <TextField studio={studio} path="metadata.category" label="Category" />
+                      <TextField studio={studio} path="metadata.author" label="Author" />
+                      <TextField studio={studio} path="metadata.owner.org" label="Owner organization" />
+                      <TextField studio={studio} path="metadata.owner.contactEmail" label="Contact email" type="email" />
+                    </div>
+                    <ListField studio={studio} path="metadata.tags" label="Tags" />
+                  </fieldset>
+                </>
+              ) : (
+                <div>
+                  <label htmlFor="jsonConfig" className="block text-sm font-medium text-gray-700 mb-1">
+                    Advisor JSON
+                  </label>
+                  <textarea
+                    id="jsonConfig"
+                    value={jsonText}
+                    onChange={(e) => handleJsonChange(e.target.value)}
+                    rows={24}
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-xs ${
+                      jsonError ? "border-red-300" : "border-gray-300"
+                    }`}
+                    disabled={isLoading}
+                  />
+                  <FieldError message={jsonError} />
+                </div>
               )}
-              <div className="flex-1">
-                <input
-                  type="file"
-                  ref={fileInputRef}
-                  onChange={handleImageUpload}
-                  accept="image/*"
-                  className="hidden"
-                  disabled={isLoading}
-                  aria-label="Upload advisor avatar image"
-                  title="Select an image file for the advisor avatar"
-                />
-                <button
-                  type="button"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="flex items-center space-x-2 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
-                  disabled={isLoading}
-                >
-                  <PhotoIcon className="w-5 h-5 text-gray-400" />
-                  <span className="text-sm text-gray-700">
-                    {imagePreview ? "Change Image" : "Upload Image"}
-                  </span>
-                </button>
-              </div>
-            </div>
-            {errors.image && (
-              <p className="mt-1 text-sm text-red-600">{errors.image}</p>
-            )}
-            <p className="mt-1 text-xs text-gray-500">
-              Supported formats: JPG, PNG, WebP. Max size: 5MB.
-            </p>
-          </div>
 
-          {/* JSON Configuration */}
-          <div>
-            <div className="flex items-center justify-between mb-1">
-              <label htmlFor="jsonConfig" className="block text-sm font-medium text-gray-700">
-                JSON Configuration *
-              </label>
-              <button
-                type="button"
-                onClick={validateJSON}
-                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
-                disabled={isLoading}
-              >
-                Validate JSON
-              </button>
+              {/* Every problem, including ones no field above shows */}
+              {showAllErrors && errors.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3" role="alert">
+                  <p className="flex items-center text-sm font-medium text-red-800">
+                    <ExclamationTriangleIcon className="w-4 h-4 mr-1.5" />
+                    {errors.length} problem{errors.length === 1 ? "" : "s"} to fix before saving
+                  </p>
+                  <ul className="mt-2 space-y-1 text-xs text-red-700">
+                    {errors.map(error => (
+                      <li key={`${error.path}:${error.message}`}>
+                        <button type="button" onClick={() => openSection(sectionForPath(error.path))} className="text-left hover:underline">
+                          <span className="font-mono">{error.path || "advisor"}</span>: {error.message}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
-            <textarea
-              id="jsonConfig"
-              value={formData.jsonConfiguration}
-              onChange={(e) => setFormData(prev => ({ ...prev, jsonConfiguration: e.target.value }))}
-              rows={12}
-              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm ${
-                jsonError ? "border-red-300" : "border-gray-300"
-              }`}
-              placeholder="Enter valid JSON configuration for the advisor..."
-              disabled={isLoading}
-            />
-            {jsonError && (
-              <div className="mt-1 flex items-start space-x-2 text-sm text-red-600">
-                <ExclamationTriangleIcon className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                <span>{jsonError}</span>
+
+            {/* Live system prompt preview */}
+            <div className="border-t lg:border-t-0 lg:border-l border-gray-200 bg-gray-50 flex flex-col min-h-0">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+                <h3 className="text-sm font-medium text-gray-900">Generated system prompt</h3>
+                <span className="text-xs text-gray-500">~{Math.round(preview.length * 0.25)} tokens</span>
               </div>
-            )}
+              <pre className="flex-1 overflow-y-auto p-4 text-xs text-gray-700 whitespace-pre-wrap font-mono" aria-live="polite">
+                {preview}
+              </pre>
+            </div>
           </div>
 
           {/* Action Buttons */}
-          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-end space-x-3 p-4 border-t border-gray-200">
             <button
               type="button"
               onClick={handleCancel}
@@ -320,7 +553,7 @@ export function AdvisorModal({ isOpen, onClose, onSave, advisor, isLoading }: Ad
             </button>
             <button
               type="submit"
-              disabled={isLoading || !formData.firstName.trim() || !formData.lastName.trim() || !formData.title.trim() || !formData.jsonConfiguration.trim()}
+              disabled={isLoading || isLoadingAdvisor || Boolean(jsonError)}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {isLoading ? (
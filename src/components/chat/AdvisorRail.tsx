@@ -1,12 +1,17 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { PlusIcon, ChatBubbleLeftIcon, UserGroupIcon, InformationCircleIcon, TrashIcon, PencilIcon } from "@heroicons/react/24/outline";
+import { PlusIcon, ChatBubbleLeftIcon, UserGroupIcon, InformationCircleIcon, TrashIcon, PencilIcon, IdentificationIcon, ArrowUpTrayIcon, MagnifyingGlassIcon, ArrowUturnLeftIcon } from "@heroicons/react/24/outline";
 import { getAdvisorInitials, getAdvisorColor, formatMessageTime, type Advisor, type Conversation } from "~/lib/chat";
 import { AdvisorProfileModal } from "./AdvisorProfileModal";
 import { DeleteConversationDialog } from "./DeleteConversationDialog";
 import { AdvisorModal, type AdvisorFormData } from "./AdvisorModal";
-import { useUploadAdvisorJSON } from "~/lib/convex-api";
+import { FounderProfileModal } from "./FounderProfileModal";
+import { ImportConversationsDialog } from "./ImportConversationsDialog";
+import { ConversationSearchDialog } from "./ConversationSearchDialog";
+import { useDeleteConversationForever, useRestoreConversation, useTrashedConversations, useUploadAdvisorJSON } from "~/lib/convex-api";
+import { describeTrashPurge } from "~/server/conversations/trash";
+import type { Id } from "../../../convex/_generated/dataModel";
 
 interface AdvisorRailProps {
   advisors: Advisor[];
@@ -15,6 +20,7 @@ interface AdvisorRailProps {
   currentConversationId?: string;
   onAdvisorSelect: (advisorId: string) => void;
   onConversationSelect: (conversationId: string) => void;
+  onJumpToMessage?: (conversationId: string, messageId: string) => void;
   onNewConversation: () => void;
   onDeleteConversation?: (conversationId: string) => void;
   onCreateAdvisor?: (advisorData: AdvisorFormData) => Promise<void>;
@@ -28,12 +34,13 @@ export function AdvisorRail({
   currentConversationId,
   onAdvisorSelect,
   onConversationSelect,
+  onJumpToMessage,
   onNewConversation,
   onDeleteConversation,
   onCreateAdvisor,
   onUpdateAdvisor,
 }: AdvisorRailProps) {
-  const [activeTab, setActiveTab] = useState<"advisors" | "conversations">("advisors");
+  const [activeTab, setActiveTab] = useState<"advisors" | "conversations" | "trash">("advisors");
   const [selectedAdvisorForProfile, setSelectedAdvisorForProfile] = useState<Advisor | null>(null);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [conversationToDelete, setConversationToDelete] = useState<Conversation | null>(null);
@@ -45,6 +52,15 @@ export function AdvisorRail({
   const [advisorToEdit, setAdvisorToEdit] = useState<Advisor | null>(null);
   const [isAdvisorLoading, setIsAdvisorLoading] = useState(false);
 
+  // Founder profile modal state
+  const [isFounderProfileOpen, setIsFounderProfileOpen] = useState(false);
+
+  // Conversation import dialog state
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Conversation search dialog state
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+
   const handleShowProfile = (advisor: Advisor) => {
     setSelectedAdvisorForProfile(advisor);
     setIsProfileModalOpen(true);
@@ -121,9 +137,29 @@ export function AdvisorRail({
     <>
       <div className="h-full flex flex-col bg-gray-50">
         {/* Header */}
-        <div className="p-4 border-b border-gray-200">
-          <h1 className="text-lg font-semibold text-gray-900">AI Advisor Chat</h1>
-          <p className="text-sm text-gray-600">Your personal board of advisors</p>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">AI Advisor Chat</h1>
+            <p className="text-sm text-gray-600">Your personal board of advisors</p>
+          </div>
+          <div className="flex">
+            <button
+              type="button"
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Search conversations"
+            >
+              <MagnifyingGlassIcon className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsFounderProfileOpen(true)}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Your founder profile"
+            >
+              <IdentificationIcon className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
       {/* Tab Navigation */}
@@ -152,6 +188,18 @@ export function AdvisorRail({
           <ChatBubbleLeftIcon className="w-4 h-4 inline mr-2" />
           Chats
         </button>
+        <button
+          type="button"
+          onClick={() => setActiveTab("trash")}
+          className={`flex-1 px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === "trash"
+              ? "border-blue-500 text-blue-600 bg-blue-50"
+              : "border-transparent text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+          }`}
+        >
+          <TrashIcon className="w-4 h-4 inline mr-2" />
+          Trash
+        </button>
       </div>
 
       {/* Content */}
@@ -165,14 +213,17 @@ export function AdvisorRail({
             onCreateAdvisor={handleCreateAdvisor}
             onEditAdvisor={handleEditAdvisor}
           />
-        ) : (
+        ) : activeTab === "conversations" ? (
           <ConversationsList
             conversations={conversations}
             currentConversationId={currentConversationId}
             onConversationSelect={onConversationSelect}
             onNewConversation={onNewConversation}
+            onImportConversations={() => setIsImportOpen(true)}
             onDeleteConversation={handleDeleteConversation}
           />
+        ) : (
+          <TrashList onConversationSelect={onConversationSelect} />
         )}
       </div>
       </div>
@@ -201,6 +252,35 @@ export function AdvisorRail({
         advisor={advisorToEdit}
         isLoading={isAdvisorLoading}
       />
+
+      {/* Founder Profile Modal */}
+      <FounderProfileModal
+        isOpen={isFounderProfileOpen}
+        onClose={() => setIsFounderProfileOpen(false)}
+        advisors={advisors}
+      />
+
+      {/* Import Conversations Dialog */}
+      <ImportConversationsDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        advisors={advisors}
+        defaultAdvisorId={activeAdvisorId}
+        onImported={(conversationIds) => {
+          if (conversationIds[0]) onConversationSelect(conversationIds[0]);
+        }}
+      />
+
+      {/* Conversation Search Dialog */}
+      <ConversationSearchDialog
+        isOpen={isSearchOpen}
+        onClose={() => setIsSearchOpen(false)}
+        advisors={advisors}
+        onOpenResult={(conversationId, messageId) => {
+          if (messageId && onJumpToMessage) onJumpToMessage(conversationId, messageId);
+          else onConversationSelect(conversationId);
+        }}
+      />
     </>
   );
 }
@@ -397,12 +477,14 @@ function ConversationsList({
   currentConversationId,
   onConversationSelect,
   onNewConversation,
+  onImportConversations,
   onDeleteConversation,
 }: {
   conversations: Conversation[];
   currentConversationId?: string;
   onConversationSelect: (conversationId: string) => void;
   onNewConversation: () => void;
+  onImportConversations?: () => void;
   onDeleteConversation?: (conversation: Conversation) => void;
 }) {
   return (
@@ -416,6 +498,17 @@ function ConversationsList({
         <PlusIcon className="w-4 h-4" />
         <span className="text-sm font-medium">New Conversation</span>
       </button>
+      {onImportConversations && (
+        <button
+          type="button"
+          onClick={onImportConversations}
+          className="w-full p-2 rounded-lg mb-3 border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors flex items-center justify-center space-x-2"
+          title="Import chats from ChatGPT, Claude or a JSON export"
+        >
+          <ArrowUpTrayIcon className="w-4 h-4" />
+          <span className="text-sm">Import chats</span>
+        </button>
+      )}
 
       {/* Conversations List */}
       {conversations.length === 0 ? (
@@ -490,3 +583,103 @@ function ConversationsList({
     </div>
   );
 }
+
+function TrashList({
+  onConversationSelect,
+}: {
+  onConversationSelect: (conversationId: string) => void;
+}) {
+  const trashed = useTrashedConversations();
+  const restoreConversation = useRestoreConversation();
+  const deleteConversationForever = useDeleteConversationForever();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [conversationToDelete, setConversationToDelete] = useState<{ _id: Id<"conversations">; title?: string } | null>(null);
+
+  const handleRestore = async (conversationId: Id<"conversations">) => {
+    setBusyId(conversationId);
+    try {
+      await restoreConversation({ conversationId });
+      onConversationSelect(conversationId);
+    } catch (error) {
+      console.error("Failed to restore conversation:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!conversationToDelete) return;
+
+    setBusyId(conversationToDelete._id);
+    try {
+      await deleteConversationForever({ conversationId: conversationToDelete._id });
+      setConversationToDelete(null);
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (trashed === undefined) {
+    return <p className="p-4 text-sm text-gray-500">Loading trash...</p>;
+  }
+
+  const now = Date.now();
+
+  return (
+    <div className="p-2">
+      {trashed.length === 0 ? (
+        <div className="text-center py-8">
+          <TrashIcon className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+          <p className="text-sm text-gray-500">Trash is empty</p>
+          <p className="text-xs text-gray-400">Deleted chats stay here until they are deleted forever</p>
+        </div>
+      ) : (
+        trashed.map((conversation) => (
+          <div key={conversation._id} className="mb-2 p-3 rounded-lg bg-white border border-gray-200">
+            <p className="text-sm font-medium text-gray-900 truncate">
+              {conversation.title || "Untitled conversation"}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              {describeTrashPurge(conversation.purgeAt, now)}
+            </p>
+            <div className="flex justify-end space-x-2 mt-2">
+              <button
+                type="button"
+                onClick={() => handleRestore(conversation._id)}
+                disabled={busyId === conversation._id}
+                className="inline-flex items-center px-2 py-1 rounded-md text-xs text-gray-700 border border-gray-300 hover:bg-gray-100 disabled:opacity-60"
+                title={`Restore conversation: ${conversation.title ?? ""}`}
+              >
+                <ArrowUturnLeftIcon className="w-3 h-3 mr-1" />
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => setConversationToDelete(conversation)}
+                disabled={busyId === conversation._id}
+                className="inline-flex items-center px-2 py-1 rounded-md text-xs text-red-600 border border-red-200 hover:bg-red-50 disabled:opacity-60"
+              >
+                <TrashIcon className="w-3 h-3 mr-1" />
+                Delete forever
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <DeleteConversationDialog
+        isOpen={conversationToDelete !== null}
+        onClose={() => {
+          if (busyId) return; // Prevent closing while deleting
+          setConversationToDelete(null);
+        }}
+        onConfirm={handleConfirmDelete}
+        conversationTitle={conversationToDelete?.title}
+        isDeleting={busyId !== null && busyId === conversationToDelete?._id}
+        permanent
+      />
+    </div>
+  );
+}
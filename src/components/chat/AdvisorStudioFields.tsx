@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { getAdvisorField, type AdvisorFieldError } from "~/server/advisors/schema";
+
+/**
+ * What every studio field needs: the draft, its validation errors by path and a setter
+ */
+export interface AdvisorStudio {
+  draft: Record<string, unknown>;
+  errorFor: (path: string) => string | undefined;
+  /** Errors on the field at `path` and everything inside it */
+  errorsUnder: (path: string) => AdvisorFieldError[];
+  setField: (path: string, value: unknown) => void;
+  disabled?: boolean;
+}
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    error ? "border-red-300" : "border-gray-300"
+  }`;
+
+const fieldId = (path: string) => `advisor-${path.replace(/\./g, "-")}`;
+
+export function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return (
+    <p className="mt-1 flex items-start space-x-1 text-xs text-red-600">
+      <ExclamationTriangleIcon className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+      <span>{message}</span>
+    </p>
+  );
+}
+
+export function TextField({
+  studio,
+  path,
+  label,
+  placeholder,
+  multiline = false,
+  type = "text",
+}: {
+  studio: AdvisorStudio;
+  path: string;
+  label: string;
+  placeholder?: string;
+  multiline?: boolean;
+  type?: "text" | "number" | "email";
+}) {
+  const value = getAdvisorField(studio.draft, path);
+  const error = studio.errorFor(path);
+  const display = typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+  const handleChange = (next: string) => {
+    if (type === "number") {
+      studio.setField(path, next === "" ? undefined : Number(next));
+    } else {
+      studio.setField(path, next);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={fieldId(path)} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      {multiline ? (
+        <textarea
+          id={fieldId(path)}
+          value={display}
+          onChange={(e) => handleChange(e.target.value)}
+          rows={3}
+          className={inputClass(error)}
+          placeholder={placeholder}
+          disabled={studio.disabled}
+        />
+      ) : (
+        <input
+          id={fieldId(path)}
+          type={type}
+          value={display}
+          onChange={(e) => handleChange(e.target.value)}
+          className={inputClass(error)}
+          placeholder={placeholder}
+          disabled={studio.disabled}
+        />
+      )}
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+/**
+ * A list of strings edited one per line; blank lines are dropped on validation
+ */
+export function ListField({
+  studio,
+  path,
+  label,
+  placeholder,
+}: {
+  studio: AdvisorStudio;
+  path: string;
+  label: string;
+  placeholder?: string;
+}) {
+  const value = getAdvisorField(studio.draft, path);
+  const lines = Array.isArray(value) ? value.map(String) : [];
+  // Errors on single entries are reported at "path.index"
+  const error = studio.errorFor(path) ?? lines.map((_, index) => studio.errorFor(`${path}.${index}`)).find(Boolean);
+
+  return (
+    <div>
+      <label htmlFor={fieldId(path)} className="block text-sm font-medium text-gray-700 mb-1">
+        {label} <span className="font-normal text-gray-400">(one per line)</span>
+      </label>
+      <textarea
+        id={fieldId(path)}
+        value={lines.join("\n")}
+        onChange={(e) => studio.setField(path, e.target.value === "" ? undefined : e.target.value.split("\n"))}
+        rows={Math.min(Math.max(lines.length, 2), 6)}
+        className={inputClass(error)}
+        placeholder={placeholder}
+        disabled={studio.disabled}
+      />
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+export function SelectField({
+  studio,
+  path,
+  label,
+  options,
+}: {
+  studio: AdvisorStudio;
+  path: string;
+  label: string;
+  options: { value: string; label: string }[];
+}) {
+  const value = getAdvisorField(studio.draft, path);
+  const error = studio.errorFor(path);
+
+  return (
+    <div>
+      <label htmlFor={fieldId(path)} className="block text-sm font-medium text-gray-700 mb-1">
+        {label}
+      </label>
+      <select
+        id={fieldId(path)}
+        value={typeof value === "string" ? value : ""}
+        onChange={(e) => studio.setField(path, e.target.value || undefined)}
+        className={inputClass(error)}
+        disabled={studio.disabled}
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      <FieldError message={error} />
+    </div>
+  );
+}
+
+/**
+ * Rows of objects (e.g. KPIs) with add and remove buttons; `renderRow` gets the row's path
+ */
+export function RowsField({
+  studio,
+  path,
+  label,
+  addLabel,
+  newRow,
+  renderRow,
+}: {
+  studio: AdvisorStudio;
+  path: string;
+  label: string;
+  addLabel: string;
+  newRow: () => Record<string, unknown>;
+  renderRow: (rowPath: string, index: number) => React.ReactNode;
+}) {
+  const value = getAdvisorField(studio.draft, path);
+  const rows = Array.isArray(value) ? value : [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="block text-sm font-medium text-gray-700">{label}</span>
+        <button
+          type="button"
+          onClick={() => studio.setField(path, [...rows, newRow()])}
+          className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-700"
+          disabled={studio.disabled}
+        >
+          <PlusIcon className="w-3.5 h-3.5 mr-1" />
+          {addLabel}
+        </button>
+      </div>
+      <div className="space-y-3">
+        {rows.map((_, index) => (
+          <div key={index} className="relative rounded-md border border-gray-200 bg-gray-50 p-3 pr-9">
+            {renderRow(`${path}.${index}`, index)}
+            <button
+              type="button"
+              onClick={() => studio.setField(path, rows.filter((__, i) => i !== index))}
+              className="absolute top-2 right-2 p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+              title="Remove"
+              aria-label={`Remove ${label} ${index + 1}`}
+              disabled={studio.disabled}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <FieldError message={studio.errorFor(path)} />
+    </div>
+  );
+}
+
+/**
+ * A component's `config` object edited as JSON; only well-formed objects reach the draft
+ */
+export function ConfigField({ studio, path }: { studio: AdvisorStudio; path: string }) {
+  const value = getAdvisorField(studio.draft, path);
+  const [text, setText] = useState(() => JSON.stringify(value ?? {}, null, 2));
+  const [syntaxError, setSyntaxError] = useState<string>("");
+  // Handler validation reports e.g. "components.0.config.weights.team"; show the part inside config
+  const configErrors = studio.errorsUnder(path).map(error =>
+    error.path === path ? error.message : `${error.path.slice(path.length + 1)}: ${error.message}`
+  );
+
+  const handleChange = (next: string) => {
+    setText(next);
+    try {
+      const parsed: unknown = JSON.parse(next || "{}");
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        setSyntaxError("Config must be a JSON object");
+        return;
+      }
+      setSyntaxError("");
+      studio.setField(path, parsed);
+    } catch (error) {
+      setSyntaxError(`Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor={fieldId(path)} className="block text-sm font-medium text-gray-700 mb-1">
+        Config
+      </label>
+      <textarea
+        id={fieldId(path)}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        rows={Math.min(Math.max(text.split("\n").length, 3), 12)}
+        className={`${inputClass(syntaxError || configErrors[0])} font-mono text-xs`}
+        disabled={studio.disabled}
+      />
+      {syntaxError ? (
+        <FieldError message={syntaxError} />
+      ) : (
+        configErrors.map(message => <FieldError key={message} message={message} />)
+      )}
+    </div>
+  );
+}
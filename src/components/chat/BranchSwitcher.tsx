@@ -0,0 +1,43 @@
+"use client";
+
+import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/24/outline";
+import type { BranchPosition } from "~/server/conversations/branches";
+
+interface BranchSwitcherProps {
+  branch: BranchPosition;
+  onSelectBranch: (messageId: string) => void;
+  disabled?: boolean;
+  align?: "start" | "end";
+}
+
+/**
+ * "‹ 2 of 3 ›" pager between the versions of an edited message or regenerated reply
+ */
+export function BranchSwitcher({ branch, onSelectBranch, disabled = false, align = "start" }: BranchSwitcherProps) {
+  const previousId = branch.siblingIds[branch.index - 2];
+  const nextId = branch.siblingIds[branch.index];
+
+  return (
+    <div className={`mt-1 flex items-center space-x-1 text-xs text-gray-500 ${align === "end" ? "justify-end" : ""}`}>
+      <button
+        type="button"
+        onClick={() => previousId && onSelectBranch(previousId)}
+        disabled={disabled || !previousId}
+        className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="Previous version"
+      >
+        <ChevronLeftIcon className="w-3.5 h-3.5" />
+      </button>
+      <span className="tabular-nums">{branch.index} of {branch.count}</span>
+      <button
+        type="button"
+        onClick={() => nextId && onSelectBranch(nextId)}
+        disabled={disabled || !nextId}
+        className="p-0.5 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="Next version"
+      >
+        <ChevronRightIcon className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
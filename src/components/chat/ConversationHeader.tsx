@@ -1,27 +1,40 @@
 "use client";
 
 import { useState } from "react";
-import { PencilIcon, InformationCircleIcon, CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { PencilIcon, InformationCircleIcon, CheckIcon, XMarkIcon, LightBulbIcon, ArrowDownTrayIcon } from "@heroicons/react/24/outline";
 import { getAdvisorInitials, getAdvisorColor, type Advisor, type Conversation } from "~/lib/chat";
 import { AuthHeader } from "~/components/auth/AuthHeader";
-import { useUpdateConversation } from "~/lib/convex-api";
+import { AdvisorMemoryPanel } from "./AdvisorMemoryPanel";
+import { useExportConversation, useUpdateConversation } from "~/lib/convex-api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import type { ExportFormat } from "~/server/conversations/export";
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: "markdown", label: "Markdown", hint: "For docs and notes" },
+  { format: "html", label: "Printable HTML", hint: "Open and print to PDF" },
+  { format: "json", label: "JSON", hint: "Full copy you can import again" },
+];
 
 interface ConversationHeaderProps {
   conversation: Conversation | null;
   activeAdvisor?: Advisor;
+  advisors?: Advisor[]; // Used to label the memory panel tabs
   advisorSwitched?: boolean; // New prop to indicate recent advisor switch
   onTitleUpdate?: (conversationId: string, newTitle: string) => void;
 }
 
-export function ConversationHeader({ conversation, activeAdvisor, advisorSwitched, onTitleUpdate }: ConversationHeaderProps) {
+export function ConversationHeader({ conversation, activeAdvisor, advisors = [], advisorSwitched, onTitleUpdate }: ConversationHeaderProps) {
   const [showAdvisorInfo, setShowAdvisorInfo] = useState(false);
+  const [showMemories, setShowMemories] = useState(false);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editTitle, setEditTitle] = useState("");
   const [isSavingTitle, setIsSavingTitle] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Convex hook for updating conversations
   const updateConversation = useUpdateConversation();
+  const exportConversation = useExportConversation();
 
   const handleStartEditTitle = () => {
     setEditTitle(conversation?.title || "");
@@ -47,6 +60,20 @@ export function ConversationHeader({ conversation, activeAdvisor, advisorSwitche
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!conversation) return;
+
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      await exportConversation(conversation.id as Id<"conversations">, format);
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleCancelEditTitle = () => {
     setIsEditingTitle(false);
     setEditTitle("");
@@ -144,6 +171,43 @@ export function ConversationHeader({ conversation, activeAdvisor, advisorSwitche
           >
             <InformationCircleIcon className="w-5 h-5" />
           </button>
+          <button
+            type="button"
+            onClick={() => setShowMemories(!showMemories)}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            title="What your advisors remember"
+          >
+            <LightBulbIcon className="w-5 h-5" />
+          </button>
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={isExporting}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Export conversation"
+              aria-haspopup="menu"
+              aria-expanded={showExportMenu}
+            >
+              <ArrowDownTrayIcon className="w-5 h-5" />
+            </button>
+            {showExportMenu && (
+              <div role="menu" className="absolute right-0 mt-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+                {EXPORT_OPTIONS.map(option => (
+                  <button
+                    key={option.format}
+                    type="button"
+                    role="menuitem"
+                    onClick={() => handleExport(option.format)}
+                    className="w-full px-3 py-2 text-left hover:bg-gray-50"
+                  >
+                    <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                    <p className="text-xs text-gray-500">{option.hint}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <button
             type="button"
             onClick={handleStartEditTitle}
@@ -157,6 +221,20 @@ export function ConversationHeader({ conversation, activeAdvisor, advisorSwitche
         </div>
       </div>
 
+      {/* Advisor Memory Panel */}
+      {showMemories && (
+        <div className="border-t border-gray-100 bg-gray-50 p-4">
+          <div className="max-w-4xl mx-auto">
+            <h3 className="text-sm font-semibold text-gray-900 mb-3">What your advisors remember</h3>
+            <AdvisorMemoryPanel
+              conversationId={conversation.id}
+              advisors={advisors}
+              activeAdvisorId={activeAdvisor?.id}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Advisor Info Panel */}
       {showAdvisorInfo && activeAdvisor && (
         <div className="border-t border-gray-100 bg-blue-50 p-4">
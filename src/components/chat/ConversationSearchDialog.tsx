@@ -0,0 +1,201 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { MagnifyingGlassIcon, ChatBubbleLeftIcon } from "@heroicons/react/24/outline";
+import { formatMessageTime, type Advisor } from "~/lib/chat";
+import { useSearchMessages } from "~/lib/convex-api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import {
+  MIN_SEARCH_QUERY_LENGTH,
+  dateRangeFilter,
+  type SearchSender,
+  type SnippetSegment,
+} from "~/server/conversations/search";
+
+interface ConversationSearchDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  advisors: Advisor[];
+  onOpenResult: (conversationId: string, messageId?: string) => void;
+}
+
+function Highlighted({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => segment.match ? (
+        <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{segment.text}</mark>
+      ) : (
+        <Fragment key={index}>{segment.text}</Fragment>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Search every conversation's messages and titles, narrowed by advisor, sender and date
+ */
+export function ConversationSearchDialog({ isOpen, onClose, advisors, onOpenResult }: ConversationSearchDialogProps) {
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [advisorId, setAdvisorId] = useState("");
+  const [sender, setSender] = useState<SearchSender | "">("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const results = useSearchMessages(isOpen && query.length >= MIN_SEARCH_QUERY_LENGTH ? {
+    query,
+    advisorId: advisorId ? advisorId as Id<"advisors"> : undefined,
+    sender: sender || undefined,
+    ...dateRangeFilter(fromDate, toDate),
+  } : undefined);
+
+  const openResult = (conversationId: string, messageId?: string) => {
+    onOpenResult(conversationId, messageId);
+    onClose();
+  };
+
+  const hasResults = results && (results.messages.length > 0 || results.conversations.length > 0);
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-start justify-center p-4 pt-20">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-2xl transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <Dialog.Title as="h3" className="sr-only">Search conversations</Dialog.Title>
+                <div className="relative">
+                  <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+                  <input
+                    type="search"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    placeholder="Search all conversations..."
+                    className="w-full rounded-lg border border-gray-300 py-2 pl-10 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Search conversations"
+                    autoFocus
+                  />
+                </div>
+
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                  <select
+                    value={advisorId}
+                    onChange={(e) => setAdvisorId(e.target.value)}
+                    className="rounded-md border border-gray-300 px-2 py-1"
+                    aria-label="Advisor"
+                  >
+                    <option value="">Any advisor</option>
+                    {advisors.map(advisor => (
+                      <option key={advisor.id} value={advisor.id}>{advisor.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={sender}
+                    onChange={(e) => setSender(e.target.value as SearchSender | "")}
+                    className="rounded-md border border-gray-300 px-2 py-1"
+                    aria-label="Sender"
+                  >
+                    <option value="">Anyone</option>
+                    <option value="user">Sent by me</option>
+                    <option value="advisor">Advisor replies</option>
+                  </select>
+                  <label className="flex items-center gap-1">
+                    From
+                    <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1" />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    To
+                    <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="rounded-md border border-gray-300 px-2 py-1" />
+                  </label>
+                </div>
+
+                <div className="mt-4 max-h-[60vh] overflow-y-auto">
+                  {query.length < MIN_SEARCH_QUERY_LENGTH ? (
+                    <p className="py-6 text-center text-sm text-gray-500">Type at least {MIN_SEARCH_QUERY_LENGTH} characters to search messages and titles.</p>
+                  ) : results === undefined ? (
+                    <p className="py-6 text-center text-sm text-gray-500">Searching...</p>
+                  ) : !hasResults ? (
+                    <p className="py-6 text-center text-sm text-gray-500">No matches for &ldquo;{query}&rdquo;</p>
+                  ) : (
+                    <div className="space-y-4" data-testid="search-results">
+                      {results.conversations.length > 0 && (
+                        <section>
+                          <h4 className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500">Conversations</h4>
+                          {results.conversations.map(conversation => (
+                            <button
+                              key={conversation._id}
+                              type="button"
+                              onClick={() => openResult(conversation._id)}
+                              className="flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm hover:bg-gray-100"
+                            >
+                              <span className="flex items-center gap-2 truncate text-gray-900">
+                                <ChatBubbleLeftIcon className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                                <Highlighted segments={conversation.title} />
+                              </span>
+                              <span className="ml-3 flex-shrink-0 text-xs text-gray-400">{formatMessageTime(new Date(conversation.updatedAt))}</span>
+                            </button>
+                          ))}
+                        </section>
+                      )}
+                      {results.messages.length > 0 && (
+                        <section>
+                          <h4 className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500">Messages</h4>
+                          {results.messages.map(message => (
+                            <button
+                              key={message._id}
+                              type="button"
+                              onClick={() => openResult(message.conversationId, message._id)}
+                              className="block w-full rounded-lg px-3 py-2 text-left hover:bg-gray-100"
+                            >
+                              <div className="flex items-center justify-between text-xs text-gray-500">
+                                <span className="truncate">
+                                  <span className="font-medium text-gray-700">{message.conversationTitle}</span>
+                                  {" · "}{message.sender === "user" ? "You" : message.advisorName ?? "Advisor"}
+                                </span>
+                                <span className="ml-3 flex-shrink-0">{formatMessageTime(new Date(message.createdAt))}</span>
+                              </div>
+                              <p className="mt-0.5 text-sm text-gray-800">
+                                <Highlighted segments={message.snippet} />
+                              </p>
+                            </button>
+                          ))}
+                        </section>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -7,12 +7,19 @@ import {
   useConversations,
   useConversation,
   useCreateConversation,
+  useDeleteConversation,
   useTypingUsers,
   useSetTypingStatus,
   useUpdateUserPresence,
   transformAdvisorForClient,
   transformConversationForClient,
   useCurrentUser,
+  useIntake,
+  useStartIntake,
+  useSendChatMessage,
+  useConversationDocuments,
+  useModelOptions,
+  useDeleteDocument,
   type ConvexAdvisor
 } from "~/lib/convex-api";
 import type { Id } from "../../../convex/_generated/dataModel";
@@ -21,6 +28,10 @@ import { AdvisorRail } from "./AdvisorRail";
 import { ConversationHeader } from "./ConversationHeader";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { IntakeFlow, type IntakeState } from "./IntakeFlow";
+import { ScopeHandoffBanner } from "./ScopeHandoffBanner";
+import { UsageMeter } from "./UsageMeter";
+import { routeByScope, type ScopedAdvisor } from "~/server/advisors/scope";
 import { useConvexChat } from "~/lib/convex-chat";
 
 // Authenticated Chat Interface - only renders when user is authenticated
@@ -32,6 +43,9 @@ function AuthenticatedChatInterface() {
   const [error, setError] = useState<string | null>(null);
   const [isTyping, setIsTyping] = useState(false);
   const [typingTimeout, setTypingTimeout] = useState<NodeJS.Timeout | null>(null);
+  const [isIntakeReplyPending, setIsIntakeReplyPending] = useState(false);
+  const [dismissedHandoffId, setDismissedHandoffId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null); // Search result to scroll to
 
   // Error handling
   const { error: asyncError, handleError, clearError } = useErrorHandler();
@@ -43,11 +57,24 @@ function AuthenticatedChatInterface() {
 
   // Real-time queries
   const typingUsers = useTypingUsers(currentConversationId, true); // Always enabled since we're authenticated
+  const intake = useIntake(currentConversationId, true) as IntakeState | null | undefined;
 
   // Convex mutations
   const createConversation = useCreateConversation();
+  const deleteConversation = useDeleteConversation();
   const setTypingStatus = useSetTypingStatus();
   const updateUserPresence = useUpdateUserPresence();
+  const startIntake = useStartIntake();
+  const sendChatMessage = useSendChatMessage();
+  const deleteDocument = useDeleteDocument();
+  const conversationDocuments = useConversationDocuments(currentConversationId, true);
+  const modelOptions = useModelOptions(true);
+
+  // Transform data for compatibility with existing components
+  const advisors = (advisorsData || []).map(transformAdvisorForClient);
+  const conversations = (conversationsData || []).map((conv: any) => transformConversationForClient(conv));
+  const currentConversation = currentConversationData ? transformConversationForClient(currentConversationData as any) : null;
+  const scopedAdvisors: ScopedAdvisor[] = advisors.map(a => ({ id: a.id as string, name: a.name, scope: a.scope }));
 
   // Chat hook
   const {
@@ -57,23 +84,36 @@ function AuthenticatedChatInterface() {
     handleSubmit,
     isLoading: isChatLoading,
     error: chatError,
+    notice: chatNotice,
+    boardMode,
+    setBoardMode,
+    attachments,
+    addAttachments,
+    removeAttachment,
+    editMessage,
+    regenerateMessage,
+    deleteMessage,
+    selectBranch,
+    submitFeedback,
   } = useConvexChat({
     conversationId: currentConversationId,
     activeAdvisorId,
+    // Without a selected advisor, new conversations go to the advisor whose scope fits best
+    routeAdvisor: (message) => (routeByScope(message, scopedAdvisors).bestFitId ?? undefined) as Id<"advisors"> | undefined,
     isAuthenticated: true
   });
 
-  // Transform data for compatibility with existing components
-  const advisors = (advisorsData || []).map(transformAdvisorForClient);
-  const conversations = (conversationsData || []).map((conv: any) => transformConversationForClient(conv));
-  const currentConversation = currentConversationData ? transformConversationForClient(currentConversationData as any) : null;
-
   // Handlers
   const handleAdvisorSelect = (advisorId: string) => {
     setActiveAdvisorId(advisorId as unknown as Id<"advisors">);
   };
   const handleConversationSelect = (conversationId: string) => {
     setCurrentConversationId(conversationId as unknown as Id<"conversations">);
+    setHighlightedMessageId(null);
+  };
+  const handleJumpToMessage = (conversationId: string, messageId: string) => {
+    setCurrentConversationId(conversationId as unknown as Id<"conversations">);
+    setHighlightedMessageId(messageId);
   };
   const handleNewConversation = async () => {
     const active = advisors.find((a: any) => a.id === (activeAdvisorId as unknown as string));
@@ -83,6 +123,36 @@ function AuthenticatedChatInterface() {
       activeAdvisorId,
     });
     setCurrentConversationId(newId);
+    // Advisors with an intakeQuestionnaire ask their questions before the first reply
+    if (activeAdvisorId) {
+      await startIntake({ conversationId: newId, advisorId: activeAdvisorId });
+    }
+  };
+  // Deleting moves the conversation to the trash, where the rail's Trash tab can restore it
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      await deleteConversation({ conversationId: conversationId as unknown as Id<"conversations"> });
+      if (conversationId === (currentConversationId as unknown as string)) {
+        setCurrentConversationId(undefined);
+      }
+    } catch (err) {
+      handleError(err as Error);
+    }
+  };
+  const handleIntakeFinished = async (kickoffMessage: string | null, advisorId: string) => {
+    if (!currentConversationId || !kickoffMessage) return;
+    setIsIntakeReplyPending(true);
+    try {
+      await sendChatMessage({
+        conversationId: currentConversationId,
+        message: kickoffMessage,
+        advisorId: advisorId as unknown as Id<"advisors">,
+      });
+    } catch (intakeError) {
+      handleError(intakeError as Error);
+    } finally {
+      setIsIntakeReplyPending(false);
+    }
   };
   const handleTypingStart = async () => {
     if (currentConversationId) await setTypingStatus({ conversationId: currentConversationId, isTyping: true });
@@ -92,20 +162,32 @@ function AuthenticatedChatInterface() {
   };
 
   const activeAdvisor = advisors.find((a: any) => a.id === (activeAdvisorId as unknown as string));
+  const isIntakeInProgress = Boolean(currentConversationId && intake?.status === "in_progress");
+
+  // Warn while typing when the question is outside the selected advisor's scope (@mentions choose explicitly; board meetings hear from everyone)
+  const scopeRouting = activeAdvisorId && input.trim().split(/\s+/).length >= 3 && !input.includes("@")
+    ? routeByScope(input, scopedAdvisors, activeAdvisorId as unknown as string)
+    : null;
+  const handoff = !boardMode && scopeRouting?.handoff && scopeRouting.handoff.advisorId !== dismissedHandoffId ? scopeRouting.handoff : null;
 
   return (
     <div className="h-screen flex bg-white">
       {/* Left rail */}
       <div className="w-80 border-r border-gray-200 flex flex-col">
-        <AdvisorRail
-          advisors={advisors as any}
-          conversations={conversations as any}
-          activeAdvisorId={activeAdvisorId as unknown as string}
-          currentConversationId={currentConversation?.id as unknown as string}
-          onAdvisorSelect={handleAdvisorSelect}
-          onConversationSelect={handleConversationSelect}
-          onNewConversation={handleNewConversation}
-        />
+        <div className="flex-1 min-h-0">
+          <AdvisorRail
+            advisors={advisors as any}
+            conversations={conversations as any}
+            activeAdvisorId={activeAdvisorId as unknown as string}
+            currentConversationId={currentConversation?.id as unknown as string}
+            onAdvisorSelect={handleAdvisorSelect}
+            onConversationSelect={handleConversationSelect}
+            onJumpToMessage={handleJumpToMessage}
+            onNewConversation={handleNewConversation}
+            onDeleteConversation={handleDeleteConversation}
+          />
+        </div>
+        <UsageMeter />
       </div>
 
       {/* Main area */}
@@ -113,20 +195,58 @@ function AuthenticatedChatInterface() {
         <ConversationHeader
           conversation={currentConversation as any}
           activeAdvisor={activeAdvisor as any}
+          advisors={advisors as any}
         />
 
-        {/* Messages */}
+        {/* Messages, or the guided intake until it is completed or skipped */}
         <div className="flex-1 overflow-hidden">
-          <MessageList
-            messages={messages as any}
-            advisors={advisors as any}
-            isLoading={isChatLoading}
-            typingUsers={typingUsers as any}
-          />
+          {isIntakeInProgress && currentConversationId && intake ? (
+            <IntakeFlow
+              conversationId={currentConversationId}
+              intake={intake}
+              advisor={advisors.find((a: any) => a.id === intake.advisorId) as any}
+              onFinished={(kickoffMessage, advisorId) => void handleIntakeFinished(kickoffMessage, advisorId)}
+            />
+          ) : (
+            <MessageList
+              messages={messages as any}
+              advisors={advisors as any}
+              isLoading={isChatLoading || isIntakeReplyPending}
+              typingUsers={typingUsers as any}
+              highlightedMessageId={highlightedMessageId}
+              onEditMessage={editMessage}
+              onDeleteMessage={deleteMessage}
+              onSelectBranch={(messageId) => void selectBranch(messageId)}
+              onRegenerateMessage={regenerateMessage}
+              onSubmitFeedback={submitFeedback}
+              modelOptions={modelOptions?.models}
+            />
+          )}
         </div>
 
         {/* Input */}
-        <div className="border-t border-gray-200 p-4">
+        <div className={`border-t border-gray-200 p-4 ${isIntakeInProgress ? "hidden" : ""}`}>
+          {chatError && (
+            <div role="alert" className="mb-3 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              {chatError.message}
+            </div>
+          )}
+          {chatNotice && (
+            <div role="status" className="mb-3 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              {chatNotice}
+            </div>
+          )}
+          {handoff && (
+            <ScopeHandoffBanner
+              handoff={handoff}
+              currentAdvisor={activeAdvisor as any}
+              onAccept={(advisorId) => {
+                handleAdvisorSelect(advisorId);
+                setDismissedHandoffId(null);
+              }}
+              onDismiss={() => setDismissedHandoffId(handoff.advisorId)}
+            />
+          )}
           <MessageInput
             input={input}
             handleInputChange={handleInputChange}
@@ -135,6 +255,15 @@ function AuthenticatedChatInterface() {
             advisors={advisors as any}
             onTypingStart={handleTypingStart}
             onTypingStop={handleTypingStop}
+            boardMode={boardMode}
+            onBoardModeChange={setBoardMode}
+            attachments={attachments}
+            onAttachFiles={addAttachments}
+            onRemoveAttachment={removeAttachment}
+            documents={(conversationDocuments || []).map(document => ({ id: document._id as string, name: document.name, truncated: document.truncated }))}
+            onDeleteDocument={(documentId) => {
+              deleteDocument({ documentId: documentId as Id<"documents"> }).catch(handleError);
+            }}
           />
         </div>
       </div>
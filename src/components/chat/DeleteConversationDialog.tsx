@@ -10,6 +10,8 @@ interface DeleteConversationDialogProps {
   onConfirm: () => void;
   conversationTitle?: string;
   isDeleting?: boolean;
+  /** Deleting from the trash, which can't be undone */
+  permanent?: boolean;
 }
 
 export function DeleteConversationDialog({
@@ -18,6 +20,7 @@ export function DeleteConversationDialog({
   onConfirm,
   conversationTitle,
   isDeleting = false,
+  permanent = false,
 }: DeleteConversationDialogProps) {
   return (
     <Transition appear show={isOpen} as={Fragment}>
@@ -55,14 +58,14 @@ export function DeleteConversationDialog({
                       as="h3"
                       className="text-lg font-medium leading-6 text-gray-900"
                     >
-                      Delete Conversation
+                      {permanent ? "Delete Forever" : "Delete Conversation"}
                     </Dialog.Title>
                   </div>
                 </div>
 
                 <div className="mb-6">
                   <p className="text-sm text-gray-500">
-                    Are you sure you want to delete this conversation?
+                    Are you sure you want to delete this conversation{permanent ? " forever" : ""}?
                     {conversationTitle && (
                       <>
                         <br />
@@ -73,7 +76,9 @@ export function DeleteConversationDialog({
                     )}
                   </p>
                   <p className="text-sm text-gray-500 mt-2">
-                    This action cannot be undone. All messages in this conversation will be permanently deleted.
+                    {permanent
+                      ? "This action cannot be undone. All messages in this conversation will be permanently deleted."
+                      : "It will be moved to the Trash, where you can restore it until it is deleted forever."}
                   </p>
                 </div>
 
@@ -117,7 +122,7 @@ export function DeleteConversationDialog({
                         Deleting...
                       </>
                     ) : (
-                      "Delete Conversation"
+                      permanent ? "Delete Forever" : "Delete Conversation"
                     )}
                   </button>
                 </div>
@@ -0,0 +1,27 @@
+"use client";
+
+import { DocumentTextIcon } from "@heroicons/react/24/outline";
+import type { DocumentCitation } from "~/server/llm/documents";
+
+/**
+ * The document sections an advisor cited as `[n]` in a reply
+ */
+export function DocumentSources({ citations }: { citations: DocumentCitation[] }) {
+  return (
+    <div className="mt-2 w-full max-w-md rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs" data-testid="document-sources">
+      <p className="mb-1 font-medium text-gray-500">Sources</p>
+      <ol className="space-y-0.5">
+        {citations.map(citation => (
+          <li key={citation.ref} className="flex items-start text-gray-700">
+            <span className="mr-1.5 font-medium text-gray-500">[{citation.ref}]</span>
+            <DocumentTextIcon className="w-3.5 h-3.5 mr-1 mt-px flex-shrink-0 text-gray-400" />
+            <span>
+              {citation.documentName}
+              <span className="text-gray-400"> — {citation.section}</span>
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { IdentificationIcon, CheckIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { Advisor } from "~/lib/chat";
+import { useMyProfile, useUpdateMyProfile, useResolveProfileProposal } from "~/lib/convex-api";
+import { PROFILE_FIELDS, PROFILE_FIELD_LABELS, type ProfileField } from "~/server/llm/profile";
+
+interface FounderProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  advisors: Advisor[];
+}
+
+const FIELD_PLACEHOLDERS: Record<ProfileField, string> = {
+  companyName: "Acme Robotics",
+  industry: "Warehouse automation",
+  stage: "Pre-seed, 2 pilot customers",
+  goals: "Close a $1.5M seed round by Q3",
+  constraints: "6 months of runway, solo technical founder",
+};
+
+type ProfileForm = Record<ProfileField, string>;
+
+const emptyForm = (): ProfileForm =>
+  Object.fromEntries(PROFILE_FIELDS.map(field => [field, ""])) as ProfileForm;
+
+export function FounderProfileModal({ isOpen, onClose, advisors }: FounderProfileModalProps) {
+  const profile = useMyProfile(isOpen);
+  const updateProfile = useUpdateMyProfile();
+  const resolveProposal = useResolveProfileProposal();
+
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const [optOutFields, setOptOutFields] = useState<ProfileField[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form from the stored profile each time the modal opens
+  useEffect(() => {
+    if (!isOpen || profile === undefined) return;
+    const next = emptyForm();
+    for (const field of PROFILE_FIELDS) next[field] = profile?.[field] ?? "";
+    setForm(next);
+    setOptOutFields((profile?.optOutFields ?? []) as ProfileField[]);
+    setError(null);
+  }, [isOpen, profile?._id, profile?.updatedAt]);
+
+  const toggleShared = (field: ProfileField) => {
+    setOptOutFields(current =>
+      current.includes(field) ? current.filter(f => f !== field) : [...current, field]
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateProfile({
+        ...Object.fromEntries(PROFILE_FIELDS.map(field => [field, form[field].trim() || null])),
+        optOutFields,
+      });
+      onClose();
+    } catch (saveError) {
+      console.error("Failed to save profile:", saveError);
+      setError("Failed to save your profile. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleResolve = async (field: ProfileField, accept: boolean) => {
+    try {
+      await resolveProposal({ field, accept });
+    } catch (resolveError) {
+      console.error("Failed to resolve profile proposal:", resolveError);
+    }
+  };
+
+  const proposals = profile?.proposals ?? [];
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4 text-center">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-lg transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center space-x-3 mb-2">
+                  <IdentificationIcon className="h-6 w-6 text-blue-600" />
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    Founder Profile
+                  </Dialog.Title>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">
+                  Every advisor sees the fields you share, in every conversation. Unshared fields stay private.
+                </p>
+
+                {/* Advisor-proposed updates */}
+                {proposals.length > 0 && (
+                  <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3">
+                    <p className="text-sm font-medium text-blue-900 mb-2">Suggested by your advisors</p>
+                    <ul className="space-y-2">
+                      {proposals.map(proposal => {
+                        const field = proposal.field as ProfileField;
+                        const advisor = advisors.find(a => a.id === proposal.advisorId);
+                        return (
+                          <li key={field} className="flex items-center justify-between text-sm">
+                            <span className="text-gray-700">
+                              <span className="font-medium">{PROFILE_FIELD_LABELS[field]}</span>: {proposal.value}
+                              {advisor && <span className="text-gray-500"> — {advisor.name}</span>}
+                            </span>
+                            <span className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                              <button
+                                type="button"
+                                onClick={() => void handleResolve(field, true)}
+                                className="p-1 text-green-600 hover:text-green-700"
+                                aria-label={`Accept suggested ${PROFILE_FIELD_LABELS[field]}`}
+                              >
+                                <CheckIcon className="w-4 h-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => void handleResolve(field, false)}
+                                className="p-1 text-gray-400 hover:text-gray-600"
+                                aria-label={`Dismiss suggested ${PROFILE_FIELD_LABELS[field]}`}
+                              >
+                                <XMarkIcon className="w-4 h-4" />
+                              </button>
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="space-y-4 mb-6">
+                  {PROFILE_FIELDS.map(field => (
+                    <div key={field}>
+                      <div className="flex items-center justify-between mb-1">
+                        <label htmlFor={`profile-${field}`} className="block text-sm font-medium text-gray-700">
+                          {PROFILE_FIELD_LABELS[field]}
+                        </label>
+                        <label className="flex items-center space-x-1 text-xs text-gray-500">
+                          <input
+                            type="checkbox"
+                            checked={!optOutFields.includes(field)}
+                            onChange={() => toggleShared(field)}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          <span>Share with advisors</span>
+                        </label>
+                      </div>
+                      <input
+                        id={`profile-${field}`}
+                        type="text"
+                        value={form[field]}
+                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                        placeholder={FIELD_PLACEHOLDERS[field]}
+                        disabled={isSaving}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+                <div className="flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={onClose}
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => void handleSave()}
+                    disabled={isSaving || profile === undefined}
+                  >
+                    {isSaving ? "Saving..." : "Save Profile"}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
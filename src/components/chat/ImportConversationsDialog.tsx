@@ -0,0 +1,194 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { Dialog, Transition } from "@headlessui/react";
+import { ConvexError } from "convex/values";
+import { ArrowUpTrayIcon, ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import type { Advisor } from "~/lib/chat";
+import { useImportConversations } from "~/lib/convex-api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { ConversationImportError, IMPORT_SOURCE_LABELS, assertImportSize, type ImportSkip, type ImportSource } from "~/server/conversations/import";
+
+interface ImportConversationsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  advisors: Advisor[];
+  defaultAdvisorId?: string;
+  onImported?: (conversationIds: string[]) => void;
+}
+
+interface ImportReport {
+  source: ImportSource;
+  count: number;
+  skipped: ImportSkip[];
+}
+
+/**
+ * Upload a ChatGPT or Claude conversations.json (or one of our JSON exports) and
+ * pick the advisor who takes over the assistant's replies
+ */
+export function ImportConversationsDialog({ isOpen, onClose, advisors, defaultAdvisorId, onImported }: ImportConversationsDialogProps) {
+  const importConversations = useImportConversations();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [advisorId, setAdvisorId] = useState(defaultAdvisorId ?? advisors[0]?.id ?? "");
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setAdvisorId(defaultAdvisorId ?? advisors[0]?.id ?? "");
+    setError(null);
+    setReport(null);
+  }, [isOpen]);
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      // Oversized files are refused before they are read or uploaded
+      assertImportSize(file.size);
+      const result = await importConversations({
+        data: JSON.parse(await file.text()) as unknown,
+        advisorId: advisorId ? advisorId as Id<"advisors"> : undefined,
+      });
+      setReport({ source: result.source, count: result.conversationIds.length, skipped: result.skipped });
+      onImported?.(result.conversationIds as string[]);
+    } catch (importError) {
+      console.error("Failed to import conversations:", importError);
+      if (importError instanceof SyntaxError) {
+        setError("The file is not valid JSON");
+      } else if (importError instanceof ConvexError) {
+        // Rate limit refusals carry their message in the error data
+        const data = importError.data as { message?: string };
+        setError(data.message ?? "Import failed. Please try again.");
+      } else if (importError instanceof ConversationImportError) {
+        setError(importError.message);
+      } else {
+        // Convex wraps server errors as "... Uncaught ConversationImportError: <message>\n    at ..."
+        const message = importError instanceof Error ? importError.message : "";
+        setError(/Uncaught \w+: (.*)/.exec(message)?.[1] ?? "Import failed. Please try again.");
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black bg-opacity-25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-md transform overflow-hidden rounded-2xl bg-white p-6 text-left align-middle shadow-xl transition-all">
+                <div className="flex items-center space-x-3 mb-4">
+                  <ArrowUpTrayIcon className="h-6 w-6 text-blue-600" />
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    Import conversations
+                  </Dialog.Title>
+                </div>
+
+                {report ? (
+                  <div className="space-y-3 text-sm" data-testid="import-report">
+                    <p className="text-gray-700">
+                      Imported <span className="font-medium">{report.count}</span> conversation{report.count === 1 ? "" : "s"} from {IMPORT_SOURCE_LABELS[report.source]}.
+                    </p>
+                    {report.skipped.length > 0 && (
+                      <div className="rounded-lg border border-amber-200 bg-amber-50 p-3">
+                        <p className="font-medium text-amber-900 mb-1">{report.skipped.length} skipped</p>
+                        <ul className="max-h-40 overflow-y-auto space-y-0.5 text-xs text-amber-900">
+                          {report.skipped.map((skip, index) => (
+                            <li key={index}>
+                              <span className="font-medium">{skip.conversation}</span>
+                              {skip.entry ? ` (${skip.entry})` : ""}: {skip.reason}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-4 text-sm">
+                    <p className="text-gray-500">
+                      Upload <code>conversations.json</code> from a ChatGPT or Claude data export, or a JSON export from this app.
+                    </p>
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                      className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-50 file:px-3 file:py-2 file:text-blue-700 hover:file:bg-blue-100"
+                      aria-label="Conversation export file"
+                    />
+                    <label className="block">
+                      <span className="text-gray-700">Advisor for the assistant&apos;s replies</span>
+                      <select
+                        value={advisorId}
+                        onChange={(e) => setAdvisorId(e.target.value)}
+                        className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {advisors.map(advisor => (
+                          <option key={advisor.id} value={advisor.id}>{advisor.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    {error && (
+                      <p className="flex items-start text-red-600">
+                        <ExclamationTriangleIcon className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                        {error}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="mt-6 flex justify-end space-x-3">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    {report ? "Done" : "Cancel"}
+                  </button>
+                  {!report && (
+                    <button
+                      type="button"
+                      onClick={handleImport}
+                      disabled={!file || isImporting}
+                      className="rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isImporting ? "Importing..." : "Import"}
+                    </button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircleIcon, ClockIcon } from "@heroicons/react/24/outline";
+import type { Id } from "../../../convex/_generated/dataModel";
+import type { Advisor } from "~/lib/chat";
+import { useAnswerIntakeQuestion, useFinishIntake } from "~/lib/convex-api";
+import type { IntakeAnswer, IntakeStep } from "~/server/advisors/components";
+import { capitalize, humanize } from "~/server/advisors/components/format";
+
+export interface IntakeState {
+  advisorId: string;
+  status: "in_progress" | "completed" | "skipped";
+  steps: IntakeStep[];
+  requiredSections: string[];
+  answers: IntakeAnswer[];
+  timeLimitMinutes: number;
+}
+
+interface IntakeFlowProps {
+  conversationId: Id<"conversations">;
+  intake: IntakeState;
+  advisor?: Advisor;
+  /** Called once the intake is closed; `kickoffMessage` is null when skipped without answers */
+  onFinished: (kickoffMessage: string | null, advisorId: string) => void;
+}
+
+const sectionLabel = (section: string) => capitalize(humanize(section));
+
+/**
+ * Step-by-step intake questions with a progress indicator, shown before the advisor's first reply
+ */
+export function IntakeFlow({ conversationId, intake, advisor, onFinished }: IntakeFlowProps) {
+  const answerQuestion = useAnswerIntakeQuestion();
+  const finishIntake = useFinishIntake();
+
+  // Resume at the first unanswered question
+  const [stepIndex, setStepIndex] = useState(() => {
+    const next = intake.steps.findIndex(step => !intake.answers.some(a => a.stepId === step.id));
+    return next === -1 ? Math.max(0, intake.steps.length - 1) : next;
+  });
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const step = intake.steps[stepIndex];
+  const isLastStep = stepIndex === intake.steps.length - 1;
+  const sections = [...new Set(intake.steps.map(s => s.section))];
+  const answeredSections = new Set(intake.answers.map(a => a.section));
+
+  useEffect(() => {
+    setDraft(intake.answers.find(a => a.stepId === step?.id)?.answer ?? "");
+    setError(null);
+  }, [step?.id]);
+
+  const finish = async (skipped: boolean) => {
+    const result = await finishIntake({ conversationId, skipped });
+    onFinished(result.kickoffMessage, result.advisorId as string);
+  };
+
+  const handleNext = async () => {
+    if (!step) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { missingSections } = await answerQuestion({ conversationId, stepId: step.id, answer: draft });
+      if (!isLastStep) {
+        setStepIndex(stepIndex + 1);
+      } else if (missingSections.length > 0) {
+        setError(`Answer at least one question about ${missingSections.map(sectionLabel).join(", ")}, or skip the intake.`);
+      } else {
+        await finish(false);
+      }
+    } catch (saveError) {
+      console.error("Failed to save intake answer:", saveError);
+      setError("Failed to save your answer. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSkip = async () => {
+    setIsSaving(true);
+    try {
+      await finish(true);
+    } catch (skipError) {
+      console.error("Failed to skip intake:", skipError);
+      setError("Failed to skip the intake. Please try again.");
+      setIsSaving(false);
+    }
+  };
+
+  if (!step) return null;
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="mb-6">
+          <h3 className="text-lg font-medium text-gray-900">
+            {advisor ? `${advisor.name} would like to get to know your company` : "A few questions before we start"}
+          </h3>
+          <p className="mt-1 flex items-center text-sm text-gray-500">
+            <ClockIcon className="w-4 h-4 mr-1" />
+            About {intake.timeLimitMinutes} minutes. Your answers are remembered for the rest of the conversation.
+          </p>
+        </div>
+
+        {/* Progress */}
+        <div className="mb-6" aria-label="Intake progress">
+          <div className="flex items-center space-x-2 mb-2">
+            {sections.map(section => {
+              const isCurrent = section === step.section;
+              const isDone = answeredSections.has(section) && !isCurrent;
+              return (
+                <span
+                  key={section}
+                  className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-medium ${
+                    isCurrent ? "bg-blue-600 text-white" : isDone ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                  }`}
+                >
+                  {isDone && <CheckCircleIcon className="w-3.5 h-3.5 mr-1" />}
+                  {sectionLabel(section)}
+                  {intake.requiredSections.includes(section) && <span className="sr-only"> (required)</span>}
+                </span>
+              );
+            })}
+          </div>
+          <div className="h-1.5 w-full rounded-full bg-gray-100">
+            <div
+              className="h-1.5 rounded-full bg-blue-600 transition-all"
+              style={{ width: `${(stepIndex / intake.steps.length) * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">Question {stepIndex + 1} of {intake.steps.length}</p>
+        </div>
+
+        <label htmlFor="intake-answer" className="block text-sm font-medium text-gray-900 mb-2">
+          {step.question}
+        </label>
+        <textarea
+          id="intake-answer"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={4}
+          disabled={isSaving}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-4 flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => void handleSkip()}
+            disabled={isSaving}
+            className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          >
+            Skip intake
+          </button>
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={() => setStepIndex(stepIndex - 1)}
+              disabled={isSaving || stepIndex === 0}
+              className="inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleNext()}
+              disabled={isSaving}
+              className="inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? "Saving..." : isLastStep ? "Finish" : draft.trim() ? "Next" : "Skip question"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
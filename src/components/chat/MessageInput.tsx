@@ -1,8 +1,10 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { PaperAirplaneIcon } from "@heroicons/react/24/solid";
+import { PaperAirplaneIcon, PaperClipIcon, UserGroupIcon } from "@heroicons/react/24/solid";
+import { DocumentTextIcon, XMarkIcon } from "@heroicons/react/24/outline";
 import { getAdvisorInitials, getAdvisorColor, type Advisor } from "~/lib/chat";
+import { DOCUMENT_ACCEPT } from "~/server/llm/documents";
 
 interface MessageInputProps {
   input: string;
@@ -12,6 +14,17 @@ interface MessageInputProps {
   advisors: Advisor[];
   onTypingStart?: () => void;
   onTypingStop?: () => void;
+  // Board meeting toggle; hidden unless onBoardModeChange is provided
+  boardMode?: boolean;
+  onBoardModeChange?: (enabled: boolean) => void;
+  // Document attachments; hidden unless onAttachFiles is provided
+  attachments?: File[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (name: string) => void;
+  // Documents already attached to the conversation
+  // `truncated`: the file was too long and advisors only see its beginning
+  documents?: { id: string; name: string; truncated?: boolean }[];
+  onDeleteDocument?: (id: string) => void;
 }
 
 export function MessageInput({
@@ -22,12 +35,28 @@ export function MessageInput({
   advisors,
   onTypingStart,
   onTypingStop,
+  boardMode = false,
+  onBoardModeChange,
+  attachments = [],
+  onAttachFiles,
+  onRemoveAttachment,
+  documents = [],
+  onDeleteDocument,
 }: MessageInputProps) {
   const [showMentions, setShowMentions] = useState(false);
   const [mentionQuery, setMentionQuery] = useState("");
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const mentionsRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (onAttachFiles && e.target.files?.length) {
+      onAttachFiles(Array.from(e.target.files));
+    }
+    // Let the same file be picked again after removing it
+    e.target.value = "";
+  };
 
   // Custom submit handler that stops typing
   const handleSubmitWithTyping = (e: React.FormEvent<HTMLFormElement>) => {
@@ -177,6 +206,41 @@ export function MessageInput({
         </div>
       )}
 
+      {/* Conversation documents and pending attachments */}
+      {(documents.length > 0 || attachments.length > 0) && (
+        <div className="mb-2 flex flex-wrap gap-2" data-testid="document-chips">
+          {documents.map(document => (
+            <span
+              key={document.id}
+              className={`inline-flex items-center rounded-full border px-2.5 py-1 text-xs ${
+                document.truncated ? "border-amber-300 bg-amber-50 text-amber-800" : "border-gray-200 bg-gray-50 text-gray-700"
+              }`}
+              title={document.truncated ? "Too long to index in full: advisors only see the beginning. Split it into smaller files." : undefined}
+            >
+              <DocumentTextIcon className={`w-3.5 h-3.5 mr-1 ${document.truncated ? "text-amber-600" : "text-gray-500"}`} />
+              {document.name}
+              {document.truncated && <span className="ml-1 text-amber-700">(partly indexed)</span>}
+              {onDeleteDocument && (
+                <button type="button" onClick={() => onDeleteDocument(document.id)} className="ml-1 text-gray-400 hover:text-gray-600" aria-label={`Remove ${document.name}`}>
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </span>
+          ))}
+          {attachments.map(file => (
+            <span key={file.name} className="inline-flex items-center rounded-full border border-blue-200 bg-blue-50 px-2.5 py-1 text-xs text-blue-700">
+              <PaperClipIcon className="w-3.5 h-3.5 mr-1" />
+              {file.name}
+              {onRemoveAttachment && (
+                <button type="button" onClick={() => onRemoveAttachment(file.name)} className="ml-1 text-blue-400 hover:text-blue-600" aria-label={`Remove ${file.name}`}>
+                  <XMarkIcon className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Input Form */}
       <form onSubmit={handleSubmitWithTyping} className="flex items-end space-x-3">
         <div className="flex-1 relative">
@@ -202,6 +266,48 @@ export function MessageInput({
           </div>
         </div>
 
+        {onAttachFiles && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={DOCUMENT_ACCEPT}
+              multiple
+              onChange={handleFilesSelected}
+              className="hidden"
+              data-testid="document-file-input"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading}
+              className="p-3 rounded-lg border bg-white border-gray-300 text-gray-500 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Attach documents"
+              title="Attach a pitch deck, financial model or business plan (Markdown, text or CSV)"
+            >
+              <PaperClipIcon className="w-5 h-5" />
+            </button>
+          </>
+        )}
+
+        {onBoardModeChange && (
+          <button
+            type="button"
+            onClick={() => onBoardModeChange(!boardMode)}
+            disabled={isLoading}
+            className={`p-3 rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              boardMode
+                ? "bg-blue-50 border-blue-300 text-blue-700"
+                : "bg-white border-gray-300 text-gray-500 hover:bg-gray-50"
+            }`}
+            aria-label="Board meeting mode"
+            aria-pressed={boardMode}
+            title={boardMode ? "Board meeting: every advisor replies in turn" : "Ask the whole board"}
+          >
+            <UserGroupIcon className="w-5 h-5" />
+          </button>
+        )}
+
         <button
           type="submit"
           disabled={isLoading || !input.trim()}
@@ -215,6 +321,7 @@ export function MessageInput({
       {/* Helpful hints */}
       <div className="mt-2 text-xs text-gray-500">
         <span className="font-medium">Tips:</span> Use @advisor to mention specific advisors, or just type naturally to chat with the active advisor.
+        {" "}Mention several advisors (e.g. @Alex @Amara) to hear from each of them in turn.
       </div>
     </div>
   );
@@ -1,17 +1,35 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useUser } from "@clerk/nextjs";
 // Use the correct type from useChat hook
 type Message = {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
+  isStreaming?: boolean; // Reply still arriving token-by-token
+  components?: Record<string, unknown>; // Structured advisor component outputs
+  toolCalls?: ToolCallRecord[]; // Tools the advisor called while answering
+  citations?: DocumentCitation[]; // Document passages the reply cites
+  branch?: BranchPosition | null; // Position among sibling branches when the conversation forks here
+  variants?: MessageVariant[]; // Every regenerated take on this advisor turn
+  model?: string; // Model that wrote the reply
 };
 import { getAdvisorInitials, getAdvisorColor, formatMessageTime, type Advisor } from "~/lib/chat";
 import { TypingIndicator } from "./TypingIndicator";
 import { FeedbackControls, type FeedbackPayload } from "./Feedback";
 import { MessageActions } from "./MessageActions";
+import { ScorecardCard } from "./ScorecardCard";
+import { ToolCallBlocks } from "./ToolCallBlocks";
+import { DocumentSources } from "./DocumentSources";
+import { BranchSwitcher } from "./BranchSwitcher";
+import { RegenerateMenu } from "./RegenerateMenu";
+import { VariantComparison } from "./VariantComparison";
+import type { Scorecard } from "~/server/advisors/components";
+import type { ToolCallRecord } from "~/server/advisors/tools";
+import type { DocumentCitation } from "~/server/llm/documents";
+import type { BranchPosition, MessageVariant } from "~/server/conversations/branches";
+import type { RegenerateOptions } from "~/lib/convex-chat";
 
 interface TypingUser {
   _id: string;
@@ -27,19 +45,47 @@ interface MessageListProps {
   typingUsers?: TypingUser[];
   onEditMessage?: (messageId: string, newContent: string) => Promise<void>;
   onDeleteMessage?: (messageId: string) => Promise<void>;
+  highlightedMessageId?: string | null; // Scrolled into view and outlined, e.g. after a search
+  onSelectBranch?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string, options: RegenerateOptions) => Promise<void>;
+  modelOptions?: string[]; // Models offered when regenerating
+  onSubmitFeedback?: (payload: FeedbackPayload) => Promise<void>;
 }
 
-export function MessageList({ messages, advisors, isLoading, typingUsers = [], onEditMessage, onDeleteMessage }: MessageListProps) {
+export function MessageList({
+  messages,
+  advisors,
+  isLoading,
+  typingUsers = [],
+  onEditMessage,
+  onDeleteMessage,
+  highlightedMessageId,
+  onSelectBranch,
+  onRegenerateMessage,
+  modelOptions,
+  onSubmitFeedback,
+}: MessageListProps) {
   const { user } = useUser();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Advisor turn whose variants are laid out side by side
+  const [comparingId, setComparingId] = useState<string | null>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    // A highlighted message keeps the list where it is instead of following new messages
+    const highlighted = highlightedMessageId ? document.getElementById(`message-${highlightedMessageId}`) : null;
+    if (highlighted) {
+      highlighted.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else {
+      scrollToBottom();
+    }
+  }, [messages, highlightedMessageId]);
+
+  // Once the first tokens of a streamed reply arrive, the reply itself replaces the thinking indicator
+  const isStreamingReply = messages.some(message => message.isStreaming && message.content);
 
   if (messages.length === 0 && !isLoading) {
     return (
@@ -66,9 +112,9 @@ export function MessageList({ messages, advisors, isLoading, typingUsers = [], o
   return (
     <div className="h-full overflow-y-auto">
       <div className="max-w-4xl mx-auto p-4 space-y-6">
-        {messages.map((message, index) => {
+        {messages.filter(message => !message.isStreaming || message.content).map((message, index, visibleMessages) => {
           // Check if advisor changed from previous message
-          const prevMessage = index > 0 ? messages[index - 1] : null;
+          const prevMessage = index > 0 ? visibleMessages[index - 1] : null;
           const currentAdvisorId = (message as { advisor?: string }).advisor;
           const prevAdvisorId = prevMessage ? (prevMessage as { advisor?: string }).advisor : null;
           const advisorChanged = prevMessage &&
@@ -77,7 +123,11 @@ export function MessageList({ messages, advisors, isLoading, typingUsers = [], o
                                 currentAdvisorId !== prevAdvisorId;
 
           return (
-            <div key={message.id || index}>
+            <div
+              key={message.id || index}
+              id={message.id ? `message-${message.id}` : undefined}
+              className={message.id && message.id === highlightedMessageId ? "rounded-lg ring-2 ring-yellow-300 ring-offset-4" : undefined}
+            >
               {/* Show advisor transition indicator */}
               {advisorChanged && (
                 <AdvisorTransition
@@ -92,13 +142,31 @@ export function MessageList({ messages, advisors, isLoading, typingUsers = [], o
                 user={user}
                 onEditMessage={onEditMessage}
                 onDeleteMessage={onDeleteMessage}
+                onSelectBranch={onSelectBranch}
+                onRegenerateMessage={onRegenerateMessage}
+                modelOptions={modelOptions}
+                onSubmitFeedback={onSubmitFeedback}
+                isComparing={comparingId === message.id}
+                onToggleCompare={() => setComparingId(comparingId === message.id ? null : (message.id as string))}
                 isLoading={isLoading}
               />
+
+              {comparingId === message.id && message.variants && onSelectBranch && (
+                <VariantComparison
+                  variants={message.variants}
+                  selectedId={message.id}
+                  onSelect={(variantId) => {
+                    setComparingId(variantId);
+                    onSelectBranch(variantId);
+                  }}
+                  disabled={isLoading}
+                />
+              )}
             </div>
           );
         })}
         
-        {isLoading && <TypingIndicator isAIThinking={true} />}
+        {isLoading && !isStreamingReply && <TypingIndicator isAIThinking={true} />}
         {typingUsers.length > 0 && <TypingIndicator typingUsers={typingUsers} />}
         
         <div ref={messagesEndRef} />
@@ -113,6 +181,12 @@ function MessageBubble({
   user,
   onEditMessage,
   onDeleteMessage,
+  onSelectBranch,
+  onRegenerateMessage,
+  modelOptions,
+  onSubmitFeedback,
+  isComparing = false,
+  onToggleCompare,
   isLoading
 }: {
   message: Message;
@@ -120,11 +194,18 @@ function MessageBubble({
   user: any; // Clerk user object
   onEditMessage?: (messageId: string, newContent: string) => Promise<void>;
   onDeleteMessage?: (messageId: string) => Promise<void>;
+  onSelectBranch?: (messageId: string) => void;
+  onRegenerateMessage?: (messageId: string, options: RegenerateOptions) => Promise<void>;
+  modelOptions?: string[];
+  onSubmitFeedback?: (payload: FeedbackPayload) => Promise<void>;
+  isComparing?: boolean;
+  onToggleCompare?: () => void;
   isLoading?: boolean;
 }) {
   const isUser = message.role === "user";
   // Fix: Find advisor by message.advisor (advisorId) instead of message.id
   const advisor = advisors.find(a => a.id === (message as any).advisor) || advisors[0];
+  const scorecard = message.components?.scoringEngine as Scorecard | undefined;
 
   return (
     <div className={`flex ${isUser ? "justify-end" : "justify-start"}`}>
@@ -172,6 +253,9 @@ function MessageBubble({
             </span>
           </div>
 
+          {/* Tools the advisor ran before answering */}
+          {!isUser && message.toolCalls && message.toolCalls.length > 0 && <ToolCallBlocks toolCalls={message.toolCalls} />}
+
           {/* Message Bubble */}
           <div
             className={`px-4 py-2 rounded-2xl ${
@@ -182,18 +266,61 @@ function MessageBubble({
           >
             {/* Ensure readable text on dark (user) bubble by inverting prose colors */}
             <MessageContent content={message.content} isUser={isUser} />
-            {/* Feedback controls for AI responses only */}
-            {!isUser && (
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" aria-hidden="true" />
+            )}
+            {/* Feedback controls for completed AI responses only */}
+            {!isUser && !message.isStreaming && (
               <FeedbackControls
                 messageId={(message as any).id}
-                onSubmit={async (payload: FeedbackPayload) => {
-                  // TODO: replace with API call or analytics event
-                  console.debug("feedback", payload);
-                }}
+                onSubmit={onSubmitFeedback}
               />
             )}
           </div>
 
+          {/* Structured scorecard from the advisor's scoring engine */}
+          {!isUser && scorecard && <ScorecardCard scorecard={scorecard} />}
+
+          {/* Founder documents the reply drew on */}
+          {!isUser && !message.isStreaming && message.citations && message.citations.length > 0 && (
+            <DocumentSources citations={message.citations} />
+          )}
+
+          {/* Switch between the versions of an edited message or regenerated reply */}
+          {(message.branch && onSelectBranch) || (!isUser && onRegenerateMessage && !message.isStreaming) ? (
+            <div className={`flex items-center space-x-2 ${isUser ? "flex-row-reverse space-x-reverse" : ""}`}>
+              {message.branch && onSelectBranch && (
+                <BranchSwitcher
+                  branch={message.branch}
+                  onSelectBranch={onSelectBranch}
+                  disabled={isLoading}
+                  align={isUser ? "end" : "start"}
+                />
+              )}
+              {!isUser && message.variants && message.variants.length > 1 && onToggleCompare && (
+                <button
+                  type="button"
+                  onClick={onToggleCompare}
+                  className="mt-1 text-xs text-gray-500 hover:text-blue-600"
+                  aria-pressed={isComparing}
+                >
+                  {isComparing ? "Hide comparison" : "Compare"}
+                </button>
+              )}
+              {!isUser && onRegenerateMessage && !message.isStreaming && (
+                <div className="mt-1">
+                  <RegenerateMenu
+                    messageId={message.id}
+                    onRegenerate={onRegenerateMessage}
+                    models={modelOptions}
+                    currentModel={message.model}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
+            </div>
+          ) : null}
+
           {/* Message Actions for user messages - positioned below the bubble */}
           {isUser && onEditMessage && onDeleteMessage && (
             <MessageActions
@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import { REGENERATE_PRESETS } from "~/server/llm/models";
+import type { RegenerateOptions } from "~/lib/convex-chat";
+
+interface RegenerateMenuProps {
+  messageId: string;
+  onRegenerate: (messageId: string, options: RegenerateOptions) => Promise<void>;
+  /** Models the founder's plan allows; each is offered as "Try with ..." */
+  models?: string[];
+  /** Model that wrote the current reply */
+  currentModel?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Ask the advisor for another take on a reply, optionally with another model or temperature
+ */
+export function RegenerateMenu({ messageId, onRegenerate, models = [], currentModel, disabled = false }: RegenerateMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const handleRegenerate = async (options: RegenerateOptions) => {
+    setIsOpen(false);
+    setIsRegenerating(true);
+    try {
+      await onRegenerate(messageId, options);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isRegenerating}
+        className="p-1 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Regenerate reply"
+        aria-label="Regenerate reply"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <ArrowPathIcon className={`w-4 h-4 ${isRegenerating ? "animate-spin" : ""}`} />
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute left-0 mt-1 w-60 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {REGENERATE_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              type="button"
+              role="menuitem"
+              onClick={() => handleRegenerate({ temperature: preset.temperature ?? undefined })}
+              className="w-full px-3 py-2 text-left text-sm text-gray-900 hover:bg-gray-50"
+            >
+              {preset.label}
+            </button>
+          ))}
+          {models.filter(model => model !== currentModel).length > 0 && (
+            <div className="border-t border-gray-100 mt-1 pt-1">
+              {models.filter(model => model !== currentModel).map(model => (
+                <button
+                  key={model}
+                  type="button"
+                  role="menuitem"
+                  onClick={() => handleRegenerate({ model })}
+                  className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 truncate"
+                  title={model}
+                >
+                  Try with <span className="font-mono text-xs">{model}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
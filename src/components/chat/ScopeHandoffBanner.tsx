@@ -0,0 +1,45 @@
+"use client";
+
+import { ArrowsRightLeftIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import type { Advisor } from "~/lib/chat";
+import type { HandoffSuggestion } from "~/server/advisors/scope";
+
+interface ScopeHandoffBannerProps {
+  handoff: HandoffSuggestion;
+  currentAdvisor?: Advisor;
+  onAccept: (advisorId: string) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Warns that the question is outside the current advisor's scope and offers a one-click hand-off
+ */
+export function ScopeHandoffBanner({ handoff, currentAdvisor, onAccept, onDismiss }: ScopeHandoffBannerProps) {
+  return (
+    <div className="mb-3 flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm" role="status">
+      <span className="text-amber-900">
+        {currentAdvisor ? `This looks outside ${currentAdvisor.name}'s scope. ` : ""}
+        <span className="font-medium">{handoff.advisorName}</span>
+        {handoff.reason ? ` covers ${handoff.reason.charAt(0).toLowerCase()}${handoff.reason.slice(1)}.` : " is a better fit."}
+      </span>
+      <span className="flex items-center space-x-1 flex-shrink-0 ml-3">
+        <button
+          type="button"
+          onClick={() => onAccept(handoff.advisorId)}
+          className="inline-flex items-center rounded-md bg-amber-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-amber-700"
+        >
+          <ArrowsRightLeftIcon className="w-3.5 h-3.5 mr-1" />
+          Hand off to {handoff.advisorName.split(" ")[0]}
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="p-1 text-amber-700 hover:text-amber-900"
+          aria-label="Dismiss hand-off suggestion"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import type { Scorecard } from "~/server/advisors/components";
+
+const DIMENSION_LABELS: Record<Scorecard["dimensions"][number]["id"], string> = {
+  team: "Team",
+  market: "Market",
+  traction: "Traction",
+  idea: "Idea",
+};
+
+const VERDICT_STYLES: Record<Scorecard["verdict"], string> = {
+  Yes: "bg-green-100 text-green-800 border-green-200",
+  No: "bg-red-100 text-red-800 border-red-200",
+  "Not yet": "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+const barColor = (score: number, card: Scorecard) =>
+  score >= card.minimumScore ? "bg-green-500" : score < card.autoRejectBelow ? "bg-red-500" : "bg-amber-500";
+
+const flagLabel = (flag: string) => flag.replace(/_/g, " ");
+
+/**
+ * Rendered `scoringEngine` output: per-dimension scores, weighted total, red flags and verdict
+ */
+export function ScorecardCard({ scorecard }: { scorecard: Scorecard }) {
+  const redFlags = [...scorecard.redFlags.founder, ...scorecard.redFlags.market];
+
+  return (
+    <div className="mt-2 w-full max-w-md rounded-xl border border-gray-200 bg-white p-4 shadow-sm" data-testid="scorecard">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500">Scorecard</p>
+          <p className="text-2xl font-semibold text-gray-900">
+            {scorecard.total.toFixed(1)}
+            <span className="text-sm font-normal text-gray-500"> / 10</span>
+          </p>
+        </div>
+        <span className={`rounded-full border px-3 py-1 text-sm font-medium ${VERDICT_STYLES[scorecard.verdict]}`}>
+          {scorecard.verdict}
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {scorecard.dimensions.map(dimension => (
+          <li key={dimension.id}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                {DIMENSION_LABELS[dimension.id]}
+                <span className="text-xs text-gray-400"> · {Math.round(dimension.weight * 100)}%</span>
+              </span>
+              <span className="font-medium text-gray-900">{dimension.score}</span>
+            </div>
+            <div className="mt-1 h-1.5 w-full rounded-full bg-gray-100">
+              <div
+                className={`h-1.5 rounded-full ${barColor(dimension.score, scorecard)}`}
+                style={{ width: `${dimension.score * 10}%` }}
+              />
+            </div>
+            {dimension.rationale && <p className="mt-1 text-xs text-gray-500">{dimension.rationale}</p>}
+          </li>
+        ))}
+      </ul>
+
+      <p className="mt-3 text-xs text-gray-500">
+        Clears the bar at {scorecard.minimumScore}; automatic no below {scorecard.autoRejectBelow}.
+      </p>
+
+      {redFlags.length > 0 && (
+        <div className="mt-3 flex items-start space-x-2 rounded-lg bg-red-50 p-2 text-sm text-red-800">
+          <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <span>
+            {scorecard.hardNo ? "Hard no: " : "Red flags: "}
+            {redFlags.map(flagLabel).join(", ")}
+          </span>
+        </div>
+      )}
+
+      {scorecard.summary && <p className="mt-3 text-sm text-gray-700">{scorecard.summary}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { ExclamationTriangleIcon, WrenchScrewdriverIcon } from "@heroicons/react/24/outline";
+import type { ToolCallRecord } from "~/server/advisors/tools";
+
+// "unitEconomicsCalculator" → "Unit economics calculator"
+const toolLabel = (name: string) => {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatJson = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value, null, 2));
+
+/**
+ * Collapsible blocks for the tools an advisor called while answering, with their arguments and results
+ */
+export function ToolCallBlocks({ toolCalls }: { toolCalls: ToolCallRecord[] }) {
+  return (
+    <div className="mb-2 w-full max-w-md space-y-1" data-testid="tool-calls">
+      {toolCalls.map(call => (
+        <details key={call.id} className="group rounded-lg border border-gray-200 bg-white text-xs">
+          <summary className="flex cursor-pointer list-none items-center px-3 py-1.5 text-gray-700 hover:bg-gray-50">
+            {call.error ? (
+              <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1.5 text-amber-600" />
+            ) : (
+              <WrenchScrewdriverIcon className="w-3.5 h-3.5 mr-1.5 text-gray-500" />
+            )}
+            <span className="font-medium">{toolLabel(call.name)}</span>
+            <span className="ml-auto text-gray-400 group-open:hidden">Show</span>
+            <span className="ml-auto hidden text-gray-400 group-open:inline">Hide</span>
+          </summary>
+          <div className="space-y-2 border-t border-gray-100 px-3 py-2">
+            <div>
+              <p className="mb-0.5 font-medium text-gray-500">Input</p>
+              <pre className="overflow-x-auto whitespace-pre-wrap rounded bg-gray-50 p-2 text-gray-800">{formatJson(call.arguments)}</pre>
+            </div>
+            <div>
+              <p className="mb-0.5 font-medium text-gray-500">{call.error ? "Error" : "Result"}</p>
+              <pre className={`overflow-x-auto whitespace-pre-wrap rounded p-2 ${call.error ? "bg-amber-50 text-amber-900" : "bg-gray-50 text-gray-800"}`}>
+                {call.error ?? formatJson(call.result)}
+              </pre>
+            </div>
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
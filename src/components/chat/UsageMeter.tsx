@@ -0,0 +1,53 @@
+"use client";
+
+import { useUsage } from "~/lib/convex-api";
+import type { QuotaMeter } from "~/server/llm/quotas";
+
+const compact = new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 });
+
+function meterLabel(meter: QuotaMeter) {
+  return `${meter.period === "daily" ? "Today" : "This month"} · ${meter.kind}`;
+}
+
+/**
+ * Daily and monthly message and token usage against the plan's quotas
+ */
+export function UsageMeter() {
+  const usage = useUsage(true);
+  if (!usage) return null;
+
+  return (
+    <div className="border-t border-gray-200 bg-gray-50 px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-700">Usage</span>
+        <span className="capitalize text-gray-500">{usage.plan} plan</span>
+      </div>
+      {usage.meters.map(meter => (
+        <div key={`${meter.period}-${meter.kind}`} title={`Resets ${new Date(meter.resetsAt).toLocaleString()}`}>
+          <div className="flex justify-between text-[11px] text-gray-500">
+            <span>{meterLabel(meter)}</span>
+            <span className="tabular-nums">{compact.format(meter.used)} / {compact.format(meter.limit)}</span>
+          </div>
+          <div
+            className="mt-0.5 h-1.5 rounded bg-gray-200"
+            role="meter"
+            aria-label={meterLabel(meter)}
+            aria-valuemin={0}
+            aria-valuemax={meter.limit}
+            aria-valuenow={meter.used}
+          >
+            <div
+              className={`h-1.5 rounded ${meter.fraction >= 1 ? "bg-red-500" : meter.fraction >= 0.8 ? "bg-amber-500" : "bg-blue-500"}`}
+              style={{ width: `${meter.fraction * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      {usage.exceeded && (
+        <p className="text-xs text-red-600">
+          Quota reached; chat is paused until {new Date(usage.exceeded.resetsAt).toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { CheckIcon } from "@heroicons/react/24/outline";
+import type { MessageVariant } from "~/server/conversations/branches";
+
+interface VariantComparisonProps {
+  variants: MessageVariant[];
+  selectedId: string;
+  onSelect: (variantId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Every take on an advisor turn side by side; the chosen one continues the conversation
+ */
+export function VariantComparison({ variants, selectedId, onSelect, disabled = false }: VariantComparisonProps) {
+  return (
+    <div className="mt-2 grid gap-3 w-full" style={{ gridTemplateColumns: `repeat(${Math.min(variants.length, 3)}, minmax(0, 1fr))` }}>
+      {variants.map((variant, index) => {
+        const isSelected = variant.id === selectedId;
+        return (
+          <div
+            key={variant.id}
+            className={`flex flex-col rounded-lg border p-3 text-sm ${isSelected ? "border-blue-400 bg-blue-50" : "border-gray-200 bg-white"}`}
+          >
+            <div className="mb-2 flex items-center justify-between text-xs text-gray-500">
+              <span className="font-medium text-gray-700">{index + 1} of {variants.length}</span>
+              <span className="truncate ml-2" title={variant.model ?? undefined}>
+                {variant.model ?? "unknown model"}
+                {variant.temperature !== null ? ` · t=${variant.temperature}` : ""}
+              </span>
+            </div>
+            <div className="flex-1 max-h-80 overflow-y-auto whitespace-pre-wrap text-gray-800">{variant.content}</div>
+            <button
+              type="button"
+              onClick={() => onSelect(variant.id)}
+              disabled={disabled || isSelected}
+              className="mt-3 inline-flex items-center justify-center rounded-md border border-gray-300 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-default disabled:border-blue-300 disabled:text-blue-700"
+            >
+              {isSelected ? (
+                <>
+                  <CheckIcon className="w-3.5 h-3.5 mr-1" />
+                  In use
+                </>
+              ) : "Use this reply"}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
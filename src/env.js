@@ -12,8 +12,13 @@ export const env = createEnv({
       .enum(["development", "test", "production"])
       .default("development"),
 
-    // OpenRouter Configuration
-    OPENROUTER_API_KEY: z.string().min(1),
+    // LLM provider: openrouter (default), openai-compatible (Ollama, llama.cpp) or echo (offline stub)
+    LLM_PROVIDER: z.enum(["openrouter", "openai-compatible", "echo"]).default("openrouter"),
+    LLM_BASE_URL: z.string().url().optional(),
+    LLM_API_KEY: z.string().optional(),
+
+    // OpenRouter Configuration (the key is only required when LLM_PROVIDER=openrouter)
+    OPENROUTER_API_KEY: z.string().min(1).optional(),
     APP_URL: z.string().url(),
     OPENROUTER_FREE_MODEL: z.string().default("deepseek/deepseek-chat"),
     OPENROUTER_BASE_MODEL: z.string().default("qwen/qwen-2.5-72b-instruct"),
@@ -40,6 +45,11 @@ export const env = createEnv({
     DATABASE_URL: process.env.DATABASE_URL,
     NODE_ENV: process.env.NODE_ENV,
 
+    // LLM provider
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_BASE_URL: process.env.LLM_BASE_URL,
+    LLM_API_KEY: process.env.LLM_API_KEY,
+
     // OpenRouter Configuration
     OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
     APP_URL: process.env.APP_URL,
@@ -1,5 +1,9 @@
 import { useChat } from "@ai-sdk/react";
 import { useState, useCallback } from "react";
+import { readServerSentEvents } from "./sse";
+import type { AdvisorScope, HandoffSuggestion } from "~/server/advisors/scope";
+import type { ToolCallRecord } from "~/server/advisors/tools";
+import type { DocumentCitation } from "~/server/llm/documents";
 
 // Types for our chat system
 export interface Advisor {
@@ -27,6 +31,7 @@ export interface Advisor {
   mission: string;
   tags: string[];
   modelHint?: string;
+  scope?: AdvisorScope;
 }
 
 export interface Message {
@@ -36,6 +41,12 @@ export interface Message {
   createdAt: Date;
   mentions?: string[];
   advisor?: Advisor;
+  /** Structured advisor component outputs from `contentJson.components`, e.g. the scorecard */
+  components?: Record<string, unknown>;
+  /** Tools the advisor called while answering, from `contentJson.toolCalls` */
+  toolCalls?: ToolCallRecord[];
+  /** Document passages the reply cites, from `contentJson.citations` */
+  citations?: DocumentCitation[];
 }
 
 export interface Conversation {
@@ -63,6 +74,10 @@ export function useAdvisorChat(conversationId?: string) {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  // Board meeting: every mentioned advisor (or the whole board) replies in turn
+  const [boardMode, setBoardMode] = useState(false);
+  // Set when the last question was outside the replying advisor's scope
+  const [handoff, setHandoff] = useState<HandoffSuggestion | null>(null);
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
@@ -81,6 +96,11 @@ export function useAdvisorChat(conversationId?: string) {
       content: input,
     };
 
+    // One streaming placeholder per replying advisor (several in a board meeting)
+    const streamingMessageId = `streaming-${userMessage.id}`;
+    const streamingIdFor = (advisorId?: string) => `${streamingMessageId}-${advisorId ?? 'advisor'}`;
+    const isStreamingPlaceholder = (id: unknown) => typeof id === 'string' && id.startsWith(streamingMessageId);
+
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
     setInput("");
@@ -92,6 +112,7 @@ export function useAdvisorChat(conversationId?: string) {
         messages: newMessages,
         conversationId,
         advisorId: activeAdvisorId,
+        mode: boardMode ? 'board' : undefined,
       });
 
       const response = await fetch('/api/chat', {
@@ -104,6 +125,7 @@ export function useAdvisorChat(conversationId?: string) {
           messages: newMessages,
           conversationId,
           advisorId: activeAdvisorId,
+          mode: boardMode ? 'board' : undefined,
         }),
       });
 
@@ -132,36 +154,95 @@ export function useAdvisorChat(conversationId?: string) {
         throw new Error(errorMessage);
       }
 
-      // Handle JSON response from simplified API
-      console.log('Processing JSON response from chat API...');
       let responseData;
-      try {
-        responseData = await response.json();
-        console.log('Chat API response data:', responseData);
-      } catch (parseError) {
-        console.error('Failed to parse JSON response:', parseError);
-        throw new Error('Invalid response format from chat API');
+      const contentType = response.headers.get('Content-Type') || '';
+
+      if (contentType.includes('text/event-stream') && response.body) {
+        // Streamed reply: render partial text as it arrives
+        console.log('Processing streamed response from chat API...');
+        let currentAdvisorId = activeAdvisorId;
+
+        for await (const { event, data } of readServerSentEvents(response.body)) {
+          let payload;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            console.warn('Skipping malformed chat stream event:', event);
+            continue;
+          }
+
+          if (event === 'start' || event === 'advisor_start') {
+            currentAdvisorId = payload.advisorId;
+            if (event === 'start') setHandoff((payload.routing?.handoff as HandoffSuggestion | null | undefined) ?? null);
+          } else if (event === 'delta') {
+            const advisorId = (payload.advisorId as string | undefined) ?? currentAdvisorId;
+            const placeholderId = streamingIdFor(advisorId);
+            setMessages(prev => prev.some(msg => msg.id === placeholderId)
+              ? prev.map(msg => msg.id === placeholderId ? { ...msg, content: msg.content + payload.content } : msg)
+              : [...prev, {
+                  id: placeholderId,
+                  role: "assistant" as const,
+                  content: payload.content,
+                  advisor: advisorId,
+                  isStreaming: true,
+                }]);
+          } else if (event === 'tool_call') {
+            // Tool results show up on the advisor's reply before its text does
+            const advisorId = (payload.advisorId as string | undefined) ?? currentAdvisorId;
+            const placeholderId = streamingIdFor(advisorId);
+            const toolCall = payload.toolCall as ToolCallRecord;
+            setMessages(prev => prev.some(msg => msg.id === placeholderId)
+              ? prev.map(msg => msg.id === placeholderId ? { ...msg, toolCalls: [...(msg.toolCalls ?? []), toolCall] } : msg)
+              : [...prev, {
+                  id: placeholderId,
+                  role: "assistant" as const,
+                  content: "",
+                  advisor: advisorId,
+                  isStreaming: true,
+                  toolCalls: [toolCall],
+                }]);
+          } else if (event === 'advisor_done') {
+            // Board meeting: this advisor is finished, the next one takes the floor
+            const reply = toAssistantMessage(payload.message);
+            setMessages(prev => prev.map(msg => msg.id === streamingIdFor(reply.advisor) ? reply : msg));
+          } else if (event === 'advisor_error') {
+            console.warn('Advisor could not reply in board meeting:', payload.advisorId, payload.error);
+            setMessages(prev => prev.filter(msg => msg.id !== streamingIdFor(payload.advisorId as string)));
+          } else if (event === 'done') {
+            responseData = { success: true, ...payload };
+          } else if (event === 'error') {
+            throw new Error(payload.error ? `${payload.error}: ${payload.message}` : String(payload.message));
+          }
+        }
+      } else {
+        // JSON response (e.g. demo responses)
+        console.log('Processing JSON response from chat API...');
+        try {
+          responseData = await response.json();
+          console.log('Chat API response data:', responseData);
+        } catch (parseError) {
+          console.error('Failed to parse JSON response:', parseError);
+          throw new Error('Invalid response format from chat API');
+        }
       }
 
       // Validate response structure
-      if (!responseData.success || !responseData.message) {
+      if (!responseData?.success || !responseData.message) {
         console.error('Invalid response structure:', responseData);
         throw new Error('Invalid response structure from chat API');
       }
 
-      // Add the assistant message to state
-      const assistantMessage = {
-        id: responseData.message.id,
-        role: "assistant" as const,
-        content: responseData.message.content,
-        advisor: responseData.message.advisorId,
-        createdAt: responseData.message.createdAt,
-        tokensUsed: responseData.message.tokensUsed,
-        isDemo: responseData.isDemo || false, // Flag for demo responses
-      };
+      // Add the assistant message(s) to state, replacing the streaming placeholders
+      const assistantMessages = ((responseData.messages ?? [responseData.message]) as any[]).map(toAssistantMessage);
+      const assistantMessage = assistantMessages[assistantMessages.length - 1]!;
+      assistantMessage.isDemo = responseData.isDemo || false; // Flag for demo responses
+      const replyIds = new Set(assistantMessages.map(reply => reply.id));
 
-      console.log('Adding assistant message to state:', assistantMessage);
-      setMessages(prev => [...prev, assistantMessage]);
+      console.log('Adding assistant message(s) to state:', assistantMessages);
+      setMessages(prev => [
+        ...prev.filter(msg => !isStreamingPlaceholder(msg.id) && !replyIds.has(msg.id as string)),
+        ...assistantMessages,
+      ]);
 
       // Sync advisor changes from API response (e.g., from @mentions)
       if (responseData.conversation?.activeAdvisorId &&
@@ -193,8 +274,8 @@ export function useAdvisorChat(conversationId?: string) {
     } catch (err) {
       console.error('Chat error:', err);
 
-      // Remove the user message that was optimistically added if there was an error
-      setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
+      // Remove the user message that was optimistically added (and any partial reply) if there was an error
+      setMessages(prev => prev.filter(msg => msg.id !== userMessage.id && !isStreamingPlaceholder(msg.id)));
 
       // Handle different types of errors
       if (err instanceof Error) {
@@ -215,7 +296,7 @@ export function useAdvisorChat(conversationId?: string) {
     } finally {
       setIsLoading(false);
     }
-  }, [input, messages, conversationId, activeAdvisorId]);
+  }, [input, messages, conversationId, activeAdvisorId, boardMode]);
 
   const handleSubmit = useCallback((e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -263,6 +344,13 @@ export function useAdvisorChat(conversationId?: string) {
     }
   }, [conversationData?.id, setConversationData]);
 
+  // One-click hand-off to the advisor whose scope fits the last question
+  const acceptHandoff = useCallback(async () => {
+    if (!handoff) return;
+    setHandoff(null);
+    await switchAdvisor(handoff.advisorId);
+  }, [handoff, switchAdvisor]);
+
   // Mention extraction is now handled server-side only
   // This removes the duplicate frontend logic that was causing conflicts
 
@@ -276,11 +364,32 @@ export function useAdvisorChat(conversationId?: string) {
     setMessages,
     activeAdvisorId,
     switchAdvisor,
+    boardMode,
+    setBoardMode,
+    handoff,
+    acceptHandoff,
+    dismissHandoff: () => setHandoff(null),
     conversationData,
     setConversationData,
   };
 }
 
+// Shape a reply from the chat API for the message list
+function toAssistantMessage(message: any) {
+  return {
+    id: message.id as string,
+    role: "assistant" as const,
+    content: message.content as string,
+    advisor: message.advisorId as string,
+    createdAt: message.createdAt,
+    tokensUsed: message.tokensUsed as number | undefined,
+    components: message.components as Record<string, unknown> | undefined,
+    toolCalls: message.toolCalls as ToolCallRecord[] | undefined,
+    citations: message.citations as DocumentCitation[] | undefined,
+    isDemo: false,
+  };
+}
+
 // Utility functions
 export function formatMessageTime(date: Date): string {
   const now = new Date();
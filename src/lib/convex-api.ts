@@ -1,6 +1,12 @@
-import { useMutation, useQuery, useAction } from "convex/react";
+import { useCallback } from "react";
+import { useMutation, useQuery, useAction, useConvex, usePaginatedQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { parseAdvisorScope } from "~/server/advisors/scope";
+import type { ToolCallRecord } from "~/server/advisors/tools";
+import type { DocumentCitation } from "~/server/llm/documents";
+import { renderConversationExport, type ExportFormat } from "~/server/conversations/export";
+import type { BranchPosition } from "~/server/conversations/branches";
 
 // Types for our Convex API
 export interface ConvexAdvisor {
@@ -56,6 +62,9 @@ export interface ConvexMessage {
   mentions: string[];
   createdAt: number;
   tokensUsed?: number;
+  contentJson?: any;
+  parentMessageId?: Id<"messages"> | null;
+  branch?: BranchPosition | null;
 }
 
 // Convex API hooks for Advisors
@@ -105,10 +114,42 @@ export function useUpdateConversation() {
   return useMutation(api.conversations.updateConversation);
 }
 
+// Fetches the conversation once (no subscription), renders it and downloads the file
+export function useExportConversation() {
+  const convex = useConvex();
+  return useCallback(async (conversationId: Id<"conversations">, format: ExportFormat) => {
+    const data = await convex.query(api.conversations.getConversationExport, { conversationId });
+    const { body, contentType, fileName } = renderConversationExport(data, format);
+
+    const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [convex]);
+}
+
+export function useImportConversations() {
+  return useAction(api.conversations.importConversations);
+}
+
 export function useDeleteConversation() {
   return useMutation(api.conversations.deleteConversation);
 }
 
+export function useTrashedConversations() {
+  return useQuery(api.conversations.getTrashedConversations, {});
+}
+
+export function useRestoreConversation() {
+  return useMutation(api.conversations.restoreConversation);
+}
+
+export function useDeleteConversationForever() {
+  return useMutation(api.conversations.deleteConversationForever);
+}
+
 // Convex API hooks for Messages
 export function useConversationMessages(conversationId: Id<"conversations"> | undefined, enabled: boolean = true) {
   // Always call the hook, but use "skip" to prevent execution when not enabled or no conversationId
@@ -130,6 +171,118 @@ export function useDeleteMessage() {
   return useMutation(api.messages.deleteMessage);
 }
 
+export function useSelectBranch() {
+  return useMutation(api.messages.selectBranch);
+}
+
+export function useSubmitFeedback() {
+  return useMutation(api.feedback.submitFeedback);
+}
+
+export function useFeedbackSummary(since: number | undefined, enabled: boolean = true) {
+  return useQuery(api.feedback.getFeedbackSummary, enabled ? { since } : "skip");
+}
+
+export function useFeedbackContext(feedbackId: Id<"messageFeedback"> | undefined) {
+  return useQuery(api.feedback.getFeedbackContext, feedbackId ? { feedbackId } : "skip");
+}
+
+// Audit events, newest first, in pages of 25 (admin only)
+export function useAuditEvents(filters: { action?: string; actorId?: Id<"users">; targetId?: string }) {
+  return usePaginatedQuery(api.audit.getAuditEvents, filters, { initialNumItems: 25 });
+}
+
+export function useSearchMessages(args: {
+  query: string;
+  advisorId?: Id<"advisors">;
+  sender?: "user" | "advisor";
+  from?: number;
+  to?: number;
+} | undefined) {
+  // Skip until there is something to search for
+  return useQuery(api.messages.searchMessages, args ?? "skip");
+}
+
+// Convex API hooks for Advisor Memories
+export function useConversationMemories(conversationId: Id<"conversations"> | undefined, enabled: boolean = true) {
+  // Always call the hook, but use "skip" to prevent execution when not enabled or no conversationId
+  return useQuery(
+    api.advisorMemories.getConversationMemories,
+    (enabled && conversationId) ? { conversationId } : "skip"
+  );
+}
+
+export function useSetMemory() {
+  return useMutation(api.advisorMemories.setMemory);
+}
+
+export function useDeleteMemory() {
+  return useMutation(api.advisorMemories.deleteMemory);
+}
+
+// Convex API hooks for the Founder Profile
+export function useMyProfile(enabled: boolean = true) {
+  return useQuery(api.userProfiles.getMyProfile, enabled ? {} : "skip");
+}
+
+export function useUpdateMyProfile() {
+  return useMutation(api.userProfiles.updateMyProfile);
+}
+
+export function useResolveProfileProposal() {
+  return useMutation(api.userProfiles.resolveProposal);
+}
+
+// Convex API hooks for founder documents
+export function useConversationDocuments(conversationId: Id<"conversations"> | undefined, enabled: boolean = true) {
+  return useQuery(
+    api.documents.getConversationDocuments,
+    (enabled && conversationId) ? { conversationId } : "skip"
+  );
+}
+
+export function useUploadDocument() {
+  return useMutation(api.documents.uploadDocument);
+}
+
+export function useDeleteDocument() {
+  return useMutation(api.documents.deleteDocument);
+}
+
+// Convex API hooks for the guided intake
+export function useIntake(conversationId: Id<"conversations"> | undefined, enabled: boolean = true) {
+  return useQuery(
+    api.intake.getIntake,
+    (enabled && conversationId) ? { conversationId } : "skip"
+  );
+}
+
+export function useStartIntake() {
+  return useMutation(api.intake.startIntake);
+}
+
+export function useAnswerIntakeQuestion() {
+  return useMutation(api.intake.answerIntakeQuestion);
+}
+
+export function useFinishIntake() {
+  return useMutation(api.intake.finishIntake);
+}
+
+// Generates the advisor's reply server-side; chat.sendChatMessage is typed `any`, so it is missing from the generated api type
+export function useSendChatMessage() {
+  return useAction((api as any).chat.sendChatMessage);
+}
+
+// Tier models the founder's plan allows when regenerating a reply
+export function useUsage(enabled: boolean = true) {
+  return useQuery(api.usage.getUsage, enabled ? {} : "skip");
+}
+
+export function useModelOptions(enabled: boolean = true) {
+  return useQuery(api.chat.getModelOptions, enabled ? {} : "skip");
+}
+
 // Convex API hooks for Real-time features
 export function useTypingUsers(conversationId: Id<"conversations"> | undefined, enabled: boolean = true) {
   // Always call the hook, but use "skip" to prevent execution when not enabled or no conversationId
@@ -186,6 +339,7 @@ export function transformAdvisorForClient(advisor: ConvexAdvisor) {
     location,
     adviceDelivery,
     mission,
+    scope: parseAdvisorScope(advisor.roleDefinition),
   };
 }
 
@@ -214,6 +368,10 @@ export function transformMessageForClient(message: ConvexMessage & { advisor?: C
     createdAt: new Date(message.createdAt),
     mentions: message.mentions,
     advisor: message.advisor ? transformAdvisorForClient(message.advisor) : undefined,
+    components: message.contentJson?.components as Record<string, unknown> | undefined,
+    toolCalls: message.contentJson?.toolCalls as ToolCallRecord[] | undefined,
+    citations: message.contentJson?.citations as DocumentCitation[] | undefined,
+    branch: message.branch ?? null,
   };
 }
 
@@ -1,15 +1,24 @@
 import { useState, useCallback } from "react";
 import { useMutation, useAction } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 import {
   useConversationMessages,
-  useSendMessage,
   useCreateConversation,
+  useUploadDocument,
+  useSendChatMessage,
+  useSelectBranch,
+  useSubmitFeedback,
+  useDeleteMessage,
   transformMessageForClient,
   type ConvexMessage,
   type ConvexAdvisor
 } from "./convex-api";
+import type { ToolCallRecord } from "~/server/advisors/tools";
+import type { DocumentCitation } from "~/server/llm/documents";
+import type { BranchPosition, MessageVariant } from "~/server/conversations/branches";
+import type { FeedbackPayload } from "~/components/chat/Feedback";
 
 // Types for the Convex chat system
 export interface ConvexChatMessage {
@@ -20,26 +29,53 @@ export interface ConvexChatMessage {
   createdAt?: Date;
   tokensUsed?: number;
   isDemo?: boolean;
+  /** Structured advisor component outputs, e.g. the scorecard */
+  components?: Record<string, unknown>;
+  /** Tools the advisor called while answering */
+  toolCalls?: ToolCallRecord[];
+  /** Document passages the reply cites */
+  citations?: DocumentCitation[];
+  /** Position among sibling branches when the conversation forks here */
+  branch?: BranchPosition | null;
+  /** Every regenerated take on this advisor turn */
+  variants?: MessageVariant[];
+  /** Model that wrote the reply */
+  model?: string;
+}
+
+export interface RegenerateOptions {
+  model?: string;
+  temperature?: number;
 }
 
 interface UseConvexChatProps {
   conversationId?: Id<"conversations">;
   activeAdvisorId?: Id<"advisors">;
+  /** Picks the advisor for a new conversation when none is selected (scope-based auto-routing) */
+  routeAdvisor?: (message: string) => Id<"advisors"> | undefined;
   isAuthenticated?: boolean;
 }
 
-export function useConvexChat({ conversationId, activeAdvisorId, isAuthenticated = true }: UseConvexChatProps = {}) {
+export function useConvexChat({ conversationId, activeAdvisorId, routeAdvisor, isAuthenticated = true }: UseConvexChatProps = {}) {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
+  // Something the founder should know that didn't stop the send, e.g. an upload that was only partly indexed
+  const [notice, setNotice] = useState<string | null>(null);
   const [conversationData, setConversationData] = useState<any>(null);
+  // Files picked in the composer; uploaded with the next message
+  const [attachments, setAttachments] = useState<File[]>([]);
+  // Board meeting toggle: every advisor replies in turn
+  const [boardMode, setBoardMode] = useState(false);
 
   // Convex hooks
   const messages = useConversationMessages(conversationId, isAuthenticated);
-  const sendMessage = useSendMessage();
   const createConversation = useCreateConversation();
-  // TODO: Fix API generation issue
-  // const sendChatMessage = useAction(api.chat.sendChatMessage);
+  const uploadDocument = useUploadDocument();
+  const sendChatMessage = useSendChatMessage();
+  const selectBranchMutation = useSelectBranch();
+  const submitFeedbackMutation = useSubmitFeedback();
+  const deleteMessageMutation = useDeleteMessage();
 
   // Transform Convex messages to chat format
   const transformedMessages: ConvexChatMessage[] = (messages || []).map((msg: any) => ({
@@ -49,18 +85,33 @@ export function useConvexChat({ conversationId, activeAdvisorId, isAuthenticated
     advisor: msg.advisorId,
     createdAt: new Date(msg.createdAt),
     tokensUsed: msg.tokensUsed,
+    components: msg.contentJson?.components,
+    toolCalls: msg.contentJson?.toolCalls,
+    citations: msg.contentJson?.citations,
+    branch: msg.branch ?? null,
+    variants: msg.variants,
+    model: msg.contentJson?.model,
   }));
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
   }, []);
 
+  const addAttachments = useCallback((files: File[]) => {
+    setAttachments(prev => [...prev, ...files.filter(file => !prev.some(p => p.name === file.name))]);
+  }, []);
+
+  const removeAttachment = useCallback((name: string) => {
+    setAttachments(prev => prev.filter(file => file.name !== name));
+  }, []);
+
   const handleSubmit = useCallback(async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!input.trim()) return;
 
     setIsLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
       let currentConversationId = conversationId;
@@ -70,43 +121,117 @@ export function useConvexChat({ conversationId, activeAdvisorId, isAuthenticated
         console.log("Creating new conversation...");
         currentConversationId = await createConversation({
           title: input.slice(0, 50) + (input.length > 50 ? "..." : ""),
-          activeAdvisorId,
+          activeAdvisorId: activeAdvisorId ?? routeAdvisor?.(input),
         });
         console.log("Created conversation:", currentConversationId);
       }
 
-      // TODO: Implement AI chat completion with Convex action
-      // For now, just save the user message
-      console.log("Sending user message...");
-      await sendMessage({
-        conversationId: currentConversationId,
-        sender: "user",
-        content: input,
-        contentJson: null,
-        mentions: [],
-        tokensUsed: 0,
-      });
+      // Attached documents are indexed before the message so advisors can retrieve from them
+      const warnings: string[] = [];
+      for (const file of attachments) {
+        const upload = await uploadDocument({
+          conversationId: currentConversationId,
+          name: file.name,
+          mimeType: file.type || undefined,
+          content: await file.text(),
+        });
+        if (upload.warning) warnings.push(upload.warning);
+      }
+      setAttachments([]);
+      setNotice(warnings.length > 0 ? warnings.join(" ") : null);
 
-      // Mock AI response for now
-      await sendMessage({
+      // The action saves the message and the reply (one per advisor in a board meeting)
+      await sendChatMessage({
         conversationId: currentConversationId,
-        sender: "assistant",
-        content: "This is a mock response. The AI integration will be completed in the next phase.",
-        contentJson: null,
-        mentions: [],
-        tokensUsed: 0,
+        message: input,
+        advisorId: activeAdvisorId,
+        boardMode,
       });
 
-      console.log("Messages sent successfully");
       setInput("");
 
     } catch (err) {
       console.error("Chat error:", err);
-      setError(err instanceof Error ? err : new Error("Unknown error occurred"));
+      setError(toChatError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [input, conversationId, activeAdvisorId, routeAdvisor, boardMode, attachments, sendChatMessage, createConversation, uploadDocument]);
+
+  // Editing forks the conversation at the message; the advisor who answered it replies again on the new branch
+  const editMessage = useCallback(async (messageId: string, newContent: string) => {
+    if (!conversationId) return;
+
+    const index = transformedMessages.findIndex(message => message.id === messageId);
+    const reply = transformedMessages.slice(index + 1).find(message => message.role === "assistant");
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await sendChatMessage({
+        conversationId,
+        message: newContent,
+        advisorId: (reply?.advisor as Id<"advisors"> | undefined) ?? activeAdvisorId,
+        branchFromMessageId: messageId as Id<"messages">,
+      });
+    } catch (err) {
+      console.error("Edit error:", err);
+      setError(toChatError(err));
+      throw err;
     } finally {
       setIsLoading(false);
     }
-  }, [input, conversationId, activeAdvisorId, sendMessage, createConversation]);
+  }, [conversationId, activeAdvisorId, transformedMessages, sendChatMessage]);
+
+  // Another take on an advisor reply, stored as a variant of the same turn and shown in its place
+  const regenerateMessage = useCallback(async (messageId: string, options: RegenerateOptions = {}) => {
+    if (!conversationId) return;
+
+    const index = transformedMessages.findIndex(message => message.id === messageId);
+    const reply = transformedMessages[index];
+    const question = transformedMessages[index - 1];
+    if (!reply || question?.role !== "user") return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await sendChatMessage({
+        conversationId,
+        message: question.content,
+        advisorId: reply.advisor as Id<"advisors"> | undefined,
+        regenerateMessageId: messageId as Id<"messages">,
+        model: options.model,
+        temperature: options.temperature,
+      });
+    } catch (err) {
+      console.error("Regenerate error:", err);
+      setError(toChatError(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId, transformedMessages, sendChatMessage]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    await deleteMessageMutation({ messageId: messageId as Id<"messages"> });
+  }, [deleteMessageMutation]);
+
+  // Show the branch running through one of a fork's siblings
+  const selectBranch = useCallback(async (messageId: string) => {
+    if (!conversationId) return;
+    await selectBranchMutation({ conversationId, messageId: messageId as Id<"messages"> });
+  }, [conversationId, selectBranchMutation]);
+
+  // Store a thumbs up/down from the feedback controls under an advisor reply
+  const submitFeedback = useCallback(async (payload: FeedbackPayload) => {
+    if (!payload.messageId) return;
+    await submitFeedbackMutation({
+      messageId: payload.messageId as Id<"messages">,
+      sentiment: payload.sentiment,
+      reason: payload.reason,
+      other: payload.other,
+      comments: payload.comments,
+    });
+  }, [submitFeedbackMutation]);
 
   const reload = useCallback(() => {
     // Messages are automatically reloaded via Convex reactivity
@@ -124,14 +249,34 @@ export function useConvexChat({ conversationId, activeAdvisorId, isAuthenticated
     handleSubmit,
     isLoading,
     error,
+    notice,
     reload,
     stop,
     conversationData,
     setMessages: () => {}, // Not needed with Convex reactivity
     setInput,
+    boardMode,
+    setBoardMode,
+    attachments,
+    addAttachments,
+    removeAttachment,
+    editMessage,
+    regenerateMessage,
+    deleteMessage,
+    selectBranch,
+    submitFeedback,
   };
 }
 
+// ConvexError data reaches the client (other server errors are redacted in production); show its message
+function toChatError(err: unknown): Error {
+  if (err instanceof ConvexError) {
+    const data = err.data as { message?: string } | string;
+    return new Error(typeof data === "string" ? data : data?.message ?? err.message);
+  }
+  return err instanceof Error ? err : new Error("Unknown error occurred");
+}
+
 // Helper function to extract mentions from message content
 export function extractMentions(content: string, advisors: any[]): string[] {
   const mentionRegex = /@(\w+)/g;
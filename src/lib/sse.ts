@@ -0,0 +1,81 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Shared by the chat route (reading the OpenRouter stream and writing our own
+ * events) and the chat hook (reading the route's events in the browser).
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Encode a named event with a JSON payload
+ */
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read a byte stream and yield complete events as they arrive.
+ * Comment lines (": keep-alive") are skipped; events without a name default to "message".
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        buffer += decoder.decode(value, { stream: true });
+      }
+      if (done) {
+        buffer += decoder.decode();
+      }
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+        const parsed = parseEvent(rawEvent);
+        if (parsed) yield parsed;
+
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) {
+        const parsed = parseEvent(buffer);
+        if (parsed) yield parsed;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEvent(rawEvent: string): ServerSentEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+
+    if (field === "event") event = value;
+    if (field === "data") dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join("\n") };
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { defineComponent } from "./types";
+import { formatPercent, humanize } from "./format";
+
+const weight = z.number().min(0).max(1);
+
+export const architectureReview = defineComponent({
+  id: "architectureReview",
+  version: "1.0.0",
+  configSchema: z.object({
+    scalabilityThreshold: z.number().int().min(1).default(10000),
+    complexityPenalty: weight.default(0.3),
+    maintainabilityWeight: weight.default(0.4),
+  }),
+  shapePrompt: (config) => `### Architecture Review
+Review designs against ${config.scalabilityThreshold.toLocaleString("en-US")} users. Penalise complexity the team can't justify (${formatPercent(config.complexityPenalty)}) and give maintainability ${formatPercent(config.maintainabilityWeight)} of your judgement.`,
+});
+
+export const techStackEvaluator = defineComponent({
+  id: "techStackEvaluator",
+  version: "1.0.0",
+  configSchema: z.object({
+    communitySupportWeight: weight.default(0.33),
+    hiringEaseWeight: weight.default(0.33),
+    scalabilityWeight: weight.default(0.34),
+  }),
+  shapePrompt: (config) => `### Tech Stack Evaluation
+Compare stacks on scalability ${formatPercent(config.scalabilityWeight)}, ease of hiring ${formatPercent(config.hiringEaseWeight)} and community support ${formatPercent(config.communitySupportWeight)}.`,
+});
+
+export const teamStructurePlanner = defineComponent({
+  id: "teamStructurePlanner",
+  version: "1.0.0",
+  configSchema: z.object({
+    maxTeamSize: z.number().int().min(1).default(8),
+    specializationThreshold: z.number().int().min(1).default(5),
+    crossFunctionalRatio: weight.default(0.3),
+  }),
+  shapePrompt: (config) => `### Team Structure
+Keep teams at ${config.maxTeamSize} people or fewer. Below ${config.specializationThreshold} engineers favour generalists; above it, introduce specialists while keeping about ${formatPercent(config.crossFunctionalRatio)} of each team cross-functional.`,
+});
+
+export const technicalDebtAssessor = defineComponent({
+  id: "technicalDebtAssessor",
+  version: "1.0.0",
+  configSchema: z.object({
+    debtInterestRate: z.number().min(1).default(1.2),
+    paydownPriority: z.array(z.string()).default([]),
+  }),
+  shapePrompt: (config) => `### Technical Debt
+Treat debt as compounding at ${config.debtInterestRate}x per quarter.${config.paydownPriority.length > 0
+  ? ` Pay it down in this order: ${config.paydownPriority.map(humanize).join(", ")}.`
+  : ""}`,
+});
+
+export const incidentResponse = defineComponent({
+  id: "incidentResponse",
+  version: "1.0.0",
+  configSchema: z.object({
+    slaLevel: z.string().default("99.9"),
+    maxResponseTime: z.number().min(1).default(15),
+    postmortemRequired: z.boolean().default(true),
+  }),
+  shapePrompt: (config) => `### Incident Response
+Plan for a ${config.slaLevel}% SLA and a first response within ${config.maxResponseTime} minutes.${config.postmortemRequired
+  ? " Every incident ends with a blameless postmortem."
+  : ""}`,
+});
@@ -0,0 +1,22 @@
+/**
+ * Small formatting helpers shared by the component handlers
+ */
+
+/** 0.4 → "40%" */
+export function formatPercent(weight: number): string {
+  return `${Math.round(weight * 100)}%`;
+}
+
+/** "too_niche" / "direct_but_empathetic" → "too niche" / "direct but empathetic" */
+export function humanize(value: string): string {
+  return value.replace(/[_-]+/g, " ").trim();
+}
+
+/** "unit economics" → "Unit economics" */
+export function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
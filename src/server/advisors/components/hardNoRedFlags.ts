@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { defineComponent } from "./types";
+import { humanize } from "./format";
+
+export const hardNoRedFlagsConfigSchema = z.object({
+  strictMode: z.boolean().default(false),
+  founderRedFlags: z.array(z.string()).default([]),
+  marketRedFlags: z.array(z.string()).default([]),
+});
+
+export type HardNoRedFlagsConfig = z.infer<typeof hardNoRedFlagsConfigSchema>;
+
+/**
+ * Deal-breakers the advisor never looks past. Which ones a company hits comes from the
+ * scorecard's `redFlags` list (see ./scoringEngine), not from the prose, where
+ * "far from saturated" would read as a mention.
+ */
+export const hardNoRedFlags = defineComponent({
+  id: "hardNoRedFlags",
+  version: "1.0.0",
+  configSchema: hardNoRedFlagsConfigSchema,
+  shapePrompt: (config) => {
+    if (config.founderRedFlags.length === 0 && config.marketRedFlags.length === 0) return null;
+
+    const lines = [
+      ...(config.founderRedFlags.length > 0 ? [`- Founder: ${config.founderRedFlags.map(humanize).join(", ")}`] : []),
+      ...(config.marketRedFlags.length > 0 ? [`- Market: ${config.marketRedFlags.map(humanize).join(", ")}`] : []),
+    ];
+
+    return `### Red Flags
+Watch for these red flags and name them plainly when you see one:
+${lines.join("\n")}
+${config.strictMode
+  ? "Any one of them is a hard no, however strong the rest of the company looks."
+  : "Weigh them heavily, but they are not automatic deal-breakers."}`;
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * Advisor components runtime
+ *
+ * Advisor JSONs declare components (`{ id, version, config }`) such as scoringEngine or
+ * responseProtocol. Each id maps to a typed handler in the registry that can add
+ * instructions to the system prompt, extract structured output from the raw reply and
+ * post-process it before it is saved. Declarations without a handler are skipped.
+ *
+ * Pure module with no env or database access, shared by the Next.js routes and Convex.
+ */
+
+export * from "./types";
+export {
+  DEFAULT_COMPONENT_HANDLERS,
+  buildComponentInstructions,
+  componentRegistry,
+  createComponentRegistry,
+  extractComponentOutputs,
+  parseComponentDeclarations,
+  postProcessResponse,
+  resolveAdvisorComponents,
+  type ComponentRegistry,
+} from "./registry";
+export type { Scorecard, ScorecardDimension, ScorecardDimensionId } from "./scoringEngine";
+export {
+  buildIntakeSteps,
+  formatIntakeKickoff,
+  getIntakeConfig,
+  getMissingIntakeSections,
+  intakeMemoryKey,
+  type IntakeAnswer,
+  type IntakeQuestionnaireConfig,
+  type IntakeStep,
+} from "./intakeQuestionnaire";
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { defineComponent, type ResolvedComponent } from "./types";
+import { capitalize, humanize } from "./format";
+import { normalizeMemoryKey } from "../../llm/memories";
+
+export const intakeQuestionnaireConfigSchema = z.object({
+  maxQuestions: z.number().int().min(1).default(10),
+  timeLimitMinutes: z.number().min(1).default(15),
+  requiredSections: z.array(z.string()).default([]),
+});
+
+export type IntakeQuestionnaireConfig = z.infer<typeof intakeQuestionnaireConfigSchema>;
+
+/**
+ * One question of the guided intake; `id` doubles as the memory key suffix
+ */
+export type IntakeStep = {
+  id: string;
+  section: string;
+  question: string;
+};
+
+export type IntakeAnswer = {
+  stepId: string;
+  section: string;
+  question: string;
+  answer: string;
+};
+
+// Most important question first; later ones are dropped when maxQuestions is tight
+const SECTION_QUESTIONS: Record<string, { id: string; question: string }[]> = {
+  team: [
+    { id: "team_background", question: "Who is on the founding team, and what has each of you built before?" },
+    { id: "team_gaps", question: "Which key skills or roles is the team still missing?" },
+    { id: "team_commitment", question: "Is everyone full-time, and how long have you worked together?" },
+  ],
+  market: [
+    { id: "market_customer", question: "Who exactly is your customer, and what problem are you solving for them?" },
+    { id: "market_size", question: "How big is the market, and how did you size it?" },
+    { id: "market_competition", question: "Who else solves this today, and why will customers pick you?" },
+  ],
+  traction: [
+    { id: "traction_metrics", question: "What traction do you have so far (users, revenue, growth rate)?" },
+    { id: "traction_retention", question: "How well do users stick around or pay again?" },
+    { id: "traction_next_milestone", question: "What is the next milestone you are working towards, and by when?" },
+  ],
+};
+
+const questionsFor = (section: string) =>
+  SECTION_QUESTIONS[section] ?? [
+    { id: `${normalizeMemoryKey(section)}_overview`, question: `Tell me about your ${humanize(section).toLowerCase()}.` },
+  ];
+
+/**
+ * The questions to ask, grouped by section in the configured order. Every required
+ * section gets at least one question even when `maxQuestions` is smaller.
+ */
+export function buildIntakeSteps(config: IntakeQuestionnaireConfig): IntakeStep[] {
+  const sections = config.requiredSections.length > 0 ? config.requiredSections : ["team", "market", "traction"];
+  const perSection = Math.max(1, Math.floor(config.maxQuestions / sections.length));
+
+  return sections.flatMap(section =>
+    questionsFor(section).slice(0, perSection).map(({ id, question }) => ({ id, section, question }))
+  );
+}
+
+/**
+ * Required sections without a single answer yet
+ */
+export function getMissingIntakeSections(config: Pick<IntakeQuestionnaireConfig, "requiredSections">, answers: IntakeAnswer[]): string[] {
+  const answered = new Set(answers.filter(a => a.answer.trim()).map(a => a.section));
+  return config.requiredSections.filter(section => !answered.has(section));
+}
+
+/**
+ * Memory key an answer is saved under, e.g. `intake_team_background`
+ */
+export function intakeMemoryKey(stepId: string): string {
+  return `intake_${normalizeMemoryKey(stepId)}`;
+}
+
+/**
+ * The founder's message that closes the intake and asks for the advisor's first real reply;
+ * null when the intake was skipped before any answer (the next free-text message gets the reply)
+ */
+export function formatIntakeKickoff(answers: IntakeAnswer[], skipped: boolean): string | null {
+  const answered = answers.filter(a => a.answer.trim());
+  if (answered.length === 0) return null;
+
+  const sections = [...new Set(answered.map(a => a.section))].map(section => {
+    const lines = answered
+      .filter(a => a.section === section)
+      .map(a => `- ${a.question}\n  ${a.answer.trim()}`);
+    return `**${capitalize(humanize(section))}**\n${lines.join("\n")}`;
+  });
+
+  return `${skipped ? "I skipped the rest of the intake, but here's" : "Here's"} what you asked about:\n\n${sections.join("\n\n")}\n\nBased on this, what's your take?`;
+}
+
+/**
+ * Intake config of an advisor's resolved components, or null when it declares none
+ */
+export function getIntakeConfig(components: ResolvedComponent<any>[]): IntakeQuestionnaireConfig | null {
+  const component = components.find(c => c.id === "intakeQuestionnaire");
+  return component ? (component.config as IntakeQuestionnaireConfig) : null;
+}
+
+/**
+ * What the advisor needs to learn before giving a verdict on a new company
+ */
+export const intakeQuestionnaire = defineComponent({
+  id: "intakeQuestionnaire",
+  version: "1.0.0",
+  configSchema: intakeQuestionnaireConfigSchema,
+  shapePrompt: (config) => `### Intake
+Before giving a verdict on a company you don't know yet, make sure you understand ${config.requiredSections.length > 0 ? config.requiredSections.join(", ") : "the basics"}.
+Ask at most ${config.maxQuestions} questions in total (about ${config.timeLimitMinutes} minutes), a few at a time, and skip anything the founder already told you.`,
+});
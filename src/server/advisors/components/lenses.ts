@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { defineComponent } from "./types";
+import { formatPercent, humanize } from "./format";
+
+const weight = z.number().min(0).max(1);
+
+export const contextLensConfigSchema = z.object({
+  marketConditionsWeight: weight.default(0.33),
+  competitiveLandscapeWeight: weight.default(0.33),
+  timingRelevanceWeight: weight.default(0.34),
+});
+
+/**
+ * How much the advisor weighs market conditions, competition and timing
+ */
+export const contextLens = defineComponent({
+  id: "contextLens",
+  version: "1.0.0",
+  configSchema: contextLensConfigSchema,
+  shapePrompt: (config) => `### Context Lens
+Read every opportunity in its context: timing ${formatPercent(config.timingRelevanceWeight)}, market conditions ${formatPercent(config.marketConditionsWeight)}, competitive landscape ${formatPercent(config.competitiveLandscapeWeight)}. Say "why now" explicitly.`,
+});
+
+export const investmentThesisConfigSchema = z.object({
+  thesisCategories: z.array(z.string()).default([]),
+  minimumConviction: z.number().min(0).max(1).default(0.5),
+});
+
+/**
+ * The shifts the advisor invests behind and how sure it must be before backing an idea
+ */
+export const investmentThesis = defineComponent({
+  id: "investmentThesis",
+  version: "1.0.0",
+  configSchema: investmentThesisConfigSchema,
+  shapePrompt: (config) => {
+    if (config.thesisCategories.length === 0) return null;
+    return `### Investment Thesis
+You back companies riding a ${config.thesisCategories.map(humanize).join(", a ")}. Tie your view to one of these when it fits, and only endorse an idea when your conviction is at least ${formatPercent(config.minimumConviction)}.`;
+  },
+});
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { defineComponent } from "./types";
+import { formatPercent } from "./format";
+
+export const pivotLibraryConfigSchema = z.object({
+  maxPivotSuggestions: z.number().int().min(1).default(3),
+  includeRadicalPivots: z.boolean().default(false),
+  successRateThreshold: z.number().min(0).max(1).default(0.1),
+});
+
+/**
+ * How the advisor suggests pivots when the current direction isn't working
+ */
+export const pivotLibrary = defineComponent({
+  id: "pivotLibrary",
+  version: "1.0.0",
+  configSchema: pivotLibraryConfigSchema,
+  shapePrompt: (config) => `### Pivots
+When the current direction isn't working, suggest at most ${config.maxPivotSuggestions} pivots, ${config.includeRadicalPivots
+  ? "including at least one radical pivot (new customer or new problem), not just adjacent tweaks"
+  : "staying close to the team's existing strengths and customers"}.
+Only suggest a pivot you would give at least a ${formatPercent(config.successRateThreshold)} chance of working, and say why.`,
+});
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import type {
+  AdvisorComponentDeclaration,
+  ComponentContext,
+  ComponentHandler,
+  ComponentOutput,
+  ResolvedComponent,
+  UnsupportedComponent,
+} from "./types";
+import { scoringEngine } from "./scoringEngine";
+import { hardNoRedFlags } from "./hardNoRedFlags";
+import { pivotLibrary } from "./pivotLibrary";
+import { intakeQuestionnaire } from "./intakeQuestionnaire";
+import { responseProtocol } from "./responseProtocol";
+import { contextLens, investmentThesis } from "./lenses";
+import {
+  architectureReview,
+  incidentResponse,
+  teamStructurePlanner,
+  techStackEvaluator,
+  technicalDebtAssessor,
+} from "./engineering";
+
+export interface ComponentRegistry {
+  register(handler: ComponentHandler<any>): void;
+  /** Handler for a declaration: same id and same major version */
+  get(id: string, version: string): ComponentHandler<any> | undefined;
+  has(id: string): boolean;
+  list(): ComponentHandler<any>[];
+}
+
+const majorVersion = (version: string) => version.split(".")[0];
+
+export function createComponentRegistry(handlers: ComponentHandler<any>[] = []): ComponentRegistry {
+  const byId = new Map<string, ComponentHandler<any>[]>();
+
+  const registry: ComponentRegistry = {
+    register(handler) {
+      const existing = (byId.get(handler.id) ?? []).filter(h => majorVersion(h.version) !== majorVersion(handler.version));
+      byId.set(handler.id, [...existing, handler]);
+    },
+    get(id, version) {
+      return byId.get(id)?.find(handler => majorVersion(handler.version) === majorVersion(version));
+    },
+    has(id) {
+      return byId.has(id);
+    },
+    list() {
+      return Array.from(byId.values()).flat();
+    },
+  };
+
+  handlers.forEach(handler => registry.register(handler));
+  return registry;
+}
+
+export const DEFAULT_COMPONENT_HANDLERS: ComponentHandler<any>[] = [
+  scoringEngine,
+  hardNoRedFlags,
+  pivotLibrary,
+  intakeQuestionnaire,
+  responseProtocol,
+  contextLens,
+  investmentThesis,
+  architectureReview,
+  techStackEvaluator,
+  teamStructurePlanner,
+  technicalDebtAssessor,
+  incidentResponse,
+];
+
+/** Handlers for every component shipped in prisma/advisors */
+export const componentRegistry = createComponentRegistry(DEFAULT_COMPONENT_HANDLERS);
+
+const declarationSchema = z.object({
+  id: z.string().min(1),
+  version: z.string().default("1.0.0"),
+  config: z.record(z.unknown()).default({}),
+});
+
+/**
+ * Read `advisor.components`; malformed entries are dropped
+ */
+export function parseComponentDeclarations(raw: unknown): AdvisorComponentDeclaration[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap(entry => {
+    const result = declarationSchema.safeParse(entry);
+    return result.success ? [result.data] : [];
+  });
+}
+
+/**
+ * Pair an advisor's declared components with their handlers and validated configs
+ */
+export function resolveAdvisorComponents(
+  raw: unknown,
+  registry: ComponentRegistry = componentRegistry
+): { components: ResolvedComponent<any>[]; unsupported: UnsupportedComponent[] } {
+  const components: ResolvedComponent<any>[] = [];
+  const unsupported: UnsupportedComponent[] = [];
+
+  for (const declaration of parseComponentDeclarations(raw)) {
+    const { id, version } = declaration;
+    const handler = registry.get(id, version);
+    if (!handler) {
+      unsupported.push({ id, version, reason: registry.has(id) ? "unsupported_version" : "unknown_component" });
+      continue;
+    }
+
+    const config = handler.configSchema.safeParse(declaration.config);
+    if (!config.success) {
+      unsupported.push({ id, version, reason: "invalid_config" });
+      continue;
+    }
+
+    components.push({ id, version, config: config.data, handler });
+  }
+
+  return { components, unsupported };
+}
+
+// A broken handler must never fail the chat turn
+function runHook<T>(component: ResolvedComponent<any>, hook: string, run: () => T, fallback: T): T {
+  try {
+    return run();
+  } catch (error) {
+    console.warn(`Advisor component ${component.id}@${component.version} ${hook} failed:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * System prompt section with every component's instructions; empty when none apply
+ */
+export function buildComponentInstructions(components: ResolvedComponent<any>[], context: ComponentContext): string {
+  const withSiblings = { ...context, components };
+  const sections = components
+    .map(component => runHook(component, "shapePrompt", () => component.handler.shapePrompt?.(component.config, withSiblings) ?? null, null))
+    .filter((section): section is string => Boolean(section));
+
+  return sections.length > 0 ? `## Your Methods\n\n${sections.join("\n\n")}` : "";
+}
+
+/**
+ * Run each component's post-processing over the finished reply, in declaration order.
+ * Call after `extractComponentOutputs`: post-processing may strip what extraction reads.
+ */
+export function postProcessResponse(components: ResolvedComponent<any>[], content: string, context: ComponentContext): string {
+  const withSiblings = { ...context, components };
+  return components.reduce(
+    (current, component) => component.handler.postProcess
+      ? runHook(component, "postProcess", () => component.handler.postProcess!(current, component.config, withSiblings), current)
+      : current,
+    content
+  );
+}
+
+/**
+ * Structured outputs keyed by component id; components with nothing to report are omitted
+ */
+export function extractComponentOutputs(
+  components: ResolvedComponent<any>[],
+  content: string,
+  context: ComponentContext
+): Record<string, ComponentOutput> {
+  const outputs: Record<string, ComponentOutput> = {};
+  const withSiblings = { ...context, components };
+
+  for (const component of components) {
+    if (!component.handler.extract) continue;
+    const output = runHook<ComponentOutput | undefined>(component, "extract", () => component.handler.extract!(content, component.config, withSiblings), null);
+    if (output !== null && output !== undefined) outputs[component.id] = output;
+  }
+
+  return outputs;
+}
@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { defineComponent } from "./types";
+import { countWords, humanize } from "./format";
+
+export const responseProtocolConfigSchema = z.object({
+  /** In words */
+  maxResponseLength: z.number().int().min(50).optional(),
+  includeActionItems: z.boolean().default(false),
+  tone: z.string().optional(),
+});
+
+export type ResponseProtocolConfig = z.infer<typeof responseProtocolConfigSchema>;
+
+const ACTION_ITEMS_HEADING = /^[ \t]*(?:#{1,6}[ \t]*|\*\*)?Action Items\b.*$/im;
+
+/**
+ * Split a reply into its body and the trailing "Action Items" section (if any)
+ */
+export function splitActionItems(content: string): { body: string; actionItems: string | null } {
+  const match = ACTION_ITEMS_HEADING.exec(content);
+  if (!match) return { body: content, actionItems: null };
+
+  return {
+    body: content.slice(0, match.index),
+    actionItems: content.slice(match.index),
+  };
+}
+
+/**
+ * Bullet or numbered lines of the "Action Items" section, without their markers
+ */
+export function parseActionItems(content: string): string[] {
+  const { actionItems } = splitActionItems(content);
+  if (!actionItems) return [];
+
+  return actionItems
+    .split("\n")
+    .slice(1)
+    .map(line => /^\s*(?:[-*•]|\d+[.)])\s+(.+)$/.exec(line)?.[1]?.trim())
+    .filter((item): item is string => Boolean(item));
+}
+
+/**
+ * Cut text to at most `maxWords`, preferring to end on a sentence boundary
+ */
+export function truncateToWords(text: string, maxWords: number): string {
+  if (countWords(text) <= maxWords) return text;
+  if (maxWords <= 0) return "";
+
+  // End offset of the last word that fits
+  const words = [...text.matchAll(/\S+/g)];
+  const lastWord = words[maxWords - 1]!;
+  const cut = text.slice(0, lastWord.index + lastWord[0].length);
+
+  // Back up to the last full sentence unless that loses more than half of the text
+  const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("! "), cut.lastIndexOf("? "), cut.lastIndexOf("\n"));
+  if (sentenceEnd > cut.length / 2) {
+    return cut.slice(0, sentenceEnd + 1).trimEnd();
+  }
+  return `${cut.replace(/[,;:\s]+$/, "")}…`;
+}
+
+/**
+ * Enforce the word limit; the Action Items section survives and the body is shortened instead
+ */
+export function enforceResponseLength(content: string, maxWords: number, keepActionItems: boolean): string {
+  if (countWords(content) <= maxWords) return content;
+
+  const { body, actionItems } = splitActionItems(content);
+  if (!keepActionItems || !actionItems || countWords(actionItems) >= maxWords) {
+    return truncateToWords(content, maxWords);
+  }
+
+  const shortened = truncateToWords(body.trimEnd(), maxWords - countWords(actionItems));
+  return `${shortened}\n\n${actionItems.trim()}`;
+}
+
+/**
+ * Length, tone and the closing "Action Items" list of every reply
+ */
+export const responseProtocol = defineComponent({
+  id: "responseProtocol",
+  version: "1.0.0",
+  configSchema: responseProtocolConfigSchema,
+  shapePrompt: (config) => {
+    const rules = [
+      ...(config.maxResponseLength ? [`- Keep replies under ${config.maxResponseLength} words.`] : []),
+      ...(config.tone ? [`- Tone: ${humanize(config.tone)}.`] : []),
+      ...(config.includeActionItems
+        ? ["- Before your sign-off, end with an **Action Items** section: one to three concrete next steps as a bulleted list."]
+        : []),
+    ];
+    return rules.length > 0 ? `### Response Protocol\n${rules.join("\n")}` : null;
+  },
+  postProcess: (content, config) =>
+    config.maxResponseLength
+      ? enforceResponseLength(content, config.maxResponseLength, config.includeActionItems)
+      : content,
+  extract: (content, config) => {
+    if (!config.includeActionItems) return null;
+    const actionItems = parseActionItems(content);
+    return actionItems.length > 0 ? { actionItems } : null;
+  },
+});
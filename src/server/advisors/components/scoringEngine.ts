@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { defineComponent, type ComponentContext } from "./types";
+import { formatPercent, humanize } from "./format";
+import { hardNoRedFlagsConfigSchema, type HardNoRedFlagsConfig } from "./hardNoRedFlags";
+import type { Verdict } from "../../llm/memories";
+
+const weight = z.number().min(0).max(1);
+const score = z.number().min(0).max(10);
+
+export const scoringEngineConfigSchema = z.object({
+  teamWeight: weight.default(0.4),
+  marketWeight: weight.default(0.3),
+  tractionWeight: weight.default(0.2),
+  ideaWeight: weight.default(0.1),
+  minimumScore: score.default(7.5),
+  autoRejectBelow: score.default(5),
+});
+
+export type ScoringEngineConfig = z.infer<typeof scoringEngineConfigSchema>;
+
+export const SCORECARD_DIMENSIONS = ["team", "market", "traction", "idea"] as const;
+export type ScorecardDimensionId = (typeof SCORECARD_DIMENSIONS)[number];
+
+export type ScorecardDimension = {
+  id: ScorecardDimensionId;
+  score: number;
+  weight: number;
+  rationale: string | null;
+};
+
+/**
+ * Structured evaluation saved under `contentJson.components.scoringEngine`
+ */
+export type Scorecard = {
+  dimensions: ScorecardDimension[];
+  /** Weighted average of the dimension scores, 0-10 */
+  total: number;
+  minimumScore: number;
+  autoRejectBelow: number;
+  /** Configured `hardNoRedFlags` listed in the scorecard block's `redFlags` */
+  redFlags: { founder: string[]; market: string[] };
+  hardNo: boolean;
+  verdict: Verdict;
+  summary: string | null;
+};
+
+const SCORECARD_BLOCK = /```scorecard[ \t]*\n([\s\S]*?)```/i;
+
+// Models send bare numbers, numeric strings or { score, rationale }
+const dimensionScoreSchema = z.union([
+  z.object({ score: z.coerce.number(), rationale: z.string().optional() }),
+  z.coerce.number(),
+]);
+
+const scorecardBlockSchema = z.object({
+  team: dimensionScoreSchema,
+  market: dimensionScoreSchema,
+  traction: dimensionScoreSchema,
+  idea: dimensionScoreSchema,
+  redFlags: z.array(z.string()).default([]),
+  summary: z.string().optional(),
+});
+
+type ScorecardBlock = z.infer<typeof scorecardBlockSchema>;
+
+const dimensionWeight = (config: ScoringEngineConfig, id: ScorecardDimensionId) =>
+  ({ team: config.teamWeight, market: config.marketWeight, traction: config.tractionWeight, idea: config.ideaWeight })[id];
+
+/**
+ * The reply's ```scorecard block, validated; null when absent or malformed
+ */
+export function parseScorecardBlock(content: string): ScorecardBlock | null {
+  const match = SCORECARD_BLOCK.exec(content);
+  if (!match) return null;
+
+  try {
+    const result = scorecardBlockSchema.safeParse(JSON.parse(match[1]!));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the ```scorecard block from the prose; the card renders it instead
+ */
+export function stripScorecardBlock(content: string): string {
+  if (!SCORECARD_BLOCK.test(content)) return content;
+  return content.replace(SCORECARD_BLOCK, "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Weighted average rounded to one decimal; falls back to a plain average when every weight is 0
+ */
+export function computeWeightedTotal(dimensions: Pick<ScorecardDimension, "score" | "weight">[]): number {
+  if (dimensions.length === 0) return 0;
+
+  const totalWeight = dimensions.reduce((sum, d) => sum + d.weight, 0);
+  const total = totalWeight > 0
+    ? dimensions.reduce((sum, d) => sum + d.score * d.weight, 0) / totalWeight
+    : dimensions.reduce((sum, d) => sum + d.score, 0) / dimensions.length;
+
+  return Math.round(total * 10) / 10;
+}
+
+/**
+ * A strict-mode red flag or a total below `autoRejectBelow` is a "No"; clearing `minimumScore` is a "Yes"
+ */
+export function decideVerdict(total: number, hardNo: boolean, config: ScoringEngineConfig): Verdict {
+  if (hardNo || total < config.autoRejectBelow) return "No";
+  if (total >= config.minimumScore) return "Yes";
+  return "Not yet";
+}
+
+// Configured flags the model listed in the block; the prose is never scanned, so a negated mention doesn't count
+function collectRedFlags(block: ScorecardBlock, redFlagsConfig: HardNoRedFlagsConfig) {
+  const reported = block.redFlags.map(flag => humanize(flag).toLowerCase());
+  const isReported = (flag: string) => reported.includes(humanize(flag).toLowerCase());
+
+  return {
+    founder: redFlagsConfig.founderRedFlags.filter(isReported),
+    market: redFlagsConfig.marketRedFlags.filter(isReported),
+  };
+}
+
+function siblingRedFlagsConfig(context: ComponentContext): HardNoRedFlagsConfig | null {
+  const sibling = context.components?.find(component => component.id === "hardNoRedFlags");
+  if (!sibling) return null;
+  const result = hardNoRedFlagsConfigSchema.safeParse(sibling.config);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Turn the reply's scorecard block into a full scorecard: weights, total, red flags and verdict
+ */
+export function buildScorecard(content: string, config: ScoringEngineConfig, context: ComponentContext): Scorecard | null {
+  const block = parseScorecardBlock(content);
+  if (!block) return null;
+
+  const dimensions = SCORECARD_DIMENSIONS.map((id): ScorecardDimension => {
+    const raw = block[id];
+    const value = typeof raw === "number" ? raw : raw.score;
+    return {
+      id,
+      score: Math.min(10, Math.max(0, Math.round(value * 10) / 10)),
+      weight: dimensionWeight(config, id),
+      rationale: typeof raw === "number" ? null : raw.rationale?.trim() || null,
+    };
+  });
+
+  const redFlagsConfig = siblingRedFlagsConfig(context);
+  const redFlags = redFlagsConfig ? collectRedFlags(block, redFlagsConfig) : { founder: [], market: [] };
+  const hardNo = Boolean(redFlagsConfig?.strictMode) && (redFlags.founder.length > 0 || redFlags.market.length > 0);
+  const total = computeWeightedTotal(dimensions);
+
+  return {
+    dimensions,
+    total,
+    minimumScore: config.minimumScore,
+    autoRejectBelow: config.autoRejectBelow,
+    redFlags,
+    hardNo,
+    verdict: decideVerdict(total, hardNo, config),
+    summary: block.summary?.trim() || null,
+  };
+}
+
+/**
+ * Weighted team / market / traction / idea evaluation of a company, returned as a scorecard
+ */
+export const scoringEngine = defineComponent({
+  id: "scoringEngine",
+  version: "1.0.0",
+  configSchema: scoringEngineConfigSchema,
+  shapePrompt: (config) => `### Scoring Engine
+When you evaluate a company or idea, score Team, Market, Traction and Idea from 0 to 10 and weigh them Team ${formatPercent(config.teamWeight)}, Market ${formatPercent(config.marketWeight)}, Traction ${formatPercent(config.tractionWeight)}, Idea ${formatPercent(config.ideaWeight)}.
+A weighted score below ${config.autoRejectBelow} is an automatic no; ${config.minimumScore} or above clears your bar.
+Whenever you score a pitch, end your reply with a scorecard block after your sign-off, exactly like this:
+\`\`\`scorecard
+{"team": {"score": 7, "rationale": "one sentence"}, "market": {"score": 6, "rationale": "..."}, "traction": {"score": 4, "rationale": "..."}, "idea": {"score": 8, "rationale": "..."}, "redFlags": [], "summary": "one sentence"}
+\`\`\`
+List in "redFlags" any of your red flags the company hits. The founder sees the block as a card, not as text, so do not mention it.`,
+  postProcess: (content) => stripScorecardBlock(content),
+  extract: (content, config, context) => buildScorecard(content, config, context),
+});
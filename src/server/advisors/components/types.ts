@@ -0,0 +1,74 @@
+import type { z } from "zod";
+
+/**
+ * A component as declared in an advisor JSON (`components[]`)
+ */
+export interface AdvisorComponentDeclaration {
+  id: string;
+  version: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * What a handler knows about the turn it runs in
+ */
+export interface ComponentContext {
+  advisorId: string;
+  advisorName: string;
+  /** The founder's message this turn answers; absent when only building the prompt preview */
+  userMessage?: string;
+  /** Every component resolved for the advisor, so one handler can read a sibling's config */
+  components?: ResolvedComponent<any>[];
+}
+
+/**
+ * JSON-serialisable structured output of a component
+ */
+export type ComponentOutput =
+  | string
+  | number
+  | boolean
+  | null
+  | ComponentOutput[]
+  | { [key: string]: ComponentOutput };
+
+/**
+ * Runtime behaviour for one component id. A handler serves every declaration with the
+ * same id and major version; all hooks are optional and must be pure.
+ */
+export interface ComponentHandler<Config = unknown> {
+  id: string;
+  /** Semver of the handler; declarations with the same major version resolve to it */
+  version: string;
+  /** Validates and defaults the declaration's `config` */
+  configSchema: z.ZodType<Config, z.ZodTypeDef, unknown>;
+  /** Extra instructions appended to the advisor's system prompt */
+  shapePrompt?(config: Config, context: ComponentContext): string | null;
+  /** Rewrite the finished reply before it is saved; runs after every `extract` */
+  postProcess?(content: string, config: Config, context: ComponentContext): string;
+  /** Structured data derived from the raw reply, saved under `contentJson.components[id]` */
+  extract?(content: string, config: Config, context: ComponentContext): ComponentOutput | undefined;
+}
+
+/**
+ * A declaration paired with its handler and validated config
+ */
+export interface ResolvedComponent<Config = unknown> {
+  id: string;
+  version: string;
+  config: Config;
+  handler: ComponentHandler<Config>;
+}
+
+export interface UnsupportedComponent {
+  id: string;
+  version: string;
+  reason: "unknown_component" | "unsupported_version" | "invalid_config";
+}
+
+/**
+ * Identity helper that keeps the config type flowing from the schema into the hooks
+ */
+export function defineComponent<Config>(handler: ComponentHandler<Config>): ComponentHandler<Config> {
+  return handler;
+}
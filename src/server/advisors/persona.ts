@@ -1,5 +1,8 @@
 import { db } from "~/server/db";
 import type { Advisor } from "@prisma/client";
+import { parseComponentDeclarations, type AdvisorComponentDeclaration } from "./components";
+import { parseAdvisorScope, type ScopedAdvisor } from "./scope";
+import { resolveAdvisorTools, type AdvisorTool } from "./tools";
 
 /**
  * Get all active advisors
@@ -135,16 +138,35 @@ export function getAdvisorRole(advisor: Advisor) {
   
   return {
     mission: roleDefinition?.mission,
-    scope: roleDefinition?.scope,
+    scope: parseAdvisorScope(roleDefinition),
+    constraints: Array.isArray(roleDefinition?.constraints) ? (roleDefinition.constraints as string[]) : [],
     keyPerformanceIndicators: roleDefinition?.keyPerformanceIndicators,
   };
 }
 
 /**
- * Get advisor components configuration
+ * Advisor as seen by scope routing (see ./scope)
  */
-export function getAdvisorComponents(advisor: Advisor) {
-  return advisor.components as any[];
+export function getScopedAdvisor(advisor: Advisor): ScopedAdvisor {
+  return {
+    id: advisor.id,
+    name: getAdvisorPersona(advisor).name as string,
+    scope: parseAdvisorScope(advisor.roleDefinition),
+  };
+}
+
+/**
+ * Get advisor components configuration (see ./components for the handlers that run them)
+ */
+export function getAdvisorComponents(advisor: Advisor): AdvisorComponentDeclaration[] {
+  return parseComponentDeclarations(advisor.components);
+}
+
+/**
+ * Tools the advisor may call (see ./tools); undeclared or unknown tools are left out
+ */
+export function getAdvisorTools(advisor: Advisor): AdvisorTool<any>[] {
+  return resolveAdvisorTools(advisor.roleDefinition);
 }
 
 /**
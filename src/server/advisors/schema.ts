@@ -0,0 +1,345 @@
+import { z } from "zod";
+import { componentRegistry, type ComponentRegistry } from "./components";
+import { toolRegistry, type ToolRegistry } from "./tools";
+
+/**
+ * Advisor document schema
+ *
+ * Advisor JSONs (prisma/advisors, uploads and the authoring studio) are validated
+ * against a zod schema for their `advisorSchemaVersion`, mirroring the `advisors`
+ * table in convex/schema.ts: persona, roleDefinition, metadata and localization
+ * reject keys the table doesn't store. Component configs are checked against their
+ * handlers (see ./components) and tool names against the tool registry (see ./tools),
+ * so everything the chat pipeline would silently skip is reported with the path of
+ * the offending field.
+ *
+ * Pure helpers with no env or database access, shared by Convex and the advisor studio.
+ */
+
+export const ADVISOR_SCHEMA_VERSION = "1.1-base";
+
+/** A problem with one field, e.g. `{ path: "persona.education.graduationYear", message: "..." }` */
+export interface AdvisorFieldError {
+  path: string;
+  message: string;
+}
+
+// Form inputs leave blank strings and blank list lines behind; they mean "not set"
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+
+const optionalText = z.preprocess((value) => (isBlank(value) ? undefined : value), z.string().trim().optional());
+
+const requiredText = (label: string) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.trim() : value),
+    z.string({ required_error: `${label} is required` }).min(1, `${label} is required`)
+  );
+
+const textList = z.preprocess(
+  (value) => (Array.isArray(value) ? value.filter((entry) => !isBlank(entry)).map((entry) => (typeof entry === "string" ? entry.trim() : entry)) : value),
+  z.array(z.string()).optional()
+);
+
+// Nested objects whose fields are all blank are left out rather than stored empty
+function optionalObject<Shape extends z.ZodRawShape>(
+  shape: Shape,
+  refine: (value: z.output<z.ZodObject<Shape, "strict">>, ctx: z.RefinementCtx) => void = () => undefined
+) {
+  return z.preprocess(
+    (value) => (value && typeof value === "object" && !Array.isArray(value) && Object.values(value).every(isBlank) ? undefined : value),
+    z.object(shape).strict().superRefine(refine).optional()
+  );
+}
+
+const educationSchema = optionalObject({
+  degreeLevel: optionalText,
+  degreeName: optionalText,
+  major: optionalText,
+  institution: optionalText,
+  graduationYear: z.preprocess(
+    (value) => (isBlank(value) ? undefined : value),
+    z.number({ invalid_type_error: "Graduation year must be a number" }).int().min(1900).max(2100).optional()
+  ),
+});
+
+const locationSchema = optionalObject({
+  city: optionalText,
+  region: optionalText,
+  country: optionalText,
+  countryCode: z.preprocess((value) => (isBlank(value) ? undefined : value), z.string().regex(/^[A-Za-z]{2}$/, "Use a two-letter country code").optional()),
+  timezone: optionalText,
+});
+
+const adviceDeliverySchema = optionalObject({
+  mode: optionalText,
+  formality: optionalText,
+  useEmojis: z.boolean().optional(),
+  voiceGuidelines: textList,
+  signOff: optionalText,
+});
+
+const personaSchema = z
+  .object({
+    name: requiredText("Name"),
+    title: requiredText("Title"),
+    image: optionalText,
+    description: optionalText,
+    oneLiner: optionalText,
+    archetype: optionalText,
+    temperament: optionalText,
+    bio: optionalText,
+    detailedBackground: optionalText,
+    experience: optionalText,
+    specialties: textList,
+    personalInterests: textList,
+    communicationStyle: optionalText,
+    personality: textList,
+    expertise: textList,
+    coreBeliefsOrPrinciples: textList,
+    education: educationSchema,
+    location: locationSchema,
+    adviceDelivery: adviceDeliverySchema,
+    maritalStatus: optionalText,
+  })
+  .strict();
+
+const kpiSchema = z
+  .object({
+    metric: requiredText("Metric"),
+    description: optionalText,
+    unit: optionalText,
+  })
+  .strict();
+
+const metadataSchema = optionalObject({
+  version: optionalText,
+  author: optionalText,
+  category: optionalText,
+  createdAt: optionalText,
+  updatedAt: optionalText,
+  owner: optionalObject({
+    org: optionalText,
+    contactEmail: z.preprocess((value) => (isBlank(value) ? undefined : value), z.string().email("Enter a valid email").optional()),
+  }),
+  tags: textList,
+});
+
+/**
+ * Version 1.1-base: the shape of the JSONs in prisma/advisors
+ */
+function advisorSchemaV1_1(registries: { components: ComponentRegistry; tools: ToolRegistry }) {
+  // Checks live on the fields they cover so they report even while other fields are invalid
+  const componentSchema = z
+    .object({
+      id: requiredText("Component id"),
+      version: z.preprocess((value) => (isBlank(value) ? undefined : value), z.string().default("1.0.0")),
+      config: z.record(z.unknown()).default({}),
+    })
+    .strict()
+    .superRefine((component, ctx) => {
+      const handler = registries.components.get(component.id, component.version);
+      if (!handler) {
+        const known = registries.components.has(component.id);
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [known ? "version" : "id"],
+          message: known ? `Version ${component.version} of ${component.id} is not supported` : `Unknown component "${component.id}"`,
+        });
+        return;
+      }
+
+      const config = handler.configSchema.safeParse(component.config);
+      if (!config.success) {
+        for (const issue of config.error.issues) {
+          ctx.addIssue({ ...issue, path: ["config", ...issue.path] } as z.IssueData);
+        }
+      }
+    });
+
+  const toolsSchema = textList.superRefine((tools, ctx) => {
+    tools?.forEach((tool, index) => {
+      if (!registries.tools.get(tool)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: `Unknown tool "${tool}"` });
+      }
+    });
+  });
+
+  return z.object({
+    advisorId: optionalText,
+    advisorSchemaVersion: z.literal(ADVISOR_SCHEMA_VERSION).default(ADVISOR_SCHEMA_VERSION),
+    status: z.enum(["active", "inactive", "archived"]).default("active"),
+    persona: personaSchema,
+    roleDefinition: optionalObject({
+      role: optionalText,
+      responsibilities: textList,
+      constraints: textList,
+      mission: optionalText,
+      scope: optionalObject({
+        inScope: textList,
+        outOfScope: textList,
+      }),
+      keyPerformanceIndicators: z.array(kpiSchema).optional(),
+      tools: toolsSchema,
+    }),
+    components: z.array(componentSchema).default([]),
+    metadata: metadataSchema,
+    localization: optionalObject(
+      {
+        language: optionalText,
+        region: optionalText,
+        defaultLanguage: optionalText,
+        supportedLanguages: textList,
+      },
+      (localization, ctx) => {
+        if (localization.defaultLanguage && localization.supportedLanguages?.length && !localization.supportedLanguages.includes(localization.defaultLanguage)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["defaultLanguage"],
+            message: "The default language must be one of the supported languages",
+          });
+        }
+      }
+    ),
+    modelHint: optionalText,
+    tags: textList,
+  });
+}
+
+export type AdvisorDocument = z.output<ReturnType<typeof advisorSchemaV1_1>>;
+
+/** Schema for each advisor JSON version this build can read */
+export const ADVISOR_SCHEMAS: Record<string, typeof advisorSchemaV1_1> = {
+  [ADVISOR_SCHEMA_VERSION]: advisorSchemaV1_1,
+};
+
+export type AdvisorValidationResult =
+  | { ok: true; advisor: AdvisorDocument }
+  | { ok: false; errors: AdvisorFieldError[] };
+
+/** `["components", 2, "config", "tone"]` → `"components.2.config.tone"` */
+export function formatFieldPath(path: (string | number)[]): string {
+  return path.join(".");
+}
+
+/**
+ * Validate an advisor JSON against the schema for its `advisorSchemaVersion`
+ * (the current version when missing); the result holds trimmed, defaulted data
+ */
+export function validateAdvisorDocument(
+  input: unknown,
+  registries: { components?: ComponentRegistry; tools?: ToolRegistry } = {}
+): AdvisorValidationResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: [{ path: "", message: "An advisor must be a JSON object" }] };
+  }
+
+  const version = (input as { advisorSchemaVersion?: unknown }).advisorSchemaVersion ?? ADVISOR_SCHEMA_VERSION;
+  const schemaFor = typeof version === "string" ? ADVISOR_SCHEMAS[version] : undefined;
+  if (!schemaFor) {
+    return {
+      ok: false,
+      errors: [{
+        path: "advisorSchemaVersion",
+        message: `Unsupported schema version ${JSON.stringify(version)}; expected one of ${Object.keys(ADVISOR_SCHEMAS).join(", ")}`,
+      }],
+    };
+  }
+
+  const result = schemaFor({
+    components: registries.components ?? componentRegistry,
+    tools: registries.tools ?? toolRegistry,
+  }).safeParse(input);
+  if (result.success) {
+    return { ok: true, advisor: result.data };
+  }
+
+  return {
+    ok: false,
+    errors: result.error.issues.map((issue) => ({
+      path: formatFieldPath(issue.path),
+      message: issue.code === z.ZodIssueCode.unrecognized_keys ? `Not an advisor field: ${issue.keys.join(", ")}` : issue.message,
+    })),
+  };
+}
+
+/**
+ * Parse advisor JSON text and validate it; syntax errors are reported at the root
+ */
+export function parseAdvisorJSON(text: string): AdvisorValidationResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [{ path: "", message: `Invalid JSON: ${error instanceof Error ? error.message : "Unknown error"}` }] };
+  }
+  return validateAdvisorDocument(input);
+}
+
+/**
+ * One line per error, for places that can only show a message
+ */
+export function describeAdvisorErrors(errors: AdvisorFieldError[]): string {
+  return errors.map((error) => (error.path ? `${error.path}: ${error.message}` : error.message)).join("; ");
+}
+
+/**
+ * The authoring fields of a stored advisor (Convex document), as a draft for the studio
+ */
+export function advisorDraftFromDocument(advisor: {
+  persona: unknown;
+  status?: string;
+  roleDefinition?: unknown;
+  components?: unknown;
+  metadata?: unknown;
+  localization?: unknown;
+  modelHint?: string;
+  tags?: string[];
+}): Record<string, unknown> {
+  return {
+    advisorSchemaVersion: ADVISOR_SCHEMA_VERSION,
+    status: advisor.status ?? "active",
+    persona: advisor.persona ?? {},
+    roleDefinition: advisor.roleDefinition,
+    components: Array.isArray(advisor.components) ? advisor.components : [],
+    metadata: advisor.metadata,
+    localization: advisor.localization,
+    modelHint: advisor.modelHint,
+    tags: advisor.tags,
+  };
+}
+
+/**
+ * Copy of `draft` with the value at a dotted path replaced, creating objects and
+ * arrays on the way (numeric segments index arrays); `undefined` removes the field
+ */
+export function setAdvisorField<T extends Record<string, unknown>>(draft: T, path: string, value: unknown): T {
+  const [head, ...rest] = path.split(".");
+  if (head === undefined || head === "") return draft;
+
+  const container: Record<string, unknown> | unknown[] = Array.isArray(draft) ? [...(draft as unknown[])] : { ...draft };
+  const key: string | number = Array.isArray(container) ? Number(head) : head;
+  const current = (container as Record<string | number, unknown>)[key];
+
+  let next: unknown = value;
+  if (rest.length > 0) {
+    const child = current && typeof current === "object" ? current : /^\d+$/.test(rest[0]!) ? [] : {};
+    next = setAdvisorField(child as Record<string, unknown>, rest.join("."), value);
+  }
+
+  if (next === undefined && !Array.isArray(container)) {
+    delete container[head];
+  } else {
+    (container as Record<string | number, unknown>)[key] = next;
+  }
+  return container as T;
+}
+
+/**
+ * The value at a dotted path, or undefined when any step is missing
+ */
+export function getAdvisorField(draft: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    draft
+  );
+}
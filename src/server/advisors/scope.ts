@@ -0,0 +1,146 @@
+/**
+ * Scope-aware routing
+ *
+ * Advisor JSONs list what each advisor covers in `roleDefinition.scope.inScope` and
+ * what they don't in `outOfScope`, often naming who does ("Fundraising strategy
+ * (Alex's role)"). Incoming questions are matched against every active advisor's
+ * scope by keyword overlap to pick the best fit, flag when the current advisor is
+ * out of scope and suggest whom to hand off to.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js routes, Convex and the client.
+ */
+
+export interface AdvisorScope {
+  inScope: string[];
+  outOfScope: string[];
+}
+
+export interface ScopedAdvisor {
+  id: string;
+  name: string;
+  scope: AdvisorScope;
+}
+
+export interface ScopeMatch {
+  advisorId: string;
+  score: number;
+  /** inScope items the question touches */
+  inScopeMatches: string[];
+  /** outOfScope items the question touches */
+  outOfScopeMatches: string[];
+}
+
+export interface HandoffSuggestion {
+  advisorId: string;
+  advisorName: string;
+  /** The best fit's inScope item that matched, e.g. "Technical architecture review and recommendations" */
+  reason: string;
+}
+
+export interface ScopeRouting {
+  /** Highest scoring advisor, null when the question matches nobody's scope */
+  bestFitId: string | null;
+  /** The current advisor declared the topic out of scope, or another advisor clearly fits better */
+  currentOutOfScope: boolean;
+  handoff: HandoffSuggestion | null;
+  matches: ScopeMatch[];
+}
+
+const STOPWORDS = new Set([
+  "about", "and", "are", "but", "can", "could", "does", "for", "from", "have", "how", "into", "our",
+  "role", "should", "that", "the", "their", "this", "what", "when", "where", "which", "who", "why",
+  "will", "with", "would", "you", "your",
+]);
+
+// "(Amara's role)" names the advisor who owns an out-of-scope topic
+const ROLE_REFERENCE = /\(([A-Z][\w-]*)['’]s role\)/;
+
+function stem(word: string): string {
+  const stemmed = word.replace(/(ing|ions?|ments?|ness|es|ed|e|s)$/, "");
+  return stemmed.length >= 3 ? stemmed : word;
+}
+
+/** Distinct keyword stems of a text, without stopwords or short words */
+export function scopeKeywords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return new Set(words.filter(word => word.length >= 3 && !STOPWORDS.has(word)).map(stem));
+}
+
+const overlaps = (keywords: Set<string>, item: string) =>
+  [...scopeKeywords(item.replace(ROLE_REFERENCE, ""))].some(keyword => keywords.has(keyword));
+
+/**
+ * Read `roleDefinition.scope`; missing or malformed lists become empty
+ */
+export function parseAdvisorScope(roleDefinition: unknown): AdvisorScope {
+  const scope = (roleDefinition as { scope?: { inScope?: unknown; outOfScope?: unknown } } | null)?.scope;
+  const strings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : []);
+
+  return { inScope: strings(scope?.inScope), outOfScope: strings(scope?.outOfScope) };
+}
+
+/**
+ * Score every advisor's scope against the question, best fit first. An advisor gets a point per
+ * matching inScope item, loses one per matching outOfScope item, and gains one each time another
+ * advisor's matching outOfScope item names them as the owner.
+ */
+export function classifyQuestion(question: string, advisors: ScopedAdvisor[]): ScopeMatch[] {
+  const keywords = scopeKeywords(question);
+
+  const matches = advisors.map(advisor => {
+    const inScopeMatches = advisor.scope.inScope.filter(item => overlaps(keywords, item));
+    const outOfScopeMatches = advisor.scope.outOfScope.filter(item => overlaps(keywords, item));
+    return { advisorId: advisor.id, score: inScopeMatches.length - outOfScopeMatches.length, inScopeMatches, outOfScopeMatches };
+  });
+
+  for (const match of matches) {
+    for (const item of match.outOfScopeMatches) {
+      const owner = ROLE_REFERENCE.exec(item)?.[1]?.toLowerCase();
+      const referred = owner && advisors.find(a => a.id !== match.advisorId && a.name.split(" ")[0]?.toLowerCase() === owner);
+      const referredMatch = referred && matches.find(m => m.advisorId === referred.id);
+      if (referredMatch) referredMatch.score += 1;
+    }
+  }
+
+  // Stable sort keeps the advisors' own order on ties
+  return [...matches].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Best-fit advisor for the question and, when the current advisor is out of scope, whom to hand off to
+ */
+export function routeByScope(question: string, advisors: ScopedAdvisor[], currentAdvisorId?: string | null): ScopeRouting {
+  const matches = classifyQuestion(question, advisors);
+  const best = matches[0] && matches[0].score > 0 ? matches[0] : null;
+  const current = currentAdvisorId ? matches.find(m => m.advisorId === currentAdvisorId) : undefined;
+
+  const currentOutOfScope = Boolean(
+    best && current && best.advisorId !== current.advisorId && best.score > current.score &&
+      (current.outOfScopeMatches.length > 0 || current.inScopeMatches.length === 0)
+  );
+  const bestAdvisor = best ? advisors.find(a => a.id === best.advisorId) : undefined;
+
+  return {
+    bestFitId: best?.advisorId ?? null,
+    currentOutOfScope,
+    handoff: currentOutOfScope && best && bestAdvisor
+      ? { advisorId: best.advisorId, advisorName: bestAdvisor.name, reason: best.inScopeMatches[0] ?? bestAdvisor.scope.inScope[0] ?? "" }
+      : null,
+    matches,
+  };
+}
+
+/**
+ * System prompt section describing what the advisor covers, what they hand off and their constraints
+ */
+export function formatScopeForPrompt(scope: AdvisorScope, constraints: string[] = []): string {
+  const sections = [
+    ...(scope.inScope.length > 0 ? [`**In scope**:\n${scope.inScope.map(item => `• ${item}`).join("\n")}`] : []),
+    ...(scope.outOfScope.length > 0
+      ? [`**Out of scope** (say so and point the founder to the right advisor):\n${scope.outOfScope.map(item => `• ${item}`).join("\n")}`]
+      : []),
+    ...(constraints.length > 0 ? [`**Constraints**:\n${constraints.map(item => `• ${item}`).join("\n")}`] : []),
+  ];
+
+  return sections.length > 0 ? `## Your Scope\n${sections.join("\n\n")}` : "";
+}
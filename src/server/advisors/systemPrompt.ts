@@ -0,0 +1,145 @@
+import { buildComponentInstructions, resolveAdvisorComponents } from "./components";
+import { formatScopeForPrompt, parseAdvisorScope } from "./scope";
+import { formatMemoriesForPrompt, type AdvisorMemoryFact } from "../llm/memories";
+import { formatProfileForPrompt, type FounderProfile } from "../llm/profile";
+
+/**
+ * Advisor system prompt
+ *
+ * Builds the system prompt the Convex chat sends for an advisor document, and the
+ * one the advisor studio previews while a draft is edited. Drafts can be incomplete
+ * or invalid, so every field is read defensively and sections without content are
+ * left out.
+ *
+ * Pure helpers with no env or database access, shared by Convex and the advisor studio.
+ */
+
+/** The parts of an advisor document (or studio draft) the prompt is built from */
+export interface AdvisorPromptSource {
+  _id?: string;
+  persona: unknown;
+  roleDefinition?: unknown;
+  components?: unknown;
+  localization?: unknown;
+}
+
+type Fields = Record<string, unknown>;
+
+const fields = (value: unknown): Fields => (value && typeof value === "object" && !Array.isArray(value) ? (value as Fields) : {});
+
+const text = (value: unknown): string | undefined => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+const list = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(text).filter((entry): entry is string => Boolean(entry)) : [];
+
+const bullets = (items: string[]) => items.map(item => `• ${item}`).join("\n");
+
+/**
+ * Bio, archetype, beliefs, education and location; empty when the persona has none
+ */
+function formatBackgroundForPrompt(persona: Fields): string {
+  const education = fields(persona.education);
+  const degree = [text(education.degreeName), text(education.major)].filter(Boolean).join(" in ");
+  const educationLine = [
+    degree,
+    text(education.institution) && `from ${text(education.institution)}`,
+    typeof education.graduationYear === "number" && `(${education.graduationYear})`,
+  ].filter(Boolean).join(" ");
+  const location = fields(persona.location);
+  const locationLine = [text(location.city), text(location.region), text(location.country)].filter(Boolean).join(", ");
+  const beliefs = list(persona.coreBeliefsOrPrinciples);
+
+  const details = [
+    text(persona.archetype) && `**Archetype**: ${text(persona.archetype)}`,
+    text(persona.temperament) && `**Temperament**: ${text(persona.temperament)}`,
+    educationLine && `**Education**: ${educationLine}`,
+    locationLine && `**Location**: ${locationLine}`,
+  ].filter((line): line is string => Boolean(line));
+
+  const sections = [
+    ...(text(persona.bio) ? [text(persona.bio)!] : []),
+    ...(details.length > 0 ? [details.join("\n")] : []),
+    ...(beliefs.length > 0 ? [`**Core beliefs**:\n${bullets(beliefs)}`] : []),
+  ];
+
+  return sections.length > 0 ? `## Your Background\n${sections.join("\n\n")}` : "";
+}
+
+/**
+ * Mission and the KPIs the advisor's advice is measured by
+ */
+function formatMissionForPrompt(roleDefinition: Fields): string {
+  const kpis = (Array.isArray(roleDefinition.keyPerformanceIndicators) ? roleDefinition.keyPerformanceIndicators : [])
+    .map(fields)
+    .filter(kpi => text(kpi.metric))
+    .map(kpi => {
+      const unit = text(kpi.unit) ? ` (${text(kpi.unit)})` : "";
+      const description = text(kpi.description) ? `: ${text(kpi.description)}` : "";
+      return `${text(kpi.metric)}${unit}${description}`;
+    });
+
+  const sections = [
+    ...(text(roleDefinition.mission) ? [text(roleDefinition.mission)!] : []),
+    ...(kpis.length > 0 ? [`**How your advice is measured**:\n${bullets(kpis)}`] : []),
+  ];
+
+  return sections.length > 0 ? `## Your Mission\n${sections.join("\n\n")}` : "";
+}
+
+/**
+ * Voice, formality, sign-off and reply language
+ */
+function formatCommunicationForPrompt(persona: Fields, localization: Fields): string {
+  const delivery = fields(persona.adviceDelivery);
+  const guidelines = list(delivery.voiceGuidelines);
+  const languages = list(localization.supportedLanguages);
+  const defaultLanguage = text(localization.defaultLanguage) ?? text(localization.language);
+
+  const lines = [
+    text(persona.communicationStyle) && `- **Style**: ${text(persona.communicationStyle)}`,
+    text(delivery.mode) && `- **Mode**: ${text(delivery.mode)}`,
+    text(delivery.formality) && `- **Formality**: ${text(delivery.formality)}`,
+    guidelines.length > 0 && `- **Voice Guidelines**: ${guidelines.join(", ")}`,
+    delivery.useEmojis === false && "- Do not use emojis",
+    text(delivery.signOff) && `- **Sign-off**: Always end your responses with "${text(delivery.signOff)}"`,
+    languages.length > 1
+      ? `- **Language**: Reply in the founder's language when it is one of ${languages.join(", ")}; otherwise use ${defaultLanguage ?? languages[0]}`
+      : defaultLanguage && defaultLanguage !== "en" && `- **Language**: Reply in ${defaultLanguage}`,
+  ].filter((line): line is string => Boolean(line));
+
+  return lines.length > 0 ? `## Communication Style\n${lines.join("\n")}` : "";
+}
+
+/**
+ * System prompt for an advisor document, including the founder's shared profile
+ * and what this advisor remembers about the founder
+ */
+export function buildAdvisorSystemPrompt(
+  advisor: AdvisorPromptSource,
+  memories: AdvisorMemoryFact[] = [],
+  profile?: FounderProfile | null
+): string {
+  const persona = fields(advisor.persona);
+  const roleDefinition = fields(advisor.roleDefinition);
+  const name = text(persona.name) ?? "Advisor";
+  const { components } = resolveAdvisorComponents(advisor.components);
+  const methodsSection = buildComponentInstructions(components, { advisorId: advisor._id ?? "", advisorName: name });
+  const scopeSection = formatScopeForPrompt(parseAdvisorScope(advisor.roleDefinition), list(roleDefinition.constraints));
+  const backgroundSection = formatBackgroundForPrompt(persona);
+  const missionSection = formatMissionForPrompt(roleDefinition);
+  const communicationSection = formatCommunicationForPrompt(persona, fields(advisor.localization));
+  const profileSection = formatProfileForPrompt(profile);
+  const memorySection = formatMemoriesForPrompt(memories);
+  const expertise = list(persona.expertise).length > 0 ? list(persona.expertise) : list(persona.specialties);
+
+  return `You are ${name}, ${text(persona.title) ?? "an advisor"}.
+
+${text(persona.description) ?? text(persona.oneLiner) ?? "You are an expert advisor ready to help with any questions."}
+
+${backgroundSection ? `${backgroundSection}\n\n` : ""}Your expertise includes: ${expertise.join(", ") || "general advice"}
+${[missionSection, scopeSection, communicationSection, methodsSection, profileSection, memorySection]
+  .filter(Boolean)
+  .map(section => `\n${section}\n`)
+  .join("")}
+Please provide helpful, accurate, and personalized advice based on your expertise. Be conversational but professional.`;
+}
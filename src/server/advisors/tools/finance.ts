@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { defineTool } from "./types";
+
+/** Runway projections stop here; cash that lasts longer counts as default alive */
+export const MAX_RUNWAY_MONTHS = 120;
+
+const round = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const money = { type: "number", minimum: 0 };
+const percent = (description: string) => ({ type: "number", description: `${description}, in percent (5 = 5%)` });
+
+export const runwayArgsSchema = z.object({
+  cashOnHand: z.number().min(0),
+  monthlyBurn: z.number().min(0),
+  monthlyRevenue: z.number().min(0).default(0),
+  revenueGrowthPercent: z.number().min(-100).default(0),
+  burnGrowthPercent: z.number().min(-100).default(0),
+});
+
+/**
+ * Months of runway from cash, gross burn and revenue, optionally with monthly growth in both
+ */
+export const runwayCalculator = defineTool({
+  name: "runwayCalculator",
+  description: "Project how many months of runway a startup has from its cash, monthly burn and revenue, with optional monthly growth rates.",
+  parameters: {
+    type: "object",
+    properties: {
+      cashOnHand: { ...money, description: "Cash in the bank today" },
+      monthlyBurn: { ...money, description: "Gross monthly spend" },
+      monthlyRevenue: { ...money, description: "Current monthly revenue" },
+      revenueGrowthPercent: percent("Month-over-month revenue growth"),
+      burnGrowthPercent: percent("Month-over-month growth in spend"),
+    },
+    required: ["cashOnHand", "monthlyBurn"],
+  },
+  argsSchema: runwayArgsSchema,
+  execute: (args) => {
+    const netBurn = args.monthlyBurn - args.monthlyRevenue;
+    let cash = args.cashOnHand;
+    let burn = args.monthlyBurn;
+    let revenue = args.monthlyRevenue;
+    let runwayMonths: number | null = null;
+
+    for (let month = 0; month < MAX_RUNWAY_MONTHS; month++) {
+      const net = burn - revenue;
+      if (net > 0 && cash < net) {
+        runwayMonths = round(month + cash / net);
+        break;
+      }
+      cash -= net;
+      burn *= 1 + args.burnGrowthPercent / 100;
+      revenue *= 1 + args.revenueGrowthPercent / 100;
+    }
+
+    return {
+      netMonthlyBurn: round(netBurn, 2),
+      // null: the cash outlasts the projection window
+      runwayMonths,
+      defaultAlive: runwayMonths === null,
+      projectionMonths: MAX_RUNWAY_MONTHS,
+    };
+  },
+});
+
+export const unitEconomicsArgsSchema = z.object({
+  cac: z.number().min(0),
+  monthlyRevenuePerCustomer: z.number().min(0),
+  grossMarginPercent: z.number().min(0).max(100).default(100),
+  monthlyChurnPercent: z.number().gt(0).max(100),
+});
+
+/**
+ * LTV, LTV:CAC and CAC payback from per-customer revenue, margin and churn
+ */
+export const unitEconomicsCalculator = defineTool({
+  name: "unitEconomicsCalculator",
+  description: "Compute customer lifetime value (LTV), the LTV:CAC ratio and CAC payback months from acquisition cost, revenue per customer, gross margin and churn.",
+  parameters: {
+    type: "object",
+    properties: {
+      cac: { ...money, description: "Customer acquisition cost" },
+      monthlyRevenuePerCustomer: { ...money, description: "Average monthly revenue per customer" },
+      grossMarginPercent: percent("Gross margin"),
+      monthlyChurnPercent: percent("Share of customers lost each month"),
+    },
+    required: ["cac", "monthlyRevenuePerCustomer", "monthlyChurnPercent"],
+  },
+  argsSchema: unitEconomicsArgsSchema,
+  execute: (args) => {
+    const monthlyGrossProfit = args.monthlyRevenuePerCustomer * (args.grossMarginPercent / 100);
+    const lifetimeMonths = 100 / args.monthlyChurnPercent;
+    const ltv = monthlyGrossProfit * lifetimeMonths;
+    const ltvToCac = args.cac > 0 ? ltv / args.cac : null;
+    const paybackMonths = monthlyGrossProfit > 0 ? args.cac / monthlyGrossProfit : null;
+
+    // Rule of thumb: LTV at least 3x CAC, paid back within a year
+    const assessment = ltvToCac === null || (ltvToCac >= 3 && paybackMonths !== null && paybackMonths <= 12)
+      ? "healthy"
+      : ltvToCac >= 1
+        ? "marginal"
+        : "unprofitable";
+
+    return {
+      ltv: round(ltv, 2),
+      ltvToCac: ltvToCac === null ? null : round(ltvToCac, 2),
+      paybackMonths: paybackMonths === null ? null : round(paybackMonths),
+      customerLifetimeMonths: round(lifetimeMonths),
+      assessment,
+    };
+  },
+});
+
+export const capTableArgsSchema = z.object({
+  shareholders: z.array(z.object({
+    name: z.string().min(1),
+    shares: z.number().gt(0),
+  })).min(1),
+  rounds: z.array(z.object({
+    name: z.string().min(1),
+    preMoneyValuation: z.number().gt(0),
+    investment: z.number().gt(0),
+    optionPoolPercent: z.number().min(0).max(50).default(0),
+  })).min(1),
+});
+
+export const OPTION_POOL_HOLDER = "Option pool";
+
+/**
+ * Ownership after one or more priced rounds. A round's option pool is created pre-money,
+ * sized as a percentage of the post-money cap table, so it dilutes existing holders only.
+ */
+export const capTableSimulator = defineTool({
+  name: "capTableSimulator",
+  description: "Simulate dilution across priced funding rounds: share price, new shares and each holder's ownership, including an optional pre-money option pool top-up.",
+  parameters: {
+    type: "object",
+    properties: {
+      shareholders: {
+        type: "array",
+        description: "Current holders and their share counts",
+        items: {
+          type: "object",
+          properties: { name: { type: "string" }, shares: { type: "number", exclusiveMinimum: 0 } },
+          required: ["name", "shares"],
+        },
+      },
+      rounds: {
+        type: "array",
+        description: "Rounds in order",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "e.g. Seed" },
+            preMoneyValuation: { type: "number", exclusiveMinimum: 0 },
+            investment: { type: "number", exclusiveMinimum: 0 },
+            optionPoolPercent: percent("New option pool as a share of post-money"),
+          },
+          required: ["name", "preMoneyValuation", "investment"],
+        },
+      },
+    },
+    required: ["shareholders", "rounds"],
+  },
+  argsSchema: capTableArgsSchema,
+  execute: (args) => {
+    const holdings = new Map<string, number>();
+    for (const holder of args.shareholders) {
+      holdings.set(holder.name, (holdings.get(holder.name) ?? 0) + holder.shares);
+    }
+    const totalShares = () => Array.from(holdings.values()).reduce((sum, shares) => sum + shares, 0);
+    const initialTotal = totalShares();
+    const initialOwnership = new Map(Array.from(holdings, ([name, shares]) => [name, shares / initialTotal]));
+
+    const rounds = args.rounds.map(roundArgs => {
+      const before = totalShares();
+      const postMoney = roundArgs.preMoneyValuation + roundArgs.investment;
+      const investorShare = roundArgs.investment / postMoney;
+      const poolShare = roundArgs.optionPoolPercent / 100;
+      if (investorShare + poolShare >= 1) {
+        throw new Error(`${roundArgs.name}: the investment and option pool leave nothing for existing holders`);
+      }
+
+      const after = before / (1 - investorShare - poolShare);
+      const newShares = after * investorShare;
+      const poolShares = after * poolShare;
+      const investors = `${roundArgs.name} investors`;
+      holdings.set(investors, (holdings.get(investors) ?? 0) + newShares);
+      if (poolShares > 0) holdings.set(OPTION_POOL_HOLDER, (holdings.get(OPTION_POOL_HOLDER) ?? 0) + poolShares);
+
+      return {
+        name: roundArgs.name,
+        postMoneyValuation: round(postMoney, 2),
+        pricePerShare: round(roundArgs.investment / newShares, 4),
+        newShares: Math.round(newShares),
+        poolShares: Math.round(poolShares),
+      };
+    });
+
+    const finalTotal = totalShares();
+    return {
+      rounds,
+      capTable: Array.from(holdings, ([name, shares]) => {
+        const ownership = shares / finalTotal;
+        const initial = initialOwnership.get(name);
+        return {
+          name,
+          shares: Math.round(shares),
+          ownershipPercent: round(ownership * 100, 2),
+          // How much of their starting stake each original holder gave up
+          dilutionPercent: initial === undefined ? null : round((1 - ownership / initial) * 100, 2),
+        };
+      }),
+    };
+  },
+});
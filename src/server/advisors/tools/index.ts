@@ -0,0 +1,26 @@
+/**
+ * Advisor tools
+ *
+ * Advisors can call functions mid-reply: the model asks for a tool, the chat pipeline
+ * runs it and sends the result back until the model answers in text (at most
+ * MAX_TOOL_ROUNDS round trips). Each advisor JSON lists the tools it may use in
+ * `roleDefinition.tools`; names without a registered tool are skipped. Executed calls
+ * are saved under `contentJson.toolCalls`.
+ *
+ * Pure module with no env or database access, shared by the Next.js routes and Convex.
+ */
+
+export * from "./types";
+export {
+  DEFAULT_TOOLS,
+  MAX_TOOL_ROUNDS,
+  buildToolResultMessages,
+  createToolRegistry,
+  executeToolCall,
+  parseAdvisorToolNames,
+  resolveAdvisorTools,
+  toToolDefinitions,
+  toolRegistry,
+  type ToolRegistry,
+} from "./registry";
+export { MAX_RUNWAY_MONTHS, OPTION_POOL_HOLDER } from "./finance";
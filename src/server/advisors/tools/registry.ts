@@ -0,0 +1,125 @@
+import type { ChatCompletionMessage, ChatToolCall, ChatToolDefinition } from "../../llm/providers";
+import type { AdvisorTool, ToolCallRecord, ToolContext, ToolResult } from "./types";
+import { capTableSimulator, runwayCalculator, unitEconomicsCalculator } from "./finance";
+import { saveMemory } from "./saveMemory";
+
+/** Upper bound on model → tools → model round trips in one reply; the last request offers no tools */
+export const MAX_TOOL_ROUNDS = 3;
+
+export interface ToolRegistry {
+  register(tool: AdvisorTool<any>): void;
+  get(name: string): AdvisorTool<any> | undefined;
+  list(): AdvisorTool<any>[];
+}
+
+export function createToolRegistry(tools: AdvisorTool<any>[] = []): ToolRegistry {
+  const byName = new Map<string, AdvisorTool<any>>();
+
+  const registry: ToolRegistry = {
+    register(tool) {
+      byName.set(tool.name, tool);
+    },
+    get(name) {
+      return byName.get(name);
+    },
+    list() {
+      return Array.from(byName.values());
+    },
+  };
+
+  tools.forEach(tool => registry.register(tool));
+  return registry;
+}
+
+export const DEFAULT_TOOLS: AdvisorTool<any>[] = [
+  runwayCalculator,
+  unitEconomicsCalculator,
+  capTableSimulator,
+  saveMemory,
+];
+
+/** Every tool advisors can declare */
+export const toolRegistry = createToolRegistry(DEFAULT_TOOLS);
+
+/**
+ * Read `roleDefinition.tools`, the names of the tools an advisor may call
+ */
+export function parseAdvisorToolNames(roleDefinition: unknown): string[] {
+  const tools = (roleDefinition as { tools?: unknown } | null)?.tools;
+  return Array.isArray(tools) ? tools.filter((name): name is string => typeof name === "string") : [];
+}
+
+/**
+ * The advisor's declared tools that exist in the registry; unknown names are skipped
+ */
+export function resolveAdvisorTools(roleDefinition: unknown, registry: ToolRegistry = toolRegistry): AdvisorTool<any>[] {
+  return Array.from(new Set(parseAdvisorToolNames(roleDefinition)))
+    .map(name => registry.get(name))
+    .filter((tool): tool is AdvisorTool<any> => Boolean(tool));
+}
+
+/**
+ * What the provider sends the model in `tools`
+ */
+export function toToolDefinitions(tools: AdvisorTool<any>[]): ChatToolDefinition[] {
+  return tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Validate and run one requested call. Unknown tools, invalid arguments and thrown errors
+ * become a record with `error` so the model can recover instead of failing the turn.
+ */
+export async function executeToolCall(
+  tools: AdvisorTool<any>[],
+  call: ChatToolCall,
+  context: ToolContext
+): Promise<ToolCallRecord> {
+  let rawArgs: unknown;
+  try {
+    rawArgs = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return { id: call.id, name: call.name, arguments: call.arguments, error: "Arguments are not valid JSON" };
+  }
+  const args = rawArgs !== null && typeof rawArgs === "object" && !Array.isArray(rawArgs)
+    ? (rawArgs as Record<string, ToolResult>)
+    : call.arguments;
+  const record = { id: call.id, name: call.name, arguments: args };
+
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) {
+    return { ...record, error: `Unknown tool "${call.name}"` };
+  }
+
+  const parsed = tool.argsSchema.safeParse(rawArgs);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return { ...record, error: `Invalid arguments: ${issue ? `${issue.path.join(".") || "input"} ${issue.message}` : "rejected"}` };
+  }
+
+  try {
+    const result: ToolResult = await tool.execute(parsed.data, context);
+    return { ...record, result };
+  } catch (error) {
+    console.warn(`Advisor tool ${call.name} failed:`, error);
+    return { ...record, error: error instanceof Error ? error.message : "Tool failed" };
+  }
+}
+
+/**
+ * The assistant turn that asked for the calls followed by one tool message per result,
+ * appended to the conversation for the model's next round
+ */
+export function buildToolResultMessages(
+  content: string,
+  calls: ChatToolCall[],
+  records: ToolCallRecord[]
+): ChatCompletionMessage[] {
+  return [
+    { role: "assistant", content, toolCalls: calls },
+    ...records.map(record => ({
+      role: "tool" as const,
+      toolCallId: record.id,
+      content: JSON.stringify(record.error !== undefined ? { error: record.error } : record.result ?? null),
+    })),
+  ];
+}
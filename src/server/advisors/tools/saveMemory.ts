@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { defineTool } from "./types";
+import { normalizeMemoryKey } from "../../llm/memories";
+
+export const saveMemoryArgsSchema = z.object({
+  key: z.string().transform(normalizeMemoryKey).pipe(z.string().min(1)),
+  value: z.union([z.string().trim().min(1).max(300), z.number(), z.boolean()]),
+});
+
+/**
+ * Lets the advisor remember a fact about the founder right away instead of waiting for
+ * the extraction pass after the turn. Keys share the advisor memories' snake_case space.
+ */
+export const saveMemory = defineTool({
+  name: "saveMemory",
+  description: "Remember a durable fact about the founder or their company for the rest of the conversation (e.g. runway_months, team_size, main_goal).",
+  parameters: {
+    type: "object",
+    properties: {
+      key: { type: "string", description: "snake_case name of the fact" },
+      value: { type: ["string", "number", "boolean"], description: "Short value" },
+    },
+    required: ["key", "value"],
+  },
+  argsSchema: saveMemoryArgsSchema,
+  execute: async (args, context) => {
+    if (!context.saveMemory) {
+      throw new Error("Memories can't be saved in this conversation");
+    }
+    await context.saveMemory(args.key, args.value);
+    return { saved: true, key: args.key, value: args.value };
+  },
+});
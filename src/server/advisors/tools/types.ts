@@ -0,0 +1,56 @@
+import type { z } from "zod";
+import type { MemoryValue } from "../../llm/memories";
+
+/**
+ * What a tool knows about the turn it runs in. Side effects go through callbacks
+ * so the tools stay free of database access.
+ */
+export interface ToolContext {
+  advisorId: string;
+  conversationId: string;
+  /** Upsert one of the advisor's memories; absent when the caller can't persist them */
+  saveMemory?(key: string, value: MemoryValue): Promise<void>;
+}
+
+/**
+ * JSON-serialisable result of a tool, sent back to the model and saved with the message
+ */
+export type ToolResult =
+  | string
+  | number
+  | boolean
+  | null
+  | ToolResult[]
+  | { [key: string]: ToolResult };
+
+/**
+ * A function advisors may call. `parameters` is the JSON Schema the model sees;
+ * `argsSchema` validates and defaults what it sends back.
+ */
+export interface AdvisorTool<Args = unknown> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  argsSchema: z.ZodType<Args, z.ZodTypeDef, unknown>;
+  execute(args: Args, context: ToolContext): ToolResult | Promise<ToolResult>;
+}
+
+/**
+ * One executed call as saved under `contentJson.toolCalls` and shown in the message list
+ */
+export type ToolCallRecord = {
+  id: string;
+  name: string;
+  /** Parsed arguments, or the raw string when the model sent invalid JSON */
+  arguments: Record<string, ToolResult> | string;
+  result?: ToolResult;
+  /** Set instead of `result` when the call was rejected or failed */
+  error?: string;
+};
+
+/**
+ * Identity helper that keeps the argument type flowing from the schema into `execute`
+ */
+export function defineTool<Args>(tool: AdvisorTool<Args>): AdvisorTool<Args> {
+  return tool;
+}
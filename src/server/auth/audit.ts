@@ -0,0 +1,67 @@
+/**
+ * Audit log
+ *
+ * Privileged and destructive operations (trashing and deleting conversations,
+ * changing plans and roles, editing or uploading advisors, migrations) append an
+ * event to the auditEvents table: who did it, what they did it to, the fields
+ * that changed and where the request came from. Events are never updated or
+ * deleted.
+ *
+ * Pure helpers with no env or database access, shared by the Convex audit writer
+ * and the tests.
+ */
+
+export const AUDIT_ACTIONS = [
+  "conversation.trash",
+  "conversation.restore",
+  "conversation.delete",
+  "conversation.purge",
+  "advisor.create",
+  "advisor.update",
+  "advisor.archive",
+  "advisor.delete",
+  "advisor.upload",
+  "advisor.backfill",
+  "user.create",
+  "user.plan",
+  "user.profile",
+  "user.role",
+  "user.delete",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** How the caller proved who they are */
+export type AuditCredential = "session" | "migration-secret" | "internal";
+
+export interface AuditOrigin {
+  /** The Convex function that made the change, e.g. "advisors:updateAdvisor" */
+  function: string;
+  credential: AuditCredential;
+}
+
+export interface AuditDiff {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+// Bookkeeping fields that change on every write and say nothing about the change
+const IGNORED_FIELDS = new Set(["_id", "_creationTime", "updatedAt"]);
+
+/**
+ * The fields that differ between two versions of a document. A missing side (a
+ * create or a delete) counts as empty, so every field shows up on the other side.
+ */
+export function diffFields(before?: Record<string, unknown> | null, after?: Record<string, unknown> | null): AuditDiff {
+  const diff: AuditDiff = { before: {}, after: {} };
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const previous = before?.[key];
+    const next = after?.[key];
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    if (previous !== undefined) diff.before[key] = previous;
+    if (next !== undefined) diff.after[key] = next;
+  }
+  return diff;
+}
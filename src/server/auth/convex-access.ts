@@ -0,0 +1,141 @@
+/**
+ * Convex function access audit
+ *
+ * Every public Convex query, mutation and action, and who may call it. Anything
+ * exported from convex/ without `internal` can be called by any browser, so each
+ * one is listed here; tests/roles.spec.ts fails when a function is added
+ * without an entry, or when an entry's check is missing from the function.
+ *
+ * - public: no sign-in; advisor catalogue data only
+ * - user: signed in; reads and writes only the caller's own records
+ * - conversation: signed in and owns the conversation the records belong to
+ * - migration: scripts holding MIGRATION_SECRET, or roles with migrations:run
+ * - admin: the admin or owner role
+ * - a permission: roles holding it (see ./roles)
+ *
+ * Pure data with no env or database access, shared by the audit test and docs.
+ */
+
+import type { Permission } from "./roles";
+
+export type FunctionAccess = "public" | "user" | "conversation" | "migration" | "admin" | Permission;
+
+export const CONVEX_FUNCTION_ACCESS: Record<string, FunctionAccess> = {
+  "advisorMemories:getConversationMemories": "conversation",
+  "advisorMemories:getMemoryByKey": "conversation",
+  "advisorMemories:create": "migration",
+  "advisorMemories:setMemory": "conversation",
+  "advisorMemories:deleteMemory": "conversation",
+  "advisorMemories:clearAdvisorMemories": "conversation",
+  "advisorMemories:list": "migration",
+
+  "advisors:getActiveAdvisors": "public",
+  "advisors:getAllAdvisors": "public",
+  "advisors:getAdvisorById": "public",
+  "advisors:getAdvisorsByTags": "public",
+  "advisors:create": "migration",
+  "advisors:createAdvisor": "advisors:write",
+  "advisors:updateAdvisor": "advisors:write",
+  "advisors:archiveAdvisor": "advisors:write",
+  "advisors:deleteAdvisor": "advisors:delete",
+  "advisors:list": "public",
+  "advisors:getAdvisors": "public",
+  "advisors:backfillAdvisorPersonas": "migration",
+  "advisors:backfillAdvisorPhotos": "migration",
+  "advisors:backfillAdvisorPersonaFieldsFromJSON": "migration",
+  "advisors:uploadAdvisorJSON": "advisors:write",
+  "advisors:enrichAdvisorsFromJSON": "migration",
+
+  "audit:getAuditEvents": "audit:read",
+
+  "auth:syncUserFromClerk": "user",
+  "auth:ensureUserExists": "user",
+  "auth:getCurrentUserInfo": "user",
+  "auth:updateCurrentUserProfile": "user",
+  "auth:updateCurrentUserPlan": "users:manage",
+  "auth:deleteCurrentUser": "user",
+  "auth:hasUserPlan": "user",
+  "auth:getCurrentUserStats": "user",
+
+  "chat:getModelOptions": "user",
+  "chat:sendChatMessage": "conversation",
+
+  "conversations:getUserConversations": "user",
+  "conversations:getConversationById": "conversation",
+  "conversations:create": "migration",
+  "conversations:createConversation": "user",
+  "conversations:updateConversation": "conversation",
+  "conversations:deleteConversation": "conversation",
+  "conversations:restoreConversation": "conversation",
+  "conversations:deleteConversationForever": "conversation",
+  "conversations:getTrashedConversations": "user",
+  "conversations:getConversationExport": "conversation",
+  "conversations:importConversations": "user",
+  "conversations:list": "migration",
+  "conversations:getConversations": "user",
+
+  "documents:getConversationDocuments": "conversation",
+  "documents:getConversationChunks": "conversation",
+  "documents:uploadDocument": "conversation",
+  "documents:deleteDocument": "conversation",
+
+  "feedback:submitFeedback": "conversation",
+  "feedback:getFeedbackSummary": "feedback:review",
+  "feedback:getFeedbackContext": "feedback:review",
+
+  "intake:getIntake": "conversation",
+  "intake:startIntake": "conversation",
+  "intake:answerIntakeQuestion": "conversation",
+  "intake:finishIntake": "conversation",
+
+  "messages:getConversationMessages": "conversation",
+  "messages:getRecentMessages": "user",
+  "messages:create": "migration",
+  "messages:sendMessage": "conversation",
+  "messages:forkMessage": "conversation",
+  "messages:selectBranch": "conversation",
+  "messages:updateMessage": "conversation",
+  "messages:deleteMessage": "conversation",
+  "messages:getMessageById": "conversation",
+  "messages:searchMessages": "user",
+  "messages:getMessageStats": "conversation",
+  "messages:list": "migration",
+
+  "realtime:setTypingStatus": "conversation",
+  "realtime:getTypingUsers": "conversation",
+  "realtime:updateUserPresence": "user",
+  // Other users' presence needs users:read
+  "realtime:getUserPresence": "user",
+  "realtime:getOnlineUsers": "users:read",
+  "realtime:getUsersInConversation": "conversation",
+  "realtime:cleanupStaleRecords": "admin",
+  "realtime:trackUserActivity": "conversation",
+
+  "threadSummaries:getConversationSummaries": "conversation",
+  "threadSummaries:getSummaryById": "conversation",
+  "threadSummaries:create": "migration",
+  "threadSummaries:createSummary": "conversation",
+  "threadSummaries:updateSummary": "conversation",
+  "threadSummaries:deleteSummary": "conversation",
+  "threadSummaries:clearConversationSummaries": "conversation",
+  "threadSummaries:getSummaryStats": "conversation",
+  "threadSummaries:list": "migration",
+
+  "usage:getUsage": "user",
+
+  "userProfiles:getMyProfile": "user",
+  "userProfiles:updateMyProfile": "user",
+  "userProfiles:resolveProposal": "user",
+  "userProfiles:proposeUpdates": "user",
+
+  "users:getOrCreateUser": "migration",
+  "users:getUserByClerkId": "users:read",
+  "users:getUserById": "users:read",
+  "users:updateUserPlan": "users:manage",
+  "users:updateUserProfile": "users:manage",
+  "users:getAllUsers": "users:read",
+  "users:deleteUser": "users:manage",
+  "users:create": "migration",
+  "users:list": "migration",
+  "users:setUserRole": "roles:assign",
+};
@@ -0,0 +1,135 @@
+/**
+ * Sliding-window rate limiting
+ *
+ * Each user has one bucket per action holding the times of their recent requests.
+ * A request is allowed while fewer than `limit` requests fall inside the last
+ * `windowMs`; otherwise the caller is told how long until the oldest one leaves
+ * the window. Convex keeps buckets in the rateLimits table (convex/middleware
+ * checkRateLimit); the Next routes keep them in memory per server instance.
+ *
+ * Pure helpers with no env or database access; the clock is passed in so tests
+ * can use a fake one.
+ */
+
+export type RateLimitAction = "chatSend" | "conversationCreate" | "advisorUpload" | "titleGeneration" | "conversationImport";
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const RATE_LIMITS: Record<RateLimitAction, RateLimitRule> = {
+  chatSend: { limit: 20, windowMs: MINUTE },
+  conversationCreate: { limit: 30, windowMs: HOUR },
+  advisorUpload: { limit: 10, windowMs: HOUR },
+  titleGeneration: { limit: 30, windowMs: HOUR },
+  conversationImport: { limit: 5, windowMs: HOUR },
+};
+
+const ACTION_LABELS: Record<RateLimitAction, string> = {
+  chatSend: "messages",
+  conversationCreate: "new conversations",
+  advisorUpload: "advisor uploads",
+  titleGeneration: "title generations",
+  conversationImport: "imports",
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Requests left in the current window after this one */
+  remaining: number;
+  /** 0 when allowed; otherwise how long until a request would be allowed */
+  retryAfterMs: number;
+  /** When the oldest request in the window expires */
+  resetAt: number;
+}
+
+/**
+ * Apply one request to a bucket. Returns the decision and the hits to store:
+ * the ones still inside the window, plus this request when it is allowed.
+ */
+export function slideWindow(hits: number[], rule: RateLimitRule, now: number): { result: RateLimitResult; hits: number[] } {
+  const recent = hits.filter(hit => hit > now - rule.windowMs && hit <= now).sort((a, b) => a - b);
+
+  if (recent.length >= rule.limit) {
+    // Allowed again once enough of the oldest hits have left the window
+    const freedAt = recent[recent.length - rule.limit]! + rule.windowMs;
+    return {
+      result: { allowed: false, limit: rule.limit, remaining: 0, retryAfterMs: freedAt - now, resetAt: recent[0]! + rule.windowMs },
+      hits: recent,
+    };
+  }
+
+  const next = [...recent, now];
+  return {
+    result: { allowed: true, limit: rule.limit, remaining: rule.limit - next.length, retryAfterMs: 0, resetAt: next[0]! + rule.windowMs },
+    hits: next,
+  };
+}
+
+/**
+ * What the user is told when a request is refused
+ */
+export function describeRateLimit(action: string, result: RateLimitResult): string {
+  const label = ACTION_LABELS[action as RateLimitAction] ?? "requests";
+  return `Too many ${label}. Try again in ${Math.max(1, Math.ceil(result.retryAfterMs / 1000))} seconds.`;
+}
+
+export class RateLimitError extends Error {
+  action: string;
+  result: RateLimitResult;
+
+  constructor(action: string, result: RateLimitResult) {
+    super(describeRateLimit(action, result));
+    this.name = "RateLimitError";
+    this.action = action;
+    this.result = result;
+  }
+}
+
+/**
+ * In-memory limiter for the Next routes; buckets are keyed by user and action.
+ * Buckets whose hits have all left their window are dropped, at most once per
+ * longest window, so users who stop sending don't keep memory forever.
+ */
+export function createRateLimiter(rules: Record<RateLimitAction, RateLimitRule> = RATE_LIMITS, clock: () => number = () => Date.now()) {
+  const buckets = new Map<string, { hits: number[]; windowMs: number }>();
+  const sweepEveryMs = Math.max(...Object.values(rules).map(rule => rule.windowMs));
+  let lastSweep = clock();
+
+  const sweep = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (bucket.hits.every(hit => hit <= now - bucket.windowMs)) buckets.delete(key);
+    }
+    lastSweep = now;
+  };
+
+  return {
+    check(userId: string, action: RateLimitAction): RateLimitResult {
+      const now = clock();
+      if (now - lastSweep >= sweepEveryMs) sweep(now);
+
+      const key = `${userId}:${action}`;
+      const rule = rules[action];
+      const { result, hits } = slideWindow(buckets.get(key)?.hits ?? [], rule, now);
+      buckets.set(key, { hits, windowMs: rule.windowMs });
+      return result;
+    },
+    /** Like check, but throws RateLimitError when the request is refused */
+    enforce(userId: string, action: RateLimitAction): RateLimitResult {
+      const result = this.check(userId, action);
+      if (!result.allowed) {
+        throw new RateLimitError(action, result);
+      }
+      return result;
+    },
+    /** Buckets currently held in memory */
+    get size(): number {
+      return buckets.size;
+    },
+  };
+}
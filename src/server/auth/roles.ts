@@ -0,0 +1,98 @@
+/**
+ * Roles and permissions
+ *
+ * Access to admin functions comes from a user's role, not their plan: the plan
+ * only decides models and quotas. Roles are ranked owner > admin > advisor-author
+ * > member, and every user without a stored role is a member. Each permission
+ * names the lowest role that holds it, so a higher role holds everything a lower
+ * one does.
+ *
+ * Pure helpers with no env or database access, shared by the Convex middleware,
+ * the user admin functions and the client.
+ */
+
+export const ROLES = ["owner", "admin", "advisor-author", "member"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "member";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  "advisor-author": "Advisor author",
+  member: "Member",
+};
+
+const ROLE_RANK: Record<Role, number> = {
+  owner: 3,
+  admin: 2,
+  "advisor-author": 1,
+  member: 0,
+};
+
+export type Permission =
+  | "advisors:write"
+  | "advisors:delete"
+  | "users:read"
+  | "users:manage"
+  | "roles:assign"
+  | "feedback:review"
+  | "audit:read"
+  | "migrations:run";
+
+/** The lowest role holding each permission */
+export const PERMISSIONS: Record<Permission, Role> = {
+  "advisors:write": "advisor-author",
+  "advisors:delete": "admin",
+  "users:read": "admin",
+  "users:manage": "admin",
+  "roles:assign": "admin",
+  "feedback:review": "admin",
+  "audit:read": "admin",
+  "migrations:run": "admin",
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * A user's role; missing or unknown values are members
+ */
+export function resolveRole(user?: { role?: string | null } | null): Role {
+  return isRole(user?.role) ? user.role : DEFAULT_ROLE;
+}
+
+/**
+ * Whether `role` ranks at or above `minimum`
+ */
+export function hasRole(role: Role, minimum: Role): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return hasRole(role, PERMISSIONS[permission]);
+}
+
+/**
+ * Whether `actor` may change a user from `current` to `next`. Owners can assign any
+ * role; admins can only move users between the roles below admin.
+ */
+export function canAssignRole(actor: Role, current: Role, next: Role): boolean {
+  if (!hasPermission(actor, "roles:assign")) return false;
+  if (actor === "owner") return true;
+  return ROLE_RANK[current] < ROLE_RANK[actor] && ROLE_RANK[next] < ROLE_RANK[actor];
+}
+
+export class AccessDeniedError extends Error {
+  required: Role;
+  role: Role;
+
+  constructor(required: Role, role: Role) {
+    super(`Access denied: ${ROLE_LABELS[required]} role required`);
+    this.name = "AccessDeniedError";
+    this.required = required;
+    this.role = role;
+  }
+}
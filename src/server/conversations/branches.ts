@@ -0,0 +1,123 @@
+/**
+ * Conversation branches
+ *
+ * Messages form a tree: each one points at the message it follows. Editing a past
+ * user message adds a sibling next to it (a new branch) and the advisor's reply is
+ * regenerated under the sibling, so the original branch stays intact. A conversation
+ * shows one path through the tree: the branch through its anchor message (the
+ * branch the founder last picked or created), continued down the newest replies.
+ *
+ * Asking an advisor to regenerate works the same way: the new reply is a sibling of
+ * the old one under the same user message, and the variant shown is the one later
+ * turns (and their prompt context) build on.
+ *
+ * Messages written before branching have no parent field and are read as one linear
+ * thread in time order; an explicit `null` parent marks a root.
+ *
+ * Pure helpers with no env or database access, shared by Convex and the client.
+ */
+
+export interface BranchNode {
+  id: string;
+  /** undefined: legacy linear message; null: root of the tree */
+  parentMessageId?: string | null;
+  createdAt: number;
+}
+
+export interface BranchPosition {
+  /** 1-based position among the message's siblings, oldest first */
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+export type BranchPathMessage<T> = T & { branch: BranchPosition | null };
+
+/** One regenerated take on an advisor turn, as shown in the comparison view */
+export interface MessageVariant {
+  id: string;
+  content: string;
+  model: string | null;
+  temperature: number | null;
+  createdAt: number;
+}
+
+/**
+ * The parent of every message; legacy messages follow the previous legacy message.
+ * Parents that no longer exist make a message a root.
+ */
+export function resolveMessageParents(messages: BranchNode[]): Map<string, string | null> {
+  const ids = new Set(messages.map(message => message.id));
+  const parents = new Map<string, string | null>();
+  let previousLegacy: string | null = null;
+
+  for (const message of [...messages].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (message.parentMessageId === undefined) {
+      parents.set(message.id, previousLegacy);
+      previousLegacy = message.id;
+    } else {
+      parents.set(message.id, message.parentMessageId && ids.has(message.parentMessageId) ? message.parentMessageId : null);
+    }
+  }
+  return parents;
+}
+
+/**
+ * The path shown for a conversation, root first, with sibling positions for forks.
+ * `anchorId` (the conversation's active message) picks the branch; below it, and
+ * everywhere when there is no anchor, the newest child is followed.
+ */
+export function selectBranchPath<T extends BranchNode>(messages: T[], anchorId?: string | null): BranchPathMessage<T>[] {
+  const parents = resolveMessageParents(messages);
+  const byId = new Map(messages.map(message => [message.id, message]));
+
+  const children = new Map<string | null, T[]>();
+  for (const message of [...messages].sort((a, b) => a.createdAt - b.createdAt)) {
+    const parentId = parents.get(message.id) ?? null;
+    children.set(parentId, [...(children.get(parentId) ?? []), message]);
+  }
+
+  // Up from the anchor, then down along the newest children
+  const path: T[] = [];
+  const anchor = anchorId ? byId.get(anchorId) : undefined;
+  for (let id: string | null = anchor?.id ?? null; id; id = parents.get(id) ?? null) {
+    path.unshift(byId.get(id)!);
+  }
+  for (let next = children.get(anchor?.id ?? null); next?.length;) {
+    const newest: T = next[next.length - 1]!;
+    path.push(newest);
+    next = children.get(newest.id);
+  }
+
+  return path.map(message => {
+    const siblings = children.get(parents.get(message.id) ?? null) ?? [message];
+    return {
+      ...message,
+      branch: siblings.length > 1
+        ? { index: siblings.indexOf(message) + 1, count: siblings.length, siblingIds: siblings.map(sibling => sibling.id) }
+        : null,
+    };
+  });
+}
+
+/**
+ * Where a new message attaches: after the last message on the shown path
+ */
+export function branchLeafId(messages: BranchNode[], anchorId?: string | null): string | null {
+  const path = selectBranchPath(messages, anchorId);
+  return path[path.length - 1]?.id ?? null;
+}
+
+/**
+ * The comparison view's summary of an advisor reply; model and temperature come from its contentJson
+ */
+export function toMessageVariant(message: { id: string; content: string; contentJson?: unknown; createdAt: number }): MessageVariant {
+  const meta = (message.contentJson ?? {}) as { model?: unknown; temperature?: unknown };
+  return {
+    id: message.id,
+    content: message.content,
+    model: typeof meta.model === "string" ? meta.model : null,
+    temperature: typeof meta.temperature === "number" ? meta.temperature : null,
+    createdAt: message.createdAt,
+  };
+}
@@ -0,0 +1,447 @@
+/**
+ * Conversation export
+ *
+ * Founders share advisory sessions with co-founders and investors. Both stores
+ * (Prisma and Convex) map a conversation onto `ConversationExportInput`; from there
+ * it renders as Markdown, as a self-contained printable HTML page (print to PDF from
+ * the browser), or as a versioned JSON document that carries everything needed to
+ * recreate the conversation through the import path.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js routes, Convex
+ * and the client.
+ */
+
+import { z } from "zod";
+import type { Scorecard } from "../advisors/components";
+import type { DocumentCitation } from "../llm/documents";
+
+export const EXPORT_FORMATS = ["markdown", "html", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Identifies our JSON export among other uploads; bump the version on breaking changes */
+export const CONVERSATION_EXPORT_FORMAT = "advisor-board.conversation";
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = { markdown: "md", html: "html", json: "json" };
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const isoDate = z.string().datetime({ offset: true });
+
+const exportedAdvisorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  title: z.string().nullable(),
+});
+
+const exportedMessageSchema = z.object({
+  id: z.string(),
+  sender: z.enum(["user", "advisor", "system"]),
+  advisorId: z.string().nullable(),
+  content: z.string(),
+  contentJson: z.unknown().nullable(),
+  mentions: z.array(z.string()),
+  tokensUsed: z.number().nullable(),
+  createdAt: isoDate,
+});
+
+const exportedSummarySchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  startMessageId: z.string().nullable(),
+  endMessageId: z.string().nullable(),
+  createdAt: isoDate,
+});
+
+const exportedMemorySchema = z.object({
+  advisorId: z.string(),
+  key: z.string(),
+  value: z.unknown(),
+});
+
+const exportedDocumentSchema = z.object({
+  name: z.string(),
+  mimeType: z.string(),
+  kind: z.string(),
+  content: z.string(),
+  createdAt: isoDate,
+});
+
+export const conversationExportSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.literal(CONVERSATION_EXPORT_VERSION),
+  exportedAt: isoDate,
+  conversation: z.object({
+    title: z.string().nullable(),
+    activeAdvisorId: z.string().nullable(),
+    modelOverride: z.string().nullable(),
+    createdAt: isoDate,
+    updatedAt: isoDate,
+  }),
+  advisors: z.array(exportedAdvisorSchema),
+  messages: z.array(exportedMessageSchema),
+  summaries: z.array(exportedSummarySchema),
+  memories: z.array(exportedMemorySchema),
+  documents: z.array(exportedDocumentSchema),
+});
+
+export type ConversationExport = z.infer<typeof conversationExportSchema>;
+export type ExportedAdvisor = z.infer<typeof exportedAdvisorSchema>;
+export type ExportedMessage = z.infer<typeof exportedMessageSchema>;
+
+/** Prisma hands out Dates, Convex epoch milliseconds */
+type Timestamp = Date | number | string;
+
+/**
+ * What each store provides; ids are the store's own (Prisma cuid or Convex `_id`)
+ */
+export interface ConversationExportInput {
+  conversation: {
+    title?: string | null;
+    activeAdvisorId?: string | null;
+    modelOverride?: string | null;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+  };
+  advisors: { id: string; name: string; title?: string | null }[];
+  messages: {
+    id: string;
+    sender: "user" | "advisor" | "system";
+    advisorId?: string | null;
+    content: string;
+    contentJson?: unknown;
+    mentions?: string[];
+    tokensUsed?: number | null;
+    createdAt: Timestamp;
+  }[];
+  summaries?: { id: string; content: string; startMessageId?: string | null; endMessageId?: string | null; createdAt: Timestamp }[];
+  memories?: { advisorId: string; key: string; value: unknown }[];
+  documents?: { name: string; mimeType: string; kind: string; content: string; createdAt: Timestamp }[];
+}
+
+/**
+ * Thrown when an uploaded export can't be read back
+ */
+export class ConversationExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationExportError";
+  }
+}
+
+const toIso = (value: Timestamp) => new Date(value).toISOString();
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Normalize a store's conversation into the export document
+ */
+export function buildConversationExport(input: ConversationExportInput, exportedAt: Timestamp = Date.now()): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: toIso(exportedAt),
+    conversation: {
+      title: input.conversation.title ?? null,
+      activeAdvisorId: input.conversation.activeAdvisorId ?? null,
+      modelOverride: input.conversation.modelOverride ?? null,
+      createdAt: toIso(input.conversation.createdAt),
+      updatedAt: toIso(input.conversation.updatedAt),
+    },
+    advisors: input.advisors.map(advisor => ({ id: advisor.id, name: advisor.name, title: advisor.title ?? null })),
+    messages: input.messages
+      .map(message => ({
+        id: message.id,
+        sender: message.sender,
+        advisorId: message.advisorId ?? null,
+        content: message.content,
+        contentJson: message.contentJson ?? null,
+        mentions: message.mentions ?? [],
+        tokensUsed: message.tokensUsed ?? null,
+        createdAt: toIso(message.createdAt),
+      }))
+      .sort(byCreatedAt),
+    summaries: (input.summaries ?? [])
+      .map(summary => ({
+        id: summary.id,
+        content: summary.content,
+        startMessageId: summary.startMessageId ?? null,
+        endMessageId: summary.endMessageId ?? null,
+        createdAt: toIso(summary.createdAt),
+      }))
+      .sort(byCreatedAt),
+    memories: (input.memories ?? []).map(({ advisorId, key, value }) => ({ advisorId, key, value })),
+    documents: (input.documents ?? []).map(document => ({
+      name: document.name,
+      mimeType: document.mimeType,
+      kind: document.kind,
+      content: document.content,
+      createdAt: toIso(document.createdAt),
+    })),
+  };
+}
+
+/**
+ * Read a JSON export (string or parsed) back, checking format and version
+ */
+export function parseConversationExport(raw: unknown): ConversationExport {
+  let data = raw;
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new ConversationExportError("The export is not valid JSON");
+    }
+  }
+
+  const format = (data as { format?: unknown } | null)?.format;
+  if (format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new ConversationExportError("This file is not a conversation export");
+  }
+
+  const result = conversationExportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new ConversationExportError(`Invalid conversation export${issue ? ` (${issue.path.join(".")}: ${issue.message})` : ""}`);
+  }
+  return result.data;
+}
+
+/**
+ * The local advisor an imported message belongs to: same id first, then same name
+ */
+export function resolveImportedAdvisorId(
+  exported: ExportedAdvisor | undefined,
+  known: { id: string; name: string }[]
+): string | undefined {
+  if (!exported) return undefined;
+  return known.find(advisor => advisor.id === exported.id)?.id
+    ?? known.find(advisor => advisor.name.toLowerCase() === exported.name.toLowerCase())?.id;
+}
+
+// "2026-03-04 09:15 UTC"; fixed timezone so exports read the same wherever they're opened
+const formatTimestamp = (iso: string) => `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+
+const senderName = (message: ExportedMessage, advisors: ExportedAdvisor[]) =>
+  message.sender === "user"
+    ? "You"
+    : message.sender === "system"
+      ? "System"
+      : advisors.find(advisor => advisor.id === message.advisorId)?.name ?? "Advisor";
+
+const contentJsonOf = (message: ExportedMessage) => (message.contentJson ?? {}) as {
+  components?: { scoringEngine?: Scorecard };
+  citations?: DocumentCitation[];
+};
+
+const formatScore = (value: number) => value.toFixed(1);
+const humanizeFlag = (flag: string) => flag.replace(/_/g, " ");
+
+function scorecardMarkdown(scorecard: Scorecard): string {
+  const rows = scorecard.dimensions.map(dimension =>
+    `| ${dimension.id.charAt(0).toUpperCase() + dimension.id.slice(1)} | ${formatScore(dimension.score)} | ${Math.round(dimension.weight * 100)}% | ${dimension.rationale ?? ""} |`
+  );
+  const redFlags = [...scorecard.redFlags.founder, ...scorecard.redFlags.market].map(humanizeFlag);
+
+  return [
+    `**Scorecard: ${formatScore(scorecard.total)} / 10, verdict ${scorecard.verdict}**`,
+    "",
+    "| Dimension | Score | Weight | Rationale |",
+    "| --- | --- | --- | --- |",
+    ...rows,
+    ...(redFlags.length > 0 ? ["", `Red flags: ${redFlags.join(", ")}`] : []),
+    ...(scorecard.summary ? ["", scorecard.summary] : []),
+  ].join("\n");
+}
+
+/**
+ * Markdown transcript with advisor names, timestamps, summaries and scorecards
+ */
+export function renderConversationMarkdown(data: ConversationExport): string {
+  const title = data.conversation.title || "Conversation";
+  const advisorNames = data.advisors.map(advisor => advisor.name);
+  const lines = [
+    `# ${title}`,
+    "",
+    `Started ${formatTimestamp(data.conversation.createdAt)} · ${data.messages.length} messages` +
+      (advisorNames.length > 0 ? ` · Advisors: ${advisorNames.join(", ")}` : ""),
+    `Exported ${formatTimestamp(data.exportedAt)}`,
+  ];
+
+  if (data.summaries.length > 0) {
+    lines.push("", "## Thread summaries");
+    for (const summary of data.summaries) {
+      lines.push("", `*${formatTimestamp(summary.createdAt)}*`, "", summary.content);
+    }
+  }
+
+  lines.push("", "## Transcript");
+  for (const message of data.messages) {
+    lines.push("", `### ${senderName(message, data.advisors)} · ${formatTimestamp(message.createdAt)}`, "", message.content);
+
+    const { components, citations } = contentJsonOf(message);
+    if (components?.scoringEngine) {
+      lines.push("", scorecardMarkdown(components.scoringEngine));
+    }
+    if (citations && citations.length > 0) {
+      lines.push("", "Sources:", ...citations.map(c => `- [${c.ref}] ${c.documentName} — ${c.section}`));
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+// Inline Markdown on already-escaped text: code, bold, italics
+const inlineHtml = (escaped: string) =>
+  escaped
+    .replace(/`([^`]+)`/g, "<code>$1</code>")
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>");
+
+/**
+ * The subset of Markdown advisors write (headings, lists, paragraphs), escaped first
+ */
+export function markdownToHtml(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      const lines = block.split("\n");
+      const heading = /^(#{1,6})\s+(.*)$/.exec(block);
+      if (heading && lines.length === 1) {
+        // Message headings sit below the sender heading
+        const level = Math.min(heading[1]!.length + 3, 6);
+        return `<h${level}>${inlineHtml(escapeHtml(heading[2]!))}</h${level}>`;
+      }
+      if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+        return `<ul>${lines.map(line => `<li>${inlineHtml(escapeHtml(line.replace(/^\s*[-*]\s+/, "")))}</li>`).join("")}</ul>`;
+      }
+      if (lines.every(line => /^\s*\d+[.)]\s+/.test(line))) {
+        return `<ol>${lines.map(line => `<li>${inlineHtml(escapeHtml(line.replace(/^\s*\d+[.)]\s+/, "")))}</li>`).join("")}</ol>`;
+      }
+      return `<p>${lines.map(line => inlineHtml(escapeHtml(line))).join("<br>")}</p>`;
+    })
+    .join("\n");
+}
+
+function scorecardHtml(scorecard: Scorecard): string {
+  const redFlags = [...scorecard.redFlags.founder, ...scorecard.redFlags.market].map(humanizeFlag);
+  const rows = scorecard.dimensions
+    .map(dimension =>
+      `<tr><td>${escapeHtml(dimension.id.charAt(0).toUpperCase() + dimension.id.slice(1))}</td>` +
+      `<td>${formatScore(dimension.score)}</td><td>${Math.round(dimension.weight * 100)}%</td>` +
+      `<td>${escapeHtml(dimension.rationale ?? "")}</td></tr>`
+    )
+    .join("");
+
+  return `<div class="scorecard">
+<p class="scorecard-total">Scorecard: <strong>${formatScore(scorecard.total)} / 10</strong> · Verdict: <strong>${escapeHtml(scorecard.verdict)}</strong></p>
+<table><thead><tr><th>Dimension</th><th>Score</th><th>Weight</th><th>Rationale</th></tr></thead><tbody>${rows}</tbody></table>
+${redFlags.length > 0 ? `<p class="red-flags">Red flags: ${escapeHtml(redFlags.join(", "))}</p>` : ""}
+${scorecard.summary ? `<p>${escapeHtml(scorecard.summary)}</p>` : ""}
+</div>`;
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.55; }
+header { border-bottom: 1px solid #e5e7eb; margin-bottom: 24px; }
+h1 { font-size: 26px; margin: 0 0 8px; }
+.meta { color: #6b7280; font-size: 13px; margin: 0 0 16px; }
+h2 { font-size: 18px; margin: 32px 0 12px; }
+.summary { background: #f9fafb; border-left: 3px solid #9ca3af; padding: 8px 16px; margin: 12px 0; }
+.message { border-top: 1px solid #f3f4f6; padding: 16px 0; break-inside: avoid; page-break-inside: avoid; }
+.message-header { display: flex; justify-content: space-between; font-size: 14px; margin-bottom: 4px; }
+.sender { font-weight: 600; }
+.message.user .sender { color: #1d4ed8; }
+.time { color: #9ca3af; font-size: 12px; }
+code { background: #f3f4f6; padding: 1px 4px; border-radius: 3px; font-size: 90%; }
+.scorecard { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; margin-top: 12px; font-size: 14px; }
+.scorecard table { border-collapse: collapse; width: 100%; }
+.scorecard th, .scorecard td { text-align: left; border-bottom: 1px solid #f3f4f6; padding: 4px 8px 4px 0; vertical-align: top; }
+.red-flags { color: #b91c1c; }
+.sources { color: #4b5563; font-size: 13px; }
+@media print {
+  body { margin: 0; max-width: none; }
+  a { color: inherit; text-decoration: none; }
+}
+`.trim();
+
+/**
+ * Self-contained printable HTML page (inline styles, no scripts or external assets)
+ */
+export function renderConversationHtml(data: ConversationExport): string {
+  const title = escapeHtml(data.conversation.title || "Conversation");
+  const advisorNames = data.advisors.map(advisor => advisor.name).join(", ");
+
+  const summaries = data.summaries.length > 0
+    ? `<section><h2>Thread summaries</h2>${data.summaries
+        .map(summary => `<div class="summary"><p class="time">${formatTimestamp(summary.createdAt)}</p>${markdownToHtml(summary.content)}</div>`)
+        .join("\n")}</section>`
+    : "";
+
+  const messages = data.messages.map(message => {
+    const { components, citations } = contentJsonOf(message);
+    const sources = citations && citations.length > 0
+      ? `<p class="sources">Sources: ${citations.map(c => escapeHtml(`[${c.ref}] ${c.documentName} — ${c.section}`)).join("; ")}</p>`
+      : "";
+
+    return `<article class="message ${message.sender}">
+<div class="message-header"><span class="sender">${escapeHtml(senderName(message, data.advisors))}</span><span class="time">${formatTimestamp(message.createdAt)}</span></div>
+${markdownToHtml(message.content)}
+${components?.scoringEngine ? scorecardHtml(components.scoringEngine) : ""}
+${sources}
+</article>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+${HTML_STYLES}
+</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<p class="meta">Started ${formatTimestamp(data.conversation.createdAt)} · ${data.messages.length} messages${advisorNames ? ` · Advisors: ${escapeHtml(advisorNames)}` : ""} · Exported ${formatTimestamp(data.exportedAt)}</p>
+</header>
+${summaries}
+<section><h2>Transcript</h2>
+${messages}
+</section>
+</body>
+</html>
+`;
+}
+
+/**
+ * Render an export in the requested format, with the file name and content type to serve it under
+ */
+export function renderConversationExport(data: ConversationExport, format: ExportFormat) {
+  const body = format === "markdown"
+    ? renderConversationMarkdown(data)
+    : format === "html"
+      ? renderConversationHtml(data)
+      : JSON.stringify(data, null, 2);
+
+  const slug = (data.conversation.title || "conversation")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "conversation";
+
+  return {
+    body,
+    contentType: EXPORT_CONTENT_TYPES[format],
+    fileName: `${slug}-${data.exportedAt.slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`,
+  };
+}
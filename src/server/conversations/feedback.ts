@@ -0,0 +1,107 @@
+/**
+ * Message feedback
+ *
+ * Founders rate advisor replies with a thumbs up or down; a thumbs down can carry
+ * a reason and comments. Each founder has one rating per message (rating again
+ * replaces it). The admin dashboard groups ratings by advisor, model and reason so
+ * the team can see which personas and models need work.
+ *
+ * Pure helpers with no env or database access, shared by Convex and the client.
+ */
+
+export const FEEDBACK_REASONS = ["incorrect", "verbose", "instructions", "other"] as const;
+
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason, string> = {
+  incorrect: "Incorrect/Hallucination",
+  verbose: "Wordy/Overly Verbose",
+  instructions: "Did not Follow Instructions",
+  other: "Other",
+};
+
+/** Longest "other" reason or comment kept with a rating */
+export const MAX_FEEDBACK_TEXT_LENGTH = 2000;
+
+export interface FeedbackEntry {
+  sentiment: "up" | "down";
+  reason?: FeedbackReason | null;
+  advisorId?: string | null;
+  advisorName?: string | null;
+  model?: string | null;
+}
+
+export interface FeedbackGroup {
+  key: string;
+  label: string;
+  up: number;
+  down: number;
+  total: number;
+  /** Share of ratings that are thumbs down, 0–1 */
+  downRate: number;
+  /** Thumbs-down reasons; ratings without a reason are not counted here */
+  reasons: Record<FeedbackReason, number>;
+}
+
+export interface FeedbackSummary {
+  total: number;
+  up: number;
+  down: number;
+  byAdvisor: FeedbackGroup[];
+  byModel: FeedbackGroup[];
+  byReason: { reason: FeedbackReason; label: string; count: number }[];
+}
+
+/**
+ * Trim optional feedback text, dropping empty strings and capping the length
+ */
+export function normalizeFeedbackText(text: string | undefined): string | undefined {
+  const trimmed = text?.trim();
+  return trimmed ? trimmed.slice(0, MAX_FEEDBACK_TEXT_LENGTH) : undefined;
+}
+
+function emptyReasons(): Record<FeedbackReason, number> {
+  return { incorrect: 0, verbose: 0, instructions: 0, other: 0 };
+}
+
+function groupFeedback(entries: FeedbackEntry[], keyOf: (entry: FeedbackEntry) => { key: string; label: string }): FeedbackGroup[] {
+  const groups = new Map<string, FeedbackGroup>();
+  for (const entry of entries) {
+    const { key, label } = keyOf(entry);
+    const group = groups.get(key) ?? { key, label, up: 0, down: 0, total: 0, downRate: 0, reasons: emptyReasons() };
+    group[entry.sentiment] += 1;
+    group.total += 1;
+    if (entry.sentiment === "down" && entry.reason) group.reasons[entry.reason] += 1;
+    groups.set(key, group);
+  }
+
+  // Most thumbs down first, so the personas and models that need attention lead
+  return [...groups.values()]
+    .map(group => ({ ...group, downRate: group.down / group.total }))
+    .sort((a, b) => b.down - a.down || b.downRate - a.downRate || a.label.localeCompare(b.label));
+}
+
+/**
+ * Totals plus per-advisor, per-model and per-reason breakdowns for the admin dashboard
+ */
+export function summarizeFeedback(entries: FeedbackEntry[]): FeedbackSummary {
+  const down = entries.filter(entry => entry.sentiment === "down");
+  return {
+    total: entries.length,
+    up: entries.length - down.length,
+    down: down.length,
+    byAdvisor: groupFeedback(entries, entry => ({
+      key: entry.advisorId ?? "unknown",
+      label: entry.advisorName ?? "Unknown advisor",
+    })),
+    byModel: groupFeedback(entries, entry => ({
+      key: entry.model ?? "unknown",
+      label: entry.model ?? "Unknown model",
+    })),
+    byReason: FEEDBACK_REASONS.map(reason => ({
+      reason,
+      label: FEEDBACK_REASON_LABELS[reason],
+      count: down.filter(entry => entry.reason === reason).length,
+    })),
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Conversation import
+ *
+ * Founders bring "advisor" chats they already had elsewhere. Three file types are
+ * recognized: ChatGPT's `conversations.json` (a message tree per conversation, read
+ * along the branch that was last shown), Claude's `conversations.json` (a flat
+ * message list per conversation), and this app's own JSON export. Assistant turns
+ * from other tools are attributed to the advisor the founder picks. Every entry is
+ * validated with zod; entries that can't be imported are reported rather than
+ * failing the whole file.
+ *
+ * Everything is converted to `ConversationExport`, so one persistence path per store
+ * handles all sources. Pure helpers with no env or database access, shared by the
+ * Next.js routes, Convex and the client.
+ */
+
+import { z } from "zod";
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  ConversationExportError,
+  buildConversationExport,
+  parseConversationExport,
+  type ConversationExport,
+  type ConversationExportInput,
+} from "./export";
+
+export const IMPORT_SOURCES = ["chatgpt", "claude", "advisor-board"] as const;
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  chatgpt: "ChatGPT",
+  claude: "Claude",
+  "advisor-board": "Advisor Board export",
+};
+
+/** Conversations per file; larger exports are imported in part and the rest reported */
+export const MAX_IMPORT_CONVERSATIONS = 50;
+
+/** Largest file accepted, well under the 16 MiB Convex argument limit the whole file is sent in */
+export const MAX_IMPORT_BYTES = 8 * 1024 * 1024;
+
+export interface ImportSkip {
+  /** Conversation title, or its position in the file when it has none */
+  conversation: string;
+  /** Message id within the conversation; absent when the whole conversation was skipped */
+  entry?: string;
+  reason: string;
+}
+
+export interface ConversationImportResult {
+  source: ImportSource;
+  conversations: ConversationExport[];
+  skipped: ImportSkip[];
+}
+
+/**
+ * Thrown when the file as a whole can't be imported (unknown format, no advisor chosen)
+ */
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConversationImportError";
+  }
+}
+
+// ChatGPT: conversations.json is an array of message trees keyed by node id
+const chatGptMessageSchema = z.object({
+  id: z.string(),
+  author: z.object({ role: z.string() }),
+  create_time: z.number().nullable().optional(),
+  content: z.object({
+    content_type: z.string(),
+    parts: z.array(z.unknown()).optional(),
+    text: z.string().optional(),
+  }),
+  metadata: z.record(z.unknown()).nullable().optional(),
+});
+
+const chatGptConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: z.number(),
+  update_time: z.number().nullable().optional(),
+  current_node: z.string().nullable().optional(),
+  mapping: z.record(z.object({
+    id: z.string().optional(),
+    message: z.unknown().nullable().optional(),
+    parent: z.string().nullable().optional(),
+    children: z.array(z.string()).optional(),
+  })),
+});
+
+// Claude: conversations.json is an array of conversations with a flat message list
+const claudeMessageSchema = z.object({
+  uuid: z.string(),
+  sender: z.string(),
+  text: z.string().optional(),
+  content: z.array(z.object({ type: z.string(), text: z.string().optional() })).optional(),
+  created_at: z.string().datetime({ offset: true }),
+});
+
+const claudeConversationSchema = z.object({
+  uuid: z.string().optional(),
+  name: z.string().nullable().optional(),
+  created_at: z.string().datetime({ offset: true }),
+  updated_at: z.string().datetime({ offset: true }).optional(),
+  chat_messages: z.array(z.unknown()),
+});
+
+type ImportedMessage = ConversationExportInput["messages"][number];
+
+const firstIssue = (error: z.ZodError) => {
+  const issue = error.errors[0];
+  return issue ? `${issue.path.join(".") || "entry"}: ${issue.message}` : "malformed entry";
+};
+
+const asList = (data: unknown): unknown[] => (Array.isArray(data) ? data : [data]);
+const hasKey = (value: unknown, key: string) => typeof value === "object" && value !== null && key in value;
+
+/**
+ * Refuse files over MAX_IMPORT_BYTES before anything is parsed or stored
+ */
+export function assertImportSize(bytes: number) {
+  if (bytes > MAX_IMPORT_BYTES) {
+    const megabytes = (size: number) => `${Math.round(size / (1024 * 1024) * 10) / 10} MB`;
+    throw new ConversationImportError(`This file is ${megabytes(bytes)}; files up to ${megabytes(MAX_IMPORT_BYTES)} can be imported. Split the export or remove conversations you don't need.`);
+  }
+}
+
+/**
+ * Which tool a parsed file came from
+ */
+export function detectImportSource(data: unknown): ImportSource {
+  if (hasKey(data, "format") && (data as { format: unknown }).format === CONVERSATION_EXPORT_FORMAT) return "advisor-board";
+
+  const first = asList(data)[0];
+  if (hasKey(first, "mapping")) return "chatgpt";
+  if (hasKey(first, "chat_messages")) return "claude";
+  throw new ConversationImportError("Unrecognized file. Upload conversations.json from a ChatGPT or Claude export, or a JSON export from this app.");
+}
+
+// Text of a ChatGPT message; images, files and tool output have no text parts
+function chatGptText(content: z.infer<typeof chatGptMessageSchema>["content"]): string {
+  if (content.content_type === "code") return content.text ?? "";
+  if (content.content_type !== "text" && content.content_type !== "multimodal_text") return "";
+  return (content.parts ?? []).filter((part): part is string => typeof part === "string").join("\n").trim();
+}
+
+function fromChatGpt(raw: unknown, label: string, skipped: ImportSkip[]) {
+  const parsed = chatGptConversationSchema.safeParse(raw);
+  if (!parsed.success) {
+    skipped.push({ conversation: label, reason: firstIssue(parsed.error) });
+    return null;
+  }
+  const conversation = parsed.data;
+  const title = conversation.title?.trim() || label;
+
+  // Walk up from the node that was showing; edited or regenerated branches are left out
+  const leaf = conversation.current_node
+    ?? Object.keys(conversation.mapping).find(id => (conversation.mapping[id]!.children ?? []).length === 0);
+  const branch: string[] = [];
+  const seen = new Set<string>();
+  for (let id = leaf; id && conversation.mapping[id] && !seen.has(id); id = conversation.mapping[id]!.parent ?? undefined) {
+    seen.add(id);
+    branch.unshift(id);
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const nodeId of branch) {
+    const node = conversation.mapping[nodeId]!;
+    if (node.message == null) continue;
+
+    const message = chatGptMessageSchema.safeParse(node.message);
+    if (!message.success) {
+      skipped.push({ conversation: title, entry: nodeId, reason: firstIssue(message.error) });
+      continue;
+    }
+    const { id, author, create_time, content, metadata } = message.data;
+    const text = chatGptText(content);
+
+    // ChatGPT's own hidden system prompts aren't part of the conversation
+    if (metadata?.is_visually_hidden_from_conversation || (author.role === "system" && !text)) continue;
+    if (author.role !== "user" && author.role !== "assistant") {
+      skipped.push({ conversation: title, entry: id, reason: `${author.role} messages are not imported` });
+      continue;
+    }
+    if (!text) {
+      skipped.push({ conversation: title, entry: id, reason: `no text content (${content.content_type})` });
+      continue;
+    }
+
+    messages.push({
+      id,
+      sender: author.role === "user" ? "user" : "advisor",
+      content: text,
+      // Seconds since the epoch; untimed messages keep their order after the conversation start
+      createdAt: (create_time ?? conversation.create_time) * 1000 + (create_time ? 0 : messages.length),
+    });
+  }
+
+  return {
+    title,
+    createdAt: conversation.create_time * 1000,
+    updatedAt: (conversation.update_time ?? conversation.create_time) * 1000,
+    messages,
+  };
+}
+
+function fromClaude(raw: unknown, label: string, skipped: ImportSkip[]) {
+  const parsed = claudeConversationSchema.safeParse(raw);
+  if (!parsed.success) {
+    skipped.push({ conversation: label, reason: firstIssue(parsed.error) });
+    return null;
+  }
+  const conversation = parsed.data;
+  const title = conversation.name?.trim() || label;
+
+  const messages: ImportedMessage[] = [];
+  conversation.chat_messages.forEach((entry, index) => {
+    const message = claudeMessageSchema.safeParse(entry);
+    if (!message.success) {
+      skipped.push({ conversation: title, entry: `#${index + 1}`, reason: firstIssue(message.error) });
+      return;
+    }
+    const { uuid, sender, text, content, created_at } = message.data;
+    if (sender !== "human" && sender !== "assistant") {
+      skipped.push({ conversation: title, entry: uuid, reason: `${sender} messages are not imported` });
+      return;
+    }
+
+    // Newer exports split the text into content blocks; attachments have none
+    const body = (text?.trim() || (content ?? []).filter(block => block.type === "text").map(block => block.text ?? "").join("\n")).trim();
+    if (!body) {
+      skipped.push({ conversation: title, entry: uuid, reason: "no text content" });
+      return;
+    }
+
+    messages.push({ id: uuid, sender: sender === "human" ? "user" : "advisor", content: body, createdAt: created_at });
+  });
+
+  return {
+    title,
+    createdAt: conversation.created_at,
+    updatedAt: conversation.updated_at ?? conversation.created_at,
+    messages,
+  };
+}
+
+/**
+ * Parse an uploaded file (string or parsed JSON) into conversations ready to persist.
+ * `advisor` receives the assistant turns from ChatGPT and Claude; our own exports keep theirs.
+ */
+export function parseConversationImport(
+  raw: unknown,
+  options: { advisor?: { id: string; name: string; title?: string | null } | null } = {}
+): ConversationImportResult {
+  let data = raw;
+  assertImportSize(new TextEncoder().encode(typeof raw === "string" ? raw : JSON.stringify(raw ?? null)).length);
+  if (typeof raw === "string") {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new ConversationImportError("The file is not valid JSON");
+    }
+  }
+
+  const source = detectImportSource(data);
+  if (source === "advisor-board") {
+    try {
+      return { source, conversations: [parseConversationExport(data)], skipped: [] };
+    } catch (error) {
+      throw new ConversationImportError(error instanceof ConversationExportError ? error.message : "Invalid conversation export");
+    }
+  }
+
+  const advisor = options.advisor;
+  if (!advisor) {
+    throw new ConversationImportError(`Choose the advisor who should take over the assistant's replies from ${IMPORT_SOURCE_LABELS[source]}`);
+  }
+
+  const entries = asList(data);
+  const skipped: ImportSkip[] = [];
+  const conversations: ConversationExport[] = [];
+
+  entries.slice(0, MAX_IMPORT_CONVERSATIONS).forEach((entry, index) => {
+    const label = `Imported conversation ${index + 1}`;
+    const conversation = source === "chatgpt" ? fromChatGpt(entry, label, skipped) : fromClaude(entry, label, skipped);
+    if (!conversation) return;
+    if (conversation.messages.length === 0) {
+      skipped.push({ conversation: conversation.title, reason: "no messages to import" });
+      return;
+    }
+
+    conversations.push(buildConversationExport({
+      conversation: {
+        title: conversation.title,
+        activeAdvisorId: advisor.id,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+      },
+      advisors: [advisor],
+      messages: conversation.messages.map(message => ({
+        ...message,
+        advisorId: message.sender === "advisor" ? advisor.id : null,
+        contentJson: { importedFrom: source },
+      })),
+    }));
+  });
+
+  if (entries.length > MAX_IMPORT_CONVERSATIONS) {
+    skipped.push({
+      conversation: `${entries.length - MAX_IMPORT_CONVERSATIONS} more conversations`,
+      reason: `only the first ${MAX_IMPORT_CONVERSATIONS} conversations of a file are imported`,
+    });
+  }
+
+  return { source, conversations, skipped };
+}
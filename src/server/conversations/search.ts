@@ -0,0 +1,140 @@
+/**
+ * Conversation search
+ *
+ * Convex full-text search finds the messages and conversation titles; these helpers
+ * turn a hit into something worth showing: a short snippet around the first match
+ * with every matched word marked, plus the filters (sender, date range) applied to
+ * the ranked hits. Matching mirrors the search index: words are compared case-
+ * insensitively and by prefix, so "fund" highlights "fundraising".
+ *
+ * Pure helpers with no env or database access, shared by Convex and the client.
+ */
+
+/** Hits returned per search; the search index ranks by relevance */
+export const MAX_SEARCH_RESULTS = 30;
+
+/** Shorter queries match most of the history and aren't worth a round trip */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+/** Characters of message text shown around the first match */
+export const SNIPPET_LENGTH = 160;
+
+export const SEARCH_SENDERS = ["user", "advisor"] as const;
+export type SearchSender = (typeof SEARCH_SENDERS)[number];
+
+export interface SearchFilters {
+  advisorId?: string;
+  sender?: SearchSender;
+  /** Epoch milliseconds, inclusive */
+  from?: number;
+  /** Epoch milliseconds, inclusive */
+  to?: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercased, de-duplicated words of a search query
+ */
+export function searchTerms(query: string): string[] {
+  return [...new Set((query.toLowerCase().match(WORD) ?? []))];
+}
+
+const isMatch = (word: string, terms: string[]) => {
+  const lower = word.toLowerCase();
+  return terms.some(term => lower.startsWith(term));
+};
+
+/**
+ * Split text into plain and matched runs; adjacent runs of the same kind are merged
+ */
+export function highlightSegments(text: string, terms: string[]): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const push = (part: string, match: boolean) => {
+    if (!part) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += part;
+    else segments.push({ text: part, match });
+  };
+
+  let cursor = 0;
+  for (const found of text.matchAll(WORD)) {
+    const start = found.index ?? 0;
+    if (!isMatch(found[0], terms)) continue;
+    push(text.slice(cursor, start), false);
+    push(found[0], true);
+    cursor = start + found[0].length;
+  }
+  push(text.slice(cursor), false);
+  return segments;
+}
+
+/**
+ * A window of `content` around its first match, with matches marked. Whitespace is
+ * collapsed and cut-off ends get an ellipsis; text without a match shows its start.
+ */
+export function buildSnippet(content: string, query: string, length = SNIPPET_LENGTH): SnippetSegment[] {
+  const text = content.replace(/\s+/g, " ").trim();
+  const terms = searchTerms(query);
+  if (text.length <= length) return highlightSegments(text, terms);
+
+  let firstMatch = 0;
+  for (const found of text.matchAll(WORD)) {
+    if (isMatch(found[0], terms)) {
+      firstMatch = found.index ?? 0;
+      break;
+    }
+  }
+
+  // Keep about a third of the window before the match, starting on a word boundary
+  let start = Math.max(0, Math.min(firstMatch - Math.floor(length / 3), text.length - length));
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > firstMatch) end = space;
+  }
+
+  const segments = highlightSegments(text.slice(start, end), terms);
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < text.length) segments.push({ text: "…", match: false });
+  return segments;
+}
+
+/**
+ * Whether a hit passes the filters the search index can't apply itself
+ */
+export function matchesSearchFilters(
+  hit: { sender: string; advisorId?: string | null; createdAt: number },
+  filters: SearchFilters
+): boolean {
+  if (filters.sender && hit.sender !== filters.sender) return false;
+  if (filters.advisorId && hit.advisorId !== filters.advisorId) return false;
+  if (filters.from !== undefined && hit.createdAt < filters.from) return false;
+  if (filters.to !== undefined && hit.createdAt > filters.to) return false;
+  return true;
+}
+
+/**
+ * Epoch bounds for a pair of `<input type="date">` values (YYYY-MM-DD, local time);
+ * the end date includes its whole day
+ */
+export function dateRangeFilter(from?: string, to?: string): Pick<SearchFilters, "from" | "to"> {
+  const parse = (value: string | undefined, endOfDay: boolean) => {
+    const parts = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value ?? "");
+    if (!parts) return undefined;
+    const [, year, month, day] = parts.map(Number) as [number, number, number, number];
+    return endOfDay
+      ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+      : new Date(year, month - 1, day).getTime();
+  };
+  return { from: parse(from, false), to: parse(to, true) };
+}
@@ -0,0 +1,63 @@
+/**
+ * Conversation trash
+ *
+ * Deleting a conversation moves it to the trash by setting `deletedAt`; it is
+ * hidden from the chat list and search but can be restored until a daily job
+ * purges it for good after the retention period. Purging removes the same rows
+ * the Prisma schema's `onDelete: Cascade` relations remove (messages, thread
+ * summaries, advisor memories and documents), plus the Convex-only rows that
+ * can't outlive their conversation.
+ *
+ * Pure helpers with no env or database access, shared by the Convex
+ * conversation functions, the purge job and the trash list.
+ */
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Tables whose rows are deleted with their conversation, as Prisma's onDelete: Cascade does */
+export const CONVERSATION_CASCADE_TABLES = [
+  "messages",
+  "threadSummaries",
+  "advisorMemories",
+  "documents",
+  // Convex-only: document chunks, feedback on the deleted messages and live typing indicators
+  "documentChunks",
+  "messageFeedback",
+  "typingIndicators",
+] as const;
+
+export type ConversationCascadeTable = (typeof CONVERSATION_CASCADE_TABLES)[number];
+
+/**
+ * Retention period from a configured value (e.g. the TRASH_RETENTION_DAYS env var);
+ * anything that isn't a positive number of days falls back to the default
+ */
+export function trashRetentionDays(value?: string | number | null): number {
+  const days = typeof value === "number" ? value : Number.parseFloat(value ?? "");
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * When a conversation trashed at `deletedAt` is purged
+ */
+export function trashPurgeAt(deletedAt: number, retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): number {
+  return deletedAt + retentionDays * DAY;
+}
+
+/**
+ * Conversations trashed before this time are due to be purged
+ */
+export function trashPurgeCutoff(now: number, retentionDays: number = DEFAULT_TRASH_RETENTION_DAYS): number {
+  return now - retentionDays * DAY;
+}
+
+/**
+ * What the trash list says about a conversation's remaining time
+ */
+export function describeTrashPurge(purgeAt: number, now: number): string {
+  const days = Math.ceil((purgeAt - now) / DAY);
+  if (days <= 0) return "Deleted forever today";
+  return `Deleted forever in ${days} day${days === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Board meetings
+ *
+ * Several @mentions, or the board toggle, put one message to more than one advisor.
+ * The lead advisor (the first @mention, else the chosen one) speaks first and the rest
+ * follow in mention order (or board order when nobody is mentioned); each advisor sees
+ * the replies given before theirs.
+ *
+ * Pure helpers with no env or database access, shared by /api/chat and the Convex chat action.
+ */
+
+/** Upper bound on advisors answering one board meeting message */
+export const MAX_BOARD_SIZE = 5;
+
+export interface MentionableAdvisor {
+  id: string;
+  name: string;
+}
+
+/** A reply already given earlier in the same board meeting */
+export interface BoardMeetingReply {
+  advisorName: string;
+  content: string;
+}
+
+/**
+ * Advisor ids @mentioned in a message, in the order they appear
+ */
+export function extractMentionIds(content: string, advisors: MentionableAdvisor[]): string[] {
+  const mentions: string[] = [];
+  const advisorNames = advisors.map(advisor => ({
+    id: advisor.id,
+    name: advisor.name.toLowerCase(),
+    firstName: advisor.name.split(" ")[0]?.toLowerCase(),
+  }));
+
+  // At each @mention prefer a full-name match ("@Alex Reyes") and fall back to the first name ("@Alex")
+  const mentionRegex = /@(\w+)(?:\s+(\w+))?/gi;
+
+  let match;
+  while ((match = mentionRegex.exec(content)) !== null) {
+    const firstWord = match[1]?.toLowerCase();
+    const twoWords = match[2] ? `${firstWord} ${match[2].toLowerCase()}` : undefined;
+
+    const matchedAdvisor =
+      advisorNames.find(advisor => twoWords && advisor.name === twoWords) ||
+      advisorNames.find(advisor => advisor.firstName === firstWord);
+
+    // Only consume the second word when it was part of the advisor's name, so "@Alex @Amara" still matches both
+    if (!matchedAdvisor || matchedAdvisor.name !== twoWords) {
+      mentionRegex.lastIndex = match.index + (match[1]?.length ?? 0) + 1;
+    }
+
+    if (matchedAdvisor && !mentions.includes(matchedAdvisor.id)) {
+      mentions.push(matchedAdvisor.id);
+    }
+  }
+
+  return mentions;
+}
+
+/**
+ * Who replies to the message, in speaking order: just the lead advisor, unless board
+ * mode is on or several advisors are mentioned
+ */
+export function planBoardMeeting(options: {
+  leadId: string;
+  mentions: string[];
+  /** Every advisor available to join, in board order */
+  advisorIds: string[];
+  boardMode?: boolean;
+}): string[] {
+  const { leadId, mentions, advisorIds, boardMode = false } = options;
+  if (!boardMode && mentions.length <= 1) return [leadId];
+
+  const speakers = [leadId, ...(mentions.length > 0 ? mentions : advisorIds)];
+  return Array.from(new Set(speakers))
+    .filter(id => id === leadId || advisorIds.includes(id))
+    .slice(0, MAX_BOARD_SIZE);
+}
+
+/**
+ * Board meeting context for one advisor: who is at the table, where they speak in
+ * the running order, and what was already said
+ */
+export function formatBoardMeetingContext(
+  boardNames: string[],
+  position: number,
+  priorReplies: BoardMeetingReply[]
+): string {
+  let context = `## Board Meeting
+The user has put this question to several advisors at once: ${boardNames.join(', ')}.
+You are speaking ${position} of ${boardNames.length}. Give your own perspective from your expertise; build on or respectfully challenge the earlier replies instead of repeating them, and keep your answer concise.`;
+
+  if (priorReplies.length > 0) {
+    const replies = priorReplies
+      .map(reply => `**${reply.advisorName}**: ${reply.content}`)
+      .join('\n\n');
+    context += `\n\n### Replies so far in this meeting\n\n${replies}`;
+  }
+
+  return context;
+}
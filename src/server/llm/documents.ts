@@ -0,0 +1,387 @@
+/**
+ * Founder documents
+ *
+ * Founders attach pitch decks, financial model CSVs and business plans to a
+ * conversation. Each upload is split into chunks labelled with the section they
+ * come from (a heading, a "Slide 3" marker or a CSV row range). On every turn the
+ * chunks are ranked against the founder's message with BM25, the best passages go
+ * into the prompt as numbered excerpts, and the `[n]` markers the advisor cites
+ * are resolved back to document and section.
+ *
+ * Only text formats are read (Markdown, plain text, CSV); decks need to be exported
+ * as text first. Pure helpers with no env or database access, shared by the Next.js
+ * routes, Convex and the client.
+ */
+
+export const DOCUMENT_FORMATS = ["markdown", "text", "csv"] as const;
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+export const DOCUMENT_KINDS = ["pitch_deck", "financial_model", "business_plan", "other"] as const;
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+/** What the attachment picker accepts */
+export const DOCUMENT_ACCEPT = ".md,.markdown,.txt,.csv,text/markdown,text/plain,text/csv";
+
+export const MAX_DOCUMENT_BYTES = 1_000_000;
+export const MAX_DOCUMENTS_PER_CONVERSATION = 10;
+
+/** Target chunk size; a paragraph longer than this is split on sentences */
+export const MAX_CHUNK_CHARS = 1200;
+export const MAX_CHUNKS_PER_DOCUMENT = 300;
+export const CSV_ROWS_PER_CHUNK = 12;
+
+/** Passages injected into the prompt per turn */
+export const DEFAULT_TOP_PASSAGES = 4;
+
+// A type alias (not an interface) so it stays assignable to Prisma's Json input
+export type DocumentChunk = {
+  index: number;
+  /** Where in the document the chunk comes from, e.g. "Traction" or "Rows 2-13" */
+  section: string;
+  content: string;
+};
+
+export interface SearchableDocument {
+  id: string;
+  name: string;
+  chunks: DocumentChunk[];
+}
+
+export interface DocumentPassage {
+  /** 1-based number the advisor cites as `[n]` */
+  ref: number;
+  documentId: string;
+  documentName: string;
+  section: string;
+  content: string;
+  score: number;
+}
+
+export type DocumentCitation = {
+  ref: number;
+  documentId: string;
+  documentName: string;
+  section: string;
+};
+
+/**
+ * Thrown for uploads that can't be indexed (unsupported type, too large, empty)
+ */
+export class DocumentFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentFormatError";
+  }
+}
+
+const extensionOf = (name: string) => name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? "";
+
+/**
+ * Format from the file extension, falling back to the MIME type
+ */
+export function detectDocumentFormat(name: string, mimeType?: string | null): DocumentFormat {
+  const extension = extensionOf(name);
+  const mime = (mimeType ?? "").toLowerCase();
+
+  if (extension === "csv" || mime === "text/csv") return "csv";
+  if (extension === "md" || extension === "markdown" || mime === "text/markdown") return "markdown";
+  if (extension === "txt" || mime === "text/plain") return "text";
+  if (extension === "pdf" || mime === "application/pdf" || extension === "pptx" || extension === "key") {
+    throw new DocumentFormatError(`${name}: PDF and slide files can't be read yet. Export the deck as text or Markdown and upload that.`);
+  }
+  throw new DocumentFormatError(`${name}: unsupported file type. Upload Markdown, plain text or CSV.`);
+}
+
+/**
+ * Best guess at what the founder uploaded, from the name and format
+ */
+export function inferDocumentKind(name: string, format: DocumentFormat): DocumentKind {
+  const lower = name.toLowerCase();
+  if (format === "csv" || /financial|model|forecast|p&l|budget/.test(lower)) return "financial_model";
+  if (/deck|pitch|slides?/.test(lower)) return "pitch_deck";
+  if (/plan|memo|strategy/.test(lower)) return "business_plan";
+  return "other";
+}
+
+/**
+ * Validate an upload before it is chunked
+ */
+export function validateDocumentUpload(name: string, content: string, mimeType?: string | null): DocumentFormat {
+  const format = detectDocumentFormat(name, mimeType);
+  if (new TextEncoder().encode(content).length > MAX_DOCUMENT_BYTES) {
+    throw new DocumentFormatError(`${name} is larger than ${Math.round(MAX_DOCUMENT_BYTES / 1_000_000)} MB`);
+  }
+  if (!content.trim()) {
+    throw new DocumentFormatError(`${name} is empty`);
+  }
+  return format;
+}
+
+export interface DocumentIndex {
+  chunks: DocumentChunk[];
+  /** Chunks past MAX_CHUNKS_PER_DOCUMENT that were left out; advisors never see them */
+  droppedChunks: number;
+}
+
+/**
+ * Split a document into section-labelled chunks, keeping the first MAX_CHUNKS_PER_DOCUMENT
+ */
+export function indexDocument(content: string, format: DocumentFormat): DocumentIndex {
+  const pieces = (format === "csv" ? chunkCsv(content) : chunkProse(content)).filter(piece => piece.content.trim());
+  return {
+    chunks: pieces
+      .slice(0, MAX_CHUNKS_PER_DOCUMENT)
+      .map((piece, index) => ({ index, section: piece.section, content: piece.content.trim() })),
+    droppedChunks: Math.max(0, pieces.length - MAX_CHUNKS_PER_DOCUMENT),
+  };
+}
+
+/**
+ * Split a document into section-labelled chunks
+ */
+export function chunkDocument(content: string, format: DocumentFormat): DocumentChunk[] {
+  return indexDocument(content, format).chunks;
+}
+
+/**
+ * What to tell the founder when a file was too long to index in full; null when nothing was left out
+ */
+export function describeDocumentTruncation(name: string, index: DocumentIndex): string | null {
+  if (index.droppedChunks === 0) return null;
+
+  const last = index.chunks[index.chunks.length - 1];
+  return `${name} is too long to index in full: advisors only see it up to "${last?.section ?? "the start"}" ` +
+    `(${index.chunks.length} of ${index.chunks.length + index.droppedChunks} sections). Split it into smaller files to include the rest.`;
+}
+
+/**
+ * Read stored chunks (Prisma Json); malformed entries are dropped
+ */
+export function parseDocumentChunks(raw: unknown): DocumentChunk[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((item): item is DocumentChunk =>
+    typeof item === "object" && item !== null &&
+    typeof (item as DocumentChunk).index === "number" &&
+    typeof (item as DocumentChunk).section === "string" &&
+    typeof (item as DocumentChunk).content === "string"
+  );
+}
+
+// "# Traction", "## 3. Market", "Slide 4: Team", "Slide 4 - Team"
+const HEADING = /^(?:#{1,6}\s+(.+?)\s*#*|(slide\s+\d+(?:\s*[:\-–]\s*.+)?))\s*$/i;
+
+function chunkProse(content: string): { section: string; content: string }[] {
+  const sections: { title: string; lines: string[] }[] = [{ title: "Introduction", lines: [] }];
+  for (const line of content.replace(/\r\n?/g, "\n").split("\n")) {
+    const heading = HEADING.exec(line.trim());
+    if (heading) {
+      sections.push({ title: (heading[1] ?? heading[2] ?? "").trim(), lines: [] });
+    } else {
+      sections[sections.length - 1]!.lines.push(line);
+    }
+  }
+
+  return sections.flatMap(({ title, lines }) => {
+    const paragraphs = lines.join("\n").split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    const chunks: string[] = [];
+    let current = "";
+    for (const paragraph of paragraphs.flatMap(splitLongParagraph)) {
+      if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push(current);
+
+    return chunks.map((chunk, index) => ({
+      section: chunks.length > 1 ? `${title} (part ${index + 1})` : title,
+      content: chunk,
+    }));
+  });
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_CHARS) return [paragraph];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.match(/[^.!?]+[.!?]*\s*/g) ?? [paragraph]) {
+    if (current && current.length + sentence.length > MAX_CHUNK_CHARS) {
+      pieces.push(current.trim());
+      current = "";
+    }
+    // A single run-on "sentence" is cut hard
+    for (let start = 0; start < sentence.length; start += MAX_CHUNK_CHARS) {
+      current += sentence.slice(start, start + MAX_CHUNK_CHARS);
+      if (current.length >= MAX_CHUNK_CHARS) {
+        pieces.push(current.trim());
+        current = "";
+      }
+    }
+  }
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Minimal RFC 4180 parsing: quoted fields, escaped quotes and commas inside quotes
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Financial models: one line per row item, each value labelled with its column header
+function chunkCsv(content: string): { section: string; content: string }[] {
+  const [header = [], ...rows] = parseCsv(content);
+  const chunks: { section: string; content: string }[] = [];
+
+  for (let start = 0; start < rows.length; start += CSV_ROWS_PER_CHUNK) {
+    const slice = rows.slice(start, start + CSV_ROWS_PER_CHUNK);
+    const lines = slice.map(cells => {
+      const [label = "", ...values] = cells.map(cell => cell.trim());
+      const labelled = values
+        .map((value, column) => (value ? `${header[column + 1]?.trim() || `Column ${column + 2}`}: ${value}` : ""))
+        .filter(Boolean);
+      return labelled.length > 0 ? `${label} — ${labelled.join(", ")}` : label;
+    });
+    // Spreadsheet row numbers: the header is row 1
+    chunks.push({ section: `Rows ${start + 2}-${start + slice.length + 1}`, content: lines.join("\n") });
+  }
+
+  return chunks;
+}
+
+const STOPWORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from", "how",
+  "i", "in", "is", "it", "its", "me", "my", "of", "on", "or", "our", "should", "so", "that", "the", "their",
+  "this", "to", "us", "was", "we", "what", "when", "which", "who", "will", "with", "you", "your",
+]);
+
+/** Lowercased word and number tokens without stopwords */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) ?? []).filter(token => !STOPWORDS.has(token));
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Rank every chunk of the given documents against the query with BM25 and return the
+ * best passages, numbered from 1 in rank order. Chunks sharing no term with the query are skipped.
+ */
+export function searchDocuments(
+  query: string,
+  documents: SearchableDocument[],
+  options: { topK?: number } = {}
+): DocumentPassage[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  const entries = documents.flatMap(document =>
+    document.chunks.map(chunk => {
+      const terms = tokenize(`${chunk.section}\n${chunk.content}`);
+      const frequencies = new Map<string, number>();
+      for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      return { document, chunk, length: terms.length, frequencies };
+    })
+  );
+  if (entries.length === 0) return [];
+
+  const averageLength = entries.reduce((sum, entry) => sum + entry.length, 0) / entries.length || 1;
+  const inverseFrequency = new Map(queryTerms.map(term => {
+    const containing = entries.filter(entry => entry.frequencies.has(term)).length;
+    return [term, Math.log(1 + (entries.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return entries
+    .map(entry => ({
+      entry,
+      score: queryTerms.reduce((sum, term) => {
+        const frequency = entry.frequencies.get(term) ?? 0;
+        if (frequency === 0) return sum;
+        const norm = frequency + BM25_K1 * (1 - BM25_B + BM25_B * (entry.length / averageLength));
+        return sum + inverseFrequency.get(term)! * ((frequency * (BM25_K1 + 1)) / norm);
+      }, 0),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.topK ?? DEFAULT_TOP_PASSAGES)
+    .map(({ entry, score }, index) => ({
+      ref: index + 1,
+      documentId: entry.document.id,
+      documentName: entry.document.name,
+      section: entry.chunk.section,
+      content: entry.chunk.content,
+      score: Math.round(score * 1000) / 1000,
+    }));
+}
+
+/**
+ * System prompt section with the numbered excerpts; empty when nothing matched
+ */
+export function formatPassagesForPrompt(passages: DocumentPassage[]): string {
+  if (passages.length === 0) return "";
+
+  const excerpts = passages
+    .map(passage => `[${passage.ref}] ${passage.documentName} — ${passage.section}\n${passage.content}`)
+    .join("\n\n");
+
+  return `## Founder documents
+Excerpts from documents the founder shared, most relevant first. Ground your advice in them where they apply, and cite each excerpt you rely on with its number in brackets, e.g. [1]. Don't cite excerpts you didn't use, and say so if the documents don't answer the question.
+
+${excerpts}`;
+}
+
+/**
+ * The passages a reply cites with `[n]`, in order of first citation
+ */
+export function extractCitations(reply: string, passages: DocumentPassage[]): DocumentCitation[] {
+  const cited: DocumentCitation[] = [];
+  for (const match of reply.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const ref of match[1]!.split(",").map(Number)) {
+      const passage = passages.find(p => p.ref === ref);
+      if (passage && !cited.some(c => c.ref === ref)) {
+        cited.push({ ref, documentId: passage.documentId, documentName: passage.documentName, section: passage.section });
+      }
+    }
+  }
+  return cited;
+}
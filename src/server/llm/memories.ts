@@ -0,0 +1,138 @@
+/**
+ * Advisor memories
+ *
+ * After each turn the advisor's reply is mined for durable facts about the founder
+ * (company stage, runway, team size, the "Yes / No / Not yet" verdict...). They are
+ * stored per conversation and advisor as key/value rows and rendered back into that
+ * advisor's system prompt.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js routes and Convex.
+ */
+
+import { z } from "zod";
+import type { ChatCompletionMessage } from "./providers";
+
+export type MemoryValue = string | number | boolean;
+
+export interface AdvisorMemoryFact {
+  key: string;
+  value: unknown;
+}
+
+/** Upper bound on facts saved from a single turn */
+export const MAX_MEMORIES_PER_TURN = 8;
+
+export const VERDICT_VALUES = ["Yes", "No", "Not yet"] as const;
+export type Verdict = (typeof VERDICT_VALUES)[number];
+
+const extractedMemoriesSchema = z.record(
+  z.union([z.string(), z.number(), z.boolean(), z.null()])
+);
+
+/**
+ * Build the completion request that pulls durable facts out of one exchange
+ */
+export function buildMemoryExtractionPrompt(
+  advisorName: string,
+  knownFacts: AdvisorMemoryFact[],
+  userMessage: string,
+  advisorReply: string
+): ChatCompletionMessage[] {
+  const known = knownFacts.length > 0
+    ? knownFacts.map(fact => `- ${fact.key}: ${formatMemoryValue(fact.value)}`).join("\n")
+    : "(none yet)";
+
+  return [
+    {
+      role: "system",
+      content: `You extract durable facts about a founder and their company from one exchange with their advisor ${advisorName}.
+Return ONLY a JSON object mapping snake_case keys to short values (string, number or boolean).
+Useful keys: company_name, company_stage, runway_months, team_size, monthly_revenue, funding_raised, industry, target_market, main_goal, constraints, biggest_risk, verdict.
+Use "verdict" only when the advisor clearly answered the founder's main question with "Yes", "No" or "Not yet".
+Only include facts stated or confirmed in this exchange, update a known fact if it changed, and ignore small talk.
+Return {} when there is nothing new.`,
+    },
+    {
+      role: "user",
+      content: `## Known facts\n${known}\n\n## Founder\n${userMessage}\n\n## ${advisorName}\n${advisorReply}`,
+    },
+  ];
+}
+
+/**
+ * Parse the extraction response into facts; malformed output yields no facts
+ */
+export function parseExtractedMemories(raw: string): { key: string; value: MemoryValue }[] {
+  // Models sometimes wrap JSON in a code fence or add a sentence around it
+  const jsonText = raw.slice(raw.indexOf("{"), raw.lastIndexOf("}") + 1);
+  if (!jsonText) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    return [];
+  }
+
+  const result = extractedMemoriesSchema.safeParse(parsed);
+  if (!result.success) return [];
+
+  const facts: { key: string; value: MemoryValue }[] = [];
+  for (const [rawKey, rawValue] of Object.entries(result.data)) {
+    const key = normalizeMemoryKey(rawKey);
+    if (!key || rawValue === null || rawValue === "") continue;
+
+    let value: MemoryValue = typeof rawValue === "string" ? rawValue.trim().slice(0, 300) : rawValue;
+    if (key === "verdict") {
+      const verdict = VERDICT_VALUES.find(v => v.toLowerCase() === String(value).trim().toLowerCase());
+      if (!verdict) continue;
+      value = verdict;
+    }
+
+    facts.push({ key, value });
+    if (facts.length >= MAX_MEMORIES_PER_TURN) break;
+  }
+
+  return facts;
+}
+
+/**
+ * "Company Stage" / "companyStage" / "company-stage" → "company_stage"
+ */
+export function normalizeMemoryKey(key: string): string {
+  return key
+    .trim()
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+}
+
+/**
+ * "runway_months" → "Runway months"
+ */
+export function formatMemoryKey(key: string): string {
+  const label = key.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function formatMemoryValue(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Render an advisor's memories as a system prompt section; empty when nothing is known
+ */
+export function formatMemoriesForPrompt(memories: AdvisorMemoryFact[]): string {
+  if (memories.length === 0) return "";
+
+  const facts = memories
+    .map(memory => `- **${formatMemoryKey(memory.key)}**: ${formatMemoryValue(memory.value)}`)
+    .join("\n");
+
+  return `## What you know about this founder
+${facts}
+
+Use these facts naturally and don't ask for them again; if the founder says something has changed, trust the newer information.`;
+}
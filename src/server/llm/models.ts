@@ -0,0 +1,207 @@
+/**
+ * Model resolution and fallback
+ *
+ * Pure helpers with no env access so both the Next.js routes and the Convex
+ * chat action share one resolver. Callers pass in the configured tier models.
+ */
+
+export type ModelTier = "free" | "base" | "premium";
+
+export type ModelTierConfig = Record<ModelTier, string>;
+
+/**
+ * Defaults mirror the OPENROUTER_*_MODEL defaults in src/env.js
+ */
+export const DEFAULT_MODEL_TIERS: ModelTierConfig = {
+  free: "deepseek/deepseek-chat",
+  base: "qwen/qwen-2.5-72b-instruct",
+  premium: "qwen/qwen-2.5-72b-instruct",
+};
+
+const TIER_ORDER: ModelTier[] = ["free", "base", "premium"];
+
+/**
+ * Tier models from OPENROUTER_*_MODEL settings, for callers that read their own
+ * environment (Convex functions, routes that avoid src/env.js); unset ones use the defaults
+ */
+export function readModelTiers(settings: Record<string, string | undefined>): ModelTierConfig {
+  return {
+    free: settings.OPENROUTER_FREE_MODEL || DEFAULT_MODEL_TIERS.free,
+    base: settings.OPENROUTER_BASE_MODEL || DEFAULT_MODEL_TIERS.base,
+    premium: settings.OPENROUTER_PREMIUM_MODEL || DEFAULT_MODEL_TIERS.premium,
+  };
+}
+
+/**
+ * Map a user plan onto a model tier.
+ * Accepts both billing plans (free/pro/enterprise) and tier names (free/base/premium).
+ */
+export function getTierForPlan(plan?: string | null): ModelTier {
+  switch (plan) {
+    case "premium":
+    case "enterprise":
+      return "premium";
+    case "base":
+    case "pro":
+      return "base";
+    case "free":
+    default:
+      return "free";
+  }
+}
+
+/**
+ * Build the fallback chain for each tier model: step down one tier at a time
+ */
+export function buildModelFallbacks(tiers: ModelTierConfig): Record<string, string[]> {
+  const fallbacks: Record<string, string[]> = {};
+
+  // Walk from the lowest tier up so a model shared by several tiers keeps the longest chain
+  TIER_ORDER.forEach((tier, index) => {
+    const lowerTiers = TIER_ORDER.slice(0, index).reverse();
+    fallbacks[tiers[tier]] = unique(lowerTiers.map(t => tiers[t]).filter(m => m !== tiers[tier]));
+  });
+
+  return fallbacks;
+}
+
+export interface ModelSelectionInput {
+  plan?: string | null;
+  modelHint?: string | null;
+  conversationOverride?: string | null;
+}
+
+export interface ModelSelection {
+  /** Model to try first */
+  model: string;
+  /** Where the model came from */
+  source: "conversation" | "advisor" | "plan";
+  /** Ordered list of models to try, starting with `model` */
+  candidates: string[];
+}
+
+/**
+ * Resolve the model for a chat turn.
+ *
+ * Priority: per-conversation override, then the advisor's modelHint, then the plan's tier model.
+ * The founder sets the override, so it must be one of the plan's tier models; only the
+ * admin-authored modelHint may name a model outside the tier table. A requested model that
+ * isn't allowed is ignored.
+ */
+export function resolveModel(input: ModelSelectionInput, tiers: ModelTierConfig): ModelSelection {
+  const tier = getTierForPlan(input.plan);
+  const planModel = tiers[tier];
+  const fallbacks = buildModelFallbacks(tiers);
+  const planChain = [planModel, ...(fallbacks[planModel] || [])];
+
+  const override = input.conversationOverride?.trim();
+  const hint = input.modelHint?.trim();
+  const requested = override && modelsForPlan(input.plan, tiers).includes(override)
+    ? { model: override, source: "conversation" as const }
+    : hint && isHintAllowedForTier(hint, tier, tiers)
+      ? { model: hint, source: "advisor" as const }
+      : null;
+
+  if (!requested) {
+    return { model: planModel, source: "plan", candidates: unique(planChain) };
+  }
+
+  const ownChain = fallbacks[requested.model] || [];
+  return {
+    model: requested.model,
+    source: requested.source,
+    candidates: unique([requested.model, ...ownChain, ...planChain]),
+  };
+}
+
+/**
+ * Advisor hints outside the tier table are always allowed; tier models only up to the plan
+ */
+function isHintAllowedForTier(model: string, tier: ModelTier, tiers: ModelTierConfig): boolean {
+  const allowed = TIER_ORDER.slice(0, TIER_ORDER.indexOf(tier) + 1).map(t => tiers[t]);
+  const isTierModel = TIER_ORDER.some(t => tiers[t] === model);
+  return !isTierModel || allowed.includes(model);
+}
+
+/**
+ * Tier models a plan may choose explicitly (a conversation override, or when regenerating a reply), lowest tier first
+ */
+export function modelsForPlan(plan: string | null | undefined, tiers: ModelTierConfig): string[] {
+  const tier = getTierForPlan(plan);
+  return unique(TIER_ORDER.slice(0, TIER_ORDER.indexOf(tier) + 1).map(t => tiers[t]));
+}
+
+/** Sampling temperature for advisor replies */
+export const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Ways to ask an advisor to try again; `temperature: null` keeps the default
+ */
+export const REGENERATE_PRESETS = [
+  { id: "again", label: "Try again", temperature: null },
+  { id: "precise", label: "More precise", temperature: 0.3 },
+  { id: "creative", label: "More creative", temperature: 1.1 },
+] as const;
+
+/**
+ * Requested temperature clamped to what providers accept; missing or invalid values use the default
+ */
+export function resolveTemperature(requested?: number | null): number {
+  if (requested == null || !Number.isFinite(requested)) return DEFAULT_TEMPERATURE;
+  return Math.min(Math.max(requested, 0), 2);
+}
+
+/**
+ * Rate limits and upstream outages are worth retrying on another model
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// A type alias (not an interface) so attempts can be stored in Prisma Json columns
+export type ModelAttempt = {
+  model: string;
+  status: number;
+};
+
+/**
+ * Call `request` with each candidate model until one does not return a retryable status.
+ * Network errors are treated like a 5xx. The last response is returned even if it failed.
+ */
+export async function fetchWithModelFallback(
+  candidates: string[],
+  request: (model: string) => Promise<Response>
+): Promise<{ response: Response; model: string; attempts: ModelAttempt[] }> {
+  if (candidates.length === 0) {
+    throw new Error("No models available to try");
+  }
+
+  const attempts: ModelAttempt[] = [];
+  let lastError: unknown;
+
+  for (const [index, model] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    let response: Response;
+    try {
+      response = await request(model);
+    } catch (error) {
+      lastError = error;
+      attempts.push({ model, status: 0 });
+      continue;
+    }
+
+    attempts.push({ model, status: response.status });
+    if (response.ok || !isRetryableStatus(response.status) || isLast) {
+      return { response, model, attempts };
+    }
+
+    // Release the failed body before moving on
+    await response.body?.cancel().catch(() => undefined);
+  }
+
+  throw lastError instanceof Error ? lastError : new Error("All model attempts failed");
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
@@ -1,5 +1,14 @@
 import { createOpenAI } from "@ai-sdk/openai";
 import { env } from "~/env";
+import {
+  buildModelFallbacks,
+  getTierForPlan,
+  resolveModel,
+  type ModelSelection,
+  type ModelSelectionInput,
+  type ModelTierConfig,
+} from "./models";
+import { createChatProvider, type ChatProvider } from "./providers";
 
 /**
  * OpenRouter client configuration
@@ -15,35 +24,26 @@ export const openrouter = createOpenAI({
 });
 
 /**
- * Model selection based on user subscription tier
+ * Tier models configured through the environment
+ */
+export const MODEL_TIERS: ModelTierConfig = {
+  free: env.OPENROUTER_FREE_MODEL,
+  base: env.OPENROUTER_BASE_MODEL,
+  premium: env.OPENROUTER_PREMIUM_MODEL,
+};
+
+/**
+ * Model selection based on user subscription tier (or billing plan)
  */
 export function getModelForTier(tier: string): string {
-  switch (tier) {
-    case "premium":
-      return env.OPENROUTER_PREMIUM_MODEL;
-    case "base":
-      return env.OPENROUTER_BASE_MODEL;
-    case "free":
-    default:
-      return env.OPENROUTER_FREE_MODEL;
-  }
+  return MODEL_TIERS[getTierForPlan(tier)];
 }
 
 /**
  * Model fallback chain for reliability
- * Primary: qwen/qwen-2.5-72b-instruct
- * Fallback: deepseek/deepseek-chat
+ * Each tier model steps down through the cheaper tiers (premium → base → free)
  */
-export const MODEL_FALLBACKS: Record<string, string[]> = {
-  [env.OPENROUTER_PREMIUM_MODEL]: [
-    env.OPENROUTER_BASE_MODEL,
-    env.OPENROUTER_FREE_MODEL,
-  ],
-  [env.OPENROUTER_BASE_MODEL]: [
-    env.OPENROUTER_FREE_MODEL,
-  ],
-  [env.OPENROUTER_FREE_MODEL]: [],
-};
+export const MODEL_FALLBACKS: Record<string, string[]> = buildModelFallbacks(MODEL_TIERS);
 
 /**
  * Get model with fallback support
@@ -51,3 +51,25 @@ export const MODEL_FALLBACKS: Record<string, string[]> = {
 export function getModelWithFallback(preferredModel: string): string[] {
   return [preferredModel, ...(MODEL_FALLBACKS[preferredModel] || [])];
 }
+
+/**
+ * Resolve the model for a chat turn from the user's plan, the advisor's
+ * modelHint and a per-conversation override
+ */
+export function resolveChatModel(input: ModelSelectionInput): ModelSelection {
+  return resolveModel(input, MODEL_TIERS);
+}
+
+/**
+ * Chat provider selected by LLM_PROVIDER (OpenRouter unless configured otherwise).
+ * Throws ChatProviderConfigError when the selected provider is missing settings.
+ */
+export function getChatProvider(): ChatProvider {
+  return createChatProvider({
+    provider: env.LLM_PROVIDER,
+    openRouterApiKey: env.OPENROUTER_API_KEY,
+    appUrl: env.APP_URL,
+    baseURL: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * Founder profile
+ *
+ * One profile per user, shared by every advisor in every conversation, so founders
+ * don't repeat their company background each time they start a chat. The user edits
+ * it directly; advisors can only propose updates (derived from the facts extracted
+ * after each turn), which wait until the user accepts or dismisses them.
+ * Fields the user opted out of are neither shown to advisors nor proposed by them.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js routes and Convex.
+ */
+
+import { z } from "zod";
+import type { AdvisorMemoryFact } from "./memories";
+
+export const PROFILE_FIELDS = ["companyName", "industry", "stage", "goals", "constraints"] as const;
+
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  companyName: "Company",
+  industry: "Industry",
+  stage: "Stage",
+  goals: "Goals",
+  constraints: "Constraints",
+};
+
+export const MAX_PROFILE_FIELD_LENGTH = 1000;
+
+export type FounderProfile = Partial<Record<ProfileField, string | null>> & {
+  /** Fields kept private from advisors */
+  optOutFields?: string[] | null;
+};
+
+// A type alias (not an interface) so it stays assignable to Prisma's Json input
+export type ProfileProposal = {
+  field: ProfileField;
+  value: string;
+  advisorId: string;
+  proposedAt: number;
+};
+
+/** Memory keys from ./memories that map onto a profile field */
+const MEMORY_KEY_TO_PROFILE_FIELD: Record<string, ProfileField> = {
+  company_name: "companyName",
+  industry: "industry",
+  company_stage: "stage",
+  main_goal: "goals",
+  goals: "goals",
+  constraints: "constraints",
+};
+
+const profileFieldValue = z.string().trim().max(MAX_PROFILE_FIELD_LENGTH).nullable().optional();
+
+/**
+ * Body of a profile update; omitted fields stay unchanged and null clears a field
+ */
+export const profileUpdateSchema = z.object({
+  companyName: profileFieldValue,
+  industry: profileFieldValue,
+  stage: profileFieldValue,
+  goals: profileFieldValue,
+  constraints: profileFieldValue,
+  optOutFields: z.array(z.enum(PROFILE_FIELDS)).optional(),
+});
+
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+
+export function isProfileFieldShared(profile: FounderProfile | null | undefined, field: ProfileField): boolean {
+  return !(profile?.optOutFields ?? []).includes(field);
+}
+
+/**
+ * Filled-in fields the user shares with advisors, in display order
+ */
+export function getSharedProfileFields(profile: FounderProfile | null | undefined): { field: ProfileField; label: string; value: string }[] {
+  if (!profile) return [];
+
+  return PROFILE_FIELDS
+    .filter(field => isProfileFieldShared(profile, field) && profile[field]?.trim())
+    .map(field => ({ field, label: PROFILE_FIELD_LABELS[field], value: profile[field]!.trim() }));
+}
+
+/**
+ * Render the shared profile as a system prompt section; empty when nothing is shared
+ */
+export function formatProfileForPrompt(profile: FounderProfile | null | undefined): string {
+  const fields = getSharedProfileFields(profile);
+  if (fields.length === 0) return "";
+
+  return `## Founder profile
+${fields.map(({ label, value }) => `- **${label}**: ${value}`).join("\n")}
+
+The founder keeps this profile up to date across conversations; build on it instead of asking for it again.`;
+}
+
+/**
+ * Turn facts an advisor just extracted into proposed profile updates.
+ * Skips opted-out fields and values the profile already has.
+ */
+export function proposeProfileUpdates(
+  profile: FounderProfile | null | undefined,
+  facts: AdvisorMemoryFact[],
+  advisorId: string,
+  now: number = Date.now()
+): ProfileProposal[] {
+  const proposals = new Map<ProfileField, ProfileProposal>();
+
+  for (const fact of facts) {
+    const field = MEMORY_KEY_TO_PROFILE_FIELD[fact.key];
+    if (!field || !isProfileFieldShared(profile, field)) continue;
+
+    const value = String(fact.value).trim().slice(0, MAX_PROFILE_FIELD_LENGTH);
+    if (!value || value.toLowerCase() === profile?.[field]?.trim().toLowerCase()) continue;
+
+    proposals.set(field, { field, value, advisorId, proposedAt: now });
+  }
+
+  return Array.from(proposals.values());
+}
+
+/**
+ * Add new proposals to the pending list; a newer proposal for a field replaces the older one
+ */
+export function mergeProfileProposals(pending: ProfileProposal[], incoming: ProfileProposal[]): ProfileProposal[] {
+  const byField = new Map(pending.map(proposal => [proposal.field, proposal]));
+  for (const proposal of incoming) byField.set(proposal.field, proposal);
+  return PROFILE_FIELDS.flatMap(field => (byField.has(field) ? [byField.get(field)!] : []));
+}
+
+/**
+ * Read the pending proposals stored on a profile, dropping anything malformed
+ */
+export function parseProfileProposals(raw: unknown): ProfileProposal[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter((item): item is ProfileProposal =>
+    typeof item === "object" && item !== null &&
+    PROFILE_FIELDS.includes((item as ProfileProposal).field) &&
+    typeof (item as ProfileProposal).value === "string" &&
+    typeof (item as ProfileProposal).advisorId === "string"
+  );
+}
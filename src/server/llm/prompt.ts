@@ -1,12 +1,28 @@
 import type { Advisor, Message } from "@prisma/client";
 import { getAdvisorPersona, getAdvisorRole } from "~/server/advisors/persona";
+import { buildComponentInstructions, resolveAdvisorComponents } from "~/server/advisors/components";
+import { formatScopeForPrompt } from "~/server/advisors/scope";
+import { formatSummaryForContext, type SummaryBoundary } from "./summaries";
+import { formatMemoriesForPrompt, type AdvisorMemoryFact } from "./memories";
+import { formatProfileForPrompt, type FounderProfile } from "./profile";
+import { extractMentionIds, formatBoardMeetingContext } from "./board";
 
 /**
- * Generate system prompt for an advisor
+ * Generate system prompt for an advisor, including the founder's shared profile
+ * and what this advisor remembers about the founder
  */
-export function generateSystemPrompt(advisor: Advisor): string {
+export function generateSystemPrompt(
+  advisor: Advisor,
+  memories: AdvisorMemoryFact[] = [],
+  profile?: FounderProfile | null
+): string {
   const persona = getAdvisorPersona(advisor);
   const role = getAdvisorRole(advisor);
+  const { components } = resolveAdvisorComponents(advisor.components);
+  const scopeSection = formatScopeForPrompt(role.scope, role.constraints);
+  const methodsSection = buildComponentInstructions(components, { advisorId: advisor.id, advisorName: persona.name });
+  const profileSection = formatProfileForPrompt(profile);
+  const memorySection = formatMemoriesForPrompt(memories);
 
   const systemPrompt = `You are ${persona.name}, ${persona.title}.
 
@@ -27,13 +43,13 @@ ${persona.bio}
 
 ## Your Mission
 ${role.mission}
-
+${scopeSection ? `\n${scopeSection}\n` : ""}
 ## Communication Style
 - **Mode**: ${persona.adviceDelivery.mode}
 - **Formality**: ${persona.adviceDelivery.formality}
 - **Voice Guidelines**: ${persona.adviceDelivery.voiceGuidelines.join(', ')}
 - **Sign-off**: Always end your responses with "${persona.adviceDelivery.signOff}"
-
+${methodsSection ? `\n${methodsSection}\n` : ""}${profileSection ? `\n${profileSection}\n` : ""}${memorySection ? `\n${memorySection}\n` : ""}
 ## Instructions
 1. Stay true to your persona and expertise area
 2. Provide actionable, specific advice
@@ -48,39 +64,53 @@ Remember: You are an expert advisor with deep experience. Provide valuable insig
 }
 
 /**
- * Generate context from conversation history
+ * Generate context from conversation history.
+ * With a thread summary, only messages after the summarized range are included verbatim.
  */
 export function generateConversationContext(
   messages: (Message & { advisor?: Advisor | null })[],
-  maxTokens: number = 4000
+  maxTokens: number = 4000,
+  summary?: SummaryBoundary | null
 ): string {
-  if (messages.length === 0) return "";
-
   // Sort messages by creation time
-  const sortedMessages = messages.sort((a, b) => 
+  const sortedMessages = [...messages].sort((a, b) =>
     new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
   );
 
-  let context = "## Conversation History\n\n";
-  let tokenCount = 0;
+  // Older messages are covered by the summary; if its end message isn't loaded, everything loaded is newer
+  const endIndex = summary?.endMessageId
+    ? sortedMessages.findIndex(message => message.id === summary.endMessageId)
+    : -1;
+  const recentMessages = summary ? sortedMessages.slice(endIndex + 1) : sortedMessages;
+
+  if (!summary && recentMessages.length === 0) return "";
+
   const avgTokensPerChar = 0.25; // Rough estimate
+  const summaryText = summary ? formatSummaryForContext(summary) : "";
+  let tokenCount = summaryText.length * avgTokensPerChar;
+  const history: string[] = [];
 
-  // Add messages from most recent backwards until we hit token limit
-  for (let i = sortedMessages.length - 1; i >= 0; i--) {
-    const message = sortedMessages[i];
+  // Add messages from most recent backwards until we hit token limit (always keep the latest one)
+  for (let i = recentMessages.length - 1; i >= 0; i--) {
+    const message = recentMessages[i];
     if (!message) continue;
     const messageText = formatMessageForContext(message);
     const estimatedTokens = messageText.length * avgTokensPerChar;
 
-    if (tokenCount + estimatedTokens > maxTokens && context.length > 30) {
+    if (tokenCount + estimatedTokens > maxTokens && history.length > 0) {
       break;
     }
 
-    context = messageText + "\n\n" + context;
+    history.unshift(messageText);
     tokenCount += estimatedTokens;
   }
 
-  return context;
+  const sections = [
+    ...(summaryText ? [summaryText] : []),
+    ...(history.length > 0 ? [`## ${summary ? "Recent Messages" : "Conversation History"}\n\n${history.join("\n\n")}`] : []),
+  ];
+
+  return sections.join("\n\n");
 }
 
 /**
@@ -118,51 +148,35 @@ export function generateUserMessage(content: string, mentions: string[] = []): s
 }
 
 /**
- * Extract @mentions from message content
+ * A reply already given earlier in the same board meeting
  */
-export function extractMentions(content: string, availableAdvisors: Advisor[]): string[] {
-  const mentions: string[] = [];
-  const advisorNames = availableAdvisors.map(advisor => {
-    const persona = getAdvisorPersona(advisor);
-    return {
-      id: advisor.id,
-      name: persona.name.toLowerCase(),
-      firstName: persona.name.split(' ')[0]?.toLowerCase(),
-    };
-  });
-
-  // Look for @mentions in the content - try both single word and two word patterns
-  const singleWordRegex = /@(\w+)\b/gi;
-  const twoWordRegex = /@(\w+\s+\w+)\b/gi;
-
-  // First try two-word matches (full names)
-  let match;
-  while ((match = twoWordRegex.exec(content)) !== null) {
-    const mentionText = match[1]?.toLowerCase();
-
-    const matchedAdvisor = advisorNames.find(advisor =>
-      advisor.name === mentionText
-    );
-
-    if (matchedAdvisor && !mentions.includes(matchedAdvisor.id)) {
-      mentions.push(matchedAdvisor.id);
-    }
-  }
-
-  // If no two-word matches, try single word matches (first names)
-  if (mentions.length === 0) {
-    while ((match = singleWordRegex.exec(content)) !== null) {
-      const mentionText = match[1]?.toLowerCase();
-
-      const matchedAdvisor = advisorNames.find(advisor =>
-        advisor.firstName === mentionText
-      );
+export interface BoardReply {
+  advisor: Advisor;
+  content: string;
+}
 
-      if (matchedAdvisor && !mentions.includes(matchedAdvisor.id)) {
-        mentions.push(matchedAdvisor.id);
-      }
-    }
-  }
+/**
+ * Generate board meeting context for one advisor: who is at the table,
+ * where they speak in the running order, and what was already said
+ */
+export function generateBoardMeetingContext(
+  advisor: Advisor,
+  board: Advisor[],
+  priorReplies: BoardReply[]
+): string {
+  return formatBoardMeetingContext(
+    board.map(member => getAdvisorPersona(member).name as string),
+    board.findIndex(member => member.id === advisor.id) + 1,
+    priorReplies.map(reply => ({ advisorName: getAdvisorPersona(reply.advisor).name, content: reply.content }))
+  );
+}
 
-  return mentions;
+/**
+ * Extract @mentions from message content, in the order they appear
+ */
+export function extractMentions(content: string, availableAdvisors: Advisor[]): string[] {
+  return extractMentionIds(
+    content,
+    availableAdvisors.map(advisor => ({ id: advisor.id, name: getAdvisorPersona(advisor).name }))
+  );
 }
@@ -0,0 +1,282 @@
+/**
+ * Chat providers
+ *
+ * Every chat completion goes through a ChatProvider so the routes and the Convex
+ * chat action don't each carry their own fetch to OpenRouter. Providers speak the
+ * OpenAI chat completions wire format and return a plain Response (JSON, or SSE
+ * when `stream` is set), so callers keep one parsing path and the model fallback
+ * walk in ./models works for any provider.
+ *
+ * Pure module with no env access; callers pass in their settings.
+ */
+
+export type ChatProviderName = "openrouter" | "openai-compatible" | "echo";
+
+export const CHAT_PROVIDER_NAMES: ChatProviderName[] = ["openrouter", "openai-compatible", "echo"];
+
+export interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  /** Functions the assistant asked to call (assistant messages only) */
+  toolCalls?: ChatToolCall[];
+  /** The call a "tool" message answers */
+  toolCallId?: string;
+}
+
+/**
+ * One function call requested by the model; `arguments` is the raw JSON string it produced
+ */
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * A function the model may call, described with a JSON Schema for its arguments
+ */
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for an SSE stream with a final usage chunk */
+  stream?: boolean;
+  /** Functions the model may call instead of (or before) answering */
+  tools?: ChatToolDefinition[];
+}
+
+export interface ChatProvider {
+  name: ChatProviderName;
+  createChatCompletion(request: ChatCompletionRequest): Promise<Response>;
+}
+
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+/**
+ * Thrown when the selected provider is missing required settings
+ */
+export class ChatProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatProviderConfigError";
+  }
+}
+
+interface OpenAICompatibleOptions {
+  name?: ChatProviderName;
+  baseURL: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Any endpoint that implements POST /chat/completions (OpenRouter, Ollama, llama.cpp server, vLLM...)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ChatProvider {
+  const endpoint = `${options.baseURL.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: options.name ?? "openai-compatible",
+    createChatCompletion: (request) =>
+      fetch(endpoint, {
+        method: "POST",
+        headers: {
+          ...(options.apiKey ? { "Authorization": `Bearer ${options.apiKey}` } : {}),
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toWireMessage),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+          ...(request.tools && request.tools.length > 0
+            ? { tools: request.tools.map((tool) => ({ type: "function", function: tool })) }
+            : {}),
+        }),
+      }),
+  };
+}
+
+/**
+ * OpenAI wire format: tool calls nest under `function`, answers carry `tool_call_id`
+ */
+function toWireMessage(message: ChatCompletionMessage) {
+  const { toolCalls, toolCallId, ...rest } = message;
+  return {
+    ...rest,
+    ...(toolCalls && toolCalls.length > 0
+      ? { tool_calls: toolCalls.map((call) => ({ id: call.id, type: "function", function: { name: call.name, arguments: call.arguments } })) }
+      : {}),
+    ...(toolCallId ? { tool_call_id: toolCallId } : {}),
+  };
+}
+
+/**
+ * Tool calls of a non-streamed completion (`choices[0].message.tool_calls`)
+ */
+export function parseToolCalls(message: unknown): ChatToolCall[] {
+  const calls = (message as { tool_calls?: unknown } | null | undefined)?.tool_calls;
+  if (!Array.isArray(calls)) return [];
+
+  return calls
+    .map((call: any, index: number) => ({
+      id: typeof call?.id === "string" ? call.id : `call_${index}`,
+      name: typeof call?.function?.name === "string" ? call.function.name : "",
+      arguments: typeof call?.function?.arguments === "string" ? call.function.arguments : "",
+    }))
+    .filter((call) => call.name);
+}
+
+/**
+ * Fold one streamed `delta.tool_calls` chunk into the calls collected so far.
+ * Streams send the id and name once, then the arguments string in pieces, keyed by `index`.
+ */
+export function mergeToolCallDeltas(calls: ChatToolCall[], deltas: unknown): ChatToolCall[] {
+  if (!Array.isArray(deltas)) return calls;
+
+  const merged = [...calls];
+  for (const delta of deltas) {
+    const index = typeof delta?.index === "number" ? delta.index : merged.length;
+    const current = merged[index] ?? { id: `call_${index}`, name: "", arguments: "" };
+    merged[index] = {
+      id: typeof delta?.id === "string" ? delta.id : current.id,
+      name: current.name + (typeof delta?.function?.name === "string" ? delta.function.name : ""),
+      arguments: current.arguments + (typeof delta?.function?.arguments === "string" ? delta.function.arguments : ""),
+    };
+  }
+  return merged;
+}
+
+export function createOpenRouterProvider(options: { apiKey?: string; appUrl?: string; title?: string }): ChatProvider {
+  if (!options.apiKey) {
+    throw new ChatProviderConfigError("OPENROUTER_API_KEY is not configured");
+  }
+
+  return createOpenAICompatibleProvider({
+    name: "openrouter",
+    baseURL: OPENROUTER_BASE_URL,
+    apiKey: options.apiKey,
+    headers: {
+      "HTTP-Referer": options.appUrl || "http://localhost:3000",
+      "X-Title": options.title || "AI Advisor Chat",
+    },
+  });
+}
+
+interface EchoProviderOptions {
+  /**
+   * Scripted replies returned in order (the last one repeats).
+   * A function receives the request, e.g. to pick a fixture by model or prompt.
+   * Without replies the provider echoes the last user message.
+   */
+  replies?: string[] | ((request: ChatCompletionRequest) => string);
+}
+
+/**
+ * Deterministic offline provider for local development and integration tests.
+ * Produces the same wire format as OpenRouter, streamed word by word when asked to stream.
+ */
+export function createEchoProvider(options: EchoProviderOptions = {}): ChatProvider {
+  let turn = 0;
+
+  const nextReply = (request: ChatCompletionRequest): string => {
+    const { replies } = options;
+    if (typeof replies === "function") return replies(request);
+    if (replies && replies.length > 0) {
+      return replies[Math.min(turn++, replies.length - 1)]!;
+    }
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    return `Echo: ${lastUser?.content ?? ""}`;
+  };
+
+  return {
+    name: "echo",
+    createChatCompletion: async (request) => {
+      const content = nextReply(request);
+      const usage = estimateUsage(request.messages, content);
+
+      if (!request.stream) {
+        return Response.json({
+          id: `echo-${Date.now()}`,
+          object: "chat.completion",
+          model: request.model,
+          choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+          usage,
+        });
+      }
+
+      // Keep whitespace attached to each word so the deltas join back to `content`
+      const pieces = content.match(/\S+\s*|\s+/g) ?? [];
+      const chunks = [
+        ...pieces.map((piece) => ({ choices: [{ index: 0, delta: { content: piece } }] })),
+        { choices: [{ index: 0, delta: {}, finish_reason: "stop" }], usage },
+      ];
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        },
+      });
+
+      return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+    },
+  };
+}
+
+export interface ChatProviderSettings {
+  /** LLM_PROVIDER; defaults to openrouter */
+  provider?: string;
+  openRouterApiKey?: string;
+  appUrl?: string;
+  /** LLM_BASE_URL for the openai-compatible provider, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  /** LLM_API_KEY for the openai-compatible provider (often unused locally) */
+  apiKey?: string;
+}
+
+/**
+ * Build the provider selected by LLM_PROVIDER
+ */
+export function createChatProvider(settings: ChatProviderSettings): ChatProvider {
+  const name = settings.provider || "openrouter";
+
+  switch (name) {
+    case "openrouter":
+      return createOpenRouterProvider({ apiKey: settings.openRouterApiKey, appUrl: settings.appUrl });
+    case "openai-compatible":
+      if (!settings.baseURL) {
+        throw new ChatProviderConfigError("LLM_BASE_URL is required for the openai-compatible provider");
+      }
+      return createOpenAICompatibleProvider({ baseURL: settings.baseURL, apiKey: settings.apiKey });
+    case "echo":
+      return createEchoProvider();
+    default:
+      throw new ChatProviderConfigError(`Unknown LLM_PROVIDER "${name}" (expected ${CHAT_PROVIDER_NAMES.join(", ")})`);
+  }
+}
+
+/**
+ * Rough token counts (~4 characters per token) so usage-dependent code paths still run offline
+ */
+function estimateUsage(messages: ChatCompletionMessage[], completion: string) {
+  const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+  const completionTokens = Math.ceil(completion.length / 4);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
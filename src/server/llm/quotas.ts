@@ -0,0 +1,158 @@
+/**
+ * Usage quotas
+ *
+ * Every chat turn is written to a usage ledger: one entry for the founder's
+ * message and one for the tokens each advisor reply used. Plans cap both per UTC
+ * day and per UTC month; a turn is refused once any cap has been reached, and the
+ * usage meter shows how close the founder is to each one.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js chat route,
+ * the Convex chat action and the client.
+ */
+
+import { getTierForPlan } from "./models";
+
+export type QuotaPlan = "free" | "pro" | "enterprise";
+export type QuotaPeriod = "daily" | "monthly";
+export type QuotaKind = "messages" | "tokens";
+
+export interface UsageTotals {
+  messages: number;
+  tokens: number;
+}
+
+export type PlanQuota = Record<QuotaPeriod, UsageTotals>;
+
+export const PLAN_QUOTAS: Record<QuotaPlan, PlanQuota> = {
+  free: {
+    daily: { messages: 30, tokens: 50_000 },
+    monthly: { messages: 300, tokens: 500_000 },
+  },
+  pro: {
+    daily: { messages: 300, tokens: 1_000_000 },
+    monthly: { messages: 5_000, tokens: 15_000_000 },
+  },
+  enterprise: {
+    daily: { messages: 2_000, tokens: 5_000_000 },
+    monthly: { messages: 40_000, tokens: 100_000_000 },
+  },
+};
+
+/** One ledger row; a founder message has messages: 1, an advisor reply carries its tokens */
+export interface UsageEntry {
+  messages: number;
+  tokens: number;
+  createdAt: number;
+}
+
+export interface QuotaMeter {
+  period: QuotaPeriod;
+  kind: QuotaKind;
+  used: number;
+  limit: number;
+  /** used / limit, capped at 1 */
+  fraction: number;
+  resetsAt: number;
+}
+
+export interface QuotaStatus {
+  plan: QuotaPlan;
+  meters: QuotaMeter[];
+  /** The first cap that has been reached, if any */
+  exceeded: QuotaMeter | null;
+}
+
+/**
+ * The quota plan for a user plan; model tier names (free/base/premium) are accepted too
+ */
+export function quotaPlanFor(plan?: string | null): QuotaPlan {
+  switch (getTierForPlan(plan)) {
+    case "premium":
+      return "enterprise";
+    case "base":
+      return "pro";
+    default:
+      return "free";
+  }
+}
+
+/**
+ * Start of the current UTC day and month; the ledger is summed from these
+ */
+export function quotaPeriodStarts(now: number): Record<QuotaPeriod, number> {
+  const date = new Date(now);
+  return {
+    daily: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    monthly: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+  };
+}
+
+/**
+ * When the current period's usage starts over
+ */
+export function quotaResetsAt(period: QuotaPeriod, now: number): number {
+  const date = new Date(now);
+  return period === "daily"
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Today's and this month's totals from the ledger entries since the start of the month
+ */
+export function sumUsage(entries: UsageEntry[], now: number): Record<QuotaPeriod, UsageTotals> {
+  const starts = quotaPeriodStarts(now);
+  const usage = { daily: { messages: 0, tokens: 0 }, monthly: { messages: 0, tokens: 0 } };
+  for (const entry of entries) {
+    if (entry.createdAt < starts.monthly || entry.createdAt > now) continue;
+    usage.monthly.messages += entry.messages;
+    usage.monthly.tokens += entry.tokens;
+    if (entry.createdAt >= starts.daily) {
+      usage.daily.messages += entry.messages;
+      usage.daily.tokens += entry.tokens;
+    }
+  }
+  return usage;
+}
+
+/**
+ * Compare usage against the plan's caps. A cap counts as reached once usage meets it,
+ * so the check before a turn refuses the message that would go over.
+ */
+export function checkQuota(plan: string | null | undefined, usage: Record<QuotaPeriod, UsageTotals>, now: number): QuotaStatus {
+  const quotaPlan = quotaPlanFor(plan);
+  const limits = PLAN_QUOTAS[quotaPlan];
+  const meters: QuotaMeter[] = (["daily", "monthly"] as const).flatMap(period =>
+    (["messages", "tokens"] as const).map(kind => ({
+      period,
+      kind,
+      used: usage[period][kind],
+      limit: limits[period][kind],
+      fraction: Math.min(1, usage[period][kind] / limits[period][kind]),
+      resetsAt: quotaResetsAt(period, now),
+    }))
+  );
+  return { plan: quotaPlan, meters, exceeded: meters.find(meter => meter.used >= meter.limit) ?? null };
+}
+
+/**
+ * What the founder is told when a turn is refused
+ */
+export function describeQuotaExceeded(exceeded: QuotaMeter, plan: QuotaPlan): string {
+  const period = exceeded.period === "daily" ? "Daily" : "Monthly";
+  const limit = exceeded.limit.toLocaleString("en-US");
+  const kind = exceeded.kind === "messages" ? "message" : "token";
+  return `${period} ${kind} quota reached (${limit} on the ${plan} plan). It resets at ${new Date(exceeded.resetsAt).toISOString()}.`;
+}
+
+export class QuotaExceededError extends Error {
+  quota: QuotaMeter;
+  plan: QuotaPlan;
+
+  constructor(quota: QuotaMeter, plan: QuotaPlan) {
+    super(describeQuotaExceeded(quota, plan));
+    this.name = "QuotaExceededError";
+    this.quota = quota;
+    this.plan = plan;
+  }
+}
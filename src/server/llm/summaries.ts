@@ -0,0 +1,116 @@
+/**
+ * Rolling thread summaries
+ *
+ * Once a conversation has enough messages that are not covered by a summary yet,
+ * everything except the most recent tail is folded into a new summary that also
+ * absorbs the previous one. The latest summary therefore always covers the
+ * conversation from its first message up to `endMessageId`, and the prompt only
+ * needs that summary plus the messages after it.
+ *
+ * Pure helpers with no env or database access, shared by the Next.js routes and Convex.
+ */
+
+import type { ChatCompletionMessage } from "./providers";
+
+/** Unsummarized messages needed before older ones are compacted */
+export const SUMMARY_TRIGGER_MESSAGES = 24;
+
+/** Most recent messages that always stay verbatim in the prompt */
+export const SUMMARY_TAIL_MESSAGES = 10;
+
+export interface SummarizableMessage {
+  id: string;
+  sender: string;
+  content: string;
+  /** Display name of the advisor who wrote the message */
+  speaker?: string | null;
+}
+
+export interface SummaryBoundary {
+  content: string;
+  startMessageId?: string | null;
+  endMessageId?: string | null;
+}
+
+export interface SummaryRange {
+  messages: SummarizableMessage[];
+  startMessageId: string;
+  endMessageId: string;
+}
+
+/**
+ * Decide which messages the next summary should absorb.
+ * `messages` must be in chronological order and include everything after the latest summary.
+ * Returns null while the unsummarized backlog is below the trigger.
+ */
+export function planSummaryRange(
+  messages: SummarizableMessage[],
+  latestSummary?: SummaryBoundary | null,
+  options: { trigger?: number; tail?: number } = {}
+): SummaryRange | null {
+  const trigger = options.trigger ?? SUMMARY_TRIGGER_MESSAGES;
+  const tail = options.tail ?? SUMMARY_TAIL_MESSAGES;
+
+  const endIndex = latestSummary?.endMessageId
+    ? messages.findIndex(m => m.id === latestSummary.endMessageId)
+    : -1;
+  const unsummarized = messages.slice(endIndex + 1);
+
+  if (unsummarized.length < Math.max(trigger, tail + 1)) return null;
+
+  const toSummarize = unsummarized.slice(0, unsummarized.length - tail);
+  return {
+    messages: toSummarize,
+    startMessageId: latestSummary?.startMessageId || toSummarize[0]!.id,
+    endMessageId: toSummarize[toSummarize.length - 1]!.id,
+  };
+}
+
+/**
+ * Pick the summary for the branch being answered, with the index of its last message in `path`.
+ * `summaries` are newest first. After a fork or a regeneration the newest summary can end on
+ * another branch; it is skipped for the newest one that ends on `path`, or none (-1).
+ */
+export function selectBranchSummary<T extends SummaryBoundary>(
+  summaries: T[],
+  path: { id: string }[]
+): { summary: T | null; endIndex: number } {
+  for (const summary of summaries) {
+    const endIndex = summary.endMessageId ? path.findIndex(m => m.id === summary.endMessageId) : -1;
+    if (endIndex >= 0) return { summary, endIndex };
+  }
+  return { summary: null, endIndex: -1 };
+}
+
+/**
+ * Build the completion request that merges the previous summary with the new range
+ */
+export function buildSummaryPrompt(
+  previousSummary: string | null | undefined,
+  messages: SummarizableMessage[]
+): ChatCompletionMessage[] {
+  const transcript = messages
+    .map(m => `**${m.sender === "user" ? "User" : m.speaker || "Advisor"}**: ${m.content}`)
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content: `You maintain the running summary of a conversation between a founder and their AI advisors.
+Merge the existing summary and the new messages into one updated summary.
+Keep the user's goals, facts about their situation and business, decisions made, advice given (and which advisor gave it), open questions and commitments.
+Write concise bullet points, at most 300 words. Return ONLY the summary.`,
+    },
+    {
+      role: "user",
+      content: `## Existing summary\n${previousSummary || "(none yet)"}\n\n## New messages\n${transcript}`,
+    },
+  ];
+}
+
+/**
+ * Format the latest summary for the prompt context
+ */
+export function formatSummaryForContext(summary: SummaryBoundary): string {
+  return `## Summary of Earlier Conversation\n${summary.content}`;
+}
@@ -0,0 +1,220 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import {
+  buildComponentInstructions,
+  createComponentRegistry,
+  defineComponent,
+  extractComponentOutputs,
+  postProcessResponse,
+  resolveAdvisorComponents,
+} from '@/server/advisors/components';
+import { enforceResponseLength, parseActionItems, responseProtocol } from '@/server/advisors/components/responseProtocol';
+import { hardNoRedFlags } from '@/server/advisors/components/hardNoRedFlags';
+import { computeWeightedTotal, decideVerdict, scoringEngine } from '@/server/advisors/components/scoringEngine';
+
+const context = { advisorId: 'alex-reyes-v3', advisorName: 'Alex Reyes' };
+const words = (count: number, word = 'word') => Array.from({ length: count }, () => word).join(' ');
+
+describe('component registry', () => {
+  test('every component shipped with the seed advisors has a handler', () => {
+    for (const advisor of [alexReyes, amaraJohnson]) {
+      const { components, unsupported } = resolveAdvisorComponents(advisor.components);
+      expect(unsupported).toEqual([]);
+      expect(components.map((c) => c.id)).toEqual(advisor.components.map((c) => c.id));
+    }
+  });
+
+  test('reports unknown ids, other major versions and invalid configs', () => {
+    const { components, unsupported } = resolveAdvisorComponents([
+      { id: 'crystalBall', version: '1.0.0', config: {} },
+      { id: 'scoringEngine', version: '2.0.0', config: {} },
+      { id: 'scoringEngine', version: '1.4.0', config: { teamWeight: 7 } },
+      { id: 'pivotLibrary', version: '1.2.0' },
+      'not a component',
+    ]);
+
+    expect(unsupported).toEqual([
+      { id: 'crystalBall', version: '1.0.0', reason: 'unknown_component' },
+      { id: 'scoringEngine', version: '2.0.0', reason: 'unsupported_version' },
+      { id: 'scoringEngine', version: '1.4.0', reason: 'invalid_config' },
+    ]);
+    // Minor versions share the handler and missing config falls back to defaults
+    expect(components).toEqual([expect.objectContaining({ id: 'pivotLibrary', config: expect.objectContaining({ maxPivotSuggestions: 3 }) })]);
+  });
+
+  test('custom handlers can be registered and a failing hook is skipped', () => {
+    const shout = defineComponent({
+      id: 'shout',
+      version: '1.0.0',
+      configSchema: z.object({ suffix: z.string().default('!') }),
+      postProcess: (content, config) => content.toUpperCase() + config.suffix,
+    });
+    const broken = defineComponent({
+      id: 'broken',
+      version: '1.0.0',
+      configSchema: z.object({}),
+      postProcess: () => {
+        throw new Error('boom');
+      },
+    });
+    const registry = createComponentRegistry([shout, broken]);
+    const { components } = resolveAdvisorComponents(
+      [{ id: 'broken', version: '1.0.0' }, { id: 'shout', version: '1.0.0', config: { suffix: '!!' } }],
+      registry
+    );
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(postProcessResponse(components, 'hello', context)).toBe('HELLO!!');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test('prompt instructions reflect each component config', () => {
+    const { components } = resolveAdvisorComponents(alexReyes.components);
+    const instructions = buildComponentInstructions(components, context);
+
+    expect(instructions.startsWith('## Your Methods')).toBe(true);
+    expect(instructions).toContain('Team 40%, Market 30%, Traction 20%, Idea 10%');
+    expect(instructions).toContain('uncoachable, untrustworthy, indecisive');
+    expect(instructions).toContain('Any one of them is a hard no');
+    expect(instructions).toContain('Keep replies under 500 words.');
+    expect(instructions).toContain('**Action Items**');
+    expect(buildComponentInstructions([], context)).toBe('');
+  });
+});
+
+describe('responseProtocol', () => {
+  const reply = `${words(40)}. ${words(40)}.\n\n**Action Items**\n- Talk to ten customers\n2. Cut burn by 20%\n\n— Alex`;
+
+  test('parses the action items list', () => {
+    expect(parseActionItems(reply)).toEqual(['Talk to ten customers', 'Cut burn by 20%']);
+    expect(parseActionItems('No list here.')).toEqual([]);
+  });
+
+  test('shortens the body but keeps the action items when over the limit', () => {
+    const result = enforceResponseLength(reply, 60, true);
+
+    expect(result).toContain('**Action Items**\n- Talk to ten customers');
+    expect(result.split(/\s+/).length).toBeLessThanOrEqual(60);
+    expect(result.startsWith(`${words(40)}.`)).toBe(true);
+  });
+
+  test('leaves replies within the limit untouched', () => {
+    expect(enforceResponseLength(reply, 500, true)).toBe(reply);
+  });
+
+  test('runs through the registry as post-processing and extraction', () => {
+    const { components } = resolveAdvisorComponents([
+      { id: 'responseProtocol', version: '1.0.0', config: { maxResponseLength: 60, includeActionItems: true } },
+    ]);
+
+    const processed = postProcessResponse(components, reply, context);
+    expect(processed.split(/\s+/).length).toBeLessThanOrEqual(60);
+    expect(extractComponentOutputs(components, processed, context)).toEqual({
+      responseProtocol: { actionItems: ['Talk to ten customers', 'Cut burn by 20%'] },
+    });
+  });
+
+  test('has no prompt rules without config', () => {
+    expect(responseProtocol.shapePrompt!(responseProtocol.configSchema.parse({}), context)).toBeNull();
+  });
+});
+
+describe('hardNoRedFlags', () => {
+  test('only shapes the prompt; red flags named in the prose are not extracted', () => {
+    const { components } = resolveAdvisorComponents(alexReyes.components);
+    const outputs = extractComponentOutputs(components, 'The market looks too niche and the team seems uncoachable.', context);
+
+    expect(hardNoRedFlags).not.toHaveProperty('extract');
+    expect(outputs).not.toHaveProperty('hardNoRedFlags');
+  });
+});
+
+describe('scoringEngine scorecard', () => {
+  const pitch = (card: object, prose = 'Solid team, but traction is thin.') =>
+    `${prose}\n\n— Alex\n\n\`\`\`scorecard\n${JSON.stringify(card)}\n\`\`\``;
+
+  test('weights the dimension scores and picks a verdict from the thresholds', () => {
+    const config = scoringEngine.configSchema.parse({});
+
+    expect(computeWeightedTotal([{ score: 8, weight: 0.4 }, { score: 6, weight: 0.3 }, { score: 4, weight: 0.2 }, { score: 9, weight: 0.1 }])).toBe(6.7);
+    expect(computeWeightedTotal([{ score: 6, weight: 0 }, { score: 8, weight: 0 }])).toBe(7);
+    expect(decideVerdict(8, false, config)).toBe('Yes');
+    expect(decideVerdict(6.7, false, config)).toBe('Not yet');
+    expect(decideVerdict(4.9, false, config)).toBe('No');
+    expect(decideVerdict(9, true, config)).toBe('No');
+  });
+
+  test('extracts the scorecard before post-processing strips the block from the prose', () => {
+    const { components } = resolveAdvisorComponents(alexReyes.components);
+    const reply = pitch({
+      team: { score: 8, rationale: 'Second-time founders' },
+      market: 6,
+      traction: '4',
+      idea: { score: 9 },
+      redFlags: [],
+      summary: 'Promising, come back with revenue.',
+    });
+
+    const outputs = extractComponentOutputs(components, reply, context);
+    expect(outputs.scoringEngine).toEqual({
+      dimensions: [
+        { id: 'team', score: 8, weight: 0.4, rationale: 'Second-time founders' },
+        { id: 'market', score: 6, weight: 0.3, rationale: null },
+        { id: 'traction', score: 4, weight: 0.2, rationale: null },
+        { id: 'idea', score: 9, weight: 0.1, rationale: null },
+      ],
+      total: 6.7,
+      minimumScore: 7.5,
+      autoRejectBelow: 5,
+      redFlags: { founder: [], market: [] },
+      hardNo: false,
+      verdict: 'Not yet',
+      summary: 'Promising, come back with revenue.',
+    });
+    expect(postProcessResponse(components, reply, context)).toBe('Solid team, but traction is thin.\n\n— Alex');
+  });
+
+  test('red flags hit through hardNoRedFlags turn a strict advisor into a hard no', () => {
+    const { components } = resolveAdvisorComponents(alexReyes.components);
+    const reply = pitch(
+      { team: 9, market: 9, traction: 9, idea: 9, redFlags: ['saturated', 'Uncoachable', 'not configured'] },
+      'Great numbers, but the founder came across as uncoachable.'
+    );
+
+    expect(extractComponentOutputs(components, reply, context).scoringEngine).toEqual(expect.objectContaining({
+      total: 9,
+      redFlags: { founder: ['uncoachable'], market: ['saturated'] },
+      hardNo: true,
+      verdict: 'No',
+    }));
+  });
+
+  test('a red flag the prose mentions but the block does not list is no hard no', () => {
+    const { components } = resolveAdvisorComponents(alexReyes.components);
+    const reply = pitch(
+      { team: 9, market: 9, traction: 9, idea: 9, redFlags: [] },
+      'The market is far from saturated, and the founder is anything but uncoachable.'
+    );
+
+    expect(extractComponentOutputs(components, reply, context).scoringEngine).toEqual(expect.objectContaining({
+      total: 9,
+      redFlags: { founder: [], market: [] },
+      hardNo: false,
+      verdict: 'Yes',
+    }));
+  });
+
+  test('replies without a valid scorecard block are left alone', () => {
+    const { components } = resolveAdvisorComponents([{ id: 'scoringEngine', version: '1.0.0' }]);
+    const malformed = '```scorecard\n{"team": 8}\n```';
+
+    expect(extractComponentOutputs(components, 'Just advice, no pitch.', context)).toEqual({});
+    expect(extractComponentOutputs(components, malformed, context)).toEqual({});
+    expect(postProcessResponse(components, 'Just advice.\n\n\n— Alex', context)).toBe('Just advice.\n\n\n— Alex');
+  });
+});
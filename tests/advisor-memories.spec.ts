@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import {
+  buildMemoryExtractionPrompt,
+  formatMemoriesForPrompt,
+  normalizeMemoryKey,
+  parseExtractedMemories,
+  MAX_MEMORIES_PER_TURN,
+} from '@/server/llm/memories';
+
+jest.mock('~/server/db', () => ({ db: {} }));
+
+import { generateSystemPrompt } from '@/server/llm/prompt';
+
+type PromptAdvisor = Parameters<typeof generateSystemPrompt>[0];
+
+const advisor = {
+  id: 'alex-reyes-v3',
+  schemaVersion: alexReyes.advisorSchemaVersion,
+  persona: alexReyes.persona,
+  roleDefinition: alexReyes.roleDefinition,
+  components: alexReyes.components,
+  metadata: alexReyes.metadata,
+  localization: alexReyes.localization,
+} as unknown as PromptAdvisor;
+
+describe('parseExtractedMemories', () => {
+  test('reads a JSON object wrapped in a code fence', () => {
+    const raw = 'Here you go:\n```json\n{"company_stage": "pre-seed", "runway_months": 9, "has_cofounder": true}\n```';
+    expect(parseExtractedMemories(raw)).toEqual([
+      { key: 'company_stage', value: 'pre-seed' },
+      { key: 'runway_months', value: 9 },
+      { key: 'has_cofounder', value: true },
+    ]);
+  });
+
+  test('normalizes keys and drops empty values', () => {
+    expect(parseExtractedMemories('{"Team Size": 4, "monthlyRevenue": null, "industry": ""}')).toEqual([
+      { key: 'team_size', value: 4 },
+    ]);
+  });
+
+  test('keeps only known verdicts, in canonical casing', () => {
+    expect(parseExtractedMemories('{"verdict": "not YET"}')).toEqual([{ key: 'verdict', value: 'Not yet' }]);
+    expect(parseExtractedMemories('{"verdict": "maybe"}')).toEqual([]);
+  });
+
+  test('ignores malformed output and nested values', () => {
+    expect(parseExtractedMemories('no facts here')).toEqual([]);
+    expect(parseExtractedMemories('{"company_stage": ')).toEqual([]);
+    expect(parseExtractedMemories('{"team": {"size": 4}}')).toEqual([]);
+  });
+
+  test('caps the number of facts saved per turn', () => {
+    const many = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`fact_${i}`, i]));
+    expect(parseExtractedMemories(JSON.stringify(many))).toHaveLength(MAX_MEMORIES_PER_TURN);
+  });
+});
+
+describe('memory prompts', () => {
+  test('normalizeMemoryKey handles spaces, camelCase and dashes', () => {
+    expect(normalizeMemoryKey('Company Stage')).toBe('company_stage');
+    expect(normalizeMemoryKey('companyStage')).toBe('company_stage');
+    expect(normalizeMemoryKey('company-stage')).toBe('company_stage');
+  });
+
+  test('the extraction prompt lists known facts so they can be updated', () => {
+    const messages = buildMemoryExtractionPrompt('Alex Reyes', [{ key: 'runway_months', value: 9 }], 'We now have 6 months', 'Then raise soon.');
+    expect(messages[1]?.content).toContain('- runway_months: 9');
+    expect(messages[1]?.content).toContain('We now have 6 months');
+  });
+
+  test('formatMemoriesForPrompt is empty without memories', () => {
+    expect(formatMemoriesForPrompt([])).toBe('');
+  });
+
+  test('generateSystemPrompt includes the advisor memories before the instructions', () => {
+    const prompt = generateSystemPrompt(advisor, [
+      { key: 'company_stage', value: 'pre-seed' },
+      { key: 'verdict', value: 'Not yet' },
+    ]);
+
+    expect(prompt).toContain('- **Company stage**: pre-seed');
+    expect(prompt).toContain('- **Verdict**: Not yet');
+    expect(prompt.indexOf('## What you know about this founder')).toBeLessThan(prompt.indexOf('## Instructions'));
+    expect(generateSystemPrompt(advisor)).not.toContain('## What you know about this founder');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import {
+  classifyQuestion,
+  formatScopeForPrompt,
+  parseAdvisorScope,
+  routeByScope,
+  type ScopedAdvisor,
+} from '@/server/advisors/scope';
+
+const alex: ScopedAdvisor = { id: 'alex', name: alexReyes.persona.name, scope: parseAdvisorScope(alexReyes.roleDefinition) };
+const amara: ScopedAdvisor = { id: 'amara', name: amaraJohnson.persona.name, scope: parseAdvisorScope(amaraJohnson.roleDefinition) };
+const board = [alex, amara];
+
+describe('advisor scope routing', () => {
+  test('reads the scope lists from roleDefinition', () => {
+    expect(alex.scope.inScope).toContain('Investor readiness and pitch feedback');
+    expect(amara.scope.outOfScope).toContain("Fundraising strategy (Alex's role)");
+    expect(parseAdvisorScope({ mission: 'no scope' })).toEqual({ inScope: [], outOfScope: [] });
+    expect(parseAdvisorScope(null)).toEqual({ inScope: [], outOfScope: [] });
+  });
+
+  test('classifies a question against every advisor, best fit first', () => {
+    const [best, other] = classifyQuestion('Which tech stack should we pick for the new architecture?', board);
+
+    expect(best).toEqual(expect.objectContaining({
+      advisorId: 'amara',
+      inScopeMatches: expect.arrayContaining(['Tech stack selection and justification']),
+    }));
+    expect(other).toEqual(expect.objectContaining({
+      advisorId: 'alex',
+      outOfScopeMatches: ["Detailed technical architecture (Amara's role)"],
+    }));
+  });
+
+  test("an out-of-scope topic that names its owner points at that advisor", () => {
+    const matches = classifyQuestion('What fundraising strategy makes sense before our seed?', board);
+
+    expect(matches[0]!.advisorId).toBe('alex');
+    expect(matches.find((m) => m.advisorId === 'amara')!.outOfScopeMatches).toEqual(["Fundraising strategy (Alex's role)"]);
+  });
+
+  test('suggests a hand-off when the current advisor is out of scope', () => {
+    const routing = routeByScope('How do I get investor ready and tighten my pitch?', board, 'amara');
+
+    expect(routing.bestFitId).toBe('alex');
+    expect(routing.currentOutOfScope).toBe(true);
+    expect(routing.handoff).toEqual({
+      advisorId: 'alex',
+      advisorName: 'Alex Reyes',
+      reason: 'Investor readiness and pitch feedback',
+    });
+  });
+
+  test('stays put when the current advisor covers the question or nobody does', () => {
+    expect(routeByScope('How do I get investor ready and tighten my pitch?', board, 'alex').handoff).toBeNull();
+
+    const unrelated = routeByScope('Any good restaurants nearby?', board, 'alex');
+    expect(unrelated).toEqual(expect.objectContaining({ bestFitId: null, currentOutOfScope: false, handoff: null }));
+  });
+
+  test('renders scope and constraints for the system prompt', () => {
+    const section = formatScopeForPrompt(amara.scope, ['No vendor endorsements']);
+
+    expect(section.startsWith('## Your Scope')).toBe(true);
+    expect(section).toContain('• Tech stack selection and justification');
+    expect(section).toContain("**Out of scope** (say so and point the founder to the right advisor):\n• Writing production code");
+    expect(section).toContain('**Constraints**:\n• No vendor endorsements');
+    expect(formatScopeForPrompt({ inScope: [], outOfScope: [] })).toBe('');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import {
+  ADVISOR_SCHEMA_VERSION,
+  advisorDraftFromDocument,
+  getAdvisorField,
+  parseAdvisorJSON,
+  setAdvisorField,
+  validateAdvisorDocument,
+  type AdvisorFieldError,
+} from '@/server/advisors/schema';
+import { buildAdvisorSystemPrompt } from '@/server/advisors/systemPrompt';
+
+const minimal = { persona: { name: 'Ada Byron', title: 'Operating Partner' } };
+
+const errorsOf = (input: unknown): AdvisorFieldError[] => {
+  const result = validateAdvisorDocument(input);
+  return result.ok ? [] : result.errors;
+};
+
+describe('advisor schema', () => {
+  test('the seed advisors validate against the current version', () => {
+    for (const advisor of [alexReyes, amaraJohnson]) {
+      const result = validateAdvisorDocument(advisor);
+      expect(result.ok).toBe(true);
+      if (result.ok) expect(result.advisor.advisorSchemaVersion).toBe(ADVISOR_SCHEMA_VERSION);
+    }
+  });
+
+  test('fills defaults and drops blank form values', () => {
+    const result = validateAdvisorDocument({
+      persona: {
+        ...minimal.persona,
+        oneLiner: '  ',
+        specialties: ['Hiring', '', '  Pricing '],
+        education: { degreeName: '', institution: '' },
+      },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.advisor.status).toBe('active');
+    expect(result.advisor.components).toEqual([]);
+    expect(result.advisor.persona.oneLiner).toBeUndefined();
+    expect(result.advisor.persona.specialties).toEqual(['Hiring', 'Pricing']);
+    expect(result.advisor.persona.education).toBeUndefined();
+  });
+
+  test('reports field-level errors by path', () => {
+    const errors = errorsOf({
+      persona: {
+        name: ' ',
+        title: 'Partner',
+        education: { graduationYear: 'ninety-seven' },
+        favouriteColour: 'green',
+      },
+      roleDefinition: { keyPerformanceIndicators: [{ unit: '%' }], tools: ['runwayCalculator', 'crystalBall'] },
+      metadata: { owner: { contactEmail: 'not-an-email' } },
+      localization: { defaultLanguage: 'fr', supportedLanguages: ['en', 'es'] },
+    });
+
+    expect(errors.map((error) => error.path).sort()).toEqual([
+      'localization.defaultLanguage',
+      'metadata.owner.contactEmail',
+      'persona',
+      'persona.education.graduationYear',
+      'persona.name',
+      'roleDefinition.keyPerformanceIndicators.0.metric',
+      'roleDefinition.tools.1',
+    ]);
+    expect(errors.find((error) => error.path === 'persona')?.message).toBe('Not an advisor field: favouriteColour');
+    expect(errors.find((error) => error.path === 'persona.name')?.message).toBe('Name is required');
+  });
+
+  test('checks component configs against their handlers', () => {
+    const errors = errorsOf({
+      ...minimal,
+      components: [
+        { id: 'responseProtocol', version: '1.0.0', config: { maxResponseLength: 10 } },
+        { id: 'fortuneTeller', version: '1.0.0', config: {} },
+        { id: 'responseProtocol', version: '2.0.0', config: {} },
+      ],
+    });
+
+    expect(errors.map((error) => error.path)).toEqual([
+      'components.0.config.maxResponseLength',
+      'components.1.id',
+      'components.2.version',
+    ]);
+  });
+
+  test('rejects unknown schema versions and malformed JSON', () => {
+    expect(errorsOf({ ...minimal, advisorSchemaVersion: '0.9' })).toEqual([
+      expect.objectContaining({ path: 'advisorSchemaVersion' }),
+    ]);
+    expect(parseAdvisorJSON('{"persona": ').ok).toBe(false);
+    expect(parseAdvisorJSON(JSON.stringify(minimal)).ok).toBe(true);
+  });
+
+  test('edits drafts immutably by dotted path', () => {
+    const draft = advisorDraftFromDocument({ persona: { name: 'Ada', title: 'Partner' }, tags: [] });
+    const edited = setAdvisorField(draft, 'roleDefinition.keyPerformanceIndicators.0.metric', 'Burn multiple');
+
+    expect(getAdvisorField(edited, 'roleDefinition.keyPerformanceIndicators')).toEqual([{ metric: 'Burn multiple' }]);
+    expect(getAdvisorField(draft, 'roleDefinition')).toBeUndefined();
+    expect(getAdvisorField(setAdvisorField(edited, 'persona.title', undefined), 'persona')).toEqual({ name: 'Ada' });
+  });
+});
+
+describe('advisor system prompt', () => {
+  test('includes the structured persona, mission, KPIs and delivery', () => {
+    const prompt = buildAdvisorSystemPrompt(alexReyes);
+
+    expect(prompt).toContain('You are Alex Reyes');
+    expect(prompt).toContain('## Your Background');
+    expect(prompt).toContain('**Education**: MBA in Finance & Strategy from Stanford Graduate School of Business (1997)');
+    expect(prompt).toContain('## Your Mission');
+    expect(prompt).toContain('Speed to Decision (hours)');
+    expect(prompt).toContain('## Your Scope');
+    expect(prompt).toContain('Always end your responses with "— Alex"');
+    expect(prompt).toContain('- Do not use emojis');
+    expect(prompt).toContain('## Your Methods');
+  });
+
+  test('leaves out empty sections for sparse or half-edited advisors', () => {
+    const prompt = buildAdvisorSystemPrompt({ persona: { name: '', title: 'Partner', education: { major: 7 } } });
+
+    expect(prompt).toContain('You are Advisor, Partner.');
+    expect(prompt).toContain('Your expertise includes: general advice');
+    expect(prompt).not.toContain('## Your Background');
+    expect(prompt).not.toContain('## Your Mission');
+    expect(prompt).not.toContain('## Communication Style');
+  });
+});
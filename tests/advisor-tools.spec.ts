@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import {
+  buildToolResultMessages,
+  executeToolCall,
+  resolveAdvisorTools,
+  toToolDefinitions,
+  toolRegistry,
+} from '@/server/advisors/tools';
+import { mergeToolCallDeltas, parseToolCalls } from '@/server/llm/providers';
+
+const context = { advisorId: 'alex-reyes-v3', conversationId: 'conv_tools' };
+const allTools = toolRegistry.list();
+const run = (name: string, args: unknown, ctx: Parameters<typeof executeToolCall>[2] = context) =>
+  executeToolCall(allTools, { id: `call_${name}`, name, arguments: JSON.stringify(args) }, ctx);
+
+describe('advisor tools', () => {
+  test('advisor JSONs declare which tools they may use', () => {
+    expect(resolveAdvisorTools(alexReyes.roleDefinition).map((t) => t.name)).toEqual([
+      'runwayCalculator',
+      'unitEconomicsCalculator',
+      'capTableSimulator',
+      'saveMemory',
+    ]);
+    expect(resolveAdvisorTools(amaraJohnson.roleDefinition).map((t) => t.name)).toEqual(['runwayCalculator', 'saveMemory']);
+    expect(resolveAdvisorTools({ tools: ['noSuchTool', 'saveMemory', 'saveMemory'] }).map((t) => t.name)).toEqual(['saveMemory']);
+    expect(resolveAdvisorTools(null)).toEqual([]);
+
+    const [runway] = toToolDefinitions(resolveAdvisorTools(amaraJohnson.roleDefinition));
+    expect(runway).toEqual({ name: 'runwayCalculator', description: expect.any(String), parameters: expect.objectContaining({ type: 'object' }) });
+  });
+
+  test('runway calculator projects months of cash, with growth', async () => {
+    const flat = await run('runwayCalculator', { cashOnHand: 600000, monthlyBurn: 60000, monthlyRevenue: 10000 });
+    expect(flat.result).toEqual({ netMonthlyBurn: 50000, runwayMonths: 12, defaultAlive: false, projectionMonths: 120 });
+
+    // Revenue overtakes burn before the cash runs out
+    const growing = await run('runwayCalculator', { cashOnHand: 300000, monthlyBurn: 50000, monthlyRevenue: 20000, revenueGrowthPercent: 20 });
+    expect(growing.result).toEqual(expect.objectContaining({ runwayMonths: null, defaultAlive: true }));
+  });
+
+  test('unit economics calculator reports LTV, LTV:CAC and payback', async () => {
+    const { result } = await run('unitEconomicsCalculator', {
+      cac: 600,
+      monthlyRevenuePerCustomer: 100,
+      grossMarginPercent: 80,
+      monthlyChurnPercent: 2,
+    });
+    expect(result).toEqual({ ltv: 4000, ltvToCac: 6.67, paybackMonths: 7.5, customerLifetimeMonths: 50, assessment: 'healthy' });
+
+    const poor = await run('unitEconomicsCalculator', { cac: 1000, monthlyRevenuePerCustomer: 50, monthlyChurnPercent: 10 });
+    expect(poor.result).toEqual(expect.objectContaining({ ltvToCac: 0.5, assessment: 'unprofitable' }));
+  });
+
+  test('cap table simulator dilutes holders across rounds, pool included', async () => {
+    const { result, error } = await run('capTableSimulator', {
+      shareholders: [{ name: 'Founder A', shares: 5000000 }, { name: 'Founder B', shares: 5000000 }],
+      rounds: [{ name: 'Seed', preMoneyValuation: 8000000, investment: 2000000, optionPoolPercent: 10 }],
+    });
+    expect(error).toBeUndefined();
+
+    const table = (result as any).capTable as { name: string; ownershipPercent: number; dilutionPercent: number | null }[];
+    expect(table).toEqual([
+      expect.objectContaining({ name: 'Founder A', ownershipPercent: 35, dilutionPercent: 30 }),
+      expect.objectContaining({ name: 'Founder B', ownershipPercent: 35, dilutionPercent: 30 }),
+      expect.objectContaining({ name: 'Seed investors', ownershipPercent: 20, dilutionPercent: null }),
+      expect.objectContaining({ name: 'Option pool', ownershipPercent: 10, dilutionPercent: null }),
+    ]);
+    expect((result as any).rounds[0]).toEqual(expect.objectContaining({ name: 'Seed', postMoneyValuation: 10000000 }));
+  });
+
+  test('save memory goes through the caller and normalizes the key', async () => {
+    const saveMemory = jest.fn(async () => undefined);
+    const record = await run('saveMemory', { key: 'Runway Months', value: 9 }, { ...context, saveMemory });
+
+    expect(saveMemory).toHaveBeenCalledWith('runway_months', 9);
+    expect(record.result).toEqual({ saved: true, key: 'runway_months', value: 9 });
+
+    const withoutStore = await run('saveMemory', { key: 'team_size', value: 3 });
+    expect(withoutStore.error).toMatch(/can't be saved/);
+  });
+
+  test('bad calls come back as errors instead of throwing', async () => {
+    expect(await run('runwayCalculator', { monthlyBurn: 10 })).toEqual(expect.objectContaining({ error: expect.stringContaining('cashOnHand') }));
+    expect(await run('teleport', {})).toEqual(expect.objectContaining({ error: 'Unknown tool "teleport"' }));
+    expect(await executeToolCall(allTools, { id: 'c1', name: 'runwayCalculator', arguments: '{oops' }, context)).toEqual({
+      id: 'c1',
+      name: 'runwayCalculator',
+      arguments: '{oops',
+      error: 'Arguments are not valid JSON',
+    });
+  });
+
+  test('tool calls and results round-trip through the chat completion wire format', () => {
+    // Streams send id and name once, then the arguments in pieces
+    let calls = mergeToolCallDeltas([], [{ index: 0, id: 'call_1', function: { name: 'runwayCalculator', arguments: '{"cashOn' } }]);
+    calls = mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: 'Hand":1}' } }]);
+    expect(calls).toEqual([{ id: 'call_1', name: 'runwayCalculator', arguments: '{"cashOnHand":1}' }]);
+
+    expect(parseToolCalls({ tool_calls: [{ id: 'call_2', type: 'function', function: { name: 'saveMemory', arguments: '{}' } }] })).toEqual([
+      { id: 'call_2', name: 'saveMemory', arguments: '{}' },
+    ]);
+    expect(parseToolCalls({ content: 'plain answer' })).toEqual([]);
+
+    const messages = buildToolResultMessages('', calls, [{ id: 'call_1', name: 'runwayCalculator', arguments: { cashOnHand: 1 }, error: 'boom' }]);
+    expect(messages).toEqual([
+      { role: 'assistant', content: '', toolCalls: calls },
+      { role: 'tool', toolCallId: 'call_1', content: '{"error":"boom"}' },
+    ]);
+  });
+});
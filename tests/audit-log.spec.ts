@@ -0,0 +1,31 @@
+/**
+ * @jest-environment node
+ */
+import { diffFields } from '@/server/auth/audit';
+
+describe('audit log diffs', () => {
+  test('keeps only the fields that changed, ignoring bookkeeping fields', () => {
+    const before = { _id: 'u1', _creationTime: 1, name: 'Ada', plan: 'free', updatedAt: 10, createdAt: 1 };
+    const after = { ...before, plan: 'enterprise', updatedAt: 20 };
+
+    expect(diffFields(before, after)).toEqual({
+      before: { plan: 'free' },
+      after: { plan: 'enterprise' },
+    });
+  });
+
+  test('compares nested values by content', () => {
+    const persona = { name: 'Alex Reyes', expertise: ['fundraising'] };
+    expect(diffFields({ persona }, { persona: { ...persona, expertise: ['fundraising'] } })).toEqual({ before: {}, after: {} });
+    expect(diffFields({ persona }, { persona: { ...persona, expertise: ['hiring'] } })).toEqual({
+      before: { persona },
+      after: { persona: { name: 'Alex Reyes', expertise: ['hiring'] } },
+    });
+  });
+
+  test('a create or delete lists every field on one side', () => {
+    const doc = { _id: 'c1', title: 'Seed round', userId: 'u1' };
+    expect(diffFields(null, doc)).toEqual({ before: {}, after: { title: 'Seed round', userId: 'u1' } });
+    expect(diffFields(doc, undefined)).toEqual({ before: { title: 'Seed round', userId: 'u1' }, after: {} });
+  });
+});
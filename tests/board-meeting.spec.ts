@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import {
+  MAX_BOARD_SIZE,
+  extractMentionIds,
+  formatBoardMeetingContext,
+  planBoardMeeting,
+} from '@/server/llm/board';
+
+const advisors = [
+  { id: 'alex', name: 'Alex Reyes' },
+  { id: 'amara', name: 'Amara Johnson' },
+  { id: 'sam', name: 'Sam Okafor' },
+];
+const advisorIds = advisors.map((advisor) => advisor.id);
+
+describe('board meetings', () => {
+  test('extracts mentions in order by full or first name', () => {
+    expect(extractMentionIds('@Amara Johnson and @alex, what do you think?', advisors)).toEqual(['amara', 'alex']);
+    expect(extractMentionIds('@Alex @Amara @Alex', advisors)).toEqual(['alex', 'amara']);
+    expect(extractMentionIds('email me at founder@example.com', advisors)).toEqual([]);
+  });
+
+  test('only the lead replies without board mode or several mentions', () => {
+    expect(planBoardMeeting({ leadId: 'amara', mentions: [], advisorIds })).toEqual(['amara']);
+    expect(planBoardMeeting({ leadId: 'alex', mentions: ['alex'], advisorIds })).toEqual(['alex']);
+  });
+
+  test('several mentions or the toggle seat the board, lead first', () => {
+    expect(planBoardMeeting({ leadId: 'sam', mentions: ['sam', 'alex'], advisorIds })).toEqual(['sam', 'alex']);
+    expect(planBoardMeeting({ leadId: 'amara', mentions: [], advisorIds, boardMode: true })).toEqual(['amara', 'alex', 'sam']);
+    expect(planBoardMeeting({ leadId: 'alex', mentions: ['alex', 'ghost'], advisorIds })).toEqual(['alex']);
+
+    const crowd = Array.from({ length: MAX_BOARD_SIZE + 2 }, (_, index) => `advisor-${index}`);
+    expect(planBoardMeeting({ leadId: 'advisor-0', mentions: [], advisorIds: crowd, boardMode: true })).toHaveLength(MAX_BOARD_SIZE);
+  });
+
+  test('tells each advisor their seat and what was already said', () => {
+    const context = formatBoardMeetingContext(['Alex Reyes', 'Amara Johnson'], 2, [
+      { advisorName: 'Alex Reyes', content: 'Raise a small round first.' },
+    ]);
+
+    expect(context).toContain('several advisors at once: Alex Reyes, Amara Johnson');
+    expect(context).toContain('You are speaking 2 of 2');
+    expect(context).toContain('**Alex Reyes**: Raise a small round first.');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import { readServerSentEvents } from '@/lib/sse';
+import {
+  ChatProviderConfigError,
+  createChatProvider,
+  createEchoProvider,
+  createOpenAICompatibleProvider,
+} from '@/server/llm/providers';
+
+const advisor = {
+  id: 'alex-reyes-v3',
+  schemaVersion: alexReyes.advisorSchemaVersion,
+  status: 'active',
+  persona: alexReyes.persona,
+  roleDefinition: alexReyes.roleDefinition,
+  components: alexReyes.components,
+  metadata: alexReyes.metadata,
+  localization: alexReyes.localization,
+  modelHint: null,
+  tags: alexReyes.metadata.tags,
+  firstName: 'Alex',
+  lastName: 'Reyes',
+  imageUrl: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Offline setup: no OpenRouter key, echo provider
+jest.mock('~/env', () => ({
+  env: {
+    LLM_PROVIDER: 'echo',
+    APP_URL: 'http://localhost:3000',
+    OPENROUTER_FREE_MODEL: 'free-model',
+    OPENROUTER_BASE_MODEL: 'base-model',
+    OPENROUTER_PREMIUM_MODEL: 'premium-model',
+  },
+}));
+
+jest.mock('~/server/auth/require-user', () => ({
+  requireUser: jest.fn(async () => ({ id: 'user_offline', plan: 'free' })),
+}));
+
+jest.mock('~/server/db', () => ({
+  db: {
+    conversation: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'conv_offline', title: data.title, activeAdvisorId: data.activeAdvisorId, messages: [], summaries: [], memories: [] })),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    message: {
+      create: jest.fn(async ({ data }: any) => ({ id: `msg_${data.sender}`, createdAt: new Date(), ...data })),
+      count: jest.fn(async () => 2),
+      findMany: jest.fn(async () => []),
+      findUnique: jest.fn(async () => null),
+    },
+    threadSummary: {
+      findFirst: jest.fn(async () => null),
+      create: jest.fn(),
+    },
+    advisorMemory: {
+      upsert: jest.fn(),
+    },
+    userProfile: {
+      findUnique: jest.fn(async () => null),
+      upsert: jest.fn(),
+    },
+    document: {
+      findMany: jest.fn(async () => []),
+    },
+    usageLedger: {
+      aggregate: jest.fn(async () => ({ _sum: { messages: null, tokens: null } })),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('~/server/advisors/persona', () => ({
+  ...jest.requireActual('~/server/advisors/persona'),
+  getActiveAdvisors: jest.fn(async () => [advisor]),
+  getAdvisorById: jest.fn(async () => advisor),
+}));
+
+import { POST } from '@/app/api/chat/route';
+const { db } = jest.requireMock('~/server/db');
+
+describe('Chat providers', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('createChatProvider validates provider settings', () => {
+    expect(() => createChatProvider({})).toThrow(ChatProviderConfigError);
+    expect(() => createChatProvider({ provider: 'openai-compatible' })).toThrow('LLM_BASE_URL');
+    expect(() => createChatProvider({ provider: 'bogus' })).toThrow('Unknown LLM_PROVIDER');
+    expect(createChatProvider({ openRouterApiKey: 'key' }).name).toBe('openrouter');
+    expect(createChatProvider({ provider: 'echo' }).name).toBe('echo');
+  });
+
+  test('openai-compatible provider posts to the local endpoint without auth', async () => {
+    global.fetch = jest.fn(async () => Response.json({})) as any;
+    const provider = createOpenAICompatibleProvider({ baseURL: 'http://localhost:11434/v1/' });
+
+    await provider.createChatCompletion({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Hi' }],
+      maxTokens: 50,
+      stream: true,
+    });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama3.1',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 50,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  test('echo provider replays scripted replies in order', async () => {
+    const provider = createEchoProvider({ replies: ['First', 'Second'] });
+    const request = { model: 'any', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+    const contents = [];
+    for (let i = 0; i < 3; i++) {
+      const json = await (await provider.createChatCompletion(request)).json();
+      contents.push(json.choices[0].message.content);
+    }
+
+    expect(contents).toEqual(['First', 'Second', 'Second']);
+  });
+
+  test('/api/chat streams an echo reply without network access', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new Error('network disabled');
+    }) as any;
+
+    const res = await POST(new NextRequest('http://localhost/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'Is my idea fundable?' }] }),
+    }));
+
+    const events: { event: string; data: any }[] = [];
+    for await (const { event, data } of readServerSentEvents(res.body!)) {
+      events.push({ event, data: JSON.parse(data) });
+    }
+
+    const done = events[events.length - 1]!;
+    expect(done.event).toBe('done');
+    expect(done.data.message.content).toContain('Is my idea fundable?');
+    expect(events.filter((e) => e.event === 'delta').length).toBeGreaterThan(1);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ sender: 'advisor', tokensUsed: expect.any(Number) }),
+    });
+  });
+});
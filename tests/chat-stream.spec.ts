@@ -0,0 +1,576 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import { readServerSentEvents } from '@/lib/sse';
+
+const advisor = {
+  id: 'alex-reyes-v3',
+  schemaVersion: alexReyes.advisorSchemaVersion,
+  status: 'active',
+  persona: alexReyes.persona,
+  roleDefinition: alexReyes.roleDefinition,
+  components: alexReyes.components,
+  metadata: alexReyes.metadata,
+  localization: alexReyes.localization,
+  modelHint: 'x-ai/grok-code-fast-1',
+  tags: alexReyes.metadata.tags,
+  firstName: 'Alex',
+  lastName: 'Reyes',
+  imageUrl: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const amara = {
+  ...advisor,
+  id: 'amara-johnson-v2',
+  schemaVersion: amaraJohnson.advisorSchemaVersion,
+  persona: amaraJohnson.persona,
+  roleDefinition: amaraJohnson.roleDefinition,
+  components: amaraJohnson.components,
+  metadata: amaraJohnson.metadata,
+  localization: amaraJohnson.localization,
+  modelHint: null,
+  tags: amaraJohnson.metadata.tags,
+  firstName: 'Amara',
+  lastName: 'Johnson',
+};
+
+jest.mock('~/env', () => ({
+  env: {
+    OPENROUTER_API_KEY: 'test-key',
+    APP_URL: 'http://localhost:3000',
+    OPENROUTER_FREE_MODEL: 'free-model',
+    OPENROUTER_BASE_MODEL: 'base-model',
+    OPENROUTER_PREMIUM_MODEL: 'premium-model',
+  },
+}));
+
+jest.mock('~/server/auth/require-user', () => ({
+  requireUser: jest.fn(async () => ({ id: 'user_stream', plan: 'free' })),
+}));
+
+jest.mock('~/server/db', () => ({
+  db: {
+    conversation: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'conv_stream', title: data.title, activeAdvisorId: data.activeAdvisorId, messages: [], summaries: [], memories: [] })),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    message: {
+      create: jest.fn(async ({ data }: any) => ({ id: `msg_${data.sender}`, createdAt: new Date(), ...data })),
+      count: jest.fn(async () => 2),
+      findMany: jest.fn(async () => []),
+      findUnique: jest.fn(async () => null),
+    },
+    threadSummary: {
+      findFirst: jest.fn(async () => null),
+      create: jest.fn(),
+    },
+    advisorMemory: {
+      upsert: jest.fn(),
+    },
+    userProfile: {
+      findUnique: jest.fn(async () => null),
+      upsert: jest.fn(),
+    },
+    document: {
+      findMany: jest.fn(async () => []),
+    },
+    usageLedger: {
+      aggregate: jest.fn(async () => ({ _sum: { messages: null, tokens: null } })),
+      create: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('~/server/advisors/persona', () => ({
+  ...jest.requireActual('~/server/advisors/persona'),
+  getActiveAdvisors: jest.fn(async () => [advisor]),
+  getAdvisorById: jest.fn(async () => advisor),
+}));
+
+import { POST } from '@/app/api/chat/route';
+const { db } = jest.requireMock('~/server/db');
+const persona = jest.requireMock('~/server/advisors/persona');
+
+/** Fake OpenRouter stream: one SSE chunk per delta, then usage and [DONE] */
+function fakeUpstream(deltas: string[]) {
+  const encoder = new TextEncoder();
+  const events = [
+    ': OPENROUTER PROCESSING\n\n',
+    ...deltas.map((content) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`),
+    `data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }], usage: { total_tokens: 42 } })}\n\n`,
+    'data: [DONE]\n\n',
+  ];
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split an event across reads to exercise buffering
+      const [first, ...rest] = events;
+      controller.enqueue(encoder.encode(first!.slice(0, 5)));
+      controller.enqueue(encoder.encode(first!.slice(5)));
+      for (const event of rest) controller.enqueue(encoder.encode(event));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+/** Fake OpenRouter stream in which the model asks for tools, arguments split across chunks */
+function fakeToolCallUpstream(calls: { id: string; name: string; arguments: string }[]) {
+  const encoder = new TextEncoder();
+  const chunks = calls.flatMap((call, index) => [
+    { choices: [{ delta: { tool_calls: [{ index, id: call.id, type: 'function', function: { name: call.name, arguments: '' } }] } }] },
+    { choices: [{ delta: { tool_calls: [{ index, function: { arguments: call.arguments } }] } }] },
+  ]);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'tool_calls' }], usage: { total_tokens: 10 } })}\n\n`));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+function makeReq(body: unknown) {
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function collectEvents(res: Response) {
+  const events: { event: string; data: any }[] = [];
+  for await (const { event, data } of readServerSentEvents(res.body!)) {
+    events.push({ event, data: JSON.parse(data) });
+  }
+  return events;
+}
+
+describe('Chat API streaming', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    process.env.OPENROUTER_API_KEY = 'test-key';
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('streams upstream deltas as SSE and persists the final message', async () => {
+    global.fetch = jest.fn(async () => fakeUpstream(['Hello', ', founder', '. — Alex'])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Is my idea fundable?' }] }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+
+    const events = await collectEvents(res);
+    expect(events[0]?.event).toBe('start');
+    expect(events.filter((e) => e.event === 'delta').map((e) => e.data.content)).toEqual(['Hello', ', founder', '. — Alex']);
+
+    const done = events[events.length - 1]!;
+    expect(done.event).toBe('done');
+    expect(done.data.message.content).toBe('Hello, founder. — Alex');
+    expect(done.data.message.tokensUsed).toBe(42);
+
+    const upstreamBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string);
+    expect(upstreamBody.stream).toBe(true);
+
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        sender: 'advisor',
+        advisorId: 'alex-reyes-v3',
+        content: 'Hello, founder. — Alex',
+        tokensUsed: 42,
+        contentJson: expect.objectContaining({ finishReason: 'stop' }),
+      }),
+    });
+  });
+
+  test('runs advisor components over the finished reply before saving it', async () => {
+    global.fetch = jest.fn(async () => fakeUpstream([
+      'Focus on retention.\n\n',
+      '**Action Items**\n- Interview five churned users\n',
+    ])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Users keep churning' }] }));
+    await collectEvents(res);
+
+    // The system prompt carries the advisor's component instructions
+    const systemPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string).messages[0].content as string;
+    expect(systemPrompt).toContain('## Your Methods');
+
+    expect(db.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        sender: 'advisor',
+        contentJson: expect.objectContaining({
+          components: { responseProtocol: { actionItems: ['Interview five churned users'] } },
+        }),
+      }),
+    });
+  });
+
+  test('saves the scorecard from a scored pitch and streams it to the client', async () => {
+    const card = { team: 8, market: 8, traction: 7, idea: 8, redFlags: [], summary: 'Fund it.' };
+    global.fetch = jest.fn(async () => fakeUpstream([
+      'Strong pitch. — Alex\n\n',
+      `\`\`\`scorecard\n${JSON.stringify(card)}\n\`\`\``,
+    ])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Here is my pitch' }] }));
+    const events = await collectEvents(res);
+
+    const scorecard = expect.objectContaining({ total: 7.8, verdict: 'Yes', summary: 'Fund it.' });
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        content: 'Strong pitch. — Alex',
+        contentJson: expect.objectContaining({
+          components: expect.objectContaining({ scoringEngine: scorecard }),
+        }),
+      }),
+    });
+    const done = events.find((e) => e.event === 'done')!;
+    expect(done.data.message.components.scoringEngine).toEqual(scorecard);
+  });
+
+  test('runs the tools the advisor calls and answers with their results', async () => {
+    global.fetch = jest
+      .fn()
+      .mockImplementationOnce(async () => fakeToolCallUpstream([
+        { id: 'call_runway', name: 'runwayCalculator', arguments: '{"cashOnHand":600000,"monthlyBurn":50000}' },
+        { id: 'call_memory', name: 'saveMemory', arguments: '{"key":"runway_months","value":12}' },
+      ]))
+      .mockImplementationOnce(async () => fakeUpstream(['You have 12 months. — Alex']))
+      .mockImplementation(async () => Response.json({ choices: [{ message: { content: '{}' } }] })) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'We have $600k and burn $50k a month. How long do we last?' }] }));
+    const events = await collectEvents(res);
+
+    // The advisor's declared tools are offered to the model
+    const firstBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string);
+    expect(firstBody.tools.map((t: any) => t.function.name)).toEqual(['runwayCalculator', 'unitEconomicsCalculator', 'capTableSimulator', 'saveMemory']);
+
+    // The follow-up request carries the calls and their results
+    const secondBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body as string);
+    const toolMessages = secondBody.messages.slice(-3);
+    expect(toolMessages[0]).toEqual(expect.objectContaining({ role: 'assistant', tool_calls: expect.arrayContaining([expect.objectContaining({ id: 'call_runway' })]) }));
+    expect(toolMessages[1]).toEqual({ role: 'tool', tool_call_id: 'call_runway', content: expect.stringContaining('"runwayMonths":12') });
+    expect(toolMessages[2]).toEqual({ role: 'tool', tool_call_id: 'call_memory', content: expect.stringContaining('"saved":true') });
+
+    expect(events.filter((e) => e.event === 'tool_call').map((e) => e.data.toolCall.name)).toEqual(['runwayCalculator', 'saveMemory']);
+    expect(db.advisorMemory.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { conversationId: 'conv_stream', advisorId: advisor.id, key: 'runway_months', value: 12 },
+    }));
+
+    const toolCalls = [
+      expect.objectContaining({ id: 'call_runway', name: 'runwayCalculator', result: expect.objectContaining({ runwayMonths: 12 }) }),
+      expect.objectContaining({ id: 'call_memory', name: 'saveMemory', result: { saved: true, key: 'runway_months', value: 12 } }),
+    ];
+    expect(db.message.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        sender: 'advisor',
+        content: 'You have 12 months. — Alex',
+        tokensUsed: 52,
+        contentJson: expect.objectContaining({ toolCalls }),
+      }),
+    });
+    const done = events.find((e) => e.event === 'done')!;
+    expect(done.data.message.toolCalls).toEqual(toolCalls);
+  });
+
+  test('falls back to the next model on 429 and records which model answered', async () => {
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(new Response('rate limited', { status: 429 }))
+      .mockImplementationOnce(async () => fakeUpstream(['Hi'])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] }));
+    await collectEvents(res);
+
+    const requestedModels = (global.fetch as jest.Mock).mock.calls
+      .slice(0, 2)
+      .map(([, init]) => (JSON.parse(init.body as string) as { model: string }).model);
+    expect(requestedModels).toEqual(['x-ai/grok-code-fast-1', 'free-model']);
+
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({
+        contentJson: expect.objectContaining({
+          model: 'free-model',
+          requestedModel: 'x-ai/grok-code-fast-1',
+          modelSource: 'advisor',
+        }),
+      }),
+    });
+  });
+
+  test('board meeting: each mentioned advisor replies in turn and sees earlier replies', async () => {
+    persona.getActiveAdvisors.mockResolvedValueOnce([advisor, amara]);
+    persona.getAdvisorById.mockImplementationOnce(async (id: string) => (id === amara.id ? amara : advisor));
+    global.fetch = jest
+      .fn()
+      .mockImplementationOnce(async () => fakeUpstream(['Raise a seed round.']))
+      .mockImplementationOnce(async () => fakeUpstream(['Talk to customers first.'])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: '@Amara @Alex should I raise?' }] }));
+    const events = await collectEvents(res);
+
+    expect(events[0]?.data.advisorIds).toEqual(['amara-johnson-v2', 'alex-reyes-v3']);
+    expect(events.filter((e) => e.event === 'advisor_done').map((e) => e.data.message.advisorId))
+      .toEqual(['amara-johnson-v2', 'alex-reyes-v3']);
+
+    // The second advisor's prompt includes the first advisor's reply
+    const secondPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body as string);
+    expect(JSON.stringify(secondPrompt.messages)).toContain('Raise a seed round.');
+
+    const done = events[events.length - 1]!;
+    expect(done.event).toBe('done');
+    expect(done.data.messages.map((m: any) => m.content)).toEqual(['Raise a seed round.', 'Talk to customers first.']);
+
+    // User message plus one advisor message per board member
+    expect(db.message.create).toHaveBeenCalledTimes(3);
+    expect(db.message.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({ sender: 'advisor', advisorId: 'amara-johnson-v2' }),
+    });
+    expect(db.message.create).toHaveBeenNthCalledWith(3, {
+      data: expect.objectContaining({ sender: 'advisor', advisorId: 'alex-reyes-v3' }),
+    });
+  });
+
+  test('auto-routes to the advisor whose scope fits when nobody is chosen', async () => {
+    persona.getActiveAdvisors.mockResolvedValueOnce([advisor, amara]);
+    global.fetch = jest.fn(async () => fakeUpstream(['Pick boring tech.'])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Which tech stack should we pick for our architecture?' }] }));
+    const events = await collectEvents(res);
+
+    expect(events[0]?.data).toEqual(expect.objectContaining({
+      advisorId: 'amara-johnson-v2',
+      routing: { autoRouted: true, handoff: null },
+    }));
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ sender: 'advisor', advisorId: 'amara-johnson-v2' }),
+    });
+    // The prompt tells the advisor what is in and out of scope
+    const systemPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string).messages[0].content as string;
+    expect(systemPrompt).toContain('## Your Scope');
+    expect(systemPrompt).toContain("Fundraising strategy (Alex's role)");
+  });
+
+  test('offers a hand-off when the chosen advisor is out of scope', async () => {
+    persona.getActiveAdvisors.mockResolvedValueOnce([advisor, amara]);
+    persona.getAdvisorById.mockImplementationOnce(async () => amara);
+    global.fetch = jest.fn(async () => fakeUpstream(['That is more Alex territory.'])) as any;
+
+    const res = await POST(makeReq({
+      advisorId: 'amara-johnson-v2',
+      messages: [{ role: 'user', content: 'What fundraising strategy should I use for my seed round?' }],
+    }));
+    const events = await collectEvents(res);
+
+    const handoff = { advisorId: 'alex-reyes-v3', advisorName: 'Alex Reyes', reason: expect.any(String) };
+    expect(events[0]?.data.advisorId).toBe('amara-johnson-v2');
+    expect(events[0]?.data.routing).toEqual({ autoRouted: false, handoff });
+    expect(events[events.length - 1]?.data.routing).toEqual({ autoRouted: false, handoff });
+  });
+
+  test('injects the advisor memories and saves facts extracted from the reply', async () => {
+    db.conversation.findUnique.mockResolvedValueOnce({
+      id: 'conv_memory',
+      title: 'Runway',
+      activeAdvisorId: advisor.id,
+      messages: [],
+      summaries: [],
+      memories: [
+        { advisorId: advisor.id, key: 'company_stage', value: 'pre-seed' },
+        { advisorId: 'amara-johnson-v2', key: 'team_size', value: 3 },
+      ],
+    });
+    global.fetch = jest
+      .fn()
+      .mockImplementationOnce(async () => fakeUpstream(['Raise within three months.']))
+      .mockImplementation(async () => Response.json({
+        choices: [{ message: { content: '{"runway_months": 6, "verdict": "Yes"}' } }],
+        usage: { total_tokens: 17 },
+      })) as any;
+
+    const res = await POST(makeReq({ conversationId: 'conv_memory', messages: [{ role: 'user', content: 'We have 6 months of runway, should I raise?' }] }));
+    await collectEvents(res);
+
+    // Only the replying advisor's own memories reach its system prompt
+    const systemPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string).messages[0].content as string;
+    expect(systemPrompt).toContain('- **Company stage**: pre-seed');
+    expect(systemPrompt).not.toContain('Team size');
+
+    // Extraction runs in the background after the stream closes
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(db.advisorMemory.upsert).toHaveBeenCalledWith({
+      where: { conversationId_advisorId_key: { conversationId: 'conv_memory', advisorId: advisor.id, key: 'runway_months' } },
+      create: { conversationId: 'conv_memory', advisorId: advisor.id, key: 'runway_months', value: 6 },
+      update: { value: 6 },
+    });
+    expect(db.advisorMemory.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { value: 'Yes' },
+    }));
+    // The extraction call's tokens count toward the quota too
+    expect(db.usageLedger.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user_stream', conversationId: 'conv_memory', tokens: 17 }),
+    });
+  });
+
+  test('shares the founder profile with the advisor and queues proposed profile updates', async () => {
+    db.userProfile.findUnique.mockResolvedValue({
+      userId: 'user_stream',
+      companyName: 'Acme Robotics',
+      industry: 'Logistics',
+      stage: 'Pre-seed',
+      goals: null,
+      constraints: 'Solo founder',
+      optOutFields: ['constraints'],
+      proposals: null,
+    });
+    global.fetch = jest
+      .fn()
+      .mockImplementationOnce(async () => fakeUpstream(['Congrats on the seed round.']))
+      .mockImplementation(async () => Response.json({
+        choices: [{ message: { content: '{"company_stage": "Seed", "constraints": "Two founders now"}' } }],
+      })) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'We just closed our seed round!' }] }));
+    await collectEvents(res);
+
+    // Opted-out fields never reach the prompt
+    const systemPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string).messages[0].content as string;
+    expect(systemPrompt).toContain('- **Company**: Acme Robotics');
+    expect(systemPrompt).toContain('- **Stage**: Pre-seed');
+    expect(systemPrompt).not.toContain('Solo founder');
+
+    // ...and are never proposed; the stage change waits for the user
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(db.userProfile.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: 'user_stream' },
+      update: { proposals: [expect.objectContaining({ field: 'stage', value: 'Seed', advisorId: advisor.id })] },
+    }));
+
+    db.userProfile.findUnique.mockResolvedValue(null);
+  });
+
+  test('retrieves passages from the conversation documents and saves the ones the reply cites', async () => {
+    db.conversation.findUnique.mockResolvedValueOnce({
+      id: 'conv_docs',
+      title: 'Deck review',
+      activeAdvisorId: advisor.id,
+      messages: [],
+      summaries: [],
+      memories: [],
+    });
+    db.document.findMany.mockResolvedValueOnce([
+      {
+        id: 'doc_deck',
+        name: 'pitch-deck.md',
+        chunks: [
+          { index: 0, section: 'Traction', content: 'We grew monthly recurring revenue to $40k with 12% month over month growth.' },
+          { index: 1, section: 'Team', content: 'Two technical founders with a decade in logistics.' },
+        ],
+      },
+    ]);
+    global.fetch = jest.fn(async () => fakeUpstream(['Your revenue growth is strong [1].'])) as any;
+
+    const res = await POST(makeReq({ conversationId: 'conv_docs', messages: [{ role: 'user', content: 'Is our revenue growth good enough for a seed round?' }] }));
+    const events = await collectEvents(res);
+
+    expect(db.document.findMany).toHaveBeenCalledWith({ where: { conversationId: 'conv_docs' } });
+    const sent = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body as string).messages as { role: string; content: string }[];
+    const documentPrompt = sent.find((m) => m.content.startsWith('## Founder documents'))!;
+    expect(documentPrompt.role).toBe('system');
+    expect(documentPrompt.content).toContain('[1] pitch-deck.md — Traction');
+    expect(documentPrompt.content).not.toContain('logistics');
+
+    const citations = [{ ref: 1, documentId: 'doc_deck', documentName: 'pitch-deck.md', section: 'Traction' }];
+    const saved = db.message.create.mock.calls.find(([{ data }]: any) => data.sender === 'advisor')[0].data;
+    expect(saved.contentJson.citations).toEqual(citations);
+    expect(events.find((e) => e.event === 'done')!.data.message.citations).toEqual(citations);
+  });
+
+  test('records the message and the reply tokens in the usage ledger', async () => {
+    global.fetch = jest.fn(async () => fakeUpstream(['Noted.'])) as any;
+
+    await collectEvents(await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] })));
+
+    expect(db.usageLedger.create).toHaveBeenCalledTimes(2);
+    expect(db.usageLedger.create).toHaveBeenNthCalledWith(1, {
+      data: expect.objectContaining({ userId: 'user_stream', messages: 1 }),
+    });
+    expect(db.usageLedger.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({ userId: 'user_stream', tokens: 42 }),
+    });
+  });
+
+  test('refuses the turn with a 429 once the plan quota is used up', async () => {
+    global.fetch = jest.fn() as any;
+    db.usageLedger.aggregate.mockResolvedValueOnce({ _sum: { messages: 30, tokens: 1200 } });
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'One more?' }] }));
+
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(0);
+    const body = await res.json();
+    expect(body).toEqual(expect.objectContaining({ error: 'QUOTA_EXCEEDED', plan: 'free' }));
+    expect(body.quota).toEqual(expect.objectContaining({ period: 'daily', kind: 'messages', limit: 30 }));
+    expect(body.message).toContain('Daily message quota reached');
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(db.message.create).not.toHaveBeenCalled();
+  });
+
+  test('refuses sends over the per-user rate limit with a 429 and Retry-After', async () => {
+    // A fresh window, well after the sends made by the other tests
+    const start = Date.now() + 24 * 60 * 60 * 1000;
+    const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+    global.fetch = jest.fn(async () => new Response('upstream down', { status: 503 })) as any;
+
+    try {
+      for (let i = 0; i < 20; i++) {
+        expect((await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] }))).status).toBe(500);
+      }
+
+      now.mockReturnValue(start + 15_000);
+      const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] }));
+      expect(res.status).toBe(429);
+      expect(res.headers.get('Retry-After')).toBe('45');
+      expect(await res.json()).toEqual(expect.objectContaining({ error: 'RATE_LIMITED', action: 'chatSend', retryAfterMs: 45_000 }));
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  test('emits an error event and saves nothing when the stream is empty', async () => {
+    global.fetch = jest.fn(async () => fakeUpstream([])) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] }));
+    const events = await collectEvents(res);
+
+    expect(events[events.length - 1]).toEqual({
+      event: 'error',
+      data: expect.objectContaining({ error: 'NO_AI_RESPONSE' }),
+    });
+    // Only the user message was persisted
+    expect(db.message.create).toHaveBeenCalledTimes(1);
+  });
+
+  test('returns a JSON error when the upstream request fails before streaming', async () => {
+    global.fetch = jest.fn(async () => new Response('upstream down', { status: 503 })) as any;
+
+    const res = await POST(makeReq({ messages: [{ role: 'user', content: 'Hello?' }] }));
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual(expect.objectContaining({ error: 'AI_API_ERROR' }));
+  });
+});
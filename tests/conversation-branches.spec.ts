@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { branchLeafId, resolveMessageParents, selectBranchPath, toMessageVariant, type BranchNode } from '@/server/conversations/branches';
+
+// u1 → a1 → u2 → a2, then u2 edited into u2b (with reply a2b), then u2 edited again into u2c
+const tree: BranchNode[] = [
+  { id: 'u1', createdAt: 1 },
+  { id: 'a1', createdAt: 2 },
+  { id: 'u2', createdAt: 3 },
+  { id: 'a2', parentMessageId: 'u2', createdAt: 4 },
+  { id: 'u2b', parentMessageId: 'a1', createdAt: 5 },
+  { id: 'a2b', parentMessageId: 'u2b', createdAt: 6 },
+  { id: 'u2c', parentMessageId: 'a1', createdAt: 7 },
+];
+
+const ids = (path: { id: string }[]) => path.map((m) => m.id);
+
+describe('conversation branches', () => {
+  test('pre-branching messages read as one thread; missing parents become roots', () => {
+    const parents = resolveMessageParents([...tree, { id: 'orphan', parentMessageId: 'gone', createdAt: 8 }]);
+    expect(parents.get('u1')).toBeNull();
+    expect(parents.get('a1')).toBe('u1');
+    expect(parents.get('u2')).toBe('a1');
+    expect(parents.get('u2c')).toBe('a1');
+    expect(parents.get('orphan')).toBeNull();
+  });
+
+  test('without an anchor the newest branch is shown', () => {
+    const path = selectBranchPath(tree);
+    expect(ids(path)).toEqual(['u1', 'a1', 'u2c']);
+    expect(path[0]!.branch).toBeNull();
+    expect(path[2]!.branch).toEqual({ index: 3, count: 3, siblingIds: ['u2', 'u2b', 'u2c'] });
+    expect(branchLeafId(tree)).toBe('u2c');
+  });
+
+  test('the anchor keeps an older branch and follows its newest replies', () => {
+    expect(ids(selectBranchPath(tree, 'u2'))).toEqual(['u1', 'a1', 'u2', 'a2']);
+    expect(selectBranchPath(tree, 'u2b')[2]!.branch!.index).toBe(2);
+
+    // A reply added under the anchored branch is shown without moving the anchor
+    const withReply = [...tree, { id: 'u3', parentMessageId: 'a2', createdAt: 9 }];
+    expect(ids(selectBranchPath(withReply, 'u2'))).toEqual(['u1', 'a1', 'u2', 'a2', 'u3']);
+    expect(branchLeafId(withReply, 'u2')).toBe('u3');
+
+    // Unknown anchors fall back to the newest branch
+    expect(ids(selectBranchPath(tree, 'deleted'))).toEqual(['u1', 'a1', 'u2c']);
+  });
+
+  test('editing the first message forks at the root', () => {
+    const forked = [...tree, { id: 'u1b', parentMessageId: null, createdAt: 10 }];
+    const path = selectBranchPath(forked);
+    expect(ids(path)).toEqual(['u1b']);
+    expect(path[0]!.branch).toEqual({ index: 2, count: 2, siblingIds: ['u1', 'u1b'] });
+    expect(selectBranchPath([])).toEqual([]);
+    expect(branchLeafId([])).toBeNull();
+  });
+
+  test('regenerated replies are variants of the same turn; the newest is shown', () => {
+    const turn = [
+      { id: 'u1', parentMessageId: null, createdAt: 1 },
+      { id: 'a1', parentMessageId: 'u1', createdAt: 2, contentJson: { model: 'free-model', temperature: 0.7 } },
+      { id: 'a1b', parentMessageId: 'u1', createdAt: 3, contentJson: { model: 'base-model', temperature: 1.1 } },
+    ];
+    const path = selectBranchPath(turn);
+    expect(ids(path)).toEqual(['u1', 'a1b']);
+    expect(path[1]!.branch).toEqual({ index: 2, count: 2, siblingIds: ['a1', 'a1b'] });
+
+    // Choosing the first variant makes it the one the next message follows
+    expect(branchLeafId(turn, 'a1')).toBe('a1');
+
+    expect(toMessageVariant({ ...turn[2]!, content: 'Take two' })).toEqual({ id: 'a1b', content: 'Take two', model: 'base-model', temperature: 1.1, createdAt: 3 });
+    expect(toMessageVariant({ id: 'x', content: '', createdAt: 0, contentJson: null })).toEqual(expect.objectContaining({ model: null, temperature: null }));
+  });
+});
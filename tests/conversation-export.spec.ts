@@ -0,0 +1,227 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import {
+  ConversationExportError,
+  buildConversationExport,
+  parseConversationExport,
+  renderConversationExport,
+  renderConversationHtml,
+  renderConversationMarkdown,
+  resolveImportedAdvisorId,
+} from '@/server/conversations/export';
+
+jest.mock('~/server/auth/require-user', () => ({
+  requireUser: jest.fn(async () => ({ id: 'user_export', plan: 'free' })),
+}));
+
+jest.mock('~/server/db', () => {
+  const db: any = {
+    conversation: {
+      findUnique: jest.fn(),
+      create: jest.fn(async ({ data }: any) => ({ id: 'conv_imported', ...data })),
+    },
+    advisor: { findMany: jest.fn() },
+    message: { create: jest.fn() },
+    threadSummary: { create: jest.fn() },
+    advisorMemory: { create: jest.fn() },
+    document: { create: jest.fn() },
+  };
+  db.$transaction = jest.fn(async (run: (tx: any) => unknown) => run(db));
+  return { db };
+});
+
+import { GET } from '@/app/api/conversations/[id]/export/route';
+import { POST } from '@/app/api/conversations/import/route';
+const { db } = jest.requireMock('~/server/db');
+
+const scorecard = {
+  dimensions: [
+    { id: 'team', score: 8, weight: 0.4, rationale: 'Repeat founders' },
+    { id: 'market', score: 7, weight: 0.3, rationale: null },
+    { id: 'traction', score: 6, weight: 0.2, rationale: '$40k MRR' },
+    { id: 'idea', score: 9, weight: 0.1, rationale: null },
+  ],
+  total: 7.4,
+  minimumScore: 7.5,
+  autoRejectBelow: 5,
+  redFlags: { founder: [], market: ['tiny_market'] },
+  hardNo: false,
+  verdict: 'Not yet',
+  summary: 'Come back with more traction.',
+};
+
+const input = {
+  conversation: { title: 'Seed <round> prep', activeAdvisorId: 'alex-reyes-v3', createdAt: new Date('2026-03-04T09:00:00Z'), updatedAt: new Date('2026-03-04T09:20:00Z') },
+  advisors: [{ id: 'alex-reyes-v3', name: 'Alex Reyes', title: 'Investor' }],
+  messages: [
+    { id: 'm2', sender: 'advisor' as const, advisorId: 'alex-reyes-v3', content: 'Here is my take:\n\n- Team is **strong**\n- Market is small [1]', contentJson: { components: { scoringEngine: scorecard }, citations: [{ ref: 1, documentId: 'd1', documentName: 'deck.md', section: 'Market' }] }, tokensUsed: 120, createdAt: new Date('2026-03-04T09:15:00Z') },
+    { id: 'm1', sender: 'user' as const, content: 'Score my pitch <script>alert(1)</script>', mentions: ['alex-reyes-v3'], createdAt: new Date('2026-03-04T09:14:00Z') },
+  ],
+  summaries: [{ id: 's1', content: 'Founder is preparing a seed round.', startMessageId: 'm1', endMessageId: 'm2', createdAt: new Date('2026-03-04T09:16:00Z') }],
+  memories: [{ advisorId: 'alex-reyes-v3', key: 'company_stage', value: 'pre-seed' }],
+  documents: [{ name: 'deck.md', mimeType: 'text/markdown', kind: 'pitch_deck', content: '## Market\nSmall but growing.', createdAt: new Date('2026-03-04T09:10:00Z') }],
+};
+
+const exported = buildConversationExport(input, new Date('2026-03-05T12:00:00Z'));
+
+describe('conversation export', () => {
+  test('normalizes either store into one document, messages in time order', () => {
+    expect(exported.messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(exported.messages[0]).toEqual(expect.objectContaining({ advisorId: null, contentJson: null, tokensUsed: null, createdAt: '2026-03-04T09:14:00.000Z' }));
+
+    // Convex timestamps are epoch milliseconds
+    const fromConvex = buildConversationExport({ ...input, conversation: { ...input.conversation, createdAt: Date.parse('2026-03-04T09:00:00Z') } }, new Date('2026-03-05T12:00:00Z'));
+    expect(fromConvex.conversation.createdAt).toBe(exported.conversation.createdAt);
+  });
+
+  test('markdown has advisor names, timestamps, summaries, scorecards and sources', () => {
+    const markdown = renderConversationMarkdown(exported);
+    expect(markdown).toMatch(/^# Seed <round> prep\n/);
+    expect(markdown).toContain('Advisors: Alex Reyes');
+    expect(markdown).toContain('## Thread summaries');
+    expect(markdown).toContain('Founder is preparing a seed round.');
+    expect(markdown).toContain('### You · 2026-03-04 09:14 UTC');
+    expect(markdown).toContain('### Alex Reyes · 2026-03-04 09:15 UTC');
+    expect(markdown).toContain('**Scorecard: 7.4 / 10, verdict Not yet**');
+    expect(markdown).toContain('| Team | 8.0 | 40% | Repeat founders |');
+    expect(markdown).toContain('Red flags: tiny market');
+    expect(markdown).toContain('- [1] deck.md — Market');
+  });
+
+  test('html is a self-contained printable page with escaped content', () => {
+    const html = renderConversationHtml(exported);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Seed &lt;round&gt; prep</title>');
+    expect(html).toContain('@media print');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script');
+    expect(html).not.toMatch(/(src|href)="https?:/);
+    expect(html).toContain('<ul><li>Team is <strong>strong</strong></li><li>Market is small [1]</li></ul>');
+    expect(html).toContain('<td>Repeat founders</td>');
+  });
+
+  test('json round-trips losslessly and rejects other files', () => {
+    const { body, contentType, fileName } = renderConversationExport(exported, 'json');
+    expect(contentType).toContain('application/json');
+    expect(fileName).toBe('seed-round-prep-2026-03-05.json');
+    expect(parseConversationExport(body)).toEqual(exported);
+
+    expect(() => parseConversationExport('{nope')).toThrow(ConversationExportError);
+    expect(() => parseConversationExport({ mapping: {} })).toThrow('This file is not a conversation export');
+    expect(() => parseConversationExport({ ...exported, version: 2 })).toThrow(/Invalid conversation export \(version/);
+  });
+
+  test('imported advisors are matched by id, then by name', () => {
+    const known = [{ id: 'k_alex', name: 'Alex Reyes' }, { id: 'amara-johnson-v2', name: 'Amara Johnson' }];
+    expect(resolveImportedAdvisorId({ id: 'amara-johnson-v2', name: 'Renamed', title: null }, known)).toBe('amara-johnson-v2');
+    expect(resolveImportedAdvisorId({ id: 'alex-reyes-v3', name: 'alex reyes', title: null }, known)).toBe('k_alex');
+    expect(resolveImportedAdvisorId({ id: 'x', name: 'Nobody', title: null }, known)).toBeUndefined();
+  });
+});
+
+describe('conversation export routes', () => {
+  const advisorRow = { id: 'alex-reyes-v3', persona: alexReyes.persona };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.advisor.findMany.mockResolvedValue([advisorRow]);
+  });
+
+  test('GET exports a stored conversation as a download', async () => {
+    db.conversation.findUnique.mockResolvedValueOnce({
+      id: 'conv_1',
+      ...input.conversation,
+      modelOverride: null,
+      messages: input.messages.slice().reverse().map((m) => ({ advisorId: null, contentJson: null, mentions: [], tokensUsed: null, ...m })),
+      summaries: input.summaries,
+      memories: input.memories,
+      documents: input.documents,
+    });
+
+    const res = await GET(new NextRequest('http://localhost/api/conversations/conv_1/export?format=markdown'), { params: Promise.resolve({ id: 'conv_1' }) });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/markdown');
+    expect(res.headers.get('Content-Disposition')).toMatch(/^attachment; filename="seed-round-prep-\d{4}-\d{2}-\d{2}\.md"$/);
+    expect(db.conversation.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'conv_1', userId: 'user_export' } }));
+    expect(await res.text()).toContain(`### ${alexReyes.persona.name} · 2026-03-04 09:15 UTC`);
+
+    const bad = await GET(new NextRequest('http://localhost/api/conversations/conv_1/export?format=pdf'), { params: Promise.resolve({ id: 'conv_1' }) });
+    expect(bad.status).toBe(400);
+  });
+
+  test('POST import recreates the conversation with remapped message ids', async () => {
+    let next = 0;
+    db.message.create.mockImplementation(async () => ({ id: `new_${++next}` }));
+
+    const res = await POST(new NextRequest('http://localhost/api/conversations/import', {
+      method: 'POST',
+      body: renderConversationExport(exported, 'json').body,
+    }));
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({
+      success: true,
+      source: 'advisor-board',
+      conversations: [{ id: 'conv_imported', title: 'Seed <round> prep', messageCount: 2 }],
+      skipped: [],
+    });
+    expect(db.conversation.create).toHaveBeenCalledWith({ data: expect.objectContaining({ userId: 'user_export', activeAdvisorId: 'alex-reyes-v3' }) });
+    expect(db.message.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({
+        conversationId: 'conv_imported',
+        advisorId: 'alex-reyes-v3',
+        contentJson: input.messages[0]!.contentJson,
+        tokensUsed: 120,
+        createdAt: new Date('2026-03-04T09:15:00Z'),
+      }),
+    });
+    expect(db.threadSummary.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ startMessageId: 'new_1', endMessageId: 'new_2' }),
+    });
+    expect(db.advisorMemory.create).toHaveBeenCalledWith({
+      data: { conversationId: 'conv_imported', advisorId: 'alex-reyes-v3', key: 'company_stage', value: 'pre-seed' },
+    });
+    expect(db.document.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: 'deck.md', chunks: [{ index: 0, section: 'Market', content: 'Small but growing.' }] }),
+    });
+  });
+
+  test('POST import maps ChatGPT assistant turns onto the chosen advisor', async () => {
+    db.message.create.mockImplementation(async () => ({ id: 'new_msg' }));
+    const chatGpt = [{
+      title: 'Hiring plan',
+      create_time: 1767225600,
+      current_node: 'a',
+      mapping: {
+        u: { message: { id: 'u', author: { role: 'user' }, content: { content_type: 'text', parts: ['Who first?'] } }, parent: null, children: ['a'] },
+        a: { message: { id: 'a', author: { role: 'assistant' }, content: { content_type: 'text', parts: ['A closer.'] } }, parent: 'u', children: [] },
+      },
+    }];
+
+    const res = await POST(new NextRequest('http://localhost/api/conversations/import?advisorId=alex-reyes-v3', {
+      method: 'POST',
+      body: JSON.stringify(chatGpt),
+    }));
+
+    expect(res.status).toBe(201);
+    expect((await res.json()).source).toBe('chatgpt');
+    expect(db.conversation.create).toHaveBeenCalledWith({ data: expect.objectContaining({ title: 'Hiring plan', activeAdvisorId: 'alex-reyes-v3' }) });
+    expect(db.message.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ sender: 'advisor', advisorId: 'alex-reyes-v3', content: 'A closer.' }),
+    });
+  });
+
+  test('POST import rejects unknown files and unknown advisors', async () => {
+    const res = await POST(new NextRequest('http://localhost/api/conversations/import', { method: 'POST', body: '[]' }));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'INVALID_IMPORT', message: expect.stringContaining('Unrecognized file') });
+
+    const unknownAdvisor = await POST(new NextRequest('http://localhost/api/conversations/import?advisorId=nobody', { method: 'POST', body: '[]' }));
+    expect(unknownAdvisor.status).toBe(404);
+    expect(db.conversation.create).not.toHaveBeenCalled();
+  });
+});
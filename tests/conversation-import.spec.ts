@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { buildConversationExport } from '@/server/conversations/export';
+import {
+  ConversationImportError,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_CONVERSATIONS,
+  assertImportSize,
+  detectImportSource,
+  parseConversationImport,
+} from '@/server/conversations/import';
+
+const advisor = { id: 'alex-reyes-v3', name: 'Alex Reyes', title: 'Investor' };
+
+// Trimmed ChatGPT conversations.json: a message tree with a regenerated reply on a dead branch
+const chatGptExport = [
+  {
+    title: 'Seed round strategy',
+    create_time: 1767225600,
+    update_time: 1767226200,
+    current_node: 'n4',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['n0'] },
+      n0: {
+        id: 'n0',
+        message: { id: 'n0', author: { role: 'system' }, create_time: null, content: { content_type: 'text', parts: [''] }, metadata: { is_visually_hidden_from_conversation: true } },
+        parent: 'root',
+        children: ['n1'],
+      },
+      n1: {
+        id: 'n1',
+        message: { id: 'n1', author: { role: 'user' }, create_time: 1767225660, content: { content_type: 'text', parts: ['How much should we raise?'] } },
+        parent: 'n0',
+        children: ['n2a', 'n2'],
+      },
+      n2a: {
+        id: 'n2a',
+        message: { id: 'n2a', author: { role: 'assistant' }, create_time: 1767225670, content: { content_type: 'text', parts: ['Old answer'] } },
+        parent: 'n1',
+        children: [],
+      },
+      n2: {
+        id: 'n2',
+        message: { id: 'n2', author: { role: 'tool' }, create_time: 1767225680, content: { content_type: 'text', parts: ['search results'] } },
+        parent: 'n1',
+        children: ['n3'],
+      },
+      n3: {
+        id: 'n3',
+        message: { id: 'n3', author: { role: 'user' }, create_time: 1767225690, content: { content_type: 'multimodal_text', parts: [{ content_type: 'image_asset_pointer' }] } },
+        parent: 'n2',
+        children: ['n4'],
+      },
+      n4: {
+        id: 'n4',
+        message: { id: 'n4', author: { role: 'assistant' }, create_time: 1767225700, content: { content_type: 'text', parts: ['Raise 18 months of runway.'] } },
+        parent: 'n3',
+        children: [],
+      },
+    },
+  },
+  { title: 'Broken', mapping: {} },
+];
+
+const claudeExport = [
+  {
+    uuid: 'c1',
+    name: 'Pricing review',
+    created_at: '2026-02-01T10:00:00.000Z',
+    updated_at: '2026-02-01T10:05:00.000Z',
+    chat_messages: [
+      { uuid: 'h1', sender: 'human', text: 'Is $49/month too cheap?', created_at: '2026-02-01T10:00:00.000Z' },
+      { uuid: 'a1', sender: 'assistant', text: '', content: [{ type: 'text', text: 'Probably.' }, { type: 'text', text: 'Test $99.' }], created_at: '2026-02-01T10:01:00.000Z' },
+      { uuid: 'h2', sender: 'human', text: '', content: [], created_at: '2026-02-01T10:02:00.000Z' },
+      { uuid: 'bad', sender: 'assistant', created_at: 'yesterday' },
+    ],
+  },
+  { uuid: 'c2', name: '', created_at: '2026-02-02T10:00:00.000Z', chat_messages: [] },
+];
+
+describe('conversation import', () => {
+  test('detects the tool a file came from', () => {
+    expect(detectImportSource(chatGptExport)).toBe('chatgpt');
+    expect(detectImportSource(claudeExport)).toBe('claude');
+    expect(detectImportSource(claudeExport[0])).toBe('claude');
+    expect(() => detectImportSource({ messages: [] })).toThrow(ConversationImportError);
+  });
+
+  test('ChatGPT: follows the shown branch and attributes replies to the chosen advisor', () => {
+    const { source, conversations, skipped } = parseConversationImport(JSON.stringify(chatGptExport), { advisor });
+
+    expect(source).toBe('chatgpt');
+    expect(conversations).toHaveLength(1);
+    const [conversation] = conversations;
+    expect(conversation!.conversation).toEqual(expect.objectContaining({
+      title: 'Seed round strategy',
+      activeAdvisorId: 'alex-reyes-v3',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    }));
+    expect(conversation!.advisors).toEqual([advisor]);
+    expect(conversation!.messages).toEqual([
+      expect.objectContaining({ id: 'n1', sender: 'user', advisorId: null, content: 'How much should we raise?', createdAt: '2026-01-01T00:01:00.000Z' }),
+      expect.objectContaining({ id: 'n4', sender: 'advisor', advisorId: 'alex-reyes-v3', content: 'Raise 18 months of runway.', contentJson: { importedFrom: 'chatgpt' } }),
+    ]);
+
+    // Hidden system prompts are dropped quietly; everything else left out is reported
+    expect(skipped).toEqual([
+      { conversation: 'Seed round strategy', entry: 'n2', reason: 'tool messages are not imported' },
+      { conversation: 'Seed round strategy', entry: 'n3', reason: 'no text content (multimodal_text)' },
+      { conversation: 'Imported conversation 2', reason: 'create_time: Required' },
+    ]);
+  });
+
+  test('Claude: reads text and content blocks, reporting malformed and empty entries', () => {
+    const { source, conversations, skipped } = parseConversationImport(claudeExport, { advisor });
+
+    expect(source).toBe('claude');
+    expect(conversations.map((c) => c.conversation.title)).toEqual(['Pricing review']);
+    expect(conversations[0]!.messages.map((m) => [m.sender, m.content])).toEqual([
+      ['user', 'Is $49/month too cheap?'],
+      ['advisor', 'Probably.\nTest $99.'],
+    ]);
+    expect(skipped).toEqual([
+      { conversation: 'Pricing review', entry: 'h2', reason: 'no text content' },
+      { conversation: 'Pricing review', entry: '#4', reason: expect.stringContaining('created_at') },
+      { conversation: 'Imported conversation 2', reason: 'no messages to import' },
+    ]);
+  });
+
+  test('other tools need an advisor; our own exports keep theirs', () => {
+    expect(() => parseConversationImport(claudeExport)).toThrow(/Choose the advisor/);
+    expect(() => parseConversationImport('not json')).toThrow('The file is not valid JSON');
+
+    const ours = buildConversationExport({
+      conversation: { title: 'Board prep', createdAt: 0, updatedAt: 0 },
+      advisors: [{ id: 'amara-johnson-v2', name: 'Amara Johnson' }],
+      messages: [{ id: 'm1', sender: 'advisor', advisorId: 'amara-johnson-v2', content: 'Hi', createdAt: 0 }],
+    });
+    const result = parseConversationImport(JSON.stringify(ours), { advisor });
+    expect(result).toEqual({ source: 'advisor-board', conversations: [ours], skipped: [] });
+    expect(() => parseConversationImport({ ...ours, messages: 'nope' })).toThrow(/Invalid conversation export/);
+  });
+
+  test('large files are imported up to the limit and the rest reported', () => {
+    const many = Array.from({ length: MAX_IMPORT_CONVERSATIONS + 2 }, () => claudeExport[0]);
+    const { conversations, skipped } = parseConversationImport(many, { advisor });
+
+    expect(conversations).toHaveLength(MAX_IMPORT_CONVERSATIONS);
+    expect(skipped[skipped.length - 1]).toEqual({
+      conversation: '2 more conversations',
+      reason: `only the first ${MAX_IMPORT_CONVERSATIONS} conversations of a file are imported`,
+    });
+  });
+
+  test('files over the size cap are refused before parsing', () => {
+    expect(() => assertImportSize(MAX_IMPORT_BYTES)).not.toThrow();
+    expect(() => assertImportSize(MAX_IMPORT_BYTES + 1)).toThrow(ConversationImportError);
+
+    const oversized = JSON.stringify([{ ...claudeExport[0], name: 'x'.repeat(MAX_IMPORT_BYTES) }]);
+    expect(() => parseConversationImport(oversized, { advisor })).toThrow(/files up to 8 MB can be imported/);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildSnippet,
+  dateRangeFilter,
+  highlightSegments,
+  matchesSearchFilters,
+  searchTerms,
+} from '@/server/conversations/search';
+
+const marked = (segments: { text: string; match: boolean }[]) => segments.filter((s) => s.match).map((s) => s.text);
+
+describe('conversation search', () => {
+  test('terms are lowercased words, matched by prefix', () => {
+    expect(searchTerms('  Fund raise, FUND!')).toEqual(['fund', 'raise']);
+    expect(highlightSegments('Fundraising before the raise', ['fund', 'raise'])).toEqual([
+      { text: 'Fundraising', match: true },
+      { text: ' before the ', match: false },
+      { text: 'raise', match: true },
+    ]);
+    expect(marked(highlightSegments('Seed-round prep', ['seed', 'round']))).toEqual(['Seed', 'round']);
+  });
+
+  test('snippets window long messages around the first match', () => {
+    const content = `${'Early context. '.repeat(20)}Our burn\n\nrate is $80k a month. ${'Later detail. '.repeat(20)}`;
+    const snippet = buildSnippet(content, 'burn', 80);
+    const text = snippet.map((s) => s.text).join('');
+
+    expect(snippet[0]).toEqual({ text: '…', match: false });
+    expect(snippet[snippet.length - 1]).toEqual({ text: '…', match: false });
+    expect(text.length).toBeLessThanOrEqual(82);
+    expect(text).toContain('Our burn rate is $80k a month.');
+    expect(marked(snippet)).toEqual(['burn']);
+
+    // Short messages are shown whole; no match shows the start
+    expect(buildSnippet('Hi there', 'burn')).toEqual([{ text: 'Hi there', match: false }]);
+    expect(buildSnippet('x '.repeat(200), 'burn', 20)[0]!.text.startsWith('x x')).toBe(true);
+  });
+
+  test('filters apply sender, advisor and an inclusive date range', () => {
+    const hit = { sender: 'advisor', advisorId: 'a1', createdAt: 1_000 };
+    expect(matchesSearchFilters(hit, {})).toBe(true);
+    expect(matchesSearchFilters(hit, { sender: 'user' })).toBe(false);
+    expect(matchesSearchFilters(hit, { advisorId: 'a2' })).toBe(false);
+    expect(matchesSearchFilters(hit, { from: 1_000, to: 1_000 })).toBe(true);
+    expect(matchesSearchFilters(hit, { from: 1_001 })).toBe(false);
+  });
+
+  test('date inputs cover whole local days', () => {
+    expect(dateRangeFilter('2026-03-04', '2026-03-05')).toEqual({
+      from: new Date(2026, 2, 4).getTime(),
+      to: new Date(2026, 2, 6).getTime() - 1,
+    });
+    expect(dateRangeFilter('', 'not a date')).toEqual({ from: undefined, to: undefined });
+  });
+});
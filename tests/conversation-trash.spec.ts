@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+import {
+  CONVERSATION_CASCADE_TABLES,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  describeTrashPurge,
+  trashPurgeAt,
+  trashPurgeCutoff,
+  trashRetentionDays,
+} from '@/server/conversations/trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('conversation trash', () => {
+  test('retention falls back to the default for missing or invalid values', () => {
+    expect(trashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays(-3)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('7')).toBe(7);
+    expect(trashRetentionDays(14)).toBe(14);
+  });
+
+  test('a conversation is due exactly when the cutoff passes its deletion time', () => {
+    const deletedAt = Date.UTC(2025, 0, 1);
+    const purgeAt = trashPurgeAt(deletedAt, 7);
+    expect(purgeAt).toBe(deletedAt + 7 * DAY);
+    expect(trashPurgeCutoff(purgeAt - 1, 7)).toBeLessThan(deletedAt);
+    expect(trashPurgeCutoff(purgeAt + 1, 7)).toBeGreaterThan(deletedAt);
+  });
+
+  test('describes the time left before the purge', () => {
+    const now = Date.UTC(2025, 0, 1);
+    expect(describeTrashPurge(now + 30 * DAY, now)).toBe('Deleted forever in 30 days');
+    expect(describeTrashPurge(now + 2 * 60 * 60 * 1000, now)).toBe('Deleted forever in 1 day');
+    expect(describeTrashPurge(now - 1, now)).toBe('Deleted forever today');
+  });
+
+  test('cascades to every table Prisma deletes with a conversation', () => {
+    for (const table of ['messages', 'threadSummaries', 'advisorMemories', 'documents']) {
+      expect(CONVERSATION_CASCADE_TABLES).toContain(table);
+    }
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import {
+  DocumentFormatError,
+  MAX_CHUNKS_PER_DOCUMENT,
+  chunkDocument,
+  describeDocumentTruncation,
+  extractCitations,
+  formatPassagesForPrompt,
+  indexDocument,
+  inferDocumentKind,
+  parseDocumentChunks,
+  searchDocuments,
+  validateDocumentUpload,
+} from '@/server/llm/documents';
+
+const deck = `# Acme Freight
+
+Software for small trucking fleets.
+
+## Problem
+Independent carriers lose 20% of their week to paperwork and empty miles.
+
+## Traction
+$40k monthly recurring revenue, growing 12% month over month. 85 paying fleets.
+
+Slide 6: Team
+Two technical founders with a decade in logistics.`;
+
+const model = `Metric,Jan,Feb,Mar
+Revenue,"31,000",35000,40000
+Burn,90000,92000,95000
+Headcount,6,,7`;
+
+describe('founder documents', () => {
+  test('splits prose on headings and slide markers, keeping the section name', () => {
+    // Text before the first heading would be "Introduction"; here the title heading opens the first section
+    const chunks = chunkDocument(deck, 'markdown');
+    expect(chunks.map((c) => c.section)).toEqual(['Acme Freight', 'Problem', 'Traction', 'Slide 6: Team']);
+    expect(chunks[2]).toEqual({ index: 2, section: 'Traction', content: '$40k monthly recurring revenue, growing 12% month over month. 85 paying fleets.' });
+
+    // Long sections are split into labelled parts under the size limit
+    const long = chunkDocument(`## Market\n${'The market is large and growing fast. '.repeat(80)}`, 'markdown');
+    expect(long.length).toBeGreaterThan(1);
+    expect(long[0]!.section).toBe('Market (part 1)');
+    expect(long.every((c) => c.content.length <= 1200)).toBe(true);
+    expect(chunkDocument('Plain notes before any heading.', 'text')[0]!.section).toBe('Introduction');
+  });
+
+  test('turns CSV rows into labelled lines with spreadsheet row ranges', () => {
+    const [chunk] = chunkDocument(model, 'csv');
+    expect(chunk!.section).toBe('Rows 2-4');
+    expect(chunk!.content.split('\n')).toEqual([
+      'Revenue — Jan: 31,000, Feb: 35000, Mar: 40000',
+      'Burn — Jan: 90000, Feb: 92000, Mar: 95000',
+      'Headcount — Jan: 6, Mar: 7',
+    ]);
+  });
+
+  test('accepts text formats and explains what to do with PDFs', () => {
+    expect(validateDocumentUpload('model.csv', model)).toBe('csv');
+    expect(validateDocumentUpload('notes', 'hello', 'text/plain')).toBe('text');
+    expect(() => validateDocumentUpload('deck.pdf', '%PDF-1.7')).toThrow(DocumentFormatError);
+    expect(() => validateDocumentUpload('deck.pdf', '%PDF-1.7')).toThrow(/Export the deck as text or Markdown/);
+    expect(() => validateDocumentUpload('empty.md', '  \n')).toThrow(/empty/);
+
+    expect(inferDocumentKind('Seed Pitch Deck.md', 'markdown')).toBe('pitch_deck');
+    expect(inferDocumentKind('model.csv', 'csv')).toBe('financial_model');
+    expect(inferDocumentKind('go-to-market plan.txt', 'text')).toBe('business_plan');
+  });
+
+  test('ranks the passages that match the question first', () => {
+    const documents = [
+      { id: 'doc_deck', name: 'deck.md', chunks: chunkDocument(deck, 'markdown') },
+      { id: 'doc_model', name: 'model.csv', chunks: chunkDocument(model, 'csv') },
+    ];
+
+    const passages = searchDocuments('What is our monthly revenue growth?', documents);
+    expect(passages[0]).toEqual(expect.objectContaining({ ref: 1, documentId: 'doc_deck', section: 'Traction' }));
+    expect(passages.map((p) => p.ref)).toEqual(passages.map((_, i) => i + 1));
+
+    expect(searchDocuments('burn', documents, { topK: 1 })).toEqual([
+      expect.objectContaining({ documentName: 'model.csv', section: 'Rows 2-4' }),
+    ]);
+    expect(searchDocuments('what is the', documents)).toEqual([]);
+    expect(searchDocuments('quantum', documents)).toEqual([]);
+  });
+
+  test('numbers excerpts in the prompt and resolves the ones the reply cites', () => {
+    const documents = [{ id: 'doc_deck', name: 'deck.md', chunks: chunkDocument(deck, 'markdown') }];
+    const passages = searchDocuments('revenue growth and team', documents);
+
+    const prompt = formatPassagesForPrompt(passages);
+    expect(prompt).toMatch(/^## Founder documents/);
+    expect(prompt).toContain('[1] deck.md — Slide 6: Team');
+    expect(prompt).toContain('[2] deck.md — Traction');
+    expect(formatPassagesForPrompt([])).toBe('');
+
+    const reply = 'Growth is strong [2], and the team fits the problem [1, 2]. Ignore [9].';
+    expect(extractCitations(reply, passages)).toEqual([
+      { ref: 2, documentId: 'doc_deck', documentName: 'deck.md', section: 'Traction' },
+      { ref: 1, documentId: 'doc_deck', documentName: 'deck.md', section: 'Slide 6: Team' },
+    ]);
+  });
+
+  test('reads stored chunks back, dropping malformed entries', () => {
+    expect(parseDocumentChunks([{ index: 0, section: 'Problem', content: 'x' }, { index: 'a' }, null])).toEqual([
+      { index: 0, section: 'Problem', content: 'x' },
+    ]);
+    expect(parseDocumentChunks('nope')).toEqual([]);
+  });
+
+  test('reports how much of a long file was left out of the index', () => {
+    const sections = Array.from({ length: MAX_CHUNKS_PER_DOCUMENT + 5 }, (_, i) => `## Section ${i + 1}\nNotes for section ${i + 1}.`);
+    const index = indexDocument(sections.join('\n\n'), 'markdown');
+
+    expect(index.chunks).toHaveLength(MAX_CHUNKS_PER_DOCUMENT);
+    expect(index.droppedChunks).toBe(5);
+    expect(describeDocumentTruncation('plan.md', index)).toBe(
+      `plan.md is too long to index in full: advisors only see it up to "Section ${MAX_CHUNKS_PER_DOCUMENT}" ` +
+        `(${MAX_CHUNKS_PER_DOCUMENT} of ${MAX_CHUNKS_PER_DOCUMENT + 5} sections). Split it into smaller files to include the rest.`
+    );
+    expect(describeDocumentTruncation('deck.md', indexDocument(deck, 'markdown'))).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import {
+  formatProfileForPrompt,
+  mergeProfileProposals,
+  parseProfileProposals,
+  proposeProfileUpdates,
+} from '@/server/llm/profile';
+
+jest.mock('~/server/auth/require-user', () => ({
+  requireUser: jest.fn(async () => ({ id: 'user_profile', plan: 'free' })),
+}));
+
+jest.mock('~/server/db', () => ({
+  db: {
+    userProfile: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(async ({ create }: any) => ({ ...create, updatedAt: new Date() })),
+    },
+  },
+}));
+
+import { PATCH } from '@/app/api/profile/route';
+const { db } = jest.requireMock('~/server/db');
+
+const profile = {
+  companyName: 'Acme Robotics',
+  industry: 'Logistics',
+  stage: 'Pre-seed',
+  goals: '',
+  constraints: 'Solo founder',
+  optOutFields: ['constraints'],
+};
+
+describe('founder profile helpers', () => {
+  test('formatProfileForPrompt lists shared, filled-in fields only', () => {
+    const section = formatProfileForPrompt(profile);
+    expect(section).toContain('- **Company**: Acme Robotics');
+    expect(section).toContain('- **Stage**: Pre-seed');
+    expect(section).not.toContain('Goals');
+    expect(section).not.toContain('Solo founder');
+    expect(formatProfileForPrompt({ constraints: 'Solo founder', optOutFields: ['constraints'] })).toBe('');
+    expect(formatProfileForPrompt(null)).toBe('');
+  });
+
+  test('proposeProfileUpdates maps memory keys and skips unchanged or opted-out fields', () => {
+    const proposals = proposeProfileUpdates(profile, [
+      { key: 'company_name', value: 'acme robotics' },
+      { key: 'company_stage', value: 'Seed' },
+      { key: 'constraints', value: 'Two founders' },
+      { key: 'runway_months', value: 9 },
+    ], 'alex-reyes-v3', 1000);
+
+    expect(proposals).toEqual([{ field: 'stage', value: 'Seed', advisorId: 'alex-reyes-v3', proposedAt: 1000 }]);
+  });
+
+  test('mergeProfileProposals keeps the newest proposal per field', () => {
+    const older = { field: 'stage' as const, value: 'Seed', advisorId: 'a', proposedAt: 1 };
+    const goals = { field: 'goals' as const, value: 'Raise', advisorId: 'a', proposedAt: 1 };
+    const newer = { field: 'stage' as const, value: 'Series A', advisorId: 'b', proposedAt: 2 };
+
+    expect(mergeProfileProposals([older, goals], [newer])).toEqual([newer, goals]);
+  });
+
+  test('parseProfileProposals drops malformed entries', () => {
+    expect(parseProfileProposals(null)).toEqual([]);
+    expect(parseProfileProposals([{ field: 'nope', value: 'x', advisorId: 'a' }, { field: 'goals', value: 'Raise', advisorId: 'a', proposedAt: 1 }]))
+      .toEqual([{ field: 'goals', value: 'Raise', advisorId: 'a', proposedAt: 1 }]);
+  });
+});
+
+describe('PATCH /api/profile', () => {
+  const makeReq = (body: unknown) => new NextRequest('http://localhost/api/profile', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  beforeEach(() => jest.clearAllMocks());
+
+  test('accepting a proposal copies its value and removes it from the pending list', async () => {
+    db.userProfile.findUnique.mockResolvedValueOnce({
+      userId: 'user_profile',
+      stage: 'Pre-seed',
+      optOutFields: [],
+      proposals: [
+        { field: 'stage', value: 'Seed', advisorId: 'a', proposedAt: 1 },
+        { field: 'goals', value: 'Raise', advisorId: 'a', proposedAt: 1 },
+      ],
+    });
+
+    const res = await PATCH(makeReq({ acceptProposals: ['stage'], optOutFields: ['constraints'] }));
+
+    expect(res.status).toBe(200);
+    expect(db.userProfile.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: {
+        optOutFields: ['constraints'],
+        stage: 'Seed',
+        proposals: [{ field: 'goals', value: 'Raise', advisorId: 'a', proposedAt: 1 }],
+      },
+    }));
+  });
+
+  test('rejects unknown opt-out fields', async () => {
+    const res = await PATCH(makeReq({ optOutFields: ['revenue'] }));
+
+    expect(res.status).toBe(400);
+    expect(db.userProfile.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+import alexReyes from '../prisma/advisors/alex-reyes-v3.json';
+import amaraJohnson from '../prisma/advisors/amara-johnson-v2.json';
+import {
+  buildIntakeSteps,
+  formatIntakeKickoff,
+  getIntakeConfig,
+  getMissingIntakeSections,
+  intakeMemoryKey,
+  resolveAdvisorComponents,
+  type IntakeAnswer,
+} from '@/server/advisors/components';
+import { intakeQuestionnaire } from '@/server/advisors/components/intakeQuestionnaire';
+
+const answer = (stepId: string, section: string, text: string): IntakeAnswer => ({
+  stepId,
+  section,
+  question: `Question ${stepId}?`,
+  answer: text,
+});
+
+describe('intake questionnaire', () => {
+  test('reads the intake config from the advisor components', () => {
+    const alexConfig = getIntakeConfig(resolveAdvisorComponents(alexReyes.components).components);
+    expect(alexConfig).toEqual({ maxQuestions: 12, timeLimitMinutes: 15, requiredSections: ['team', 'market', 'traction'] });
+    expect(getIntakeConfig(resolveAdvisorComponents(amaraJohnson.components).components)).toBeNull();
+  });
+
+  test('asks the required sections in order within maxQuestions', () => {
+    const steps = buildIntakeSteps(intakeQuestionnaire.configSchema.parse({ maxQuestions: 6, requiredSections: ['team', 'market', 'traction'] }));
+
+    expect(steps.map((s) => s.section)).toEqual(['team', 'team', 'market', 'market', 'traction', 'traction']);
+    expect(steps[0]).toEqual({ id: 'team_background', section: 'team', question: expect.stringContaining('founding team') });
+  });
+
+  test('gives every required section a question even when maxQuestions is smaller', () => {
+    const steps = buildIntakeSteps(intakeQuestionnaire.configSchema.parse({ maxQuestions: 1, requiredSections: ['team', 'unit_economics'] }));
+
+    expect(steps).toEqual([
+      expect.objectContaining({ section: 'team' }),
+      { id: 'unit_economics_overview', section: 'unit_economics', question: 'Tell me about your unit economics.' },
+    ]);
+  });
+
+  test('tracks which required sections still need an answer', () => {
+    const config = { requiredSections: ['team', 'market', 'traction'] };
+    const answers = [answer('team_background', 'team', 'Two ex-Stripe engineers'), answer('market_size', 'market', '  ')];
+
+    expect(getMissingIntakeSections(config, answers)).toEqual(['market', 'traction']);
+    expect(getMissingIntakeSections({ requiredSections: [] }, [])).toEqual([]);
+  });
+
+  test('saves answers under intake_ memory keys', () => {
+    expect(intakeMemoryKey('team_background')).toBe('intake_team_background');
+    expect(intakeMemoryKey('Unit Economics overview')).toBe('intake_unit_economics_overview');
+  });
+
+  test('turns the answers into the message that asks for the first reply', () => {
+    const answers = [
+      answer('team_background', 'team', 'Two ex-Stripe engineers'),
+      answer('traction_metrics', 'traction', '$8k MRR, 15% MoM'),
+    ];
+
+    const kickoff = formatIntakeKickoff(answers, false)!;
+    expect(kickoff).toContain('**Team**\n- Question team_background?\n  Two ex-Stripe engineers');
+    expect(kickoff).toContain('**Traction**');
+    expect(kickoff.startsWith("Here's what you asked about")).toBe(true);
+    expect(formatIntakeKickoff(answers, true)).toContain('I skipped the rest of the intake');
+    expect(formatIntakeKickoff([], true)).toBeNull();
+  });
+});
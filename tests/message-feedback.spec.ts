@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+import { MAX_FEEDBACK_TEXT_LENGTH, normalizeFeedbackText, summarizeFeedback, type FeedbackEntry } from '@/server/conversations/feedback';
+
+const entries: FeedbackEntry[] = [
+  { sentiment: 'up', advisorId: 'a1', advisorName: 'Alex', model: 'base-model' },
+  { sentiment: 'down', reason: 'verbose', advisorId: 'a1', advisorName: 'Alex', model: 'base-model' },
+  { sentiment: 'down', reason: 'incorrect', advisorId: 'a2', advisorName: 'Blair', model: 'free-model' },
+  { sentiment: 'down', reason: 'incorrect', advisorId: 'a2', advisorName: 'Blair', model: 'base-model' },
+  { sentiment: 'down', advisorId: 'a2', advisorName: 'Blair' },
+];
+
+describe('message feedback', () => {
+  test('totals and reasons count thumbs down only', () => {
+    const summary = summarizeFeedback(entries);
+    expect(summary).toEqual(expect.objectContaining({ total: 5, up: 1, down: 4 }));
+    expect(summary.byReason.map((entry) => [entry.reason, entry.count])).toEqual([
+      ['incorrect', 2], ['verbose', 1], ['instructions', 0], ['other', 0],
+    ]);
+    expect(summary.byReason[0]!.label).toBe('Incorrect/Hallucination');
+  });
+
+  test('advisors and models are grouped, most thumbs down first', () => {
+    const { byAdvisor, byModel } = summarizeFeedback(entries);
+    expect(byAdvisor.map((group) => group.label)).toEqual(['Blair', 'Alex']);
+    expect(byAdvisor[0]).toEqual(expect.objectContaining({ up: 0, down: 3, total: 3, downRate: 1 }));
+    expect(byAdvisor[0]!.reasons).toEqual({ incorrect: 2, verbose: 0, instructions: 0, other: 0 });
+    expect(byAdvisor[1]).toEqual(expect.objectContaining({ up: 1, down: 1, downRate: 0.5 }));
+
+    // Replies without a recorded model are grouped together
+    expect(byModel.map((group) => [group.key, group.down])).toEqual([['base-model', 2], ['free-model', 1], ['unknown', 1]]);
+    expect(summarizeFeedback([])).toEqual(expect.objectContaining({ total: 0, byAdvisor: [], byModel: [] }));
+  });
+
+  test('feedback text is trimmed and capped', () => {
+    expect(normalizeFeedbackText('  too long  ')).toBe('too long');
+    expect(normalizeFeedbackText('   ')).toBeUndefined();
+    expect(normalizeFeedbackText(undefined)).toBeUndefined();
+    expect(normalizeFeedbackText('x'.repeat(MAX_FEEDBACK_TEXT_LENGTH + 10))).toHaveLength(MAX_FEEDBACK_TEXT_LENGTH);
+  });
+});
@@ -0,0 +1,95 @@
+import { buildModelFallbacks, fetchWithModelFallback, modelsForPlan, resolveModel, resolveTemperature } from '@/server/llm/models';
+
+const tiers = { free: 'free-model', base: 'base-model', premium: 'premium-model' };
+
+describe('resolveModel', () => {
+  test('uses the plan tier model when nothing else is set', () => {
+    expect(resolveModel({ plan: 'free' }, tiers)).toEqual({
+      model: 'free-model',
+      source: 'plan',
+      candidates: ['free-model'],
+    });
+    expect(resolveModel({ plan: 'pro' }, tiers).candidates).toEqual(['base-model', 'free-model']);
+    expect(resolveModel({ plan: 'enterprise' }, tiers).candidates).toEqual(['premium-model', 'base-model', 'free-model']);
+  });
+
+  test('prefers the conversation override over the advisor hint', () => {
+    const selection = resolveModel(
+      { plan: 'pro', modelHint: 'x-ai/grok-code-fast-1', conversationOverride: 'free-model' },
+      tiers
+    );
+    expect(selection.model).toBe('free-model');
+    expect(selection.source).toBe('conversation');
+    expect(selection.candidates).toEqual(['free-model', 'base-model']);
+  });
+
+  test('ignores an override outside the plan tier models on the free plan', () => {
+    expect(resolveModel({ plan: 'free', conversationOverride: 'openai/gpt-4o' }, tiers)).toEqual({
+      model: 'free-model',
+      source: 'plan',
+      candidates: ['free-model'],
+    });
+    // The advisor's hint still applies when the override is refused
+    expect(resolveModel({ plan: 'free', modelHint: 'x-ai/grok-code-fast-1', conversationOverride: 'openai/gpt-4o' }, tiers).source).toBe('advisor');
+  });
+
+  test('uses the advisor hint and falls back to the plan chain', () => {
+    const selection = resolveModel({ plan: 'pro', modelHint: 'x-ai/grok-code-fast-1' }, tiers);
+    expect(selection.source).toBe('advisor');
+    expect(selection.candidates).toEqual(['x-ai/grok-code-fast-1', 'base-model', 'free-model']);
+  });
+
+  test('downgrades a tier model above the user plan', () => {
+    const selection = resolveModel({ plan: 'free', conversationOverride: 'premium-model' }, tiers);
+    expect(selection).toEqual({ model: 'free-model', source: 'plan', candidates: ['free-model'] });
+  });
+
+  test('builds step-down fallbacks even when tiers share a model', () => {
+    expect(buildModelFallbacks({ free: 'a', base: 'b', premium: 'b' })).toEqual({ a: [], b: ['a'] });
+  });
+});
+
+describe('fetchWithModelFallback', () => {
+  test('walks candidates on 429/5xx and reports which model answered', async () => {
+    const statuses: Record<string, number> = { first: 429, second: 503, third: 200 };
+    const request = jest.fn(async (model: string) => ({
+      ok: statuses[model] === 200,
+      status: statuses[model],
+      body: null,
+    }) as unknown as Response);
+
+    const result = await fetchWithModelFallback(['first', 'second', 'third'], request);
+
+    expect(result.model).toBe('third');
+    expect(result.attempts).toEqual([
+      { model: 'first', status: 429 },
+      { model: 'second', status: 503 },
+      { model: 'third', status: 200 },
+    ]);
+  });
+
+  test('does not retry client errors', async () => {
+    const request = jest.fn(async () => ({ ok: false, status: 401, body: null }) as unknown as Response);
+
+    const result = await fetchWithModelFallback(['first', 'second'], request);
+
+    expect(result.model).toBe('first');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('regeneration settings', () => {
+  test('offers the tier models up to the plan', () => {
+    expect(modelsForPlan('free', tiers)).toEqual(['free-model']);
+    expect(modelsForPlan('enterprise', tiers)).toEqual(['free-model', 'base-model', 'premium-model']);
+    expect(modelsForPlan('pro', { ...tiers, base: 'free-model' })).toEqual(['free-model']);
+  });
+
+  test('clamps temperatures and defaults missing ones', () => {
+    expect(resolveTemperature(undefined)).toBe(0.7);
+    expect(resolveTemperature(Number.NaN)).toBe(0.7);
+    expect(resolveTemperature(1.1)).toBe(1.1);
+    expect(resolveTemperature(5)).toBe(2);
+    expect(resolveTemperature(-1)).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+import { RATE_LIMITS, RateLimitError, createRateLimiter, slideWindow } from '@/server/auth/rate-limit';
+
+/** Manually advanced clock shared by the limiter under test */
+function fakeClock(start = 1_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+const rule = { limit: 3, windowMs: 60_000 };
+
+describe('sliding-window rate limiter', () => {
+  test('allows up to the limit inside the window, then reports when to retry', () => {
+    const clock = fakeClock();
+    let hits: number[] = [];
+    const results = [0, 10_000, 20_000, 5_000].map((step) => {
+      clock.advance(step);
+      const applied = slideWindow(hits, rule, clock.now());
+      hits = applied.hits;
+      return applied.result;
+    });
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    // The first hit leaves the window 60s after it was made, 25s after it started
+    expect(results[3]).toEqual(expect.objectContaining({ retryAfterMs: 25_000, resetAt: 1_000_000 + 60_000 }));
+    // Refused requests are not recorded
+    expect(hits).toHaveLength(3);
+  });
+
+  test('the window slides rather than resetting all at once', () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ ...RATE_LIMITS, chatSend: rule }, clock.now);
+
+    limiter.check('u1', 'chatSend');
+    clock.advance(30_000);
+    limiter.check('u1', 'chatSend');
+    limiter.check('u1', 'chatSend');
+    expect(limiter.check('u1', 'chatSend').allowed).toBe(false);
+
+    // Only the oldest hit has expired: one request fits, the next waits for the other two
+    clock.advance(30_000);
+    expect(limiter.check('u1', 'chatSend')).toEqual(expect.objectContaining({ allowed: true, remaining: 0 }));
+    expect(limiter.check('u1', 'chatSend')).toEqual(expect.objectContaining({ allowed: false, retryAfterMs: 30_000 }));
+  });
+
+  test('buckets are separate per user and per action', () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ ...RATE_LIMITS, chatSend: rule, advisorUpload: { limit: 1, windowMs: 60_000 } }, clock.now);
+
+    for (let i = 0; i < 3; i++) limiter.check('u1', 'chatSend');
+    expect(limiter.check('u1', 'chatSend').allowed).toBe(false);
+    expect(limiter.check('u2', 'chatSend').allowed).toBe(true);
+    expect(limiter.check('u1', 'advisorUpload').allowed).toBe(true);
+    expect(limiter.check('u1', 'advisorUpload').allowed).toBe(false);
+  });
+
+  test('enforce throws a RateLimitError with retry-after details', () => {
+    const clock = fakeClock();
+    const limiter = createRateLimiter({ ...RATE_LIMITS, advisorUpload: { limit: 1, windowMs: 3_600_000 } }, clock.now);
+
+    limiter.enforce('u1', 'advisorUpload');
+    clock.advance(600_000);
+    try {
+      limiter.enforce('u1', 'advisorUpload');
+      throw new Error('expected a RateLimitError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).result.retryAfterMs).toBe(3_000_000);
+      expect((error as RateLimitError).message).toBe('Too many advisor uploads. Try again in 3000 seconds.');
+    }
+  });
+
+  test('buckets whose hits have all expired are dropped', () => {
+    const clock = fakeClock();
+    const rules = { chatSend: rule, conversationCreate: rule, advisorUpload: rule, conversationImport: rule, titleGeneration: { limit: 3, windowMs: 120_000 } };
+    const limiter = createRateLimiter(rules, clock.now);
+
+    limiter.check('u1', 'chatSend');
+    clock.advance(60_000);
+    limiter.check('u2', 'titleGeneration');
+    expect(limiter.size).toBe(2);
+
+    // The sweep runs once per longest window: u1's bucket has expired, u2's hit is still inside its window
+    clock.advance(60_000);
+    limiter.check('u3', 'chatSend');
+    expect(limiter.size).toBe(2);
+    expect(limiter.check('u2', 'titleGeneration').remaining).toBe(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  AccessDeniedError,
+  canAssignRole,
+  hasPermission,
+  hasRole,
+  resolveRole,
+} from '@/server/auth/roles';
+import { CONVEX_FUNCTION_ACCESS, type FunctionAccess } from '@/server/auth/convex-access';
+
+describe('roles', () => {
+  test('users without a stored role are members, whatever their plan', () => {
+    expect(resolveRole({ role: undefined })).toBe('member');
+    expect(resolveRole({ role: 'superuser' })).toBe('member');
+    expect(resolveRole(null)).toBe('member');
+    expect(resolveRole({ role: 'advisor-author' })).toBe('advisor-author');
+  });
+
+  test('higher roles hold every permission of lower ones', () => {
+    expect(hasRole('owner', 'admin')).toBe(true);
+    expect(hasRole('admin', 'owner')).toBe(false);
+
+    expect(hasPermission('advisor-author', 'advisors:write')).toBe(true);
+    expect(hasPermission('advisor-author', 'advisors:delete')).toBe(false);
+    expect(hasPermission('member', 'advisors:write')).toBe(false);
+    expect(hasPermission('member', 'migrations:run')).toBe(false);
+    expect(hasPermission('admin', 'migrations:run')).toBe(true);
+    expect(hasPermission('owner', 'users:manage')).toBe(true);
+  });
+
+  test('only owners grant or revoke admin and owner', () => {
+    expect(canAssignRole('owner', 'member', 'admin')).toBe(true);
+    expect(canAssignRole('owner', 'owner', 'member')).toBe(true);
+
+    expect(canAssignRole('admin', 'member', 'advisor-author')).toBe(true);
+    expect(canAssignRole('admin', 'member', 'admin')).toBe(false);
+    expect(canAssignRole('admin', 'admin', 'member')).toBe(false);
+    expect(canAssignRole('admin', 'owner', 'member')).toBe(false);
+
+    expect(canAssignRole('advisor-author', 'member', 'member')).toBe(false);
+    expect(canAssignRole('member', 'member', 'advisor-author')).toBe(false);
+  });
+
+  test('access errors name the role that was required', () => {
+    const error = new AccessDeniedError('admin', 'member');
+    expect(error.message).toBe('Access denied: Admin role required');
+    expect(error.role).toBe('member');
+  });
+});
+
+describe('Convex function access audit', () => {
+  const convexDir = join(__dirname, '..', 'convex');
+
+  /** Internal functions (internalQuery / internalMutation / internalAction) with their source */
+  const internalFunctions = new Map<string, string>();
+
+  /** Public exports of each convex/ module with the source up to the next export */
+  function publicFunctions() {
+    const found = new Map<string, string>();
+    for (const file of readdirSync(convexDir).filter(name => name.endsWith('.ts') && !name.endsWith('.d.ts'))) {
+      const source = readFileSync(join(convexDir, file), 'utf8');
+      const moduleName = file.replace(/\.ts$/, '');
+      const exports = [...source.matchAll(/^export (?:const|async function|function) (\w+)(?::\s*\w+)?(?: = (?:(query|mutation|action|internalQuery|internalMutation|internalAction)\(|(\w+);))?/gm)];
+      exports.forEach((match, index) => {
+        if (match[2]) {
+          const body = source.slice(match.index, exports[index + 1]?.index ?? source.length);
+          (match[2].startsWith('internal') ? internalFunctions : found).set(`${moduleName}:${match[1]}`, body);
+        }
+      });
+      // Aliases (`export const getAdvisors = getActiveAdvisors;`) share the target's checks
+      for (const [, name, , target] of exports) {
+        const body = target && found.get(`${moduleName}:${target}`);
+        if (body) found.set(`${moduleName}:${name}`, body);
+      }
+    }
+    return found;
+  }
+
+  /** The check each access level needs to find in a function (or in the function an action delegates to) */
+  function hasCheck(body: string, access: FunctionAccess): boolean {
+    if (access === 'public') return true;
+    if (/ctx\.run(Query|Mutation)\(api\./.test(body)) return true;
+    // Internal functions aren't audited on their own, so the one an action delegates to must do the check
+    const delegates = [...body.matchAll(/ctx\.run(?:Query|Mutation)\(internal\.(\w+)\.(\w+)/g)];
+    if (delegates.some(([, moduleName, name]) => hasCheck(internalFunctions.get(`${moduleName}:${name}`) ?? '', access))) return true;
+    switch (access) {
+      case 'user':
+        return /authenticated(Query|Mutation)|requireUser|getCurrentUser|getValidatedClerkUser/.test(body);
+      case 'conversation':
+        return body.includes('validateConversationOwnership');
+      case 'migration':
+        return body.includes('requireMigrationAccess');
+      case 'admin':
+        return body.includes('requireAdmin(');
+      default:
+        return body.includes(`"${access}"`);
+    }
+  }
+
+  test('lists every public Convex function and nothing else', () => {
+    expect([...publicFunctions().keys()].sort()).toEqual(Object.keys(CONVEX_FUNCTION_ACCESS).sort());
+  });
+
+  test('each function performs the check its entry names', () => {
+    const missing = [...publicFunctions()]
+      .filter(([name, body]) => !hasCheck(body, CONVEX_FUNCTION_ACCESS[name]!))
+      .map(([name]) => `${name} (${CONVEX_FUNCTION_ACCESS[name]})`);
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @jest-environment node
+ */
+import { planSummaryRange, buildSummaryPrompt, selectBranchSummary } from '@/server/llm/summaries';
+
+jest.mock('~/server/db', () => ({ db: {} }));
+
+import { generateConversationContext } from '@/server/llm/prompt';
+
+type ContextMessages = Parameters<typeof generateConversationContext>[0];
+
+const makeMessages = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `m${i + 1}`,
+    sender: i % 2 === 0 ? 'user' : 'advisor',
+    content: `message ${i + 1}`,
+  }));
+
+describe('planSummaryRange', () => {
+  test('waits until the unsummarized backlog reaches the trigger', () => {
+    expect(planSummaryRange(makeMessages(5), null, { trigger: 6, tail: 2 })).toBeNull();
+  });
+
+  test('summarizes everything except the recent tail', () => {
+    const range = planSummaryRange(makeMessages(6), null, { trigger: 6, tail: 2 });
+    expect(range?.messages.map((m) => m.id)).toEqual(['m1', 'm2', 'm3', 'm4']);
+    expect(range).toEqual(expect.objectContaining({ startMessageId: 'm1', endMessageId: 'm4' }));
+  });
+
+  test('rolls forward from the previous summary and keeps its start', () => {
+    const previous = { content: 'Earlier summary', startMessageId: 'm1', endMessageId: 'm4' };
+
+    expect(planSummaryRange(makeMessages(9), previous, { trigger: 6, tail: 2 })).toBeNull();
+
+    const range = planSummaryRange(makeMessages(10), previous, { trigger: 6, tail: 2 });
+    expect(range?.messages.map((m) => m.id)).toEqual(['m5', 'm6', 'm7', 'm8']);
+    expect(range).toEqual(expect.objectContaining({ startMessageId: 'm1', endMessageId: 'm8' }));
+  });
+
+  test('folds the previous summary into the summarization prompt', () => {
+    const prompt = buildSummaryPrompt('Founder is raising a seed round', [
+      { id: 'm5', sender: 'advisor', content: 'Talk to customers.', speaker: 'Alex Reyes' },
+    ]);
+    expect(prompt[1]?.content).toContain('Founder is raising a seed round');
+    expect(prompt[1]?.content).toContain('**Alex Reyes**: Talk to customers.');
+  });
+});
+
+describe('selectBranchSummary', () => {
+  test('skips a newer summary that ends on another branch', () => {
+    // m1..m4 are shared; the fork's branch continues m5b..m6b while the summaries were written on m5..m8
+    const path = [...makeMessages(4), { id: 'm5b' }, { id: 'm6b' }];
+    const onOtherBranch = { content: 'Covers m1-m8', startMessageId: 'm1', endMessageId: 'm8' };
+    const onSharedStart = { content: 'Covers m1-m4', startMessageId: 'm1', endMessageId: 'm4' };
+
+    expect(selectBranchSummary([onOtherBranch, onSharedStart], path)).toEqual({ summary: onSharedStart, endIndex: 3 });
+    expect(selectBranchSummary([onOtherBranch], path)).toEqual({ summary: null, endIndex: -1 });
+  });
+
+  test('uses the newest summary when it ends on the branch', () => {
+    const latest = { content: 'Covers m1-m4', endMessageId: 'm4' };
+    expect(selectBranchSummary([latest], makeMessages(6))).toEqual({ summary: latest, endIndex: 3 });
+    expect(selectBranchSummary([], makeMessages(6))).toEqual({ summary: null, endIndex: -1 });
+  });
+});
+
+describe('generateConversationContext with a thread summary', () => {
+  const messages = makeMessages(6).map((m, i) => ({
+    ...m,
+    conversationId: 'conv',
+    advisorId: null,
+    advisor: null,
+    contentJson: null,
+    mentions: [],
+    tokensUsed: null,
+    createdAt: new Date(2025, 0, 1, 0, i),
+  })) as unknown as ContextMessages;
+
+  test('injects the summary plus only the messages after it', () => {
+    const context = generateConversationContext(messages, 4000, {
+      content: 'Founder wants to raise a seed round.',
+      endMessageId: 'm4',
+    });
+
+    expect(context.startsWith('## Summary of Earlier Conversation\nFounder wants to raise a seed round.')).toBe(true);
+    expect(context).toContain('message 5');
+    expect(context).toContain('message 6');
+    expect(context).not.toContain('message 4');
+  });
+
+  test('keeps the full history when there is no summary', () => {
+    const context = generateConversationContext(messages);
+    expect(context.startsWith('## Conversation History')).toBe(true);
+    expect(context).toContain('message 1');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import {
+  PLAN_QUOTAS,
+  QuotaExceededError,
+  checkQuota,
+  quotaPeriodStarts,
+  quotaPlanFor,
+  quotaResetsAt,
+  sumUsage,
+} from '@/server/llm/quotas';
+
+const now = Date.UTC(2026, 9, 19, 15, 30);
+const hour = 60 * 60 * 1000;
+
+describe('usage quotas', () => {
+  test('plans and model tiers map onto quota plans', () => {
+    expect(quotaPlanFor('pro')).toBe('pro');
+    expect(quotaPlanFor('base')).toBe('pro');
+    expect(quotaPlanFor('premium')).toBe('enterprise');
+    expect(quotaPlanFor(undefined)).toBe('free');
+    expect(quotaPlanFor('legacy')).toBe('free');
+  });
+
+  test('periods are UTC days and months', () => {
+    expect(quotaPeriodStarts(now)).toEqual({ daily: Date.UTC(2026, 9, 19), monthly: Date.UTC(2026, 9, 1) });
+    expect(quotaResetsAt('daily', now)).toBe(Date.UTC(2026, 9, 20));
+    expect(quotaResetsAt('monthly', Date.UTC(2026, 11, 31, 23))).toBe(Date.UTC(2027, 0, 1));
+  });
+
+  test('the ledger is summed for today and this month', () => {
+    const usage = sumUsage([
+      { messages: 1, tokens: 0, createdAt: now - hour },
+      { messages: 0, tokens: 900, createdAt: now - hour },
+      { messages: 1, tokens: 300, createdAt: now - 2 * 24 * hour },
+      { messages: 5, tokens: 5000, createdAt: Date.UTC(2026, 8, 30, 23) }, // last month
+    ], now);
+    expect(usage).toEqual({ daily: { messages: 1, tokens: 900 }, monthly: { messages: 2, tokens: 1200 } });
+  });
+
+  test('a quota is reached once usage meets it', () => {
+    const limits = PLAN_QUOTAS.free;
+    const under = checkQuota('free', {
+      daily: { messages: limits.daily.messages - 1, tokens: 0 },
+      monthly: { messages: limits.daily.messages - 1, tokens: 0 },
+    }, now);
+    expect(under.exceeded).toBeNull();
+    expect(under.meters).toHaveLength(4);
+
+    const over = checkQuota('free', {
+      daily: { messages: 3, tokens: limits.daily.tokens + 10 },
+      monthly: { messages: 3, tokens: limits.daily.tokens + 10 },
+    }, now);
+    expect(over.exceeded).toEqual(expect.objectContaining({ period: 'daily', kind: 'tokens', fraction: 1, resetsAt: Date.UTC(2026, 9, 20) }));
+
+    // The same usage is well within the pro plan
+    expect(checkQuota('pro', { daily: { messages: 3, tokens: limits.daily.tokens + 10 }, monthly: { messages: 3, tokens: 0 } }, now).exceeded).toBeNull();
+
+    const error = new QuotaExceededError(over.exceeded!, over.plan);
+    expect(error.name).toBe('QuotaExceededError');
+    expect(error.message).toBe('Daily token quota reached (50,000 on the free plan). It resets at 2026-10-20T00:00:00.000Z.');
+  });
+});